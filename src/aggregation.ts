@@ -0,0 +1,167 @@
+/**
+ * Time-bucket aggregation of daily GAP results
+ *
+ * Groups daily results into calendar periods and aggregates each attribute:
+ * - week: ISO weeks (Monday to Sunday), keyed "2026-W43"
+ * - dekad: days 1-10, 11-20 and 21 to month end, keyed "2026-10-D2"
+ * - month: calendar months, keyed "2026-10"
+ *
+ * Accumulated attributes (rainfall and its anomaly) get a period total as
+ * well as a daily mean; all other attributes get the daily mean. Periods
+ * cut off by the start or end of the data are flagged as incomplete.
+ *
+ * @module aggregation
+ */
+
+import type { GAPMeasurementResult } from './gap-client.js';
+import { addDays, daysBetween, formatDate, parseDate } from './date-utils.js';
+
+export type AggregationPeriod = 'week' | 'dekad' | 'month';
+
+/**
+ * GAP attributes summed over a period (in addition to the daily mean)
+ */
+export const ACCUMULATED_ATTRIBUTES = new Set(['precipitation', 'precipitation_anom']);
+
+/**
+ * Calendar bounds of the period containing a date
+ */
+export interface PeriodBounds {
+  key: string;
+  start: string;
+  end: string;
+}
+
+/**
+ * Items of one period
+ */
+export interface PeriodBucket<T> extends PeriodBounds {
+  items: T[];
+}
+
+/**
+ * Aggregated GAP result for one period
+ */
+export interface GAPPeriodResult {
+  /** Period key, e.g. "2026-W43", "2026-10-D2", "2026-10" */
+  period: string;
+
+  /** First and last calendar day of the period (YYYY-MM-DD) */
+  start_date: string;
+  end_date: string;
+
+  /** Days with data in the period */
+  days: number;
+
+  /** Calendar days in the period */
+  period_days: number;
+
+  /** Every calendar day of the period has data */
+  complete: boolean;
+
+  lat: number;
+  lon: number;
+
+  /** Period totals of accumulated attributes (GAP units) */
+  totals: Record<string, number>;
+
+  /** Daily means of every numeric attribute (GAP units) */
+  means: Record<string, number>;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Last day of a date's month
+ */
+function monthEnd(year: number, month: number): string {
+  return formatDate(new Date(Date.UTC(year, month + 1, 0)));
+}
+
+/**
+ * Period containing a date
+ */
+export function periodOf(date: string, period: AggregationPeriod): PeriodBounds {
+  const day = parseDate(date);
+  const year = day.getUTCFullYear();
+  const month = day.getUTCMonth();
+  const monthKey = `${year}-${pad(month + 1)}`;
+
+  switch (period) {
+    case 'week': {
+      // ISO week: Monday start; the week belongs to the year of its Thursday
+      const weekday = (day.getUTCDay() + 6) % 7;
+      const start = addDays(date, -weekday);
+      const thursday = parseDate(addDays(start, 3));
+      const isoYear = thursday.getUTCFullYear();
+      const week = Math.floor(daysBetween(`${isoYear}-01-01`, formatDate(thursday)) / 7) + 1;
+      return { key: `${isoYear}-W${pad(week)}`, start, end: addDays(start, 6) };
+    }
+    case 'dekad': {
+      const dekad = Math.min(3, Math.floor((day.getUTCDate() - 1) / 10) + 1);
+      const start = `${monthKey}-${pad((dekad - 1) * 10 + 1)}`;
+      const end = dekad === 3 ? monthEnd(year, month) : `${monthKey}-${pad(dekad * 10)}`;
+      return { key: `${monthKey}-D${dekad}`, start, end };
+    }
+    case 'month':
+      return { key: monthKey, start: `${monthKey}-01`, end: monthEnd(year, month) };
+  }
+}
+
+/**
+ * Group dated items into periods, in date order
+ */
+export function groupByPeriod<T extends { date: string }>(items: T[], period: AggregationPeriod): PeriodBucket<T>[] {
+  const buckets = new Map<string, PeriodBucket<T>>();
+  [...items]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(item => {
+      const bounds = periodOf(item.date, period);
+      if (!buckets.has(bounds.key)) {
+        buckets.set(bounds.key, { ...bounds, items: [] });
+      }
+      buckets.get(bounds.key)!.items.push(item);
+    });
+  return Array.from(buckets.values());
+}
+
+/**
+ * Aggregate daily GAP results (one location) into periods
+ */
+export function aggregateMeasurements(results: GAPMeasurementResult[], period: AggregationPeriod): GAPPeriodResult[] {
+  return groupByPeriod(results, period).map(bucket => {
+    const totals: Record<string, number> = {};
+    const means: Record<string, number> = {};
+
+    const attributes = new Set<string>();
+    bucket.items.forEach(day => Object.keys(day).forEach(key => {
+      if (typeof day[key] === 'number' && key !== 'lat' && key !== 'lon') attributes.add(key);
+    }));
+
+    attributes.forEach(attr => {
+      const values = bucket.items
+        .map(day => day[attr])
+        .filter((value): value is number => typeof value === 'number' && !isNaN(value));
+      if (values.length === 0) return;
+      const sum = values.reduce((total, value) => total + value, 0);
+      means[attr] = sum / values.length;
+      if (ACCUMULATED_ATTRIBUTES.has(attr)) {
+        totals[attr] = sum;
+      }
+    });
+
+    const periodDays = daysBetween(bucket.start, bucket.end) + 1;
+    return {
+      period: bucket.key,
+      start_date: bucket.start,
+      end_date: bucket.end,
+      days: bucket.items.length,
+      period_days: periodDays,
+      complete: bucket.items.length >= periodDays,
+      lat: bucket.items[0].lat,
+      lon: bucket.items[0].lon,
+      totals,
+      means
+    };
+  });
+}
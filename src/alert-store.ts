@@ -0,0 +1,262 @@
+/**
+ * Persistent alert rules and delivery log
+ *
+ * Stores weather alert subscriptions (where, what condition, which webhook)
+ * and the events already delivered for each rule, so the scheduler never
+ * sends the same event twice.
+ *
+ * Key Features:
+ * - Single JSON file, written atomically (temp file + rename)
+ * - Writes serialized within the process so the scheduler and tool calls don't clobber each other
+ * - A signing secret per rule, generated on creation
+ * - Rules optionally scoped to an owner/client id
+ *
+ * @module alert-store
+ */
+
+import { randomBytes, randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { AlertCondition, AlertPresetId } from './data/alert-presets.js';
+import { today } from './date-utils.js';
+
+/** Days a delivered event is remembered for de-duplication */
+const DELIVERY_LOG_DAYS = 60;
+
+/**
+ * A weather alert subscription
+ */
+export interface AlertRule extends AlertCondition {
+  /** Stable identifier used by the tools (alert_id) */
+  id: string;
+
+  /** Display name, e.g. "Heavy rain at Kitale plot" */
+  name: string;
+
+  /** Preset the condition came from, if any */
+  preset?: AlertPresetId;
+
+  latitude: number;
+  longitude: number;
+
+  /** Registered farm the rule was created for */
+  farm_id?: string;
+
+  /** Where triggered alerts are POSTed */
+  webhook_url: string;
+
+  /** HMAC-SHA256 key for the X-GAP-Signature header */
+  secret: string;
+
+  /** Owner or client application the rule belongs to */
+  owner_id?: string;
+
+  /** ISO 8601 creation time */
+  created_at: string;
+
+  /** ISO 8601 time of the last evaluation */
+  last_evaluated_at?: string;
+
+  /** ISO 8601 time of the last delivered alert */
+  last_triggered_at?: string;
+}
+
+/** Fields accepted when creating a rule */
+export type AlertRuleInput = Omit<AlertRule, 'id' | 'secret' | 'created_at' | 'last_evaluated_at' | 'last_triggered_at'>;
+
+/** A rule as shown to tool callers (without its secret) */
+export type PublicAlertRule = Omit<AlertRule, 'secret'>;
+
+/**
+ * An event delivered for a rule
+ */
+export interface DeliveredEvent {
+  event_id: string;
+  rule_id: string;
+  /** First and last forecast day of the event */
+  start: string;
+  end: string;
+  delivered_at: string;
+}
+
+/**
+ * Raised when an alert id is not in the store
+ */
+export class AlertRuleNotFoundError extends Error {
+  constructor(readonly alertId: string) {
+    super(`Alert rule not found: ${alertId}`);
+    this.name = 'AlertRuleNotFoundError';
+  }
+}
+
+/**
+ * On-disk file format
+ */
+interface AlertFile {
+  version: 1;
+  rules: AlertRule[];
+  delivered: DeliveredEvent[];
+}
+
+/**
+ * A rule without its secret
+ */
+export function publicRule(rule: AlertRule): PublicAlertRule {
+  const { secret: _secret, ...rest } = rule;
+  return rest;
+}
+
+/**
+ * JSON-file backed alert rule store
+ *
+ * @example
+ * ```typescript
+ * const alerts = new AlertStore('.data/alerts.json');
+ * const rule = await alerts.create({ name: 'Frost at Molo', latitude: -0.25, longitude: 35.73, ... });
+ * ```
+ */
+export class AlertStore {
+  /** Loaded file contents (null until first use) */
+  private data: { rules: Map<string, AlertRule>; delivered: DeliveredEvent[] } | null = null;
+
+  /** Tail of the serialized operation queue */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param filePath - Location of the JSON file (created on first write)
+   */
+  constructor(private filePath: string) {}
+
+  /**
+   * Run an operation after all previously queued ones
+   */
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation, operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(): Promise<NonNullable<AlertStore['data']>> {
+    if (this.data) return this.data;
+
+    try {
+      const content = JSON.parse(await readFile(this.filePath, 'utf8')) as AlertFile;
+      this.data = {
+        rules: new Map((content.rules ?? []).map(rule => [rule.id, rule])),
+        delivered: content.delivered ?? []
+      };
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw new Error(`Failed to read alert rules ${this.filePath}: ${error.message}`);
+      }
+      this.data = { rules: new Map(), delivered: [] };
+    }
+    return this.data;
+  }
+
+  private async save(data: NonNullable<AlertStore['data']>): Promise<void> {
+    const content: AlertFile = { version: 1, rules: Array.from(data.rules.values()), delivered: data.delivered };
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(content, null, 2), 'utf8');
+    await rename(tempPath, this.filePath);
+  }
+
+  /**
+   * List rules, optionally only those of one owner
+   */
+  async list(ownerId?: string): Promise<AlertRule[]> {
+    return this.serialize(async () => {
+      const rules = Array.from((await this.load()).rules.values());
+      return ownerId ? rules.filter(rule => rule.owner_id === ownerId) : rules;
+    });
+  }
+
+  /**
+   * Get a rule by id
+   *
+   * @throws AlertRuleNotFoundError if the id is unknown
+   */
+  async get(id: string): Promise<AlertRule> {
+    return this.serialize(async () => {
+      const rule = (await this.load()).rules.get(id);
+      if (!rule) throw new AlertRuleNotFoundError(id);
+      return rule;
+    });
+  }
+
+  /**
+   * Create a rule with a new signing secret
+   */
+  async create(input: AlertRuleInput): Promise<AlertRule> {
+    return this.serialize(async () => {
+      const data = await this.load();
+      const rule: AlertRule = {
+        ...input,
+        id: randomUUID(),
+        secret: randomBytes(32).toString('hex'),
+        created_at: new Date().toISOString()
+      };
+      data.rules.set(rule.id, rule);
+      await this.save(data);
+      return rule;
+    });
+  }
+
+  /**
+   * Delete a rule and its delivery log
+   *
+   * @throws AlertRuleNotFoundError if the id is unknown
+   */
+  async delete(id: string): Promise<void> {
+    return this.serialize(async () => {
+      const data = await this.load();
+      if (!data.rules.delete(id)) throw new AlertRuleNotFoundError(id);
+      data.delivered = data.delivered.filter(event => event.rule_id !== id);
+      await this.save(data);
+    });
+  }
+
+  /**
+   * Whether an event overlapping these dates was already delivered for the rule
+   *
+   * Forecast events drift by a day between runs, so overlap (not the exact
+   * start date) identifies the same event.
+   */
+  async wasDelivered(ruleId: string, start: string, end: string): Promise<boolean> {
+    return this.serialize(async () => (await this.load()).delivered.some(event =>
+      event.rule_id === ruleId && event.start <= end && event.end >= start
+    ));
+  }
+
+  /**
+   * Record a delivered event
+   */
+  async markDelivered(event: Omit<DeliveredEvent, 'delivered_at'>): Promise<void> {
+    return this.serialize(async () => {
+      const data = await this.load();
+      const now = new Date().toISOString();
+      const oldest = today(-DELIVERY_LOG_DAYS);
+      data.delivered = data.delivered.filter(entry => entry.end >= oldest);
+      data.delivered.push({ ...event, delivered_at: now });
+      const rule = data.rules.get(event.rule_id);
+      if (rule) rule.last_triggered_at = now;
+      await this.save(data);
+    });
+  }
+
+  /**
+   * Record that rules were evaluated
+   */
+  async markEvaluated(ids: string[]): Promise<void> {
+    return this.serialize(async () => {
+      const data = await this.load();
+      const now = new Date().toISOString();
+      ids.forEach(id => {
+        const rule = data.rules.get(id);
+        if (rule) rule.last_evaluated_at = now;
+      });
+      await this.save(data);
+    });
+  }
+}
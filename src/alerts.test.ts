@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AlertRule } from './alert-store.js';
+import { describeCondition, evaluateRule } from './alerts.js';
+import { DailyWeather } from './weather-format.js';
+
+const rule: AlertRule = {
+  id: 'rule-1',
+  name: 'Heavy rain at Kitale',
+  attribute: 'precipitation',
+  operator: '>',
+  threshold: 50,
+  min_consecutive_days: 1,
+  lead_days: 7,
+  latitude: 1.0157,
+  longitude: 35.0062,
+  webhook_url: 'https://example.com/hook',
+  secret: 'secret',
+  created_at: '2026-10-01T00:00:00.000Z'
+};
+
+function forecast(rain: number[]): DailyWeather[] {
+  return rain.map((precipitation, i) => ({
+    date: new Date(Date.UTC(2026, 9, 19 + i)).toISOString().slice(0, 10),
+    max_temp: 25,
+    min_temp: 15,
+    precipitation,
+    humidity: 70,
+    wind_speed: 2,
+    solar_radiation: null
+  }));
+}
+
+describe('evaluateRule', () => {
+  it('reports each matching run as its own event', () => {
+    const events = evaluateRule(rule, forecast([60, 0, 0, 55, 70, 0, 0]), '2026-10-19');
+    assert.deepEqual(events.map(event => [event.event_id, event.days, event.peak_value]), [
+      ['rule-1:2026-10-19', 1, 60],
+      ['rule-1:2026-10-22', 2, 70]
+    ]);
+  });
+
+  it('requires the minimum run length and stays within the look-ahead window', () => {
+    const dry = { ...rule, operator: '<' as const, threshold: 1, min_consecutive_days: 3, lead_days: 5 };
+    const days = forecast([0, 0, 5, 0, 0, 0, 0]);
+    assert.deepEqual(evaluateRule(dry, days, '2026-10-19'), []);
+    const [event] = evaluateRule({ ...dry, lead_days: 7 }, days, '2026-10-19');
+    assert.deepEqual([event.start, event.end, event.days], ['2026-10-22', '2026-10-25', 4]);
+  });
+
+  it('skips days before asOf', () => {
+    assert.deepEqual(evaluateRule(rule, forecast([60, 0]), '2026-10-20'), []);
+  });
+});
+
+describe('describeCondition', () => {
+  it('reads as a sentence', () => {
+    assert.equal(describeCondition(rule), 'precipitation > 50 mm on 1 day within the next 7 days');
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Weather alert evaluation and scheduling
+ *
+ * A rule triggers when its daily condition holds on enough consecutive
+ * forecast days within its look-ahead window; each such run of days is an
+ * event. The scheduler re-evaluates every rule periodically with
+ * GAPClient.getForecast (one request per location), POSTs new events to the
+ * rule's webhook and records them so the same event is not sent again on
+ * the next run.
+ *
+ * @module alerts
+ */
+
+import { AlertRule, AlertStore } from './alert-store.js';
+import { ALERT_UNITS, AlertCondition } from './data/alert-presets.js';
+import { today } from './date-utils.js';
+import type { ThresholdOperator } from './ensemble.js';
+import type { GAPClient } from './gap-client.js';
+import { DailyWeather, formatDailyWeather } from './weather-format.js';
+import { deliverWebhook, WebhookDelivery } from './webhooks.js';
+
+/**
+ * A forecast event that matches a rule
+ */
+export interface AlertEvent {
+  /** Rule id and first day, e.g. "<rule id>:2026-10-21" */
+  event_id: string;
+  start: string;
+  end: string;
+  days: number;
+  /** Most extreme forecast value of the event, in the direction of the condition */
+  peak_value: number;
+  peak_date: string;
+  values: Array<{ date: string; value: number }>;
+  message: string;
+}
+
+/**
+ * JSON body POSTed to the webhook
+ */
+export interface AlertPayload {
+  type: 'alert.triggered' | 'alert.test';
+  event_id: string;
+  sent_at: string;
+  rule: {
+    id: string;
+    name: string;
+    preset: string | null;
+    farm_id: string | null;
+    latitude: number;
+    longitude: number;
+    condition: AlertCondition;
+  };
+  /** The matching event (null for a test with no event in the forecast) */
+  event: AlertEvent | null;
+  message: string;
+}
+
+/**
+ * What a scheduler run did
+ */
+export interface AlertRunResult {
+  rules: number;
+  triggered: number;
+  delivered: number;
+  failed: number;
+}
+
+function compare(value: number, operator: ThresholdOperator, threshold: number): boolean {
+  switch (operator) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+  }
+}
+
+/**
+ * Plain-language condition, e.g. "precipitation > 50 mm on 1 day within the next 3 days"
+ */
+export function describeCondition(condition: AlertCondition): string {
+  const days = condition.min_consecutive_days === 1 ? '1 day' : `${condition.min_consecutive_days} consecutive days`;
+  return `${condition.attribute} ${condition.operator} ${condition.threshold} ${ALERT_UNITS[condition.attribute]} on ${days} within the next ${condition.lead_days} days`;
+}
+
+/**
+ * Every run of days in the look-ahead window that meets the rule
+ *
+ * Separate runs are separate events, so a second dry spell or heavy-rain
+ * day later in the window is reported as soon as it is forecast.
+ *
+ * @param forecast - Daily forecast from today onwards
+ * @returns The events in date order (empty when the condition is not met)
+ */
+export function evaluateRule(rule: AlertRule, forecast: DailyWeather[], asOf: string = today()): AlertEvent[] {
+  const window = forecast.filter(day => day.date >= asOf).slice(0, rule.lead_days);
+  const events: AlertEvent[] = [];
+
+  let run: Array<{ date: string; value: number }> = [];
+  for (let i = 0; i <= window.length; i++) {
+    const value = i < window.length ? window[i][rule.attribute] : null;
+    if (value !== null && compare(value, rule.operator, rule.threshold)) {
+      run.push({ date: window[i].date, value });
+      continue;
+    }
+    if (run.length > 0 && run.length >= rule.min_consecutive_days) events.push(buildEvent(rule, run));
+    run = [];
+  }
+  return events;
+}
+
+/**
+ * Event for one matching run of days
+ */
+function buildEvent(rule: AlertRule, run: Array<{ date: string; value: number }>): AlertEvent {
+  const lower = rule.operator === '<' || rule.operator === '<=';
+  const peak = run.reduce((best, day) => (lower ? day.value < best.value : day.value > best.value) ? day : best);
+  const unit = ALERT_UNITS[rule.attribute];
+  const start = run[0].date;
+  const end = run[run.length - 1].date;
+  const when = start === end ? `on ${start}` : `from ${start} to ${end}`;
+
+  return {
+    event_id: `${rule.id}:${start}`,
+    start,
+    end,
+    days: run.length,
+    peak_value: peak.value,
+    peak_date: peak.date,
+    values: run,
+    message: `${rule.name}: ${rule.attribute} ${rule.operator} ${rule.threshold} ${unit} forecast ${when} (${lower ? 'lowest' : 'highest'} ${peak.value} ${unit} on ${peak.date}).`
+  };
+}
+
+/**
+ * Webhook body for a rule and event
+ */
+export function buildAlertPayload(rule: AlertRule, event: AlertEvent | null, type: AlertPayload['type'], eventId: string): AlertPayload {
+  return {
+    type,
+    event_id: eventId,
+    sent_at: new Date().toISOString(),
+    rule: {
+      id: rule.id,
+      name: rule.name,
+      preset: rule.preset ?? null,
+      farm_id: rule.farm_id ?? null,
+      latitude: rule.latitude,
+      longitude: rule.longitude,
+      condition: {
+        attribute: rule.attribute,
+        operator: rule.operator,
+        threshold: rule.threshold,
+        min_consecutive_days: rule.min_consecutive_days,
+        lead_days: rule.lead_days
+      }
+    },
+    event,
+    message: event
+      ? event.message
+      : `Test alert for ${rule.name}: ${describeCondition(rule)}. The condition is not met in the current forecast.`
+  };
+}
+
+/**
+ * Deliver a rule's event to its webhook
+ */
+export function sendAlert(rule: AlertRule, payload: AlertPayload): Promise<WebhookDelivery> {
+  return deliverWebhook(rule.webhook_url, payload.event_id, payload, rule.secret);
+}
+
+/**
+ * Re-evaluates alert rules on an interval
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new AlertScheduler(alertStore, gapClient);
+ * scheduler.start(60 * 60 * 1000);
+ * ```
+ */
+export class AlertScheduler {
+  /** Interval timer (undefined when stopped) */
+  private timer?: NodeJS.Timeout;
+
+  /** Whether a run is in progress (runs never overlap) */
+  private running = false;
+
+  constructor(private store: AlertStore, private gapClient: GAPClient) {}
+
+  /**
+   * Run every `intervalMs` (does not keep the process alive)
+   */
+  start(intervalMs: number): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => console.error('[Alerts] Run failed:', error));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Evaluate every rule once and deliver new events
+   */
+  async runOnce(): Promise<AlertRunResult> {
+    const result: AlertRunResult = { rules: 0, triggered: 0, delivered: 0, failed: 0 };
+    if (this.running) return result;
+    this.running = true;
+
+    try {
+      const rules = await this.store.list();
+      result.rules = rules.length;
+
+      // One forecast per location, long enough for its longest look-ahead
+      const byLocation = new Map<string, AlertRule[]>();
+      rules.forEach(rule => {
+        const key = `${rule.latitude.toFixed(4)},${rule.longitude.toFixed(4)}`;
+        byLocation.set(key, [...(byLocation.get(key) ?? []), rule]);
+      });
+
+      for (const group of byLocation.values()) {
+        const { latitude, longitude } = group[0];
+        let forecast: DailyWeather[];
+        try {
+          const data = await this.gapClient.getForecast(latitude, longitude, Math.max(...group.map(rule => rule.lead_days)));
+          forecast = formatDailyWeather(data.results);
+        } catch (error: any) {
+          console.warn(`[Alerts] No forecast for ${latitude}, ${longitude}: ${error.message}`);
+          result.failed += group.length;
+          continue;
+        }
+
+        for (const rule of group) {
+          // Each event is deduplicated on its own dates
+          for (const event of evaluateRule(rule, forecast)) {
+            result.triggered++;
+            if (await this.store.wasDelivered(rule.id, event.start, event.end)) continue;
+
+            try {
+              await sendAlert(rule, buildAlertPayload(rule, event, 'alert.triggered', event.event_id));
+              await this.store.markDelivered({ event_id: event.event_id, rule_id: rule.id, start: event.start, end: event.end });
+              result.delivered++;
+            } catch (error: any) {
+              // Not recorded, so the next run tries again
+              console.warn(`[Alerts] ${error.message}`);
+              result.failed++;
+            }
+          }
+        }
+        await this.store.markEvaluated(group.map(rule => rule.id));
+      }
+
+      if (result.rules > 0) {
+        console.log(`[Alerts] Evaluated ${result.rules} rule(s): ${result.triggered} triggered, ${result.delivered} delivered, ${result.failed} failed`);
+      }
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Anomaly labelling for the farming forecast
+ *
+ * The seasonal forecast product returns `*_anom` attributes: the forecast
+ * value minus the local climatological normal, in the attribute's own units.
+ * This module turns those deviations into plain-language labels per day and
+ * a verdict for the whole period.
+ *
+ * @module anomalies
+ */
+
+import { GAPMeasurementResult } from './gap-client.js';
+import { toNumber, buildAverage, formatEnsemble, DailyEnsemble } from './weather-format.js';
+
+/** Temperature deviation (°C) treated as "near normal" */
+const TEMPERATURE_TOLERANCE_C = 0.5;
+
+/** Rainfall deviation (percent of normal) treated as "near normal" */
+const RAINFALL_TOLERANCE_PCT = 10;
+
+/** Humidity deviation (percentage points) treated as "near normal" */
+const HUMIDITY_TOLERANCE_PCT = 5;
+
+/**
+ * Normal daily rainfall (mm) below which a percentage comparison is
+ * meaningless (e.g. 2 mm against a 0.1 mm normal in the dry season)
+ */
+const MIN_NORMAL_RAINFALL_MM = 0.5;
+
+/**
+ * One day of the farming forecast with the full attribute set
+ */
+export interface FarmingForecastDay {
+  date: string;
+  max_temp: number | null;
+  max_temp_anomaly: number | null;
+  min_temp: number | null;
+  min_temp_anomaly: number | null;
+  precipitation: number | null;
+  precipitation_anomaly: number | null;
+  /** Rainfall deviation as percent of normal (null when normal is ~0) */
+  precipitation_anomaly_pct: number | null;
+  humidity: number | null;
+  humidity_anomaly: number | null;
+  solar_radiation: number | null;
+  wind_speed: number | null;
+  /** Plain-language anomaly labels, e.g. "2.3 °C warmer than normal" */
+  anomalies: string[];
+  /** Ensemble spread and probabilities (only when requested) */
+  ensemble?: DailyEnsemble;
+}
+
+/**
+ * Period-level comparison with normal
+ */
+export interface AnomalyVerdict {
+  /** e.g. "wetter and warmer than normal week" */
+  verdict: string;
+  rainfall: 'wetter' | 'drier' | 'near normal' | 'unknown';
+  temperature: 'warmer' | 'cooler' | 'near normal' | 'unknown';
+  total_precipitation: number | null;
+  normal_precipitation: number | null;
+  precipitation_anomaly_pct: number | null;
+  avg_max_temp_anomaly: number | null;
+  avg_min_temp_anomaly: number | null;
+}
+
+/**
+ * Rainfall deviation as percent of normal, or null if normal is too small
+ */
+function rainfallPercent(precipitation: number | null, anomaly: number | null): number | null {
+  if (precipitation === null || anomaly === null) return null;
+  const normal = precipitation - anomaly;
+  if (normal < MIN_NORMAL_RAINFALL_MM) return null;
+  return Number(((anomaly / normal) * 100).toFixed(0));
+}
+
+/**
+ * Describe a temperature deviation, or null when within tolerance
+ */
+function temperatureLabel(anomaly: number | null, what: string): string | null {
+  if (anomaly === null || Math.abs(anomaly) < TEMPERATURE_TOLERANCE_C) return null;
+  const direction = anomaly > 0 ? 'warmer' : 'cooler';
+  return `${what} ${Math.abs(anomaly).toFixed(1)} °C ${direction} than normal`;
+}
+
+/**
+ * Build the per-day labels for one forecast day
+ */
+function labelDay(day: Omit<FarmingForecastDay, 'anomalies' | 'ensemble'>): string[] {
+  const labels: string[] = [];
+
+  const maxLabel = temperatureLabel(day.max_temp_anomaly, 'daytime');
+  if (maxLabel) labels.push(maxLabel);
+  const minLabel = temperatureLabel(day.min_temp_anomaly, 'night-time');
+  if (minLabel) labels.push(minLabel);
+
+  if (day.precipitation_anomaly_pct !== null) {
+    if (Math.abs(day.precipitation_anomaly_pct) >= RAINFALL_TOLERANCE_PCT) {
+      const direction = day.precipitation_anomaly_pct > 0 ? 'above' : 'below';
+      labels.push(`rainfall ${Math.abs(day.precipitation_anomaly_pct)}% ${direction} normal`);
+    }
+  } else if (day.precipitation_anomaly !== null && Math.abs(day.precipitation_anomaly) >= 1) {
+    // Normal is ~0 mm, so report the absolute difference instead
+    const direction = day.precipitation_anomaly > 0 ? 'more' : 'less';
+    labels.push(`${Math.abs(day.precipitation_anomaly).toFixed(1)} mm ${direction} rain than normal`);
+  }
+
+  if (day.humidity_anomaly !== null && Math.abs(day.humidity_anomaly) >= HUMIDITY_TOLERANCE_PCT) {
+    const direction = day.humidity_anomaly > 0 ? 'more humid' : 'drier air';
+    labels.push(`${direction} than normal (${Math.abs(day.humidity_anomaly).toFixed(0)} points)`);
+  }
+
+  return labels;
+}
+
+/**
+ * Map farming forecast results to days with anomaly labels
+ */
+export function formatFarmingForecast(results: GAPMeasurementResult[]): FarmingForecastDay[] {
+  return results.map((day) => {
+    const precipitation = toNumber(day.precipitation);
+    const precipitationAnomaly = toNumber(day.precipitation_anom);
+    const formatted = {
+      date: day.date,
+      max_temp: toNumber(day.max_temperature),
+      max_temp_anomaly: toNumber(day.max_temperature_anom),
+      min_temp: toNumber(day.min_temperature),
+      min_temp_anomaly: toNumber(day.min_temperature_anom),
+      precipitation,
+      precipitation_anomaly: precipitationAnomaly,
+      precipitation_anomaly_pct: rainfallPercent(precipitation, precipitationAnomaly),
+      humidity: toNumber(day.relative_humidity, 100),
+      humidity_anomaly: toNumber(day.relative_humidity_anom, 100),
+      solar_radiation: toNumber(day.solar_radiation),
+      wind_speed: toNumber(day.wind_speed)
+    };
+    return {
+      ...formatted,
+      anomalies: labelDay(formatted),
+      ...(day.ensemble ? { ensemble: formatEnsemble(day.ensemble) } : {})
+    };
+  });
+}
+
+/**
+ * Name a period by its length ("week", "fortnight", ...)
+ */
+function periodName(days: number): string {
+  if (days <= 1) return 'day';
+  if (days <= 7) return 'week';
+  if (days <= 14) return 'fortnight';
+  return 'period';
+}
+
+/**
+ * Compare the whole period with normal and produce a one-line verdict
+ *
+ * @param days - Days of the period
+ * @param name - Name for the period in the verdict (default: from its length, e.g. "week")
+ */
+export function buildAnomalyVerdict(days: FarmingForecastDay[], name: string = periodName(days.length)): AnomalyVerdict {
+  const rainyDays = days.filter(d => d.precipitation !== null && d.precipitation_anomaly !== null);
+  const totalPrecipitation = buildAverage(rainyDays.map(d => d.precipitation), true);
+  const totalAnomaly = buildAverage(rainyDays.map(d => d.precipitation_anomaly), true);
+  const normalPrecipitation = totalPrecipitation !== null && totalAnomaly !== null
+    ? Number(Math.max(0, totalPrecipitation - totalAnomaly).toFixed(1))
+    : null;
+  const precipitationPct = totalPrecipitation !== null && totalAnomaly !== null
+    ? rainfallPercent(totalPrecipitation, totalAnomaly)
+    : null;
+
+  let rainfall: AnomalyVerdict['rainfall'] = 'unknown';
+  if (precipitationPct !== null) {
+    rainfall = Math.abs(precipitationPct) < RAINFALL_TOLERANCE_PCT
+      ? 'near normal'
+      : precipitationPct > 0 ? 'wetter' : 'drier';
+  } else if (totalAnomaly !== null) {
+    rainfall = Math.abs(totalAnomaly) < 1 ? 'near normal' : totalAnomaly > 0 ? 'wetter' : 'drier';
+  }
+
+  const avgMaxAnomaly = buildAverage(days.map(d => d.max_temp_anomaly));
+  const avgMinAnomaly = buildAverage(days.map(d => d.min_temp_anomaly));
+  const meanAnomaly = buildAverage([avgMaxAnomaly, avgMinAnomaly]);
+
+  let temperature: AnomalyVerdict['temperature'] = 'unknown';
+  if (meanAnomaly !== null) {
+    temperature = Math.abs(meanAnomaly) < TEMPERATURE_TOLERANCE_C
+      ? 'near normal'
+      : meanAnomaly > 0 ? 'warmer' : 'cooler';
+  }
+
+  const departures = [rainfall, temperature].filter(v => v !== 'near normal' && v !== 'unknown');
+  let verdict: string;
+  if (rainfall === 'unknown' && temperature === 'unknown') {
+    verdict = `no anomaly data available for this ${name}`;
+  } else if (departures.length === 0) {
+    verdict = `near-normal ${name}`;
+  } else {
+    verdict = `${departures.join(' and ')} than normal ${name}`;
+  }
+
+  return {
+    verdict,
+    rainfall,
+    temperature,
+    total_precipitation: totalPrecipitation,
+    normal_precipitation: normalPrecipitation,
+    precipitation_anomaly_pct: precipitationPct,
+    avg_max_temp_anomaly: avgMaxAnomaly,
+    avg_min_temp_anomaly: avgMinAnomaly
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Batch forecasts for many farms at once
+ *
+ * Cooperatives ask for the forecast of all member farms in one go. This
+ * module runs per-location requests with bounded concurrency (so we don't
+ * hammer GAP with 50 simultaneous calls) and compares the locations.
+ *
+ * @module batch
+ */
+
+import { buildAverage } from './weather-format.js';
+
+/**
+ * Run an async function over items with at most `limit` in flight
+ * Results keep the order of the input items.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Minimal per-location figures needed for the cross-location summary
+ */
+export interface BatchLocationTotals {
+  name: string;
+  total_precipitation: number | null;
+  avg_max_temp: number | null;
+}
+
+/**
+ * A location and the value it is ranked on
+ */
+export interface RankedLocation {
+  name: string;
+  value: number;
+}
+
+/**
+ * Comparison across all successfully fetched locations
+ */
+export interface BatchSummary {
+  locations_requested: number;
+  locations_succeeded: number;
+  locations_failed: number;
+  wettest: RankedLocation | null;
+  driest: RankedLocation | null;
+  hottest: RankedLocation | null;
+  coolest: RankedLocation | null;
+  /** Spread of total rainfall across locations (mm) */
+  precipitation_spread: {
+    min: number;
+    max: number;
+    mean: number;
+    range: number;
+    std_dev: number;
+  } | null;
+}
+
+/**
+ * Rank locations by a field, skipping those without a value
+ */
+function rank(locations: BatchLocationTotals[], field: 'total_precipitation' | 'avg_max_temp'): RankedLocation[] {
+  return locations
+    .filter(l => l[field] !== null)
+    .map(l => ({ name: l.name, value: l[field] as number }))
+    .sort((a, b) => b.value - a.value);
+}
+
+/**
+ * Build the cross-location summary
+ *
+ * @param requested - Number of locations in the request
+ * @param succeeded - Totals of locations that returned data
+ */
+export function buildBatchSummary(requested: number, succeeded: BatchLocationTotals[]): BatchSummary {
+  const byRain = rank(succeeded, 'total_precipitation');
+  const byHeat = rank(succeeded, 'avg_max_temp');
+
+  let spread: BatchSummary['precipitation_spread'] = null;
+  if (byRain.length > 0) {
+    const values = byRain.map(l => l.value);
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    spread = {
+      min,
+      max,
+      mean: buildAverage(values) as number,
+      range: Number((max - min).toFixed(1)),
+      std_dev: Number(Math.sqrt(variance).toFixed(1))
+    };
+  }
+
+  return {
+    locations_requested: requested,
+    locations_succeeded: succeeded.length,
+    locations_failed: requested - succeeded.length,
+    wettest: byRain[0] ?? null,
+    driest: byRain[byRain.length - 1] ?? null,
+    hottest: byHeat[0] ?? null,
+    coolest: byHeat[byHeat.length - 1] ?? null,
+    precipitation_spread: spread
+  };
+}
@@ -0,0 +1,148 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { CacheEntry, FileCacheStore, MeasurementCache, MemoryCacheStore } from './cache.js';
+import type { GAPMeasurementParams, GAPResponse } from './gap-client.js';
+
+const params: GAPMeasurementParams = {
+  lat: -1.2864,
+  lon: 36.8172,
+  start_date: '2026-10-19',
+  end_date: '2026-10-25',
+  product: 'salient_seasonal_forecast',
+  attributes: 'precipitation,max_temperature',
+  output_type: 'json'
+};
+
+function response(count: number): GAPResponse {
+  return {
+    results: [],
+    locations: [],
+    count,
+    next: null,
+    previous: null,
+    provenance: { product: 'salient_seasonal_forecast', retrieved_at: '2026-10-19T06:00:00.000Z', ensemble_size: 50 }
+  };
+}
+
+function entry(count: number, expiresAt = Date.now() + 60000): CacheEntry {
+  return { expiresAt, value: response(count) };
+}
+
+describe('MeasurementCache.keyFor', () => {
+  const cache = new MeasurementCache();
+
+  it('shares keys between points in the same grid cell', () => {
+    assert.equal(cache.keyFor(params), cache.keyFor({ ...params, lat: -1.29, lon: 36.82 }));
+    assert.notEqual(cache.keyFor(params), cache.keyFor({ ...params, lat: -1.6 }));
+  });
+
+  it('uses the finer grid of the historical product', () => {
+    const historical = { ...params, product: 'cbam_historical_analysis' as const };
+    assert.notEqual(cache.keyFor(historical), cache.keyFor({ ...historical, lat: -1.35 }));
+  });
+
+  it('ignores the order of attributes', () => {
+    assert.equal(cache.keyFor(params), cache.keyFor({ ...params, attributes: 'max_temperature, precipitation' }));
+  });
+
+  it('separates responses shaped by ensemble or aggregation options', () => {
+    const plain = cache.keyFor(params);
+    const ensemble = cache.keyFor(params, { ensemble: true });
+    const thresholds = cache.keyFor(params, { ensemble: true, thresholds: [{ attribute: 'precipitation', operator: '>', value: 5 }] });
+    const weekly = cache.keyFor(params, { aggregate: 'week' });
+    assert.equal(new Set([plain, ensemble, thresholds, weekly]).size, 4);
+    assert.equal(cache.keyFor(params, { signal: new AbortController().signal }), plain);
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  it('evicts the least recently used entry', async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set('a', entry(1));
+    await store.set('b', entry(2));
+    await store.get('a');
+    await store.set('c', entry(3));
+
+    assert.equal(await store.get('b'), undefined);
+    assert.equal((await store.get('a'))?.value.count, 1);
+    assert.equal((await store.get('c'))?.value.count, 3);
+    assert.equal(await store.size(), 2);
+    assert.equal(store.evictions, 1);
+  });
+});
+
+describe('FileCacheStore', () => {
+  it('keeps entries on disk within the size bound', async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'gap-cache-test-'));
+    try {
+      const store = new FileCacheStore(directory, 2);
+      await store.set('a', entry(1));
+      await store.set('b', entry(2));
+      await store.get('a');
+      await store.set('c', entry(3));
+
+      assert.equal(store.evictions, 1);
+      assert.equal((await readdir(directory)).length, 2);
+
+      const reopened = new FileCacheStore(directory, 2);
+      assert.equal(await reopened.get('b'), undefined);
+      assert.equal((await reopened.get('a'))?.value.count, 1);
+      assert.equal((await reopened.get('c'))?.value.count, 3);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('MeasurementCache.getOrFetch', () => {
+  it('serves repeated requests from the cache', async () => {
+    const cache = new MeasurementCache();
+    let calls = 0;
+    const fetcher = async () => response(++calls);
+
+    assert.equal((await cache.getOrFetch(params, {}, fetcher)).count, 1);
+    assert.equal((await cache.getOrFetch(params, {}, fetcher)).count, 1);
+    assert.equal(calls, 1);
+
+    const stats = await cache.stats();
+    assert.equal(stats.hits, 1);
+    assert.equal(stats.misses, 1);
+    assert.equal(stats.hit_rate, 0.5);
+  });
+
+  it('shares one upstream call between concurrent identical requests', async () => {
+    const cache = new MeasurementCache();
+    let calls = 0;
+    const fetcher = async () => {
+      calls++;
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return response(calls);
+    };
+
+    const results = await Promise.all([
+      cache.getOrFetch(params, {}, fetcher),
+      cache.getOrFetch(params, {}, fetcher)
+    ]);
+    assert.equal(calls, 1);
+    assert.equal(results[0], results[1]);
+    assert.equal((await cache.stats()).shared, 1);
+  });
+
+  it('fetches again once an entry has expired', async () => {
+    const store = new MemoryCacheStore();
+    const cache = new MeasurementCache({ store });
+    await store.set(cache.keyFor(params), entry(1, Date.now() - 1));
+
+    assert.equal((await cache.getOrFetch(params, {}, async () => response(2))).count, 2);
+  });
+
+  it('does not cache failed fetches', async () => {
+    const cache = new MeasurementCache();
+    await assert.rejects(cache.getOrFetch(params, {}, async () => { throw new Error('GAP down'); }), /GAP down/);
+    assert.equal((await cache.getOrFetch(params, {}, async () => response(1))).count, 1);
+    assert.equal((await cache.stats()).entries, 1);
+  });
+});
@@ -0,0 +1,354 @@
+/**
+ * Response cache for GAP measurement calls
+ *
+ * Farmers in the same village ask for the same forecast within minutes, and
+ * every MCP request builds a fresh server. This cache sits in front of
+ * GAPClient.getMeasurement so repeated questions don't each go to GAP.
+ *
+ * Key Features:
+ * - Keys built from product, attributes, date range and grid-rounded coordinates
+ * - Separate TTLs for forecast and historical products
+ * - Size-bounded stores with LRU eviction (memory or file-backed)
+ * - Concurrent identical requests share a single upstream call
+ * - Hit/miss counters for the /health endpoint
+ *
+ * @module cache
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { GAPMeasurementParams, GAPRequestOptions, GAPResponse } from './gap-client.js';
+
+/**
+ * A cached response with its expiry time
+ */
+export interface CacheEntry {
+  /** Epoch milliseconds after which the entry is stale */
+  expiresAt: number;
+  value: GAPResponse;
+}
+
+/**
+ * Pluggable storage backend for cached responses
+ *
+ * Stores own their size bound and evict least-recently-used entries.
+ */
+export interface CacheStore {
+  /** Human-readable store type, reported on /health */
+  readonly kind: string;
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Number of entries currently held */
+  size(): Promise<number>;
+  /** Number of entries evicted to respect the size bound */
+  readonly evictions: number;
+}
+
+/**
+ * In-process LRU store (lost on restart)
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly kind = 'memory';
+  evictions = 0;
+
+  /** Map iteration order doubles as recency order (oldest first) */
+  private entries = new Map<string, CacheEntry>();
+
+  /**
+   * @param maxEntries - Maximum number of cached responses
+   */
+  constructor(private maxEntries: number = 500) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Move to the most-recently-used end
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size;
+  }
+}
+
+/**
+ * File-backed LRU store (survives restarts)
+ *
+ * Each entry is one JSON file named by the hash of its key. Recency is
+ * tracked in memory and seeded from file modification times on first use.
+ */
+export class FileCacheStore implements CacheStore {
+  readonly kind = 'file';
+  evictions = 0;
+
+  /** Known entry files in recency order (oldest first), keyed by file name */
+  private index = new Map<string, true>();
+  private ready: Promise<void> | null = null;
+
+  /**
+   * @param directory - Directory to hold cache files (created if missing)
+   * @param maxEntries - Maximum number of cached responses
+   */
+  constructor(private directory: string, private maxEntries: number = 2000) {}
+
+  private fileFor(key: string): string {
+    return `${createHash('sha1').update(key).digest('hex')}.json`;
+  }
+
+  /**
+   * Create the directory and load existing entries, oldest first
+   */
+  private init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await mkdir(this.directory, { recursive: true });
+        const files = (await readdir(this.directory)).filter(f => f.endsWith('.json'));
+        const withTimes = await Promise.all(files.map(async (file) => {
+          const info = await stat(path.join(this.directory, file));
+          return { file, mtime: info.mtimeMs };
+        }));
+        withTimes
+          .sort((a, b) => a.mtime - b.mtime)
+          .forEach(({ file }) => this.index.set(file, true));
+      })();
+    }
+    return this.ready;
+  }
+
+  private touch(file: string): void {
+    this.index.delete(file);
+    this.index.set(file, true);
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    await this.init();
+    const file = this.fileFor(key);
+    if (!this.index.has(file)) return undefined;
+
+    try {
+      const stored = JSON.parse(await readFile(path.join(this.directory, file), 'utf8')) as CacheEntry & { key: string };
+      if (stored.key !== key) return undefined; // Hash collision guard
+      this.touch(file);
+      return { expiresAt: stored.expiresAt, value: stored.value };
+    } catch {
+      // Unreadable or half-written file: forget it
+      this.index.delete(file);
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await this.init();
+    const file = this.fileFor(key);
+    await writeFile(path.join(this.directory, file), JSON.stringify({ key, ...entry }), 'utf8');
+    this.touch(file);
+
+    while (this.index.size > this.maxEntries) {
+      const oldest = this.index.keys().next().value as string;
+      this.index.delete(oldest);
+      this.evictions++;
+      await unlink(path.join(this.directory, oldest)).catch(() => undefined);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.init();
+    const file = this.fileFor(key);
+    this.index.delete(file);
+    await unlink(path.join(this.directory, file)).catch(() => undefined);
+  }
+
+  async size(): Promise<number> {
+    await this.init();
+    return this.index.size;
+  }
+}
+
+/**
+ * Settings for the measurement cache
+ */
+export interface MeasurementCacheOptions {
+  /** Storage backend (default: MemoryCacheStore) */
+  store?: CacheStore;
+
+  /** Lifetime of forecast responses in seconds (default: 1 hour) */
+  forecastTtlSeconds?: number;
+
+  /** Lifetime of historical responses in seconds (default: 24 hours) */
+  historicalTtlSeconds?: number;
+}
+
+/**
+ * Counters reported on /health
+ */
+export interface CacheStats {
+  store: string;
+  entries: number;
+  hits: number;
+  misses: number;
+  /** Requests that joined an identical in-flight upstream call */
+  shared: number;
+  evictions: number;
+  hit_rate: number | null;
+}
+
+/**
+ * Approximate grid spacing (degrees) of each GAP product
+ * Points closer than this resolve to the same grid cell upstream
+ */
+export const GRID_RESOLUTION_DEGREES: Record<GAPMeasurementParams['product'], number> = {
+  cbam_historical_analysis: 0.04,    // ~4 km CBAM grid
+  salient_seasonal_forecast: 0.25    // ~25 km Salient grid
+};
+
+/**
+ * Part of every key; bump it when the cached response shape changes so
+ * file-backed entries written by an older version are not reused
+ * (2: responses carry provenance)
+ */
+const CACHE_KEY_VERSION = 2;
+
+/**
+ * Round a coordinate to the nearest grid point of a product
+ */
+function snapToGrid(value: number, resolution: number): string {
+  return (Math.round(value / resolution) * resolution).toFixed(4);
+}
+
+/**
+ * Cache in front of GAPClient.getMeasurement
+ *
+ * @example
+ * ```typescript
+ * const cache = new MeasurementCache({ store: new MemoryCacheStore(1000) });
+ * const client = new GAPClient(token, baseUrl, { cache });
+ * ```
+ */
+export class MeasurementCache {
+  private store: CacheStore;
+  private forecastTtlMs: number;
+  private historicalTtlMs: number;
+
+  /** Upstream calls currently in progress, keyed by cache key */
+  private inFlight = new Map<string, Promise<GAPResponse>>();
+
+  private hits = 0;
+  private misses = 0;
+  private shared = 0;
+
+  constructor(options: MeasurementCacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this.forecastTtlMs = (options.forecastTtlSeconds ?? 3600) * 1000;
+    this.historicalTtlMs = (options.historicalTtlSeconds ?? 86400) * 1000;
+  }
+
+  /**
+   * Build the cache key for a request
+   *
+   * Coordinates are rounded to the product's grid so that nearby farms in
+   * the same cell share an entry. Options that change the response shape
+   * (ensemble statistics, thresholds, period aggregation) are part of the key.
+   */
+  keyFor(params: GAPMeasurementParams, options: GAPRequestOptions = {}): string {
+    const resolution = GRID_RESOLUTION_DEGREES[params.product] ?? 0.01;
+    const attributes = params.attributes.split(',').map(a => a.trim()).sort().join(',');
+    const parts = [
+      `v${CACHE_KEY_VERSION}`,
+      params.product,
+      attributes,
+      params.start_date,
+      params.end_date,
+      snapToGrid(params.lat, resolution),
+      snapToGrid(params.lon, resolution)
+    ];
+    if (options.ensemble) {
+      parts.push(`ensemble:${JSON.stringify(options.thresholds ?? 'default')}`);
+    }
+    if (options.aggregate) {
+      parts.push(`aggregate:${options.aggregate}`);
+    }
+    return parts.join('|');
+  }
+
+  /**
+   * Return a cached response, or run `fetcher` and cache its result
+   *
+   * Concurrent calls with the same key share one `fetcher` invocation.
+   * Failed fetches are never cached.
+   */
+  async getOrFetch(
+    params: GAPMeasurementParams,
+    options: GAPRequestOptions,
+    fetcher: () => Promise<GAPResponse>
+  ): Promise<GAPResponse> {
+    const key = this.keyFor(params, options);
+
+    const cached = await this.store.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      this.hits++;
+      return cached.value;
+    }
+    if (cached) {
+      await this.store.delete(key);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.shared++;
+      return pending;
+    }
+
+    this.misses++;
+    const request = (async () => {
+      const value = await fetcher();
+      const ttl = params.product === 'cbam_historical_analysis' ? this.historicalTtlMs : this.forecastTtlMs;
+      await this.store.set(key, { expiresAt: Date.now() + ttl, value }).catch((error) => {
+        // A broken store must not fail the request itself
+        console.warn(`[GAP Cache] Failed to store entry: ${error instanceof Error ? error.message : error}`);
+      });
+      return value;
+    })();
+
+    this.inFlight.set(key, request);
+    try {
+      return await request;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * Current counters for monitoring
+   */
+  async stats(): Promise<CacheStats> {
+    const lookups = this.hits + this.misses + this.shared;
+    return {
+      store: this.store.kind,
+      entries: await this.store.size(),
+      hits: this.hits,
+      misses: this.misses,
+      shared: this.shared,
+      evictions: this.store.evictions,
+      hit_rate: lookups > 0 ? Number(((this.hits + this.shared) / lookups).toFixed(3)) : null
+    };
+  }
+}
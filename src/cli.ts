@@ -0,0 +1,281 @@
+#!/usr/bin/env node
+/**
+ * Command-line entry point (gap-mcp)
+ *
+ * Starts the MCP server over HTTP or stdio, or calls GAPClient directly for
+ * scripting and debugging without an MCP client:
+ *
+ * ```
+ * gap-mcp serve
+ * gap-mcp stdio
+ * gap-mcp forecast --lat=-1.2864 --lon=36.8172 --days 7 --format table
+ * gap-mcp historical --farm <farm_id> --days-back 30
+ * gap-mcp historical --place Kitale --start 2025-03-01 --end 2025-05-31 --format json
+ * gap-mcp forecast --place Kitale --format sms
+ * ```
+ *
+ * Locations resolve like the tools do (--farm, --lat/--lon or --place, then
+ * DEFAULT_LATITUDE/DEFAULT_LONGITUDE); negative coordinates need the
+ * `--lat=-1.2864` form. Data goes to stdout, logs to stderr (only with
+ * --verbose).
+ *
+ * @module cli
+ */
+
+import dotenv from 'dotenv';
+import { parseArgs } from 'node:util';
+import { daysBetween, parseDate, today } from './date-utils.js';
+import { describeLocation, ResolvedLocation, resolveLocation } from './location.js';
+import { OUTPUT_FORMATS, renderReport } from './renderers.js';
+import { createServices, createToolContext, loadServiceConfig, Services } from './services.js';
+import { startStdioServer } from './stdio.js';
+import { describeError } from './tool-errors.js';
+import { buildPeriodTotals, buildWeatherSummary, DailyWeather, formatDailyWeather } from './weather-format.js';
+
+/** Longest period the historical command accepts (days, as the tool) */
+const MAX_HISTORICAL_DAYS = 366;
+
+/** Output formats: an aligned table, or any format of the weather tools */
+const CLI_FORMATS = ['table', ...OUTPUT_FORMATS] as const;
+
+type CliFormat = typeof CLI_FORMATS[number];
+
+const USAGE = `Usage: gap-mcp <command> [options]
+
+Commands:
+  serve         Start the HTTP MCP server (PORT, default 3000)
+  stdio         Start the MCP server on stdin/stdout (desktop MCP clients)
+  forecast      Daily forecast for a location
+  historical    Observed daily weather for a location
+
+Location (forecast, historical):
+  --farm <id>           Registered farm
+  --lat <n> --lon <n>   Coordinates (write negative values as --lat=-1.2864)
+  --place <name>        Place name, e.g. "Kitale" or "Mbale, Uganda"
+
+Options:
+  --days <n>            Forecast days (1-14, default: 7)
+  --days-back <n>       Past days ending today (default: 30)
+  --start <date>        First day of the period (YYYY-MM-DD, with --end)
+  --end <date>          Last day of the period (YYYY-MM-DD, with --start)
+  --format <f>          table, json, csv, geojson, markdown or sms
+                        (default: table)
+  --verbose             Log GAP requests to stderr
+  --help                Show this help`;
+
+/**
+ * Raised for invalid command-line input (exit code 2)
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+type Options = Record<string, string | boolean | undefined>;
+
+function numberOption(options: Options, name: string): number | undefined {
+  const value = options[name];
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (typeof value !== 'string' || value.trim() === '' || isNaN(parsed)) {
+    throw new UsageError(`--${name} must be a number`);
+  }
+  return parsed;
+}
+
+function stringOption(options: Options, name: string): string | undefined {
+  const value = options[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Daily weather as an aligned text table
+ */
+function formatTable(days: DailyWeather[]): string {
+  const header = ['Date', 'Max °C', 'Min °C', 'Rain mm', 'Humidity %', 'Wind m/s'];
+  const cell = (value: number | null) => value === null ? '-' : String(value);
+  const rows = days.map(day => [day.date, cell(day.max_temp), cell(day.min_temp), cell(day.precipitation), cell(day.humidity), cell(day.wind_speed)]);
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map(row => row[i].length)));
+  const line = (row: string[]) => row.map((value, i) => i === 0 ? value.padEnd(widths[i]) : value.padStart(widths[i])).join('  ');
+  return [line(header), widths.map(width => '-'.repeat(width)).join('  '), ...rows.map(line)].join('\n');
+}
+
+function locationLabel(location: ResolvedLocation): string {
+  const name = location.farm?.name ?? location.place?.label;
+  return `${name ? `${name} ` : ''}(${location.latitude}, ${location.longitude})`;
+}
+
+async function resolveCliLocation(services: Services, options: Options): Promise<ResolvedLocation> {
+  return resolveLocation({
+    farm_id: stringOption(options, 'farm'),
+    latitude: numberOption(options, 'lat'),
+    longitude: numberOption(options, 'lon'),
+    place: stringOption(options, 'place')
+  }, createToolContext(services));
+}
+
+function print(text: string): void {
+  process.stdout.write(`${text}\n`);
+}
+
+async function runForecast(services: Services, options: Options, format: CliFormat): Promise<void> {
+  const days = numberOption(options, 'days') ?? 7;
+  if (!Number.isInteger(days) || days < 1 || days > 14) {
+    throw new UsageError('--days must be a whole number from 1 to 14');
+  }
+  const location = await resolveCliLocation(services, options);
+  const data = await services.gapClient!.getForecast(location.latitude, location.longitude, days);
+  const forecast = formatDailyWeather(data.results);
+
+  if (format === 'json') {
+    print(JSON.stringify({ location: describeLocation(location), forecast, summary: buildWeatherSummary(forecast) }, null, 2));
+    return;
+  }
+  if (format !== 'table') {
+    print(renderReport({
+      title: 'Forecast',
+      series: [{ location: describeLocation(location), days: forecast, summary: buildWeatherSummary(forecast) }]
+    }, format));
+    return;
+  }
+  const totals = buildPeriodTotals(forecast);
+  print(`Forecast for ${locationLabel(location)}, next ${days} days\n`);
+  print(formatTable(forecast));
+  print(`\nTotal rain: ${totals.total_precipitation ?? '-'} mm, ${totals.rainy_days} rainy day(s)`);
+}
+
+async function runHistorical(services: Services, options: Options, format: CliFormat): Promise<void> {
+  const start = stringOption(options, 'start');
+  const end = stringOption(options, 'end');
+  let startDate: string;
+  let endDate: string;
+  if (start || end) {
+    if (!start || !end) {
+      throw new UsageError('Please give both --start and --end, or use --days-back');
+    }
+    try {
+      parseDate(start);
+      parseDate(end);
+    } catch (error: any) {
+      throw new UsageError(error.message);
+    }
+    startDate = start;
+    endDate = end;
+  } else {
+    const daysBack = numberOption(options, 'days-back') ?? 30;
+    if (!Number.isInteger(daysBack) || daysBack < 1 || daysBack > MAX_HISTORICAL_DAYS) {
+      throw new UsageError(`--days-back must be a whole number from 1 to ${MAX_HISTORICAL_DAYS}`);
+    }
+    startDate = today(-daysBack);
+    endDate = today();
+  }
+  const periodDays = daysBetween(startDate, endDate) + 1;
+  if (periodDays < 1 || periodDays > MAX_HISTORICAL_DAYS) {
+    throw new UsageError(`The period must be 1 to ${MAX_HISTORICAL_DAYS} days, with --start on or before --end`);
+  }
+
+  const location = await resolveCliLocation(services, options);
+  const data = await services.gapClient!.getHistoricalRange(location.latitude, location.longitude, startDate, endDate);
+  const observations = formatDailyWeather(data.results);
+  const totals = buildPeriodTotals(observations);
+
+  if (format === 'json') {
+    print(JSON.stringify({
+      location: describeLocation(location),
+      period: { days: periodDays, start_date: startDate, end_date: endDate },
+      observations,
+      summary: buildWeatherSummary(observations),
+      totals
+    }, null, 2));
+    return;
+  }
+  if (format !== 'table') {
+    print(renderReport({
+      title: 'Observed weather',
+      series: [{ location: describeLocation(location), days: observations, summary: buildWeatherSummary(observations), totals }]
+    }, format));
+    return;
+  }
+  print(`Observed weather for ${locationLabel(location)}, ${startDate} to ${endDate}\n`);
+  print(formatTable(observations));
+  print(`\nTotal rain: ${totals.total_precipitation ?? '-'} mm, ${totals.rainy_days} rainy day(s)`);
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      farm: { type: 'string' },
+      lat: { type: 'string' },
+      lon: { type: 'string' },
+      place: { type: 'string' },
+      days: { type: 'string' },
+      'days-back': { type: 'string' },
+      start: { type: 'string' },
+      end: { type: 'string' },
+      format: { type: 'string', default: 'table' },
+      verbose: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false }
+    }
+  });
+  const [command] = positionals;
+
+  if (values.help || !command) {
+    print(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  dotenv.config({ quiet: true });
+
+  if (command === 'serve') {
+    await import('./index.js');
+    return 0;
+  }
+
+  if (command === 'stdio') {
+    // stdout carries JSON-RPC; route every log line to stderr
+    console.log = console.error;
+    console.info = console.error;
+    await startStdioServer(createServices(loadServiceConfig()));
+    return 0;
+  }
+
+  const services = createServices(loadServiceConfig());
+
+  if (command !== 'forecast' && command !== 'historical') {
+    throw new UsageError(`Unknown command "${command}"`);
+  }
+  const format = values.format as CliFormat;
+  if (!CLI_FORMATS.includes(format)) {
+    throw new UsageError(`--format must be one of ${CLI_FORMATS.join(', ')}`);
+  }
+  if (!services.gapClient) {
+    throw new Error('GAP_API_TOKEN is not set. Add it to .env or the environment.');
+  }
+  // GAPClient logs every request; keep stdout for the data
+  console.log = values.verbose ? console.error : () => undefined;
+
+  if (command === 'forecast') {
+    await runForecast(services, values, format);
+  } else {
+    await runHistorical(services, values, format);
+  }
+  return 0;
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+}).catch(error => {
+  if (error instanceof UsageError || error?.code === 'ERR_PARSE_ARGS_UNKNOWN_OPTION' || error?.code === 'ERR_PARSE_ARGS_INVALID_OPTION_VALUE') {
+    console.error(`${error.message}\n\n${USAGE}`);
+    process.exitCode = 2;
+    return;
+  }
+  // Unexpected errors keep their own message: this is a debugging tool
+  const details = describeError(error);
+  console.error(`Error (${details.code}): ${details.code === 'internal_error' && error instanceof Error ? error.message : details.message}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,493 @@
+/**
+ * Local climatology baseline and "compared to normal" engine
+ *
+ * GAP's historical product has no anomaly fields, so this module builds a
+ * baseline per location from several complete years of
+ * `cbam_historical_analysis` data and uses it to say whether a period was
+ * unusual:
+ * - Monthly normals: mean and percentiles of monthly rain totals and mean
+ *   temperatures across the baseline years
+ * - Day-of-year normals: daily values within a ±7-day window of the date
+ * - Period comparison: the same calendar window in every baseline year
+ *   gives a distribution; the period's value gets a percentile rank and a
+ *   departure from the mean
+ *
+ * Baselines are stored as one JSON file per grid cell and baseline years,
+ * so each location is only downloaded once (the first build takes a while:
+ * about 12 requests per year of baseline).
+ *
+ * @module climatology
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { GRID_RESOLUTION_DEGREES } from './cache.js';
+import { addDays, daysBetween, parseDate, today } from './date-utils.js';
+import { percentile } from './ensemble.js';
+import { GAPCancelledError } from './errors.js';
+import type { GAPClient, GAPRequestOptions } from './gap-client.js';
+import { sameDatesYearsBefore } from './rainfall-stats.js';
+import { formatDailyWeather } from './weather-format.js';
+
+/** Complete years in a baseline by default */
+export const DEFAULT_CLIMATOLOGY_YEARS = 10;
+
+/** Fewest baseline years with data needed for a percentile rank */
+const MIN_YEARS = 5;
+
+/** Share of a window's days that must have data for a year to count */
+const MIN_COVERAGE = 0.8;
+
+/** Half-width of the day-of-year window (days) */
+const DAY_WINDOW = 7;
+
+/** Rain (mm) for a day to count as rainy */
+const RAIN_DAY_MM = 1;
+
+/** Baselines kept in memory */
+const MEMORY_ENTRIES = 50;
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+/**
+ * Daily observations of a grid cell over the baseline years
+ * Arrays are indexed by days since `start_date`; null means no data
+ */
+export interface ClimateRecord {
+  version: 1;
+  lat: number;
+  lon: number;
+  start_year: number;
+  end_year: number;
+  built_at: string;
+  start_date: string;
+  max_temp: Array<number | null>;
+  min_temp: Array<number | null>;
+  precipitation: Array<number | null>;
+}
+
+/**
+ * Distribution of one value across baseline years
+ */
+export interface NormalStats {
+  mean: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  years: number;
+}
+
+/**
+ * Normals for one calendar month
+ */
+export interface MonthlyNormal {
+  month: number;
+  name: string;
+  /** Monthly rain totals (mm) */
+  precipitation: NormalStats | null;
+  /** Rainy days per month */
+  rainy_days: number | null;
+  /** Monthly mean daily maximum temperature (°C) */
+  max_temp: NormalStats | null;
+  /** Monthly mean daily minimum temperature (°C) */
+  min_temp: NormalStats | null;
+}
+
+/**
+ * Normal conditions around one day of the year
+ */
+export interface DailyNormal {
+  date: string;
+  /** Daily maximum temperature across the window (°C) */
+  max_temp: NormalStats | null;
+  /** Daily minimum temperature across the window (°C) */
+  min_temp: NormalStats | null;
+  /** Mean daily rain (mm) */
+  precipitation_mean: number | null;
+  /** Share of days with at least 1 mm of rain (0-1) */
+  rain_day_probability: number | null;
+}
+
+export type NormalCategory = 'well below normal' | 'below normal' | 'near normal' | 'above normal' | 'well above normal';
+
+/**
+ * How one attribute of a period compares with the baseline
+ */
+export interface AttributeComparison {
+  /** The period's value: rain total (mm) or mean temperature (°C) */
+  value: number;
+  normal: number;
+  departure: number;
+  /** Departure as percent of normal (rainfall only) */
+  departure_pct: number | null;
+  /** Share of baseline years with a lower value (0-100; null with too few years) */
+  percentile_rank: number | null;
+  category: NormalCategory | null;
+  /** Baseline range: 10th and 90th percentile */
+  normal_range: [number, number];
+  years: number;
+}
+
+/**
+ * A period compared with the baseline
+ */
+export interface NormalComparison {
+  baseline: string;
+  period: { start: string; end: string; days: number };
+  precipitation: AttributeComparison | null;
+  max_temp: AttributeComparison | null;
+  min_temp: AttributeComparison | null;
+  verdict: string;
+}
+
+/**
+ * Daily values accepted for comparison
+ */
+export interface ComparableDay {
+  date: string;
+  max_temp: number | null;
+  min_temp: number | null;
+  precipitation: number | null;
+}
+
+type ClimateField = 'max_temp' | 'min_temp' | 'precipitation';
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Mean and percentiles of a set of values (null when empty)
+ */
+function describe(values: number[]): NormalStats | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    mean: round1(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    p10: round1(percentile(sorted, 10)),
+    p50: round1(percentile(sorted, 50)),
+    p90: round1(percentile(sorted, 90)),
+    years: sorted.length
+  };
+}
+
+/**
+ * Same calendar date in another year (29 February becomes 28 February)
+ */
+function inYear(date: string, year: number): string {
+  return sameDatesYearsBefore(date, date, Number(date.slice(0, 4)) - year).start;
+}
+
+/**
+ * Values of one field over an inclusive window of the record
+ */
+function windowValues(record: ClimateRecord, field: ClimateField, start: string, days: number): Array<number | null> {
+  const offset = daysBetween(record.start_date, start);
+  return Array.from({ length: days }, (_, i) => {
+    const index = offset + i;
+    return index >= 0 && index < record[field].length ? record[field][index] : null;
+  });
+}
+
+/**
+ * Aggregate a window: rain total (scaled up for missing days) or mean
+ *
+ * @returns null when fewer than MIN_COVERAGE of the days have data
+ */
+function aggregate(values: Array<number | null>, field: ClimateField): number | null {
+  const valid = values.filter((value): value is number => value !== null);
+  if (values.length === 0 || valid.length < values.length * MIN_COVERAGE) return null;
+  const sum = valid.reduce((total, value) => total + value, 0);
+  return field === 'precipitation' ? sum * values.length / valid.length : sum / valid.length;
+}
+
+/**
+ * Years of the record, oldest first
+ */
+function recordYears(record: ClimateRecord): number[] {
+  return Array.from({ length: record.end_year - record.start_year + 1 }, (_, i) => record.start_year + i);
+}
+
+/**
+ * Monthly normals from a record
+ */
+export function buildMonthlyNormals(record: ClimateRecord): MonthlyNormal[] {
+  return MONTH_NAMES.map((name, index) => {
+    const month = index + 1;
+    const perYear = recordYears(record).map(year => {
+      const start = `${year}-${String(month).padStart(2, '0')}-01`;
+      const days = new Date(Date.UTC(year, month, 0)).getUTCDate();
+      const rain = windowValues(record, 'precipitation', start, days);
+      return {
+        precipitation: aggregate(rain, 'precipitation'),
+        rainy: rain.filter(value => value !== null && value >= RAIN_DAY_MM).length,
+        max_temp: aggregate(windowValues(record, 'max_temp', start, days), 'max_temp'),
+        min_temp: aggregate(windowValues(record, 'min_temp', start, days), 'min_temp')
+      };
+    });
+
+    const values = (field: ClimateField) => perYear
+      .map(year => year[field])
+      .filter((value): value is number => value !== null);
+    const rainyYears = perYear.filter(year => year.precipitation !== null);
+
+    return {
+      month,
+      name,
+      precipitation: describe(values('precipitation')),
+      rainy_days: rainyYears.length > 0
+        ? round1(rainyYears.reduce((sum, year) => sum + year.rainy, 0) / rainyYears.length)
+        : null,
+      max_temp: describe(values('max_temp')),
+      min_temp: describe(values('min_temp'))
+    };
+  });
+}
+
+/**
+ * Normal conditions around a date (±7 days, all baseline years)
+ */
+export function buildDailyNormal(record: ClimateRecord, date: string): DailyNormal {
+  const pooled = (field: ClimateField) => recordYears(record)
+    .flatMap(year => windowValues(record, field, addDays(inYear(date, year), -DAY_WINDOW), DAY_WINDOW * 2 + 1))
+    .filter((value): value is number => value !== null);
+
+  const rain = pooled('precipitation');
+  const maxStats = describe(pooled('max_temp'));
+  const minStats = describe(pooled('min_temp'));
+  return {
+    date,
+    // Pooled daily values: report the number of baseline years, not days
+    max_temp: maxStats ? { ...maxStats, years: recordYears(record).length } : null,
+    min_temp: minStats ? { ...minStats, years: recordYears(record).length } : null,
+    precipitation_mean: rain.length > 0 ? round1(rain.reduce((sum, value) => sum + value, 0) / rain.length) : null,
+    rain_day_probability: rain.length > 0
+      ? Math.round(rain.filter(value => value >= RAIN_DAY_MM).length / rain.length * 100) / 100
+      : null
+  };
+}
+
+function categorize(rank: number): NormalCategory {
+  if (rank < 10) return 'well below normal';
+  if (rank < 33) return 'below normal';
+  if (rank <= 67) return 'near normal';
+  if (rank <= 90) return 'above normal';
+  return 'well above normal';
+}
+
+/**
+ * Compare one attribute of a period with the same window in every baseline year
+ */
+function compareAttribute(record: ClimateRecord, days: ComparableDay[], field: ClimateField): AttributeComparison | null {
+  const value = aggregate(days.map(day => day[field]), field);
+  if (value === null) return null;
+
+  const start = days[0].date;
+  const length = days.length;
+  const baseline = recordYears(record)
+    .map(year => aggregate(windowValues(record, field, inYear(start, year), length), field))
+    .filter((entry): entry is number => entry !== null);
+  const stats = describe(baseline);
+  if (!stats) return null;
+
+  const below = baseline.filter(entry => entry < value).length;
+  const equal = baseline.filter(entry => entry === value).length;
+  const rank = baseline.length >= MIN_YEARS ? Math.round((below + equal / 2) / baseline.length * 100) : null;
+  const normal = stats.mean;
+
+  return {
+    value: round1(value),
+    normal,
+    departure: round1(value - normal),
+    departure_pct: field === 'precipitation' && normal > 0 ? Math.round((value - normal) / normal * 100) : null,
+    percentile_rank: rank,
+    category: rank !== null ? categorize(rank) : null,
+    normal_range: [stats.p10, stats.p90],
+    years: baseline.length
+  };
+}
+
+/**
+ * One clause of the verdict, e.g. "rainfall below normal (22nd percentile, 64% of normal)"
+ */
+function describeAttribute(label: string, comparison: AttributeComparison | null, unit: string): string | null {
+  if (!comparison || !comparison.category) return null;
+  const rank = comparison.percentile_rank!;
+  const suffix = rank % 10 === 1 && rank !== 11 ? 'st' : rank % 10 === 2 && rank !== 12 ? 'nd' : rank % 10 === 3 && rank !== 13 ? 'rd' : 'th';
+  const departure = comparison.departure_pct !== null
+    ? `${comparison.departure_pct + 100}% of normal`
+    : `${comparison.departure > 0 ? '+' : ''}${comparison.departure} ${unit}`;
+  return `${label} ${comparison.category} (${rank}${suffix} percentile, ${departure})`;
+}
+
+/**
+ * Compare a period (consecutive days, at most a year) with the baseline
+ */
+export function compareToNormal(record: ClimateRecord, days: ComparableDay[]): NormalComparison {
+  const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date));
+  const usable = sorted.length > 0 && sorted.length <= 366;
+
+  const precipitation = usable ? compareAttribute(record, sorted, 'precipitation') : null;
+  const maxTemp = usable ? compareAttribute(record, sorted, 'max_temp') : null;
+  const minTemp = usable ? compareAttribute(record, sorted, 'min_temp') : null;
+
+  const clauses = [
+    describeAttribute('Rainfall', precipitation, 'mm'),
+    describeAttribute('daytime temperature', maxTemp, '°C'),
+    describeAttribute('night-time temperature', minTemp, '°C')
+  ].filter((clause): clause is string => clause !== null);
+
+  return {
+    baseline: `${record.start_year}-${record.end_year}`,
+    period: { start: sorted[0]?.date ?? '', end: sorted[sorted.length - 1]?.date ?? '', days: sorted.length },
+    precipitation,
+    max_temp: maxTemp,
+    min_temp: minTemp,
+    verdict: clauses.length > 0
+      ? `${clauses.join('; ')} compared with ${record.start_year}-${record.end_year}.`
+      : 'Not enough data to compare this period with normal.'
+  };
+}
+
+/**
+ * Builds, stores and serves climatology baselines
+ *
+ * @example
+ * ```typescript
+ * const climatology = new ClimatologyStore('.cache/climatology');
+ * const record = await climatology.getRecord(gapClient, -0.0917, 34.768);
+ * const comparison = compareToNormal(record, observedDays);
+ * ```
+ */
+export class ClimatologyStore {
+  /** Recently used baselines keyed by file name (oldest first) */
+  private memory = new Map<string, ClimateRecord>();
+
+  /** Baselines being built, keyed by file name */
+  private inFlight = new Map<string, Promise<ClimateRecord>>();
+
+  /**
+   * @param directory - Where baseline files are stored (created on first write)
+   * @param years - Complete years in each baseline
+   */
+  constructor(private directory: string, private years: number = DEFAULT_CLIMATOLOGY_YEARS) {}
+
+  /**
+   * Baseline years: the last `years` complete calendar years
+   */
+  baselineYears(): { start: number; end: number } {
+    const end = parseDate(today()).getUTCFullYear() - 1;
+    return { start: end - this.years + 1, end };
+  }
+
+  /**
+   * Baseline for a location, from memory, disk or built from GAP
+   *
+   * @param options - Cancellation signal, and a progress callback called per baseline year while building
+   */
+  async getRecord(gapClient: GAPClient, lat: number, lon: number, options: GAPRequestOptions = {}): Promise<ClimateRecord> {
+    const resolution = GRID_RESOLUTION_DEGREES.cbam_historical_analysis;
+    const cellLat = Math.round(lat / resolution) * resolution;
+    const cellLon = Math.round(lon / resolution) * resolution;
+    const { start, end } = this.baselineYears();
+    const file = `${cellLat.toFixed(2)}_${cellLon.toFixed(2)}_${start}-${end}.json`;
+
+    const cached = this.memory.get(file);
+    if (cached) {
+      this.remember(file, cached);
+      return cached;
+    }
+
+    const pending = this.inFlight.get(file);
+    if (pending) {
+      try {
+        return await pending;
+      } catch (error) {
+        // A build cancelled by the caller that started it: start again for this one
+        if (error instanceof GAPCancelledError && !options.signal?.aborted) {
+          return this.getRecord(gapClient, lat, lon, options);
+        }
+        throw error;
+      }
+    }
+
+    const request = (async () => {
+      const record = await this.read(file) ?? await this.build(gapClient, cellLat, cellLon, start, end, file, options);
+      this.remember(file, record);
+      return record;
+    })();
+
+    this.inFlight.set(file, request);
+    try {
+      return await request;
+    } finally {
+      this.inFlight.delete(file);
+    }
+  }
+
+  private remember(file: string, record: ClimateRecord): void {
+    this.memory.delete(file);
+    this.memory.set(file, record);
+    if (this.memory.size > MEMORY_ENTRIES) {
+      this.memory.delete(this.memory.keys().next().value as string);
+    }
+  }
+
+  private async read(file: string): Promise<ClimateRecord | null> {
+    try {
+      const record = JSON.parse(await readFile(path.join(this.directory, file), 'utf8')) as ClimateRecord;
+      return record.version === 1 ? record : null;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.warn(`[Climatology] Ignoring unreadable baseline ${file}: ${error.message}`);
+      }
+      return null;
+    }
+  }
+
+  private async build(
+    gapClient: GAPClient,
+    lat: number,
+    lon: number,
+    startYear: number,
+    endYear: number,
+    file: string,
+    options: GAPRequestOptions
+  ): Promise<ClimateRecord> {
+    console.log(`[Climatology] Building ${startYear}-${endYear} baseline for ${lat.toFixed(2)}, ${lon.toFixed(2)}`);
+
+    const startDate = `${startYear}-01-01`;
+    const length = daysBetween(startDate, `${endYear}-12-31`) + 1;
+    const record: ClimateRecord = {
+      version: 1,
+      lat: Math.round(lat * 100) / 100,
+      lon: Math.round(lon * 100) / 100,
+      start_year: startYear,
+      end_year: endYear,
+      built_at: new Date().toISOString(),
+      start_date: startDate,
+      max_temp: new Array(length).fill(null),
+      min_temp: new Array(length).fill(null),
+      precipitation: new Array(length).fill(null)
+    };
+
+    // One year at a time (the client splits each year into request-sized chunks)
+    for (let year = startYear; year <= endYear; year++) {
+      const data = await gapClient.getHistoricalRange(lat, lon, `${year}-01-01`, `${year}-12-31`, { signal: options.signal });
+      formatDailyWeather(data.results).forEach(day => {
+        const index = daysBetween(startDate, day.date);
+        if (index < 0 || index >= length) return;
+        record.max_temp[index] = day.max_temp;
+        record.min_temp[index] = day.min_temp;
+        record.precipitation[index] = day.precipitation;
+      });
+      options.onProgress?.(year - startYear + 1, endYear - startYear + 1);
+    }
+
+    await mkdir(this.directory, { recursive: true });
+    const target = path.join(this.directory, file);
+    const tempPath = `${target}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(record), 'utf8');
+    await rename(tempPath, target);
+
+    return record;
+  }
+}
@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { dailyGdd, findCropProfile } from './crop-stages.js';
+
+const profile = { ...findCropProfile('maize')!, base_temp_c: 10, cap_temp_c: 30 };
+
+describe('dailyGdd', () => {
+  it('averages max and min above the base temperature', () => {
+    assert.equal(dailyGdd(25, 15, profile), 10);
+  });
+
+  it('caps hot days and lifts cold nights to the base', () => {
+    assert.equal(dailyGdd(35, 5, profile), 10);
+    assert.equal(dailyGdd(8, 2, profile), 0);
+  });
+
+  it('is null when a temperature is missing', () => {
+    assert.equal(dailyGdd(null, 15, profile), null);
+    assert.equal(dailyGdd(25, null, profile), null);
+  });
+});
+
+describe('findCropProfile', () => {
+  it('matches ids, names and aliases regardless of case and separators', () => {
+    assert.equal(findCropProfile('Maize')?.id, 'maize');
+    assert.equal(findCropProfile('finger-millet')?.id, 'finger_millet');
+    assert.equal(findCropProfile('unknown crop'), undefined);
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Growing degree days and crop stage tracking
+ *
+ * Accumulates growing degree days (GDD) from the planting date over observed
+ * weather and then the forecast, and works out which development stage a
+ * crop has reached and when the next stages are expected. Stages beyond the
+ * forecast are projected from the recent daily GDD rate.
+ *
+ * GDD per day = (min(Tmax, cap) + max(Tmin, base)) / 2 - base, floored at 0,
+ * with Tmax also raised to at least base (the common "modified" method).
+ *
+ * @module crop-stages
+ */
+
+import { CROP_PROFILES, CropProfile } from './data/crop-profiles.js';
+import { addDays, daysBetween } from './date-utils.js';
+import { DailyWeather } from './weather-format.js';
+
+/**
+ * Number of most recent days whose mean GDD is used to project beyond the forecast
+ */
+const PROJECTION_WINDOW_DAYS = 21;
+
+/**
+ * Where a day's temperatures came from
+ */
+export type GddSource = 'observed' | 'forecast';
+
+/**
+ * One day of the GDD series
+ */
+export interface GddDay {
+  date: string;
+  max_temp: number | null;
+  min_temp: number | null;
+  gdd: number;
+  cumulative_gdd: number;
+  source: GddSource;
+  /** True when temperatures were missing and the GDD was estimated */
+  estimated: boolean;
+}
+
+/**
+ * Status of a stage relative to today
+ * - reached: reached on an observed day
+ * - forecast: expected within the forecast period
+ * - projected: expected after the forecast, from the recent GDD rate
+ */
+export type StageStatus = 'reached' | 'forecast' | 'projected';
+
+/**
+ * A crop stage with its (expected) date
+ */
+export interface StageTiming {
+  name: string;
+  description: string;
+  gdd: number;
+  status: StageStatus;
+  date: string | null;
+  days_after_planting: number | null;
+}
+
+/**
+ * Result of tracking a crop from planting
+ */
+export interface CropStageReport {
+  crop: {
+    id: string;
+    name: string;
+    base_temp_c: number;
+    cap_temp_c: number;
+  };
+  planting_date: string;
+  as_of: string;
+  days_since_planting: number;
+  gdd: {
+    accumulated_to_date: number;
+    forecast_additional: number;
+    total_at_forecast_end: number;
+    recent_daily_rate: number | null;
+    estimated_days: number;
+  };
+  current_stage: { name: string; description: string; gdd: number } | null;
+  next_stage: (StageTiming & { gdd_remaining: number }) | null;
+  progress_to_maturity_pct: number;
+  stages: StageTiming[];
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Look up a crop profile by id, name or alias (case-insensitive)
+ */
+export function findCropProfile(crop: string): CropProfile | undefined {
+  const wanted = crop.trim().toLowerCase().replace(/[\s-]+/g, ' ');
+  return CROP_PROFILES.find(profile =>
+    [profile.id.replace(/_/g, ' '), profile.name, ...profile.aliases]
+      .some(name => name.toLowerCase() === wanted)
+  );
+}
+
+/**
+ * Readable list of supported crops, for error messages
+ */
+export function supportedCrops(): string {
+  return CROP_PROFILES.map(profile => profile.id).join(', ');
+}
+
+/**
+ * Growing degree days for one day
+ *
+ * @returns null when either temperature is missing
+ */
+export function dailyGdd(maxTemp: number | null, minTemp: number | null, profile: Pick<CropProfile, 'base_temp_c' | 'cap_temp_c'>): number | null {
+  if (maxTemp === null || minTemp === null) return null;
+  const base = profile.base_temp_c;
+  const cap = profile.cap_temp_c;
+  const max = Math.max(Math.min(maxTemp, cap), base);
+  const min = Math.min(Math.max(minTemp, base), cap);
+  return Math.max(0, (max + min) / 2 - base);
+}
+
+/**
+ * Build the cumulative GDD series from planting
+ *
+ * Observed days win over forecast days for the same date. Days with missing
+ * temperatures get the mean GDD of the valid days and are flagged.
+ */
+export function buildGddSeries(
+  profile: CropProfile,
+  plantingDate: string,
+  observed: DailyWeather[],
+  forecast: DailyWeather[]
+): GddDay[] {
+  const byDate = new Map<string, { day: DailyWeather; source: GddSource }>();
+  for (const day of forecast) byDate.set(day.date, { day, source: 'forecast' });
+  for (const day of observed) byDate.set(day.date, { day, source: 'observed' });
+
+  const days = [...byDate.values()]
+    .filter(({ day }) => day.date >= plantingDate)
+    .sort((a, b) => a.day.date.localeCompare(b.day.date));
+
+  const values = days.map(({ day }) => dailyGdd(day.max_temp, day.min_temp, profile));
+  const valid = values.filter((value): value is number => value !== null);
+  const fill = valid.length > 0 ? valid.reduce((sum, value) => sum + value, 0) / valid.length : 0;
+
+  let cumulative = 0;
+  return days.map(({ day, source }, index) => {
+    const gdd = values[index] ?? fill;
+    cumulative += gdd;
+    return {
+      date: day.date,
+      max_temp: day.max_temp,
+      min_temp: day.min_temp,
+      gdd: round1(gdd),
+      cumulative_gdd: round1(cumulative),
+      source,
+      estimated: values[index] === null
+    };
+  });
+}
+
+/**
+ * Work out the current stage and the timing of every stage
+ *
+ * @param profile - Crop profile
+ * @param plantingDate - Planting date (YYYY-MM-DD)
+ * @param series - Output of buildGddSeries
+ * @param asOf - Today's date (YYYY-MM-DD); days before it count as "to date"
+ */
+export function buildCropStageReport(
+  profile: CropProfile,
+  plantingDate: string,
+  series: GddDay[],
+  asOf: string
+): CropStageReport {
+  const toDate = series.filter(day => day.date < asOf);
+  const accumulated = toDate.length > 0 ? toDate[toDate.length - 1].cumulative_gdd : 0;
+  const total = series.length > 0 ? series[series.length - 1].cumulative_gdd : 0;
+  const lastDate = series.length > 0 ? series[series.length - 1].date : addDays(plantingDate, -1);
+
+  const recent = series.slice(-PROJECTION_WINDOW_DAYS);
+  const rate = recent.length > 0 ? recent.reduce((sum, day) => sum + day.gdd, 0) / recent.length : null;
+
+  const stages: StageTiming[] = profile.stages.map(stage => {
+    const day = series.find(entry => entry.cumulative_gdd >= stage.gdd);
+    if (day) {
+      return {
+        name: stage.name,
+        description: stage.description,
+        gdd: stage.gdd,
+        status: day.date < asOf && day.source === 'observed' ? 'reached' : 'forecast',
+        date: day.date,
+        days_after_planting: daysBetween(plantingDate, day.date)
+      };
+    }
+    const date = rate && rate > 0 ? addDays(lastDate, Math.ceil((stage.gdd - total) / rate)) : null;
+    return {
+      name: stage.name,
+      description: stage.description,
+      gdd: stage.gdd,
+      status: 'projected',
+      date,
+      days_after_planting: date ? daysBetween(plantingDate, date) : null
+    };
+  });
+
+  const reached = profile.stages.filter(stage => stage.gdd <= accumulated);
+  const current = reached.length > 0 ? reached[reached.length - 1] : null;
+  const nextIndex = profile.stages.findIndex(stage => stage.gdd > accumulated);
+  const maturity = profile.stages[profile.stages.length - 1];
+
+  return {
+    crop: {
+      id: profile.id,
+      name: profile.name,
+      base_temp_c: profile.base_temp_c,
+      cap_temp_c: profile.cap_temp_c
+    },
+    planting_date: plantingDate,
+    as_of: asOf,
+    days_since_planting: Math.max(0, daysBetween(plantingDate, asOf)),
+    gdd: {
+      accumulated_to_date: accumulated,
+      forecast_additional: round1(total - accumulated),
+      total_at_forecast_end: total,
+      recent_daily_rate: rate !== null ? round1(rate) : null,
+      estimated_days: series.filter(day => day.estimated).length
+    },
+    current_stage: current ? { name: current.name, description: current.description, gdd: current.gdd } : null,
+    next_stage: nextIndex === -1 ? null : { ...stages[nextIndex], gdd_remaining: round1(stages[nextIndex].gdd - accumulated) },
+    progress_to_maturity_pct: Math.min(100, Math.round((accumulated / maturity.gdd) * 100)),
+    stages
+  };
+}
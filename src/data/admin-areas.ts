@@ -0,0 +1,176 @@
+/**
+ * Bundled administrative reference points for East Africa
+ *
+ * One or more anchor points (headquarters town or approximate centre) for
+ * every first-level administrative area: Kenyan counties, Tanzanian
+ * regions, Ugandan districts (major ones) and Ethiopian regions. Large
+ * areas have several anchors so that nearest-anchor lookup approximates
+ * the real boundaries.
+ *
+ * Coordinates are approximate (±10 km) and intended for offline labelling,
+ * not surveying.
+ *
+ * @module data/admin-areas
+ */
+
+/** ISO 3166-1 alpha-2 codes of the countries covered */
+export type CountryCode = 'KE' | 'TZ' | 'UG' | 'ET';
+
+/**
+ * Country names and the local name for their first-level areas
+ */
+export const COUNTRIES: Record<CountryCode, { name: string; adminType: string }> = {
+  KE: { name: 'Kenya', adminType: 'County' },
+  TZ: { name: 'Tanzania', adminType: 'Region' },
+  UG: { name: 'Uganda', adminType: 'District' },
+  ET: { name: 'Ethiopia', adminType: 'Region' }
+};
+
+/**
+ * A first-level administrative area with its anchor points ([lat, lon])
+ */
+export interface AdminArea {
+  name: string;
+  country: CountryCode;
+  anchors: Array<[number, number]>;
+}
+
+export const ADMIN_AREAS: AdminArea[] = [
+  // ---------------------------------------------------------------
+  // Kenya (47 counties)
+  // ---------------------------------------------------------------
+  { name: 'Mombasa', country: 'KE', anchors: [[-4.04, 39.67]] },
+  { name: 'Kwale', country: 'KE', anchors: [[-4.17, 39.45], [-4.3, 39.0]] },
+  { name: 'Kilifi', country: 'KE', anchors: [[-3.63, 39.85], [-3.2, 39.6], [-3.0, 39.2]] },
+  { name: 'Tana River', country: 'KE', anchors: [[-1.5, 40.03], [-0.5, 39.6], [-2.3, 40.1]] },
+  { name: 'Lamu', country: 'KE', anchors: [[-2.27, 40.9], [-1.9, 41.2]] },
+  { name: 'Taita-Taveta', country: 'KE', anchors: [[-3.4, 38.56], [-3.4, 37.7], [-3.0, 38.5]] },
+  { name: 'Garissa', country: 'KE', anchors: [[-0.45, 39.65], [0.2, 40.3], [-1.0, 40.6]] },
+  { name: 'Wajir', country: 'KE', anchors: [[1.75, 40.06], [2.8, 39.6], [1.0, 40.4]] },
+  { name: 'Mandera', country: 'KE', anchors: [[3.94, 41.86], [3.5, 40.8]] },
+  { name: 'Marsabit', country: 'KE', anchors: [[2.33, 37.99], [3.5, 37.5], [3.0, 36.8], [3.5, 39.0]] },
+  { name: 'Isiolo', country: 'KE', anchors: [[0.35, 37.58], [1.0, 38.6], [0.6, 39.2]] },
+  { name: 'Meru', country: 'KE', anchors: [[0.05, 37.65], [0.2, 38.0]] },
+  { name: 'Tharaka-Nithi', country: 'KE', anchors: [[-0.3, 37.88], [-0.33, 37.65]] },
+  { name: 'Embu', country: 'KE', anchors: [[-0.54, 37.45], [-0.7, 37.8]] },
+  { name: 'Kitui', country: 'KE', anchors: [[-1.37, 38.01], [-1.0, 38.5], [-2.0, 38.5]] },
+  { name: 'Machakos', country: 'KE', anchors: [[-1.52, 37.26], [-1.0, 37.3]] },
+  { name: 'Makueni', country: 'KE', anchors: [[-1.8, 37.62], [-2.3, 37.9]] },
+  { name: 'Nyandarua', country: 'KE', anchors: [[-0.27, 36.38], [-0.05, 36.45]] },
+  { name: 'Nyeri', country: 'KE', anchors: [[-0.42, 36.95], [-0.2, 37.0]] },
+  { name: 'Kirinyaga', country: 'KE', anchors: [[-0.5, 37.28]] },
+  { name: "Murang'a", country: 'KE', anchors: [[-0.72, 37.15], [-0.8, 37.0]] },
+  { name: 'Kiambu', country: 'KE', anchors: [[-1.17, 36.83], [-1.03, 37.07], [-1.1, 36.6]] },
+  { name: 'Turkana', country: 'KE', anchors: [[3.12, 35.6], [4.2, 35.5], [2.2, 35.6], [3.5, 34.6], [4.5, 34.8]] },
+  { name: 'West Pokot', country: 'KE', anchors: [[1.24, 35.12], [1.8, 35.3]] },
+  { name: 'Samburu', country: 'KE', anchors: [[1.1, 36.7], [1.6, 37.1], [2.0, 36.9]] },
+  { name: 'Trans Nzoia', country: 'KE', anchors: [[1.02, 35.0]] },
+  { name: 'Uasin Gishu', country: 'KE', anchors: [[0.51, 35.27]] },
+  { name: 'Elgeyo-Marakwet', country: 'KE', anchors: [[0.67, 35.51], [1.0, 35.6]] },
+  { name: 'Nandi', country: 'KE', anchors: [[0.2, 35.1]] },
+  { name: 'Baringo', country: 'KE', anchors: [[0.47, 35.97], [0.9, 36.0], [0.1, 36.0]] },
+  { name: 'Laikipia', country: 'KE', anchors: [[0.3, 36.8], [0.01, 37.07], [0.5, 36.5]] },
+  { name: 'Nakuru', country: 'KE', anchors: [[-0.3, 36.07], [-0.7, 36.4], [-0.1, 35.8]] },
+  { name: 'Narok', country: 'KE', anchors: [[-1.08, 35.87], [-1.5, 35.2], [-1.7, 35.8]] },
+  { name: 'Kajiado', country: 'KE', anchors: [[-1.85, 36.78], [-2.5, 37.0], [-2.2, 36.3], [-1.5, 36.7]] },
+  { name: 'Kericho', country: 'KE', anchors: [[-0.37, 35.28]] },
+  { name: 'Bomet', country: 'KE', anchors: [[-0.78, 35.34]] },
+  { name: 'Kakamega', country: 'KE', anchors: [[0.28, 34.75], [0.5, 34.8]] },
+  { name: 'Vihiga', country: 'KE', anchors: [[0.07, 34.72]] },
+  { name: 'Bungoma', country: 'KE', anchors: [[0.56, 34.56], [0.8, 34.6]] },
+  { name: 'Busia', country: 'KE', anchors: [[0.46, 34.11], [0.2, 34.1]] },
+  { name: 'Siaya', country: 'KE', anchors: [[0.06, 34.29], [-0.1, 34.1]] },
+  { name: 'Kisumu', country: 'KE', anchors: [[-0.09, 34.77], [-0.15, 35.0]] },
+  { name: 'Homa Bay', country: 'KE', anchors: [[-0.53, 34.46], [-0.6, 34.2]] },
+  { name: 'Migori', country: 'KE', anchors: [[-1.06, 34.47], [-0.9, 34.2]] },
+  { name: 'Kisii', country: 'KE', anchors: [[-0.68, 34.77]] },
+  { name: 'Nyamira', country: 'KE', anchors: [[-0.57, 34.94]] },
+  { name: 'Nairobi', country: 'KE', anchors: [[-1.29, 36.82]] },
+
+  // ---------------------------------------------------------------
+  // Tanzania (mainland regions and Zanzibar)
+  // ---------------------------------------------------------------
+  { name: 'Arusha', country: 'TZ', anchors: [[-3.37, 36.68], [-2.6, 35.9], [-3.3, 35.5]] },
+  { name: 'Dar es Salaam', country: 'TZ', anchors: [[-6.79, 39.21]] },
+  { name: 'Dodoma', country: 'TZ', anchors: [[-6.17, 35.74], [-5.2, 35.8]] },
+  { name: 'Geita', country: 'TZ', anchors: [[-2.87, 32.23]] },
+  { name: 'Iringa', country: 'TZ', anchors: [[-7.77, 35.69], [-8.3, 35.3]] },
+  { name: 'Kagera', country: 'TZ', anchors: [[-1.33, 31.81], [-2.0, 31.3], [-2.5, 30.9]] },
+  { name: 'Katavi', country: 'TZ', anchors: [[-6.35, 31.07], [-6.8, 31.5]] },
+  { name: 'Kigoma', country: 'TZ', anchors: [[-4.88, 29.63], [-4.0, 30.5]] },
+  { name: 'Kilimanjaro', country: 'TZ', anchors: [[-3.35, 37.34], [-4.0, 37.8]] },
+  { name: 'Lindi', country: 'TZ', anchors: [[-10.0, 39.7], [-9.5, 38.2]] },
+  { name: 'Manyara', country: 'TZ', anchors: [[-4.2, 35.75], [-4.6, 36.8]] },
+  { name: 'Mara', country: 'TZ', anchors: [[-1.5, 33.8], [-1.8, 34.5]] },
+  { name: 'Mbeya', country: 'TZ', anchors: [[-8.9, 33.46], [-8.3, 33.9]] },
+  { name: 'Morogoro', country: 'TZ', anchors: [[-6.82, 37.66], [-8.1, 36.7], [-6.0, 37.3]] },
+  { name: 'Mtwara', country: 'TZ', anchors: [[-10.27, 40.18], [-10.8, 38.8]] },
+  { name: 'Mwanza', country: 'TZ', anchors: [[-2.52, 32.9]] },
+  { name: 'Njombe', country: 'TZ', anchors: [[-9.33, 34.77]] },
+  { name: 'Pwani', country: 'TZ', anchors: [[-7.0, 38.8], [-7.9, 39.0], [-6.4, 38.9]] },
+  { name: 'Rukwa', country: 'TZ', anchors: [[-7.96, 31.62]] },
+  { name: 'Ruvuma', country: 'TZ', anchors: [[-10.68, 35.65], [-10.9, 37.0]] },
+  { name: 'Shinyanga', country: 'TZ', anchors: [[-3.66, 33.42]] },
+  { name: 'Simiyu', country: 'TZ', anchors: [[-2.83, 34.15]] },
+  { name: 'Singida', country: 'TZ', anchors: [[-4.82, 34.74], [-5.8, 34.5]] },
+  { name: 'Songwe', country: 'TZ', anchors: [[-9.0, 32.9], [-8.3, 32.5]] },
+  { name: 'Tabora', country: 'TZ', anchors: [[-5.02, 32.8], [-5.8, 33.3], [-4.5, 32.0]] },
+  { name: 'Tanga', country: 'TZ', anchors: [[-5.07, 39.1], [-5.1, 38.3], [-5.6, 37.9]] },
+  { name: 'Zanzibar', country: 'TZ', anchors: [[-6.16, 39.2], [-5.2, 39.75]] },
+
+  // ---------------------------------------------------------------
+  // Uganda (major districts)
+  // ---------------------------------------------------------------
+  { name: 'Kampala', country: 'UG', anchors: [[0.35, 32.58]] },
+  { name: 'Wakiso', country: 'UG', anchors: [[0.4, 32.48]] },
+  { name: 'Mukono', country: 'UG', anchors: [[0.35, 32.75]] },
+  { name: 'Jinja', country: 'UG', anchors: [[0.44, 33.2]] },
+  { name: 'Iganga', country: 'UG', anchors: [[0.61, 33.48]] },
+  { name: 'Kamuli', country: 'UG', anchors: [[0.95, 33.12]] },
+  { name: 'Mbale', country: 'UG', anchors: [[1.08, 34.18]] },
+  { name: 'Tororo', country: 'UG', anchors: [[0.69, 34.18]] },
+  { name: 'Busia', country: 'UG', anchors: [[0.47, 34.09]] },
+  { name: 'Kapchorwa', country: 'UG', anchors: [[1.4, 34.45]] },
+  { name: 'Soroti', country: 'UG', anchors: [[1.71, 33.61]] },
+  { name: 'Kumi', country: 'UG', anchors: [[1.49, 33.94]] },
+  { name: 'Pallisa', country: 'UG', anchors: [[1.15, 33.71]] },
+  { name: 'Moroto', country: 'UG', anchors: [[2.53, 34.67]] },
+  { name: 'Kotido', country: 'UG', anchors: [[3.01, 34.11]] },
+  { name: 'Gulu', country: 'UG', anchors: [[2.78, 32.3]] },
+  { name: 'Lira', country: 'UG', anchors: [[2.25, 32.9]] },
+  { name: 'Kitgum', country: 'UG', anchors: [[3.28, 32.88]] },
+  { name: 'Adjumani', country: 'UG', anchors: [[3.38, 31.79]] },
+  { name: 'Arua', country: 'UG', anchors: [[3.02, 30.91]] },
+  { name: 'Nebbi', country: 'UG', anchors: [[2.48, 31.09]] },
+  { name: 'Masindi', country: 'UG', anchors: [[1.68, 31.72]] },
+  { name: 'Hoima', country: 'UG', anchors: [[1.43, 31.35]] },
+  { name: 'Luwero', country: 'UG', anchors: [[0.85, 32.47]] },
+  { name: 'Kiboga', country: 'UG', anchors: [[0.92, 31.77]] },
+  { name: 'Mubende', country: 'UG', anchors: [[0.56, 31.39]] },
+  { name: 'Kabarole', country: 'UG', anchors: [[0.67, 30.27]] },
+  { name: 'Kasese', country: 'UG', anchors: [[0.18, 30.08]] },
+  { name: 'Bushenyi', country: 'UG', anchors: [[-0.54, 30.19]] },
+  { name: 'Mbarara', country: 'UG', anchors: [[-0.61, 30.66]] },
+  { name: 'Ntungamo', country: 'UG', anchors: [[-0.88, 30.26]] },
+  { name: 'Kabale', country: 'UG', anchors: [[-1.25, 29.99]] },
+  { name: 'Masaka', country: 'UG', anchors: [[-0.33, 31.73]] },
+  { name: 'Rakai', country: 'UG', anchors: [[-0.72, 31.4]] },
+
+  // ---------------------------------------------------------------
+  // Ethiopia (regions and chartered cities)
+  // ---------------------------------------------------------------
+  { name: 'Addis Ababa', country: 'ET', anchors: [[9.03, 38.74]] },
+  { name: 'Dire Dawa', country: 'ET', anchors: [[9.6, 41.85]] },
+  { name: 'Tigray', country: 'ET', anchors: [[13.5, 39.47], [14.1, 38.3], [13.0, 39.5]] },
+  { name: 'Afar', country: 'ET', anchors: [[11.79, 41.01], [13.0, 40.5], [10.0, 40.5]] },
+  { name: 'Amhara', country: 'ET', anchors: [[11.59, 37.39], [12.6, 37.47], [11.13, 39.63], [10.33, 37.73], [9.68, 39.53]] },
+  { name: 'Benishangul-Gumuz', country: 'ET', anchors: [[10.07, 34.53], [11.0, 35.5]] },
+  { name: 'Gambela', country: 'ET', anchors: [[8.25, 34.59], [7.8, 33.8]] },
+  { name: 'Harari', country: 'ET', anchors: [[9.31, 42.12]] },
+  { name: 'Oromia', country: 'ET', anchors: [[8.54, 39.27], [7.67, 36.83], [9.08, 36.55], [7.95, 39.12], [7.12, 40.0], [9.08, 40.87], [8.98, 37.85], [9.8, 38.73], [5.33, 39.58], [4.5, 38.5], [8.0, 38.8]] },
+  { name: 'Somali', country: 'ET', anchors: [[9.35, 42.8], [6.7, 43.5], [8.0, 44.5], [5.0, 42.5], [6.0, 45.5]] },
+  { name: 'Sidama', country: 'ET', anchors: [[7.05, 38.48], [6.6, 38.5]] },
+  { name: 'Central Ethiopia', country: 'ET', anchors: [[7.55, 37.85], [8.15, 37.95]] },
+  { name: 'South Ethiopia', country: 'ET', anchors: [[6.03, 37.55], [5.9, 36.6], [5.3, 37.0]] },
+  { name: 'South West Ethiopia', country: 'ET', anchors: [[7.23, 35.87], [6.5, 35.5], [7.5, 36.0]] }
+];
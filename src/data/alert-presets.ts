@@ -0,0 +1,81 @@
+/**
+ * Ready-made weather alert conditions
+ *
+ * Each preset is a daily condition that must hold on a number of
+ * consecutive forecast days within a look-ahead window:
+ * - Heavy rain: more than 50 mm in a day (flash floods, waterlogging, erosion)
+ * - Heat wave: maximum above 32 °C for 3 days running (heat stress for most crops and livestock)
+ * - Frost: minimum at or below 2 °C (ground frost is likely at altitude when the air is this cold)
+ * - Dry spell: less than 1 mm a day for 7 days running (moisture stress after planting)
+ *
+ * Every field can be overridden when a rule is created.
+ *
+ * @module data/alert-presets
+ */
+
+import type { ThresholdOperator } from '../ensemble.js';
+
+/** Daily forecast values an alert can watch */
+export type AlertAttribute = 'max_temp' | 'min_temp' | 'precipitation' | 'humidity' | 'wind_speed';
+
+/**
+ * A daily condition and how long it must last
+ */
+export interface AlertCondition {
+  attribute: AlertAttribute;
+  operator: ThresholdOperator;
+  /** Threshold in display units (°C, mm, %, m/s) */
+  threshold: number;
+  /** Consecutive days the condition must hold */
+  min_consecutive_days: number;
+  /** Forecast days ahead to watch (1-14) */
+  lead_days: number;
+}
+
+export type AlertPresetId = 'heavy_rain' | 'heat_wave' | 'frost' | 'dry_spell';
+
+/**
+ * A named alert condition
+ */
+export interface AlertPreset {
+  id: AlertPresetId;
+  name: string;
+  description: string;
+  condition: AlertCondition;
+}
+
+export const ALERT_PRESETS: AlertPreset[] = [
+  {
+    id: 'heavy_rain',
+    name: 'Heavy rain',
+    description: 'More than 50 mm of rain in a day within the next 3 days',
+    condition: { attribute: 'precipitation', operator: '>', threshold: 50, min_consecutive_days: 1, lead_days: 3 }
+  },
+  {
+    id: 'heat_wave',
+    name: 'Heat wave',
+    description: 'Maximum temperature above 32 °C for 3 days running within the next 7 days',
+    condition: { attribute: 'max_temp', operator: '>', threshold: 32, min_consecutive_days: 3, lead_days: 7 }
+  },
+  {
+    id: 'frost',
+    name: 'Frost risk',
+    description: 'Minimum temperature at or below 2 °C within the next 5 days',
+    condition: { attribute: 'min_temp', operator: '<=', threshold: 2, min_consecutive_days: 1, lead_days: 5 }
+  },
+  {
+    id: 'dry_spell',
+    name: 'Dry spell',
+    description: 'Less than 1 mm of rain a day for 7 days running within the next 14 days',
+    condition: { attribute: 'precipitation', operator: '<', threshold: 1, min_consecutive_days: 7, lead_days: 14 }
+  }
+];
+
+/** Units of the alert attributes, for messages */
+export const ALERT_UNITS: Record<AlertAttribute, string> = {
+  max_temp: '°C',
+  min_temp: '°C',
+  precipitation: 'mm',
+  humidity: '%',
+  wind_speed: 'm/s'
+};
@@ -0,0 +1,41 @@
+/**
+ * Bundled GAP coverage area
+ *
+ * A coarse outline of the region where TomorrowNow GAP products return
+ * data (East Africa: Kenya, Tanzania, Uganda, Ethiopia, Somalia and their
+ * immediate neighbours). It is deliberately generous around the edges:
+ * it exists to catch obviously wrong points (swapped lat/lon, another
+ * continent) before calling upstream, not to replace GAP's own checks.
+ *
+ * @module data/coverage
+ */
+
+/**
+ * Outer ring of the coverage polygon as GeoJSON [longitude, latitude] pairs
+ */
+export const GAP_COVERAGE_POLYGON: Array<[number, number]> = [
+  [28.5, -12.5],   // Lake Mweru / Zambia border
+  [33.0, -12.5],   // Northern Malawi
+  [35.0, -12.0],   // Lake Nyasa, southern tip of Tanzania
+  [41.0, -11.5],   // Ruvuma river mouth (Indian Ocean)
+  [41.0, -4.5],    // Tanzania–Kenya coast
+  [42.5, -1.5],    // Lamu / Kismayo coast
+  [46.5, 2.5],     // Mogadishu coast
+  [49.5, 6.5],     // Hobyo coast
+  [51.5, 10.5],    // Horn of Africa
+  [51.5, 12.0],    // Cape Guardafui
+  [43.0, 12.0],    // Djibouti / Bab-el-Mandeb
+  [40.0, 15.5],    // Eritrean coast
+  [36.5, 15.0],    // Northern Ethiopia / Eritrea
+  [35.5, 12.5],    // Ethiopia–Sudan border
+  [34.0, 9.5],     // Gambela
+  [33.0, 6.5],     // Ethiopia–South Sudan border
+  [33.5, 4.5],     // Ilemi triangle
+  [31.0, 4.0],     // Uganda–South Sudan border
+  [30.5, 3.5],     // West Nile
+  [29.5, 1.0],     // Rwenzori / DRC border
+  [29.0, -1.5],    // Rwanda–DRC border
+  [29.0, -4.5],    // Lake Tanganyika (north)
+  [29.5, -8.0],    // Lake Tanganyika (south)
+  [28.5, -12.5]    // Close ring
+];
@@ -0,0 +1,252 @@
+/**
+ * Built-in crop profiles
+ *
+ * Thermal-time parameters for the major East African field crops: the base
+ * temperature below which the crop does not develop, the cap above which
+ * extra heat does not speed it up, and the growing degree days (GDD, °C·day)
+ * from planting at which key stages are typically reached. Water-use
+ * parameters (crop coefficients, rooting depth, allowed depletion) follow
+ * FAO Irrigation and Drainage Paper 56.
+ *
+ * Values describe common medium-duration varieties at mid altitude and
+ * are starting points, not variety-specific calibrations. To add a crop,
+ * append a profile; names and aliases (including Swahili) are matched
+ * case-insensitively.
+ *
+ * @module data/crop-profiles
+ */
+
+/**
+ * A development stage and the GDD from planting at which it is reached
+ */
+export interface CropStage {
+  name: string;
+  gdd: number;
+  /** Short farmer-facing note on what happens at this stage */
+  description: string;
+}
+
+/**
+ * Water-use parameters of a crop (FAO-56 single crop coefficients)
+ */
+export interface CropWaterProfile {
+  /** Crop coefficient during the initial stage */
+  kc_initial: number;
+  /** Crop coefficient at full cover (mid-season) */
+  kc_mid: number;
+  /** Crop coefficient at harvest */
+  kc_end: number;
+  /** Effective rooting depth of a fully grown crop (m) */
+  root_depth_m: number;
+  /** Fraction of available soil water the crop can use before it is stressed */
+  depletion_fraction: number;
+}
+
+/**
+ * Thermal-time and water-use profile of a crop
+ */
+export interface CropProfile {
+  id: string;
+  name: string;
+  /** Other names farmers or agents may use */
+  aliases: string[];
+  /** Base temperature (°C): no development below this */
+  base_temp_c: number;
+  /** Cap temperature (°C): no extra development above this */
+  cap_temp_c: number;
+  /** Crop coefficients and rooting for irrigation scheduling */
+  water: CropWaterProfile;
+  /** Stages in order of increasing GDD; the last one is maturity */
+  stages: CropStage[];
+}
+
+export const CROP_PROFILES: CropProfile[] = [
+  {
+    id: 'maize',
+    name: 'Maize',
+    aliases: ['corn', 'mahindi'],
+    base_temp_c: 10,
+    cap_temp_c: 30,
+    water: { kc_initial: 0.3, kc_mid: 1.2, kc_end: 0.5, root_depth_m: 1.2, depletion_fraction: 0.55 },
+    stages: [
+      { name: 'emergence', gdd: 100, description: 'Seedlings break through the soil' },
+      { name: 'knee-high (V6)', gdd: 350, description: 'Six leaves; top-dress nitrogen around now' },
+      { name: 'tasselling', gdd: 750, description: 'Tassels appear; water stress from here cuts yield most' },
+      { name: 'silking', gdd: 800, description: 'Silks emerge and pollination happens' },
+      { name: 'dough', gdd: 1150, description: 'Kernels fill and turn doughy' },
+      { name: 'physiological maturity', gdd: 1450, description: 'Black layer forms; grain can dry down for harvest' }
+    ]
+  },
+  {
+    id: 'beans',
+    name: 'Common beans',
+    aliases: ['bean', 'common bean', 'maharagwe', 'dry beans'],
+    base_temp_c: 10,
+    cap_temp_c: 30,
+    water: { kc_initial: 0.4, kc_mid: 1.15, kc_end: 0.35, root_depth_m: 0.6, depletion_fraction: 0.45 },
+    stages: [
+      { name: 'emergence', gdd: 90, description: 'Seedlings break through the soil' },
+      { name: 'first trifoliate', gdd: 200, description: 'First trifoliate leaf opens' },
+      { name: 'flowering', gdd: 550, description: 'Flowers open; sensitive to drought and heat' },
+      { name: 'pod fill', gdd: 750, description: 'Pods form and seeds fill' },
+      { name: 'maturity', gdd: 1100, description: 'Pods dry and turn yellow; ready to harvest' }
+    ]
+  },
+  {
+    id: 'sorghum',
+    name: 'Sorghum',
+    aliases: ['mtama'],
+    base_temp_c: 10,
+    cap_temp_c: 35,
+    water: { kc_initial: 0.3, kc_mid: 1.0, kc_end: 0.55, root_depth_m: 1.2, depletion_fraction: 0.55 },
+    stages: [
+      { name: 'emergence', gdd: 90, description: 'Seedlings break through the soil' },
+      { name: 'panicle initiation', gdd: 500, description: 'Growing point changes to form the head' },
+      { name: 'flowering', gdd: 1000, description: 'Half of the heads are flowering' },
+      { name: 'physiological maturity', gdd: 1550, description: 'Dark spot forms at the base of the grain' }
+    ]
+  },
+  {
+    id: 'finger_millet',
+    name: 'Finger millet',
+    aliases: ['millet', 'wimbi', 'ulezi'],
+    base_temp_c: 10,
+    cap_temp_c: 35,
+    water: { kc_initial: 0.3, kc_mid: 1.0, kc_end: 0.3, root_depth_m: 1.0, depletion_fraction: 0.55 },
+    stages: [
+      { name: 'emergence', gdd: 90, description: 'Seedlings break through the soil' },
+      { name: 'tillering', gdd: 350, description: 'Side shoots form' },
+      { name: 'heading', gdd: 900, description: 'Heads (fingers) emerge' },
+      { name: 'maturity', gdd: 1500, description: 'Heads turn brown; ready to harvest' }
+    ]
+  },
+  {
+    id: 'wheat',
+    name: 'Wheat',
+    aliases: ['ngano'],
+    base_temp_c: 0,
+    cap_temp_c: 26,
+    water: { kc_initial: 0.3, kc_mid: 1.15, kc_end: 0.3, root_depth_m: 1.2, depletion_fraction: 0.55 },
+    stages: [
+      { name: 'emergence', gdd: 150, description: 'Seedlings break through the soil' },
+      { name: 'tillering', gdd: 400, description: 'Side shoots form' },
+      { name: 'heading', gdd: 1100, description: 'Ears emerge from the flag leaf' },
+      { name: 'flowering', gdd: 1250, description: 'Anthesis; sensitive to heat and rust' },
+      { name: 'maturity', gdd: 1900, description: 'Grain hard; ready to harvest' }
+    ]
+  },
+  {
+    id: 'rice',
+    name: 'Rice',
+    aliases: ['paddy', 'mchele', 'mpunga'],
+    base_temp_c: 10,
+    cap_temp_c: 35,
+    water: { kc_initial: 1.05, kc_mid: 1.2, kc_end: 0.75, root_depth_m: 0.5, depletion_fraction: 0.2 },
+    stages: [
+      { name: 'emergence', gdd: 100, description: 'Seedlings break through the soil or water' },
+      { name: 'tillering', gdd: 600, description: 'Side shoots form' },
+      { name: 'panicle initiation', gdd: 1000, description: 'Panicle starts forming inside the stem' },
+      { name: 'flowering', gdd: 1300, description: 'Panicles flower; keep fields flooded' },
+      { name: 'maturity', gdd: 1800, description: 'Most grains golden; drain and harvest' }
+    ]
+  },
+  {
+    id: 'potato',
+    name: 'Irish potato',
+    aliases: ['potatoes', 'irish potato', 'viazi'],
+    base_temp_c: 7,
+    cap_temp_c: 29,
+    water: { kc_initial: 0.5, kc_mid: 1.15, kc_end: 0.75, root_depth_m: 0.5, depletion_fraction: 0.35 },
+    stages: [
+      { name: 'emergence', gdd: 300, description: 'Sprouts break through the soil' },
+      { name: 'tuber initiation', gdd: 550, description: 'Tubers start to form; hill up now' },
+      { name: 'tuber bulking', gdd: 800, description: 'Tubers grow fast; needs steady moisture' },
+      { name: 'maturity', gdd: 1400, description: 'Haulms yellow and die back' }
+    ]
+  },
+  {
+    id: 'groundnut',
+    name: 'Groundnut',
+    aliases: ['groundnuts', 'peanut', 'peanuts', 'karanga'],
+    base_temp_c: 10,
+    cap_temp_c: 33,
+    water: { kc_initial: 0.4, kc_mid: 1.15, kc_end: 0.6, root_depth_m: 0.6, depletion_fraction: 0.5 },
+    stages: [
+      { name: 'emergence', gdd: 120, description: 'Seedlings break through the soil' },
+      { name: 'flowering', gdd: 450, description: 'First flowers open' },
+      { name: 'pegging', gdd: 600, description: 'Pegs enter the soil; keep soil loose and moist' },
+      { name: 'pod fill', gdd: 900, description: 'Pods and kernels fill' },
+      { name: 'maturity', gdd: 1500, description: 'Inner shells darken; ready to lift' }
+    ]
+  },
+  {
+    id: 'soybean',
+    name: 'Soybean',
+    aliases: ['soya', 'soybeans', 'soya beans'],
+    base_temp_c: 10,
+    cap_temp_c: 30,
+    water: { kc_initial: 0.4, kc_mid: 1.15, kc_end: 0.5, root_depth_m: 0.8, depletion_fraction: 0.5 },
+    stages: [
+      { name: 'emergence', gdd: 120, description: 'Seedlings break through the soil' },
+      { name: 'flowering', gdd: 550, description: 'First flowers open' },
+      { name: 'pod fill', gdd: 850, description: 'Pods and seeds fill' },
+      { name: 'maturity', gdd: 1300, description: 'Pods brown; ready to harvest' }
+    ]
+  },
+  {
+    id: 'cowpea',
+    name: 'Cowpea',
+    aliases: ['cowpeas', 'kunde'],
+    base_temp_c: 10,
+    cap_temp_c: 35,
+    water: { kc_initial: 0.4, kc_mid: 1.05, kc_end: 0.6, root_depth_m: 0.7, depletion_fraction: 0.45 },
+    stages: [
+      { name: 'emergence', gdd: 90, description: 'Seedlings break through the soil' },
+      { name: 'flowering', gdd: 550, description: 'First flowers open; watch for thrips and aphids' },
+      { name: 'pod fill', gdd: 800, description: 'Pods and seeds fill' },
+      { name: 'maturity', gdd: 1200, description: 'Pods dry; ready to harvest' }
+    ]
+  },
+  {
+    id: 'pigeon_pea',
+    name: 'Pigeon pea',
+    aliases: ['pigeon peas', 'mbaazi'],
+    base_temp_c: 10,
+    cap_temp_c: 35,
+    water: { kc_initial: 0.4, kc_mid: 1.0, kc_end: 0.45, root_depth_m: 1.0, depletion_fraction: 0.55 },
+    stages: [
+      { name: 'emergence', gdd: 120, description: 'Seedlings break through the soil' },
+      { name: 'branching', gdd: 600, description: 'Branches form' },
+      { name: 'flowering', gdd: 1400, description: 'Flowers open; watch for pod borers' },
+      { name: 'maturity', gdd: 2200, description: 'Pods dry; ready to harvest' }
+    ]
+  },
+  {
+    id: 'sunflower',
+    name: 'Sunflower',
+    aliases: ['sunflowers', 'alizeti'],
+    base_temp_c: 6,
+    cap_temp_c: 32,
+    water: { kc_initial: 0.35, kc_mid: 1.1, kc_end: 0.35, root_depth_m: 1.0, depletion_fraction: 0.45 },
+    stages: [
+      { name: 'emergence', gdd: 170, description: 'Seedlings break through the soil' },
+      { name: 'bud', gdd: 650, description: 'Flower bud visible' },
+      { name: 'flowering', gdd: 1000, description: 'Heads open' },
+      { name: 'maturity', gdd: 1600, description: 'Back of heads turns yellow-brown' }
+    ]
+  },
+  {
+    id: 'tomato',
+    name: 'Tomato',
+    aliases: ['tomatoes', 'nyanya'],
+    base_temp_c: 10,
+    cap_temp_c: 30,
+    water: { kc_initial: 0.6, kc_mid: 1.15, kc_end: 0.8, root_depth_m: 0.9, depletion_fraction: 0.4 },
+    stages: [
+      { name: 'establishment', gdd: 100, description: 'Transplants take root' },
+      { name: 'flowering', gdd: 500, description: 'First trusses flower' },
+      { name: 'fruit set', gdd: 700, description: 'First fruits set' },
+      { name: 'first harvest', gdd: 1100, description: 'First fruits ripen' }
+    ]
+  }
+];
@@ -0,0 +1,82 @@
+/**
+ * Weather thresholds for field operations
+ *
+ * Defaults follow common extension guidance for smallholder operations:
+ * - Spraying: light wind to limit drift, a rain-free period afterwards so
+ *   the product is not washed off, and no extreme heat (evaporation)
+ * - Harvesting: a dry day after a dry-ish day, so the crop is not wet
+ * - Sun-drying grain: dry, sunny, low-humidity days with the next day dry too
+ *
+ * Values are compared with daily forecast values (daily mean wind and
+ * humidity, daily total rain, daily mean solar radiation). Each tool call
+ * can override any threshold.
+ *
+ * @module data/field-operations
+ */
+
+/**
+ * Limits a day must meet; checks left out do not apply to the operation
+ */
+export interface OperationThresholds {
+  /** Highest daily mean wind speed (m/s) */
+  max_wind_ms?: number;
+  /** Most rain on the day (mm) */
+  max_rain_mm?: number;
+  /** Hours after the operation that must stay below max_rain_mm */
+  rain_free_hours?: number;
+  /** Most rain on the day before (mm), so the crop has dried */
+  max_rain_previous_day_mm?: number;
+  /** Highest daily mean relative humidity (%) */
+  max_humidity_pct?: number;
+  /** Lowest daily mean solar radiation (W/m²) */
+  min_solar_radiation_wm2?: number;
+  /** Highest maximum temperature (°C) */
+  max_temp_c?: number;
+}
+
+export type FieldOperationId = 'spraying' | 'harvesting' | 'drying';
+
+/**
+ * A field operation and its default thresholds
+ */
+export interface FieldOperation {
+  id: FieldOperationId;
+  name: string;
+  description: string;
+  thresholds: OperationThresholds;
+}
+
+export const FIELD_OPERATIONS: FieldOperation[] = [
+  {
+    id: 'spraying',
+    name: 'Spraying',
+    description: 'Pesticide, fungicide or foliar fertilizer application',
+    thresholds: {
+      max_wind_ms: 3.5,
+      max_rain_mm: 1,
+      rain_free_hours: 6,
+      max_temp_c: 32
+    }
+  },
+  {
+    id: 'harvesting',
+    name: 'Harvesting',
+    description: 'Harvesting grain, pulses or other dry crops',
+    thresholds: {
+      max_rain_mm: 1,
+      max_rain_previous_day_mm: 5,
+      max_humidity_pct: 80
+    }
+  },
+  {
+    id: 'drying',
+    name: 'Sun-drying',
+    description: 'Drying harvested grain on tarpaulins or raised racks',
+    thresholds: {
+      max_rain_mm: 0.5,
+      rain_free_hours: 24,
+      max_humidity_pct: 70,
+      min_solar_radiation_wm2: 180
+    }
+  }
+];
@@ -0,0 +1,151 @@
+/**
+ * Livestock heat stress thresholds and advice
+ *
+ * Each species uses the Temperature-Humidity Index (THI) formula it was
+ * calibrated with:
+ * - nrc: NRC (1971), THI = (1.8T + 32) - (0.55 - 0.0055 RH)(1.8T - 26),
+ *   used with the Livestock Weather Safety Index categories for cattle
+ * - small_ruminant: Marai et al. (2007) for sheep and goats, in °C
+ * - poultry: 0.85 dry bulb + 0.15 wet bulb (°C), as used for broilers
+ *
+ * Thresholds mark where each stress category starts. Local zebu cattle and
+ * indigenous goats tolerate heat better than exotic breeds, so dairy cattle
+ * (mostly exotic or crossbred) have lower thresholds than cattle in general.
+ *
+ * @module data/livestock
+ */
+
+export type ThiFormula = 'nrc' | 'small_ruminant' | 'poultry';
+
+export type StressCategory = 'normal' | 'alert' | 'danger' | 'emergency';
+
+/**
+ * A species and its heat stress settings
+ */
+export interface LivestockSpecies {
+  id: string;
+  name: string;
+  aliases: string[];
+  formula: ThiFormula;
+  /** THI at which each category starts */
+  thresholds: { alert: number; danger: number; emergency: number };
+  /** Management advice per category */
+  advice: Record<StressCategory, string[]>;
+}
+
+export const LIVESTOCK_SPECIES: LivestockSpecies[] = [
+  {
+    id: 'cattle',
+    name: 'Cattle (local and beef breeds)',
+    aliases: ['cow', 'cows', 'zebu', 'beef', 'ng\'ombe', 'ngombe', 'boran'],
+    formula: 'nrc',
+    thresholds: { alert: 75, danger: 79, emergency: 84 },
+    advice: {
+      normal: ['No heat stress expected. Normal grazing and watering.'],
+      alert: [
+        'Graze early in the morning and late in the afternoon; rest animals in shade from about 11:00 to 15:00.',
+        'Water at least twice a day, including a midday watering if the herd is near water.'
+      ],
+      danger: [
+        'Move herds in the cool hours only (before 10:00 and after 16:00) and shorten trekking distances to water.',
+        'Provide shade (trees or shade nets) and water at least three times a day.',
+        'Avoid handling, vaccination, dipping or transport during the hottest hours.'
+      ],
+      emergency: [
+        'Keep animals in shade all day and do not trek them in daylight; move at night or at dawn if a move is unavoidable.',
+        'Give unlimited water and check weak, young and sick animals often.',
+        'Postpone all handling and transport; watch for open-mouth panting and drooling.'
+      ]
+    }
+  },
+  {
+    id: 'dairy_cattle',
+    name: 'Dairy cattle (exotic and crossbred)',
+    aliases: ['dairy', 'dairy cow', 'dairy cows', 'friesian', 'holstein', 'ayrshire', 'jersey'],
+    formula: 'nrc',
+    thresholds: { alert: 68, danger: 72, emergency: 80 },
+    advice: {
+      normal: ['No heat stress expected. Normal feeding and milking.'],
+      alert: [
+        'Milk yield may start to drop. Keep clean water in front of cows at all times and provide shade.',
+        'Feed more of the ration in the cool evening and early morning.'
+      ],
+      danger: [
+        'Provide shade and good airflow in the shed; wet cows with water at midday if possible.',
+        'Feed in the cool hours, keep water troughs full and close to shade.',
+        'Expect a clear drop in milk yield and lower fertility; delay inseminations.'
+      ],
+      emergency: [
+        'Cool cows with water (sprinklers or wetting the back) several times a day and keep them in shade.',
+        'Give unlimited cool water and feed only in the evening and night.',
+        'Call a veterinarian for cows panting with open mouths or lying down.'
+      ]
+    }
+  },
+  {
+    id: 'goats',
+    name: 'Goats',
+    aliases: ['goat', 'mbuzi', 'galla'],
+    formula: 'small_ruminant',
+    thresholds: { alert: 22.2, danger: 23.3, emergency: 25.6 },
+    advice: {
+      normal: ['No heat stress expected.'],
+      alert: [
+        'Browse in the morning and late afternoon and rest the flock in shade at midday.',
+        'Water at least twice a day.'
+      ],
+      danger: [
+        'Keep goats in shade between 11:00 and 15:00 and water them at midday as well.',
+        'Avoid moving or handling the flock in the heat; kids suffer first.'
+      ],
+      emergency: [
+        'Keep goats in shade all day with unlimited water; move only at dawn or night.',
+        'Postpone shearing, castration and transport.'
+      ]
+    }
+  },
+  {
+    id: 'sheep',
+    name: 'Sheep',
+    aliases: ['kondoo', 'dorper', 'red maasai'],
+    formula: 'small_ruminant',
+    thresholds: { alert: 22.2, danger: 23.3, emergency: 25.6 },
+    advice: {
+      normal: ['No heat stress expected.'],
+      alert: [
+        'Graze in the morning and late afternoon and rest the flock in shade at midday.',
+        'Water at least twice a day.'
+      ],
+      danger: [
+        'Keep sheep in shade between 11:00 and 15:00 and add a midday watering.',
+        'Avoid driving the flock in the heat; woolled breeds suffer most.'
+      ],
+      emergency: [
+        'Keep sheep in shade all day with unlimited water; move only at dawn or night.',
+        'Postpone shearing, dipping and transport.'
+      ]
+    }
+  },
+  {
+    id: 'poultry',
+    name: 'Poultry',
+    aliases: ['chicken', 'chickens', 'kuku', 'broiler', 'broilers', 'layers', 'hens'],
+    formula: 'poultry',
+    thresholds: { alert: 26, danger: 28, emergency: 30 },
+    advice: {
+      normal: ['No heat stress expected.'],
+      alert: [
+        'Open the house sides for airflow and keep drinkers full of cool, clean water.',
+        'Feed early in the morning and in the evening rather than at midday.'
+      ],
+      danger: [
+        'Add drinkers, shade the roof (grass or wet sacks) and reduce stocking density.',
+        'Do not feed between 10:00 and 16:00; consider electrolytes or vitamin C in the water.'
+      ],
+      emergency: [
+        'Spray the roof with water, keep every drinker full and cool, and avoid handling birds.',
+        'Expect deaths in heavy broilers; sell or move birds only at night.'
+      ]
+    }
+  }
+];
@@ -0,0 +1,380 @@
+/**
+ * Bundled gazetteer of East African towns and sub-counties
+ *
+ * Complements the first-level areas in admin-areas.ts (counties, regions,
+ * districts) with the places farmers actually name: market towns, county
+ * headquarters and Kenyan sub-counties. Each entry records the first-level
+ * area it belongs to so ambiguous names can be told apart.
+ *
+ * Coordinates are approximate (town centre or sub-county headquarters) and
+ * intended for weather lookups on a 4-25 km grid, not surveying.
+ *
+ * @module data/places
+ */
+
+import { CountryCode } from './admin-areas.js';
+
+/**
+ * Kind of named place
+ */
+export type PlaceKind = 'admin_area' | 'sub_county' | 'town';
+
+/**
+ * A named place below the first administrative level
+ */
+export interface GazetteerEntry {
+  name: string;
+  kind: Exclude<PlaceKind, 'admin_area'>;
+  country: CountryCode;
+  /** First-level area (as named in ADMIN_AREAS) */
+  admin_area: string;
+  latitude: number;
+  longitude: number;
+  /** Alternative spellings and former names */
+  aliases?: string[];
+}
+
+const town = (name: string, country: CountryCode, admin_area: string, latitude: number, longitude: number, aliases?: string[]): GazetteerEntry =>
+  ({ name, kind: 'town', country, admin_area, latitude, longitude, ...(aliases ? { aliases } : {}) });
+
+const subCounty = (name: string, admin_area: string, latitude: number, longitude: number, aliases?: string[]): GazetteerEntry =>
+  ({ name, kind: 'sub_county', country: 'KE', admin_area, latitude, longitude, ...(aliases ? { aliases } : {}) });
+
+export const PLACES: GazetteerEntry[] = [
+  // ---------------------------------------------------------------
+  // Kenya: towns
+  // ---------------------------------------------------------------
+  town('Nairobi', 'KE', 'Nairobi', -1.286, 36.817),
+  town('Mombasa', 'KE', 'Mombasa', -4.04, 39.67),
+  town('Kisumu', 'KE', 'Kisumu', -0.1, 34.76),
+  town('Nakuru', 'KE', 'Nakuru', -0.303, 36.08),
+  town('Eldoret', 'KE', 'Uasin Gishu', 0.514, 35.27),
+  town('Kitale', 'KE', 'Trans Nzoia', 1.016, 35.006),
+  town('Thika', 'KE', 'Kiambu', -1.03, 37.07),
+  town('Ruiru', 'KE', 'Kiambu', -1.15, 36.96),
+  town('Kiambu', 'KE', 'Kiambu', -1.17, 36.83),
+  town('Limuru', 'KE', 'Kiambu', -1.11, 36.64),
+  town('Kikuyu', 'KE', 'Kiambu', -1.25, 36.66),
+  town('Juja', 'KE', 'Kiambu', -1.1, 37.01),
+  town('Machakos', 'KE', 'Machakos', -1.52, 37.26),
+  town('Athi River', 'KE', 'Machakos', -1.45, 36.98, ['Mavoko']),
+  town('Matuu', 'KE', 'Machakos', -1.15, 37.53),
+  town('Wote', 'KE', 'Makueni', -1.78, 37.63),
+  town('Emali', 'KE', 'Makueni', -2.08, 37.47),
+  town('Makindu', 'KE', 'Makueni', -2.28, 37.82),
+  town('Mtito Andei', 'KE', 'Makueni', -2.69, 38.17),
+  town('Kitui', 'KE', 'Kitui', -1.37, 38.01),
+  town('Mwingi', 'KE', 'Kitui', -0.93, 38.06),
+  town('Embu', 'KE', 'Embu', -0.54, 37.45),
+  town('Runyenjes', 'KE', 'Embu', -0.42, 37.57),
+  town('Chuka', 'KE', 'Tharaka-Nithi', -0.33, 37.65),
+  town('Meru', 'KE', 'Meru', 0.05, 37.65),
+  town('Maua', 'KE', 'Meru', 0.23, 37.94),
+  town('Nkubu', 'KE', 'Meru', -0.07, 37.67),
+  town('Timau', 'KE', 'Meru', 0.08, 37.24),
+  town('Isiolo', 'KE', 'Isiolo', 0.35, 37.58),
+  town('Marsabit', 'KE', 'Marsabit', 2.33, 37.99),
+  town('Moyale', 'KE', 'Marsabit', 3.52, 39.05),
+  town('Wajir', 'KE', 'Wajir', 1.75, 40.06),
+  town('Mandera', 'KE', 'Mandera', 3.94, 41.86),
+  town('Garissa', 'KE', 'Garissa', -0.45, 39.65),
+  town('Hola', 'KE', 'Tana River', -1.5, 40.03),
+  town('Lamu', 'KE', 'Lamu', -2.27, 40.9),
+  town('Mpeketoni', 'KE', 'Lamu', -2.39, 40.7),
+  town('Malindi', 'KE', 'Kilifi', -3.22, 40.12),
+  town('Kilifi', 'KE', 'Kilifi', -3.63, 39.85),
+  town('Mariakani', 'KE', 'Kilifi', -3.86, 39.47),
+  town('Kwale', 'KE', 'Kwale', -4.17, 39.45),
+  town('Ukunda', 'KE', 'Kwale', -4.28, 39.57, ['Diani']),
+  town('Voi', 'KE', 'Taita-Taveta', -3.4, 38.56),
+  town('Wundanyi', 'KE', 'Taita-Taveta', -3.4, 38.36),
+  town('Taveta', 'KE', 'Taita-Taveta', -3.4, 37.68),
+  town('Nyeri', 'KE', 'Nyeri', -0.42, 36.95),
+  town('Karatina', 'KE', 'Nyeri', -0.48, 37.13),
+  town('Othaya', 'KE', 'Nyeri', -0.55, 36.94),
+  town('Kerugoya', 'KE', 'Kirinyaga', -0.5, 37.28),
+  town('Kutus', 'KE', 'Kirinyaga', -0.56, 37.32),
+  town('Sagana', 'KE', 'Kirinyaga', -0.67, 37.2),
+  town("Wang'uru", 'KE', 'Kirinyaga', -0.7, 37.35, ['Wanguru']),
+  town("Murang'a", 'KE', "Murang'a", -0.72, 37.15, ['Muranga', 'Fort Hall']),
+  town('Ol Kalou', 'KE', 'Nyandarua', -0.27, 36.38, ['Olkalou']),
+  town('Nyahururu', 'KE', 'Laikipia', 0.04, 36.36, ["Thomson's Falls"]),
+  town('Nanyuki', 'KE', 'Laikipia', 0.01, 37.07),
+  town('Rumuruti', 'KE', 'Laikipia', 0.27, 36.54),
+  town('Naivasha', 'KE', 'Nakuru', -0.717, 36.43),
+  town('Gilgil', 'KE', 'Nakuru', -0.5, 36.32),
+  town('Molo', 'KE', 'Nakuru', -0.25, 35.73),
+  town('Njoro', 'KE', 'Nakuru', -0.33, 35.94),
+  town('Narok', 'KE', 'Narok', -1.08, 35.87),
+  town('Kilgoris', 'KE', 'Narok', -1.0, 34.88),
+  town('Kajiado', 'KE', 'Kajiado', -1.85, 36.78),
+  town('Kitengela', 'KE', 'Kajiado', -1.47, 36.96),
+  town('Ngong', 'KE', 'Kajiado', -1.36, 36.66),
+  town('Loitokitok', 'KE', 'Kajiado', -2.93, 37.51),
+  town('Namanga', 'KE', 'Kajiado', -2.55, 36.79),
+  town('Kericho', 'KE', 'Kericho', -0.37, 35.28),
+  town('Londiani', 'KE', 'Kericho', -0.16, 35.6),
+  town('Litein', 'KE', 'Kericho', -0.58, 35.19),
+  town('Bomet', 'KE', 'Bomet', -0.78, 35.34),
+  town('Sotik', 'KE', 'Bomet', -0.68, 35.12),
+  town('Kapsabet', 'KE', 'Nandi', 0.2, 35.1),
+  town('Nandi Hills', 'KE', 'Nandi', 0.1, 35.18),
+  town('Iten', 'KE', 'Elgeyo-Marakwet', 0.67, 35.51),
+  town('Kapsowar', 'KE', 'Elgeyo-Marakwet', 1.0, 35.56),
+  town('Kabarnet', 'KE', 'Baringo', 0.49, 35.74),
+  town('Marigat', 'KE', 'Baringo', 0.47, 35.98),
+  town('Eldama Ravine', 'KE', 'Baringo', 0.05, 35.72),
+  town('Kapenguria', 'KE', 'West Pokot', 1.24, 35.11),
+  town('Makutano', 'KE', 'West Pokot', 1.27, 35.09),
+  town('Lodwar', 'KE', 'Turkana', 3.12, 35.6),
+  town('Kakuma', 'KE', 'Turkana', 3.72, 34.86),
+  town('Lokichogio', 'KE', 'Turkana', 4.2, 34.35, ['Lokichoggio']),
+  town('Maralal', 'KE', 'Samburu', 1.1, 36.7),
+  town('Kakamega', 'KE', 'Kakamega', 0.28, 34.75),
+  town('Mumias', 'KE', 'Kakamega', 0.34, 34.49),
+  town('Malava', 'KE', 'Kakamega', 0.44, 34.85),
+  town('Butere', 'KE', 'Kakamega', 0.21, 34.49),
+  town('Mbale', 'KE', 'Vihiga', 0.08, 34.72),
+  town('Luanda', 'KE', 'Vihiga', 0.06, 34.6),
+  town('Bungoma', 'KE', 'Bungoma', 0.56, 34.56),
+  town('Webuye', 'KE', 'Bungoma', 0.61, 34.77),
+  town('Kimilili', 'KE', 'Bungoma', 0.79, 34.72),
+  town('Busia', 'KE', 'Busia', 0.46, 34.11),
+  town('Malaba', 'KE', 'Busia', 0.63, 34.28),
+  town('Port Victoria', 'KE', 'Busia', 0.1, 33.98),
+  town('Siaya', 'KE', 'Siaya', 0.06, 34.29),
+  town('Bondo', 'KE', 'Siaya', -0.1, 34.27),
+  town('Ahero', 'KE', 'Kisumu', -0.17, 34.92),
+  town('Muhoroni', 'KE', 'Kisumu', -0.15, 35.2),
+  town('Maseno', 'KE', 'Kisumu', 0.0, 34.6),
+  town('Homa Bay', 'KE', 'Homa Bay', -0.53, 34.46, ['Homabay']),
+  town('Mbita', 'KE', 'Homa Bay', -0.43, 34.2),
+  town('Oyugis', 'KE', 'Homa Bay', -0.51, 34.73),
+  town('Migori', 'KE', 'Migori', -1.06, 34.47),
+  town('Awendo', 'KE', 'Migori', -0.9, 34.53),
+  town('Rongo', 'KE', 'Migori', -0.76, 34.6),
+  town('Kehancha', 'KE', 'Migori', -1.19, 34.62),
+  town('Kisii', 'KE', 'Kisii', -0.68, 34.77),
+  town('Ogembo', 'KE', 'Kisii', -0.8, 34.73),
+  town('Nyamira', 'KE', 'Nyamira', -0.56, 34.93),
+  town('Keroka', 'KE', 'Nyamira', -0.78, 34.95),
+
+  // ---------------------------------------------------------------
+  // Kenya: sub-counties (selection of farming areas)
+  // ---------------------------------------------------------------
+  subCounty('Kiminini', 'Trans Nzoia', 0.895, 34.92),
+  subCounty('Endebess', 'Trans Nzoia', 1.08, 34.86),
+  subCounty('Saboti', 'Trans Nzoia', 1.04, 34.8),
+  subCounty('Cherangany', 'Trans Nzoia', 1.13, 35.2),
+  subCounty('Kwanza', 'Trans Nzoia', 1.16, 34.95),
+  subCounty('Turbo', 'Uasin Gishu', 0.63, 35.05),
+  subCounty('Moiben', 'Uasin Gishu', 0.82, 35.38),
+  subCounty('Soy', 'Uasin Gishu', 0.67, 35.15),
+  subCounty('Kapseret', 'Uasin Gishu', 0.48, 35.22),
+  subCounty('Kesses', 'Uasin Gishu', 0.33, 35.33),
+  subCounty('Ainabkoi', 'Uasin Gishu', 0.2, 35.43),
+  subCounty('Rongai', 'Nakuru', -0.17, 35.86),
+  subCounty('Subukia', 'Nakuru', 0.0, 36.23),
+  subCounty('Bahati', 'Nakuru', -0.15, 36.15),
+  subCounty('Kuresoi', 'Nakuru', -0.3, 35.55),
+  subCounty('Mwea', 'Kirinyaga', -0.68, 37.36),
+  subCounty('Mukurweini', 'Nyeri', -0.56, 37.05),
+  subCounty('Tetu', 'Nyeri', -0.38, 36.9),
+  subCounty('Kieni', 'Nyeri', -0.2, 37.0),
+  subCounty('Kangema', "Murang'a", -0.69, 36.97),
+  subCounty('Kandara', "Murang'a", -0.9, 37.0),
+  subCounty('Maragua', "Murang'a", -0.8, 37.13),
+  subCounty('Kigumo', "Murang'a", -0.8, 37.03),
+  subCounty('Githunguri', 'Kiambu', -1.06, 36.78),
+  subCounty('Gatundu', 'Kiambu', -1.0, 36.9),
+  subCounty('Lari', 'Kiambu', -0.98, 36.64),
+  subCounty('Kinangop', 'Nyandarua', -0.62, 36.55),
+  subCounty('Kangundo', 'Machakos', -1.3, 37.35),
+  subCounty('Mwala', 'Machakos', -1.35, 37.45),
+  subCounty('Yatta', 'Machakos', -1.2, 37.6),
+  subCounty('Kathiani', 'Machakos', -1.42, 37.32),
+  subCounty('Kibwezi', 'Makueni', -2.42, 37.97),
+  subCounty('Mbooni', 'Makueni', -1.63, 37.45),
+  subCounty('Kilome', 'Makueni', -1.82, 37.33),
+  subCounty('Mutomo', 'Kitui', -1.85, 38.21),
+  subCounty('Mbeere', 'Embu', -0.58, 37.64, ['Siakago']),
+  subCounty('Tharaka', 'Tharaka-Nithi', -0.15, 37.98, ['Marimanti']),
+  subCounty('Imenti', 'Meru', 0.05, 37.6),
+  subCounty('Tigania', 'Meru', 0.2, 37.8),
+  subCounty('Igembe', 'Meru', 0.28, 37.95),
+  subCounty('Buuri', 'Meru', 0.1, 37.4),
+  subCounty('Lugari', 'Kakamega', 0.55, 34.9),
+  subCounty('Lurambi', 'Kakamega', 0.3, 34.77),
+  subCounty('Shinyalu', 'Kakamega', 0.2, 34.83),
+  subCounty('Hamisi', 'Vihiga', 0.05, 34.8),
+  subCounty('Sabatia', 'Vihiga', 0.12, 34.77),
+  subCounty('Kanduyi', 'Bungoma', 0.57, 34.57),
+  subCounty('Mt Elgon', 'Bungoma', 0.85, 34.6, ['Mount Elgon']),
+  subCounty('Teso', 'Busia', 0.6, 34.2),
+  subCounty('Nambale', 'Busia', 0.45, 34.25),
+  subCounty('Ugunja', 'Siaya', 0.18, 34.3),
+  subCounty('Gem', 'Siaya', 0.05, 34.45),
+  subCounty('Rarieda', 'Siaya', -0.15, 34.4),
+  subCounty('Nyando', 'Kisumu', -0.2, 34.95),
+  subCounty('Seme', 'Kisumu', -0.12, 34.57),
+  subCounty('Rachuonyo', 'Homa Bay', -0.45, 34.65),
+  subCounty('Ndhiwa', 'Homa Bay', -0.73, 34.37),
+  subCounty('Uriri', 'Migori', -0.95, 34.5),
+  subCounty('Kuria', 'Migori', -1.2, 34.6),
+  subCounty('Bobasi', 'Kisii', -0.82, 34.82),
+  subCounty('Borabu', 'Nyamira', -0.65, 35.0),
+  subCounty('Belgut', 'Kericho', -0.4, 35.2),
+  subCounty('Kipkelion', 'Kericho', -0.2, 35.47),
+  subCounty('Bureti', 'Kericho', -0.55, 35.2),
+  subCounty('Chepalungu', 'Bomet', -0.9, 35.25),
+  subCounty('Konoin', 'Bomet', -0.65, 35.3),
+  subCounty('Mosop', 'Nandi', 0.3, 35.15),
+  subCounty('Tinderet', 'Nandi', -0.05, 35.35),
+  subCounty('Keiyo', 'Elgeyo-Marakwet', 0.6, 35.55),
+  subCounty('Marakwet', 'Elgeyo-Marakwet', 1.05, 35.55),
+  subCounty('Mogotio', 'Baringo', -0.02, 35.97),
+  subCounty('Trans Mara', 'Narok', -1.0, 34.95, ['Transmara']),
+  subCounty('Loita', 'Narok', -1.7, 35.75),
+  subCounty('Isinya', 'Kajiado', -1.68, 36.85),
+  subCounty('Mashuuru', 'Kajiado', -2.1, 37.15),
+  subCounty('Laikipia East', 'Laikipia', 0.05, 37.1),
+  subCounty('Laikipia West', 'Laikipia', 0.2, 36.45),
+  subCounty('Msambweni', 'Kwale', -4.47, 39.48),
+  subCounty('Kinango', 'Kwale', -4.14, 39.32),
+  subCounty('Ganze', 'Kilifi', -3.53, 39.68),
+  subCounty('Magarini', 'Kilifi', -3.0, 40.0),
+
+  // ---------------------------------------------------------------
+  // Tanzania
+  // ---------------------------------------------------------------
+  town('Arusha', 'TZ', 'Arusha', -3.37, 36.68),
+  town('Karatu', 'TZ', 'Arusha', -3.34, 35.67),
+  town('Monduli', 'TZ', 'Arusha', -3.3, 36.45),
+  town('Moshi', 'TZ', 'Kilimanjaro', -3.35, 37.34),
+  town('Same', 'TZ', 'Kilimanjaro', -4.07, 37.73),
+  town('Mwanga', 'TZ', 'Kilimanjaro', -3.66, 37.58),
+  town('Babati', 'TZ', 'Manyara', -4.21, 35.75),
+  town('Mbulu', 'TZ', 'Manyara', -3.85, 35.53),
+  town('Tanga', 'TZ', 'Tanga', -5.07, 39.1),
+  town('Korogwe', 'TZ', 'Tanga', -5.15, 38.48),
+  town('Lushoto', 'TZ', 'Tanga', -4.78, 38.29),
+  town('Handeni', 'TZ', 'Tanga', -5.43, 38.03),
+  town('Morogoro', 'TZ', 'Morogoro', -6.82, 37.66),
+  town('Kilosa', 'TZ', 'Morogoro', -6.83, 36.99),
+  town('Ifakara', 'TZ', 'Morogoro', -8.13, 36.68),
+  town('Gairo', 'TZ', 'Morogoro', -6.13, 36.87),
+  town('Dodoma', 'TZ', 'Dodoma', -6.17, 35.74),
+  town('Kondoa', 'TZ', 'Dodoma', -4.9, 35.78),
+  town('Singida', 'TZ', 'Singida', -4.82, 34.75),
+  town('Manyoni', 'TZ', 'Singida', -5.75, 34.83),
+  town('Tabora', 'TZ', 'Tabora', -5.02, 32.8),
+  town('Nzega', 'TZ', 'Tabora', -4.21, 33.18),
+  town('Urambo', 'TZ', 'Tabora', -5.07, 32.05),
+  town('Shinyanga', 'TZ', 'Shinyanga', -3.66, 33.42),
+  town('Kahama', 'TZ', 'Shinyanga', -3.84, 32.6),
+  town('Bariadi', 'TZ', 'Simiyu', -2.8, 33.99),
+  town('Mwanza', 'TZ', 'Mwanza', -2.52, 32.9),
+  town('Geita', 'TZ', 'Geita', -2.87, 32.23),
+  town('Musoma', 'TZ', 'Mara', -1.5, 33.8),
+  town('Tarime', 'TZ', 'Mara', -1.35, 34.37),
+  town('Bukoba', 'TZ', 'Kagera', -1.33, 31.81),
+  town('Kigoma', 'TZ', 'Kigoma', -4.88, 29.63),
+  town('Kasulu', 'TZ', 'Kigoma', -4.58, 30.1),
+  town('Sumbawanga', 'TZ', 'Rukwa', -7.97, 31.62),
+  town('Mpanda', 'TZ', 'Katavi', -6.34, 31.07),
+  town('Mbeya', 'TZ', 'Mbeya', -8.9, 33.45),
+  town('Tukuyu', 'TZ', 'Mbeya', -9.25, 33.64),
+  town('Vwawa', 'TZ', 'Songwe', -9.11, 32.93),
+  town('Iringa', 'TZ', 'Iringa', -7.77, 35.69),
+  town('Mafinga', 'TZ', 'Iringa', -8.3, 35.3),
+  town('Njombe', 'TZ', 'Njombe', -9.33, 34.77),
+  town('Makambako', 'TZ', 'Njombe', -8.85, 34.82),
+  town('Songea', 'TZ', 'Ruvuma', -10.68, 35.65),
+  town('Mbinga', 'TZ', 'Ruvuma', -10.93, 35.02),
+  town('Mtwara', 'TZ', 'Mtwara', -10.27, 40.18),
+  town('Masasi', 'TZ', 'Mtwara', -10.73, 38.8),
+  town('Lindi', 'TZ', 'Lindi', -10.0, 39.71),
+  town('Dar es Salaam', 'TZ', 'Dar es Salaam', -6.79, 39.21, ['Dar', 'DSM']),
+  town('Bagamoyo', 'TZ', 'Pwani', -6.44, 38.9),
+  town('Kibaha', 'TZ', 'Pwani', -6.77, 38.92),
+  town('Zanzibar', 'TZ', 'Zanzibar', -6.16, 39.19, ['Stone Town', 'Unguja']),
+
+  // ---------------------------------------------------------------
+  // Uganda
+  // ---------------------------------------------------------------
+  town('Kampala', 'UG', 'Kampala', 0.31, 32.58),
+  town('Entebbe', 'UG', 'Wakiso', 0.05, 32.46),
+  town('Wakiso', 'UG', 'Wakiso', 0.4, 32.48),
+  town('Mukono', 'UG', 'Mukono', 0.35, 32.75),
+  town('Jinja', 'UG', 'Jinja', 0.44, 33.2),
+  town('Iganga', 'UG', 'Iganga', 0.61, 33.47),
+  town('Kamuli', 'UG', 'Kamuli', 0.95, 33.12),
+  town('Mbale', 'UG', 'Mbale', 1.08, 34.18),
+  town('Tororo', 'UG', 'Tororo', 0.69, 34.18),
+  town('Busia', 'UG', 'Busia', 0.47, 34.09),
+  town('Kapchorwa', 'UG', 'Kapchorwa', 1.4, 34.45),
+  town('Pallisa', 'UG', 'Pallisa', 1.15, 33.71),
+  town('Soroti', 'UG', 'Soroti', 1.71, 33.61),
+  town('Kumi', 'UG', 'Kumi', 1.49, 33.94),
+  town('Moroto', 'UG', 'Moroto', 2.53, 34.66),
+  town('Kotido', 'UG', 'Kotido', 3.0, 34.1),
+  town('Lira', 'UG', 'Lira', 2.25, 32.9),
+  town('Gulu', 'UG', 'Gulu', 2.77, 32.3),
+  town('Kitgum', 'UG', 'Kitgum', 3.28, 32.89),
+  town('Adjumani', 'UG', 'Adjumani', 3.38, 31.79),
+  town('Arua', 'UG', 'Arua', 3.02, 30.91),
+  town('Nebbi', 'UG', 'Nebbi', 2.48, 31.09),
+  town('Masindi', 'UG', 'Masindi', 1.68, 31.72),
+  town('Hoima', 'UG', 'Hoima', 1.43, 31.35),
+  town('Luwero', 'UG', 'Luwero', 0.85, 32.47),
+  town('Kiboga', 'UG', 'Kiboga', 0.92, 31.77),
+  town('Mubende', 'UG', 'Mubende', 0.56, 31.39),
+  town('Mityana', 'UG', 'Mubende', 0.42, 32.02),
+  town('Fort Portal', 'UG', 'Kabarole', 0.66, 30.27),
+  town('Kasese', 'UG', 'Kasese', 0.18, 30.08),
+  town('Bushenyi', 'UG', 'Bushenyi', -0.54, 30.19),
+  town('Mbarara', 'UG', 'Mbarara', -0.61, 30.65),
+  town('Ntungamo', 'UG', 'Ntungamo', -0.88, 30.26),
+  town('Rukungiri', 'UG', 'Ntungamo', -0.79, 29.93),
+  town('Kabale', 'UG', 'Kabale', -1.25, 29.99),
+  town('Kisoro', 'UG', 'Kabale', -1.28, 29.69),
+  town('Masaka', 'UG', 'Masaka', -0.33, 31.73),
+  town('Rakai', 'UG', 'Rakai', -0.72, 31.48),
+
+  // ---------------------------------------------------------------
+  // Ethiopia
+  // ---------------------------------------------------------------
+  town('Addis Ababa', 'ET', 'Addis Ababa', 9.03, 38.74, ['Addis', 'Finfinne']),
+  town('Adama', 'ET', 'Oromia', 8.54, 39.27, ['Nazret', 'Nazareth']),
+  town('Bishoftu', 'ET', 'Oromia', 8.75, 38.98, ['Debre Zeit']),
+  town('Asella', 'ET', 'Oromia', 7.95, 39.13, ['Asela']),
+  town('Shashemene', 'ET', 'Oromia', 7.2, 38.6),
+  town('Jimma', 'ET', 'Oromia', 7.67, 36.83),
+  town('Nekemte', 'ET', 'Oromia', 9.09, 36.55),
+  town('Ambo', 'ET', 'Oromia', 8.98, 37.85),
+  town('Robe', 'ET', 'Oromia', 7.12, 40.0, ['Bale Robe']),
+  town('Negele Borana', 'ET', 'Oromia', 5.33, 39.58, ['Negele']),
+  town('Moyale', 'ET', 'Oromia', 3.53, 39.06),
+  town('Hawassa', 'ET', 'Sidama', 7.06, 38.48, ['Awasa', 'Awassa']),
+  town('Dilla', 'ET', 'South Ethiopia', 6.41, 38.31),
+  town('Arba Minch', 'ET', 'South Ethiopia', 6.03, 37.55),
+  town('Wolaita Sodo', 'ET', 'South Ethiopia', 6.86, 37.76, ['Sodo']),
+  town('Hosaena', 'ET', 'Central Ethiopia', 7.55, 37.85, ['Hosanna']),
+  town('Bonga', 'ET', 'South West Ethiopia', 7.27, 36.24),
+  town('Mizan Teferi', 'ET', 'South West Ethiopia', 6.99, 35.58),
+  town('Bahir Dar', 'ET', 'Amhara', 11.59, 37.39, ['Bahar Dar']),
+  town('Gondar', 'ET', 'Amhara', 12.6, 37.47, ['Gonder']),
+  town('Dessie', 'ET', 'Amhara', 11.13, 39.63, ['Dese']),
+  town('Debre Markos', 'ET', 'Amhara', 10.33, 37.73),
+  town('Debre Birhan', 'ET', 'Amhara', 9.68, 39.53, ['Debre Berhan']),
+  town('Woldia', 'ET', 'Amhara', 11.83, 39.6, ['Weldiya']),
+  town('Mekelle', 'ET', 'Tigray', 13.5, 39.47, ['Mekele']),
+  town('Axum', 'ET', 'Tigray', 14.12, 38.72, ['Aksum']),
+  town('Adigrat', 'ET', 'Tigray', 14.28, 39.46),
+  town('Semera', 'ET', 'Afar', 11.79, 41.01),
+  town('Dire Dawa', 'ET', 'Dire Dawa', 9.6, 41.85),
+  town('Harar', 'ET', 'Harari', 9.31, 42.12),
+  town('Jijiga', 'ET', 'Somali', 9.35, 42.8),
+  town('Gambela', 'ET', 'Gambela', 8.25, 34.59),
+  town('Assosa', 'ET', 'Benishangul-Gumuz', 10.07, 34.53, ['Asosa'])
+];
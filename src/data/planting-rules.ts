@@ -0,0 +1,61 @@
+/**
+ * Rainy-season onset rules for planting decisions
+ *
+ * The default is the widely used agronomic definition of onset for East
+ * Africa: at least 20 mm of rain over 3 consecutive days (with at least 2
+ * wet days), not followed by a dry spell of 7 or more days within the next
+ * 21 days. Crops that need more moisture to establish, or that tolerate
+ * dry spells better, override individual values.
+ *
+ * To tune a crop, add or edit its entry in CROP_PLANTING_RULES; any value
+ * left out falls back to DEFAULT_PLANTING_RULE.
+ *
+ * @module data/planting-rules
+ */
+
+/**
+ * Criteria for a safe planting window
+ */
+export interface PlantingRule {
+  /** Rain needed over the onset window (mm) */
+  onset_rain_mm: number;
+  /** Length of the onset window (days) */
+  onset_window_days: number;
+  /** Minimum wet days within the onset window */
+  min_wet_days: number;
+  /** Rain on a day (mm) at or above which the day counts as wet */
+  wet_day_mm: number;
+  /** Consecutive dry days that make a false start */
+  dry_spell_days: number;
+  /** Days after the onset window checked for dry spells */
+  dry_spell_check_days: number;
+}
+
+export const DEFAULT_PLANTING_RULE: PlantingRule = {
+  onset_rain_mm: 20,
+  onset_window_days: 3,
+  min_wet_days: 2,
+  wet_day_mm: 1,
+  dry_spell_days: 7,
+  dry_spell_check_days: 21
+};
+
+/**
+ * Per-crop overrides, keyed by crop profile id
+ */
+export const CROP_PLANTING_RULES: Record<string, Partial<PlantingRule>> = {
+  maize: {},
+  beans: { dry_spell_days: 6 },
+  sorghum: { onset_rain_mm: 15, dry_spell_days: 10 },
+  finger_millet: { onset_rain_mm: 15, dry_spell_days: 10 },
+  cowpea: { onset_rain_mm: 15, dry_spell_days: 10 },
+  pigeon_pea: { onset_rain_mm: 15, dry_spell_days: 10 },
+  groundnut: { onset_rain_mm: 20, dry_spell_days: 8 },
+  sunflower: { onset_rain_mm: 20, dry_spell_days: 8 },
+  soybean: { dry_spell_days: 6 },
+  potato: { onset_rain_mm: 25, dry_spell_days: 6 },
+  wheat: { onset_rain_mm: 25 },
+  rice: { onset_rain_mm: 40, onset_window_days: 5, min_wet_days: 3, dry_spell_days: 5 },
+  tomato: { dry_spell_days: 5 }
+};
+
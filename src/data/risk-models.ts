@@ -0,0 +1,215 @@
+/**
+ * Built-in pest and disease risk models
+ *
+ * Each model scores a forecast day by adding the points of every condition
+ * the day's weather meets; the total maps to low / medium / high risk.
+ * Conditions use daily values (GAP does not provide hourly data), so
+ * "hours of high humidity" rules from the literature are approximated with
+ * daily mean humidity and rain.
+ *
+ * Models are plain data: agronomists can add or tune models here, or in a
+ * JSON file loaded at startup (PEST_MODELS_PATH) without changing code.
+ *
+ * @module data/risk-models
+ */
+
+/**
+ * Daily weather values a condition can test
+ * - mean_temp: (max_temp + min_temp) / 2 (°C)
+ * - gdd: degree days above the model's base temperature for the day
+ * - precipitation_3day: rain over the day and the two days before it (mm)
+ */
+export type RiskField =
+  | 'max_temp'
+  | 'min_temp'
+  | 'mean_temp'
+  | 'humidity'
+  | 'precipitation'
+  | 'precipitation_3day'
+  | 'wind_speed'
+  | 'gdd';
+
+/**
+ * One weather condition and the points it adds (negative points lower the risk)
+ */
+export interface RiskCondition {
+  field: RiskField;
+  operator: '>' | '>=' | '<' | '<=' | 'between';
+  /** Threshold, or inclusive [low, high] range for 'between' */
+  value: number | [number, number];
+  points: number;
+  /** Farmer-facing description of the condition, e.g. "humid (≥ 90%)" */
+  label: string;
+}
+
+/**
+ * A pest or disease risk model
+ */
+export interface RiskModel {
+  id: string;
+  name: string;
+  type: 'disease' | 'pest';
+  /** Crop ids (see crop-profiles.ts) or names the threat affects */
+  crops: string[];
+  description: string;
+  conditions: RiskCondition[];
+  /** Score at or above which risk is medium */
+  medium_at: number;
+  /** Score at or above which risk is high */
+  high_at: number;
+  /** Extra points when the score has reached medium for this many days in a row (including today) */
+  persistence?: { days: number; points: number; label: string };
+  /** Degree-day settings, required when a condition uses 'gdd' */
+  degree_days?: { base_temp_c: number; cap_temp_c: number };
+  /** What to do at each risk level */
+  advice: { low: string; medium: string; high: string };
+}
+
+export const RISK_MODELS: RiskModel[] = [
+  {
+    id: 'late_blight',
+    name: 'Late blight',
+    type: 'disease',
+    crops: ['potato', 'tomato'],
+    description: 'Phytophthora infestans spreads in cool-to-mild, very humid and wet weather (after Smith-period criteria).',
+    conditions: [
+      { field: 'min_temp', operator: '>=', value: 10, points: 1, label: 'nights 10 °C or warmer' },
+      { field: 'mean_temp', operator: 'between', value: [10, 25], points: 1, label: 'mild temperatures (10-25 °C)' },
+      { field: 'humidity', operator: '>=', value: 85, points: 2, label: 'very humid (≥ 85%)' },
+      { field: 'humidity', operator: '>=', value: 90, points: 1, label: 'near-saturated air (≥ 90%)' },
+      { field: 'precipitation', operator: '>=', value: 1, points: 1, label: 'rain keeps leaves wet' }
+    ],
+    medium_at: 3,
+    high_at: 5,
+    persistence: { days: 2, points: 1, label: 'two or more favourable days in a row' },
+    advice: {
+      low: 'Low blight risk. Keep scouting weekly.',
+      medium: 'Blight conditions are building. Scout lower leaves for water-soaked spots and have a protectant fungicide ready.',
+      high: 'High blight risk. Apply a protectant fungicide (e.g. mancozeb) before the wet spell, and remove infected plants.'
+    }
+  },
+  {
+    id: 'fall_armyworm',
+    name: 'Fall armyworm',
+    type: 'pest',
+    crops: ['maize', 'sorghum', 'finger_millet', 'rice', 'wheat'],
+    description: 'Spodoptera frugiperda develops fastest in warm weather (degree days above 10.9 °C); dry spells favour outbreaks while heavy rain drowns young larvae.',
+    conditions: [
+      { field: 'gdd', operator: '>=', value: 10, points: 1, label: 'warm enough for fast development (≥ 10 degree days)' },
+      { field: 'gdd', operator: '>=', value: 14, points: 1, label: 'very warm (≥ 14 degree days)' },
+      { field: 'precipitation_3day', operator: '<', value: 10, points: 1, label: 'dry spell (< 10 mm in 3 days)' },
+      { field: 'precipitation', operator: '>=', value: 20, points: -2, label: 'heavy rain washes out young larvae' }
+    ],
+    medium_at: 2,
+    high_at: 3,
+    persistence: { days: 5, points: 1, label: 'five or more warm, dry days in a row' },
+    degree_days: { base_temp_c: 10.9, cap_temp_c: 35 },
+    advice: {
+      low: 'Low armyworm pressure. Scout 20 plants per field weekly.',
+      medium: 'Armyworm development is fast. Scout twice a week for window-pane feeding and frass in the funnel.',
+      high: 'High armyworm pressure. Scout every 2-3 days and treat when more than 10-20% of plants show fresh damage, aiming sprays at the funnel early in the morning or evening.'
+    }
+  },
+  {
+    id: 'coffee_leaf_rust',
+    name: 'Coffee leaf rust',
+    type: 'disease',
+    crops: ['coffee'],
+    description: 'Hemileia vastatrix needs free water on leaves to infect and develops best at 21-25 °C.',
+    conditions: [
+      { field: 'mean_temp', operator: 'between', value: [18, 28], points: 1, label: 'warm (18-28 °C)' },
+      { field: 'mean_temp', operator: 'between', value: [21, 25], points: 1, label: 'optimal rust temperature (21-25 °C)' },
+      { field: 'precipitation', operator: '>=', value: 1, points: 1, label: 'rain wets the leaves' },
+      { field: 'humidity', operator: '>=', value: 80, points: 1, label: 'humid (≥ 80%)' }
+    ],
+    medium_at: 2,
+    high_at: 4,
+    persistence: { days: 3, points: 1, label: 'three or more favourable days in a row' },
+    advice: {
+      low: 'Low rust risk. Continue routine scouting.',
+      medium: 'Rust conditions are present. Check the underside of leaves for orange powder.',
+      high: 'High rust risk. Apply a copper-based fungicide before the rains and keep the canopy open by pruning.'
+    }
+  },
+  {
+    id: 'coffee_berry_disease',
+    name: 'Coffee berry disease',
+    type: 'disease',
+    crops: ['coffee'],
+    description: 'Colletotrichum kahawae spreads by rain splash onto expanding berries in cool, wet weather.',
+    conditions: [
+      { field: 'precipitation', operator: '>=', value: 2, points: 2, label: 'rain splash (≥ 2 mm)' },
+      { field: 'mean_temp', operator: 'between', value: [15, 25], points: 1, label: 'cool to mild (15-25 °C)' },
+      { field: 'humidity', operator: '>=', value: 85, points: 1, label: 'very humid (≥ 85%)' }
+    ],
+    medium_at: 2,
+    high_at: 4,
+    advice: {
+      low: 'Low CBD risk.',
+      medium: 'CBD conditions during berry expansion. Keep a protective copper spray programme on schedule.',
+      high: 'High CBD risk. Spray a protectant fungicide before the rain and remove mummified berries.'
+    }
+  },
+  {
+    id: 'wheat_yellow_rust',
+    name: 'Wheat yellow (stripe) rust',
+    type: 'disease',
+    crops: ['wheat'],
+    description: 'Puccinia striiformis favours cool weather (10-15 °C) with dew or light rain.',
+    conditions: [
+      { field: 'mean_temp', operator: 'between', value: [7, 18], points: 1, label: 'cool (7-18 °C)' },
+      { field: 'mean_temp', operator: 'between', value: [10, 15], points: 1, label: 'optimal yellow rust temperature (10-15 °C)' },
+      { field: 'humidity', operator: '>=', value: 85, points: 1, label: 'very humid (≥ 85%), dew likely' },
+      { field: 'precipitation', operator: '>=', value: 1, points: 1, label: 'rain wets the leaves' }
+    ],
+    medium_at: 2,
+    high_at: 4,
+    persistence: { days: 3, points: 1, label: 'three or more favourable days in a row' },
+    advice: {
+      low: 'Low yellow rust risk.',
+      medium: 'Yellow rust conditions. Scout for yellow stripes of pustules on upper leaves.',
+      high: 'High yellow rust risk. Spray a triazole fungicide at first signs, especially on susceptible varieties.'
+    }
+  },
+  {
+    id: 'wheat_stem_rust',
+    name: 'Wheat stem rust',
+    type: 'disease',
+    crops: ['wheat'],
+    description: 'Puccinia graminis (including Ug99) favours warm days, mild nights and leaf wetness.',
+    conditions: [
+      { field: 'mean_temp', operator: 'between', value: [18, 30], points: 1, label: 'warm (18-30 °C)' },
+      { field: 'min_temp', operator: '>=', value: 15, points: 1, label: 'mild nights (≥ 15 °C)' },
+      { field: 'humidity', operator: '>=', value: 80, points: 1, label: 'humid (≥ 80%)' },
+      { field: 'precipitation', operator: '>=', value: 1, points: 1, label: 'rain wets the leaves' }
+    ],
+    medium_at: 2,
+    high_at: 4,
+    persistence: { days: 3, points: 1, label: 'three or more favourable days in a row' },
+    advice: {
+      low: 'Low stem rust risk.',
+      medium: 'Stem rust conditions. Scout stems and leaf sheaths for brick-red pustules.',
+      high: 'High stem rust risk. Spray a triazole fungicide at first signs; Ug99 spreads fast.'
+    }
+  },
+  {
+    id: 'tuta_absoluta',
+    name: 'Tomato leaf miner (Tuta absoluta)',
+    type: 'pest',
+    crops: ['tomato', 'potato'],
+    description: 'Tuta absoluta completes generations quickly in warm, dry weather (degree days above 8 °C).',
+    conditions: [
+      { field: 'gdd', operator: '>=', value: 12, points: 1, label: 'warm (≥ 12 degree days)' },
+      { field: 'gdd', operator: '>=', value: 16, points: 1, label: 'hot (≥ 16 degree days)' },
+      { field: 'precipitation', operator: '<', value: 1, points: 1, label: 'dry day' }
+    ],
+    medium_at: 2,
+    high_at: 3,
+    degree_days: { base_temp_c: 8, cap_temp_c: 35 },
+    advice: {
+      low: 'Low leaf miner pressure. Keep pheromone traps in place.',
+      medium: 'Leaf miner develops fast. Check traps and leaves for mines twice a week.',
+      high: 'High leaf miner pressure. Remove mined leaves, use pheromone traps and rotate insecticides if thresholds are passed.'
+    }
+  }
+];
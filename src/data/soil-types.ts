@@ -0,0 +1,32 @@
+/**
+ * Built-in soil water properties
+ *
+ * Available water capacity (water held between field capacity and wilting
+ * point) for the broad soil textures farmers name. Values are mid-range
+ * figures from FAO-56 Table 19 and are meant for scheduling, not soil
+ * surveys.
+ *
+ * @module data/soil-types
+ */
+
+/**
+ * Water-holding properties of a soil texture
+ */
+export interface SoilType {
+  id: string;
+  name: string;
+  /** Other names farmers or agents may use */
+  aliases: string[];
+  /** Available water capacity (mm of water per metre of soil) */
+  available_water_mm_per_m: number;
+}
+
+export const SOIL_TYPES: SoilType[] = [
+  { id: 'sand', name: 'Sand', aliases: ['sandy'], available_water_mm_per_m: 70 },
+  { id: 'loamy_sand', name: 'Loamy sand', aliases: [], available_water_mm_per_m: 90 },
+  { id: 'sandy_loam', name: 'Sandy loam', aliases: [], available_water_mm_per_m: 120 },
+  { id: 'loam', name: 'Loam', aliases: ['loamy'], available_water_mm_per_m: 150 },
+  { id: 'silt_loam', name: 'Silt loam', aliases: ['silty', 'silt'], available_water_mm_per_m: 170 },
+  { id: 'clay_loam', name: 'Clay loam', aliases: ['red soil', 'volcanic', 'nitisol'], available_water_mm_per_m: 160 },
+  { id: 'clay', name: 'Clay', aliases: ['clayey', 'black cotton', 'black cotton soil', 'vertisol'], available_water_mm_per_m: 180 }
+];
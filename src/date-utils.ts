@@ -0,0 +1,76 @@
+/**
+ * Calendar helpers for GAP date ranges
+ *
+ * GAP works in whole days (YYYY-MM-DD). All arithmetic here is done in UTC
+ * so that ranges don't shift by a day depending on the server's timezone.
+ *
+ * @module date-utils
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Matches a YYYY-MM-DD date string */
+export const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Format a Date as YYYY-MM-DD (UTC)
+ */
+export function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Parse a YYYY-MM-DD string as a UTC midnight Date
+ *
+ * @throws Error if the string is not a valid calendar date
+ */
+export function parseDate(value: string): Date {
+  if (!ISO_DATE_PATTERN.test(value)) {
+    throw new Error(`Invalid date: ${value} (expected YYYY-MM-DD)`);
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  if (isNaN(date.getTime()) || formatDate(date) !== value) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Add (or subtract) whole days to a YYYY-MM-DD date
+ */
+export function addDays(value: string, days: number): string {
+  return formatDate(new Date(parseDate(value).getTime() + days * DAY_MS));
+}
+
+/**
+ * Number of days from `start` to `end` (end - start); 0 when equal
+ */
+export function daysBetween(start: string, end: string): number {
+  return Math.round((parseDate(end).getTime() - parseDate(start).getTime()) / DAY_MS);
+}
+
+/**
+ * Today's date (UTC) offset by the given number of days
+ */
+export function today(offsetDays = 0): string {
+  return addDays(formatDate(new Date()), offsetDays);
+}
+
+/**
+ * Split an inclusive date range into consecutive inclusive chunks
+ *
+ * @param start - First day (YYYY-MM-DD)
+ * @param end - Last day (YYYY-MM-DD)
+ * @param maxDays - Maximum number of days per chunk
+ */
+export function splitDateRange(start: string, end: string, maxDays: number): Array<{ start: string; end: string }> {
+  const chunks: Array<{ start: string; end: string }> = [];
+  let chunkStart = start;
+  while (daysBetween(chunkStart, end) >= 0) {
+    const candidateEnd = addDays(chunkStart, maxDays - 1);
+    const chunkEnd = daysBetween(candidateEnd, end) < 0 ? end : candidateEnd;
+    chunks.push({ start: chunkStart, end: chunkEnd });
+    chunkStart = addDays(chunkEnd, 1);
+  }
+  return chunks;
+}
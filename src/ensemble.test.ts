@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { computeEnsembleStats, percentile, summarizeEnsemble, thresholdProbability } from './ensemble.js';
+
+describe('percentile', () => {
+  it('interpolates between neighbouring members', () => {
+    assert.equal(percentile([10, 20, 30, 40, 50], 50), 30);
+    assert.equal(percentile([10, 20, 30, 40, 50], 10), 14);
+    assert.equal(percentile([10, 20], 90), 19);
+  });
+
+  it('returns the only member of a single-member ensemble', () => {
+    assert.equal(percentile([7], 90), 7);
+  });
+});
+
+describe('computeEnsembleStats', () => {
+  it('describes unsorted members', () => {
+    const stats = computeEnsembleStats([4, 2, 8, 6]);
+    assert.equal(stats.members, 4);
+    assert.equal(stats.mean, 5);
+    assert.equal(stats.median, 5);
+    assert.equal(stats.min, 2);
+    assert.equal(stats.max, 8);
+    assert.equal(stats.std_dev, Math.sqrt(5));
+    assert.ok(Math.abs(stats.p10 - 2.6) < 1e-9);
+    assert.ok(Math.abs(stats.p90 - 7.4) < 1e-9);
+  });
+});
+
+describe('thresholdProbability', () => {
+  it('counts the share of members meeting the threshold', () => {
+    const result = thresholdProbability([0, 2, 5, 6, 25], { attribute: 'precipitation', operator: '>', value: 5 });
+    assert.equal(result.probability, 0.4);
+    assert.equal(result.label, 'P(precipitation > 5)');
+  });
+
+  it('treats >= and <= as inclusive', () => {
+    assert.equal(thresholdProbability([5, 5, 4, 6], { attribute: 'precipitation', operator: '>=', value: 5 }).probability, 0.75);
+    assert.equal(thresholdProbability([5, 5, 4, 6], { attribute: 'precipitation', operator: '<=', value: 5 }).probability, 0.75);
+  });
+
+  it('is 0 without members', () => {
+    assert.equal(thresholdProbability([], { attribute: 'precipitation', operator: '>', value: 1 }).probability, 0);
+  });
+});
+
+describe('summarizeEnsemble', () => {
+  it('skips thresholds for attributes without members', () => {
+    const summary = summarizeEnsemble(new Map([
+      ['precipitation', [0, 3, 10]],
+      ['max_temperature', []]
+    ]));
+    assert.deepEqual(Object.keys(summary.stats), ['precipitation']);
+    assert.deepEqual(summary.probabilities.map(p => p.label), [
+      'P(precipitation > 1)',
+      'P(precipitation > 5)',
+      'P(precipitation > 20)'
+    ]);
+    assert.deepEqual(summary.probabilities.map(p => p.probability), [2 / 3, 1 / 3, 0]);
+  });
+});
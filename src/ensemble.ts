@@ -0,0 +1,154 @@
+/**
+ * Ensemble statistics for GAP forecasts
+ *
+ * The seasonal forecast product returns 50 ensemble members per attribute.
+ * The default response keeps only their mean; this module describes the
+ * spread (percentiles, standard deviation) and the probability of crossing
+ * agronomic thresholds, which is what matters for risk decisions.
+ *
+ * @module ensemble
+ */
+
+/**
+ * Distribution of ensemble members for one attribute on one day
+ */
+export interface EnsembleStats {
+  /** Number of ensemble members the statistics are based on */
+  members: number;
+  mean: number;
+  median: number;
+  p10: number;
+  p90: number;
+  min: number;
+  max: number;
+  /** Population standard deviation */
+  std_dev: number;
+}
+
+/** Comparison operators supported for threshold probabilities */
+export type ThresholdOperator = '>' | '>=' | '<' | '<=';
+
+/**
+ * A threshold to evaluate against the ensemble members
+ * Values are in GAP units (e.g. relative_humidity as a 0-1 fraction)
+ */
+export interface EnsembleThreshold {
+  attribute: string;
+  operator: ThresholdOperator;
+  value: number;
+}
+
+/**
+ * Probability (0-1) that an attribute crosses a threshold on one day
+ */
+export interface ThresholdProbability extends EnsembleThreshold {
+  /** Human-readable form, e.g. "P(precipitation > 5)" */
+  label: string;
+  /** Share of ensemble members meeting the condition */
+  probability: number;
+}
+
+/**
+ * Ensemble block attached to a daily result
+ */
+export interface EnsembleSummary {
+  /** Statistics per attribute */
+  stats: Record<string, EnsembleStats>;
+  /** Threshold probabilities (only for attributes present that day) */
+  probabilities: ThresholdProbability[];
+}
+
+/**
+ * Thresholds evaluated when the caller doesn't supply any
+ */
+export const DEFAULT_ENSEMBLE_THRESHOLDS: EnsembleThreshold[] = [
+  { attribute: 'precipitation', operator: '>', value: 1 },      // Rain day
+  { attribute: 'precipitation', operator: '>', value: 5 },      // Useful rain
+  { attribute: 'precipitation', operator: '>', value: 20 },     // Heavy rain
+  { attribute: 'max_temperature', operator: '>', value: 32 },   // Heat stress for most crops
+  { attribute: 'min_temperature', operator: '<', value: 5 }     // Cold / frost risk at altitude
+];
+
+/**
+ * Percentile of sorted values using linear interpolation
+ *
+ * @param sorted - Values sorted ascending (must not be empty)
+ * @param p - Percentile in the range 0-100
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 1) return sorted[0];
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Describe the distribution of a set of ensemble members
+ *
+ * @param values - Member values (must not be empty)
+ */
+export function computeEnsembleStats(values: number[]): EnsembleStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+  const variance = sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / sorted.length;
+
+  return {
+    members: sorted.length,
+    mean,
+    median: percentile(sorted, 50),
+    p10: percentile(sorted, 10),
+    p90: percentile(sorted, 90),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    std_dev: Math.sqrt(variance)
+  };
+}
+
+/**
+ * Test one value against a threshold
+ */
+export function meetsThreshold(value: number, operator: ThresholdOperator, threshold: number): boolean {
+  switch (operator) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+  }
+}
+
+/**
+ * Share of members meeting a threshold (0-1)
+ */
+export function thresholdProbability(values: number[], threshold: EnsembleThreshold): ThresholdProbability {
+  const hits = values.filter(v => meetsThreshold(v, threshold.operator, threshold.value)).length;
+  return {
+    ...threshold,
+    label: `P(${threshold.attribute} ${threshold.operator} ${threshold.value})`,
+    probability: values.length > 0 ? hits / values.length : 0
+  };
+}
+
+/**
+ * Build the ensemble block for one day from the members of each attribute
+ *
+ * @param membersByAttribute - All numeric member values, keyed by attribute
+ * @param thresholds - Thresholds to evaluate
+ */
+export function summarizeEnsemble(
+  membersByAttribute: Map<string, number[]>,
+  thresholds: EnsembleThreshold[] = DEFAULT_ENSEMBLE_THRESHOLDS
+): EnsembleSummary {
+  const stats: Record<string, EnsembleStats> = {};
+  membersByAttribute.forEach((values, attr) => {
+    if (values.length > 0) {
+      stats[attr] = computeEnsembleStats(values);
+    }
+  });
+
+  const probabilities = thresholds
+    .filter(t => (membersByAttribute.get(t.attribute)?.length ?? 0) > 0)
+    .map(t => thresholdProbability(membersByAttribute.get(t.attribute)!, t));
+
+  return { stats, probabilities };
+}
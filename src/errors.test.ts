@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  errorFromResponse,
+  GAPAuthError,
+  GAPNotFoundError,
+  GAPOutOfCoverageError,
+  GAPRateLimitError,
+  GAPUpstreamError,
+  GAPValidationError,
+  parseRetryAfter
+} from './errors.js';
+
+describe('parseRetryAfter', () => {
+  it('reads delays in seconds and HTTP dates', () => {
+    const now = Date.parse('2026-10-19T06:00:00Z');
+    assert.equal(parseRetryAfter('30', now), 30);
+    assert.equal(parseRetryAfter('Mon, 19 Oct 2026 06:01:00 GMT', now), 60);
+    assert.equal(parseRetryAfter('Mon, 19 Oct 2026 05:00:00 GMT', now), 0);
+  });
+
+  it('ignores missing or unreadable values', () => {
+    assert.equal(parseRetryAfter(null), undefined);
+    assert.equal(parseRetryAfter('soon'), undefined);
+  });
+});
+
+describe('errorFromResponse', () => {
+  it('maps status codes to typed errors', () => {
+    assert.ok(errorFromResponse(401, '') instanceof GAPAuthError);
+    assert.ok(errorFromResponse(410, 'Gone') instanceof GAPNotFoundError);
+    assert.ok(errorFromResponse(400, 'Invalid date') instanceof GAPValidationError);
+
+    const rateLimited = errorFromResponse(429, '', '12');
+    assert.ok(rateLimited instanceof GAPRateLimitError);
+    assert.equal(rateLimited.retryAfterSeconds, 12);
+    assert.equal(rateLimited.retryable, true);
+
+    const upstream = errorFromResponse(503, 'Service Unavailable');
+    assert.ok(upstream instanceof GAPUpstreamError);
+    assert.equal(upstream.status, 503);
+    assert.equal(upstream.retryable, true);
+  });
+
+  it('recognises out-of-coverage messages', () => {
+    const error = errorFromResponse(400, 'Point is outside the coverage area of this product');
+    assert.ok(error instanceof GAPOutOfCoverageError);
+    assert.equal(error.retryable, false);
+    assert.ok(errorFromResponse(404, 'No data for this location') instanceof GAPOutOfCoverageError);
+  });
+
+  it('does not treat any mention of coverage as out of coverage', () => {
+    assert.ok(errorFromResponse(404, 'coverage service unavailable') instanceof GAPNotFoundError);
+    assert.ok(errorFromResponse(400, 'coverage parameter is invalid') instanceof GAPValidationError);
+  });
+});
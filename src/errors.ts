@@ -0,0 +1,164 @@
+/**
+ * Typed errors raised by the GAP client
+ *
+ * Every failure carries a machine-readable `code`, the HTTP status (when
+ * there was one) and the upstream Retry-After hint, so callers can decide
+ * whether to retry and what to tell the farmer without parsing messages.
+ *
+ * @module errors
+ */
+
+/**
+ * Machine-readable error codes
+ */
+export type GAPErrorCode =
+  | 'invalid_request'      // Bad coordinates, dates or arguments (ours or a GAP 400)
+  | 'auth_failed'          // 401/403: token missing, invalid or expired
+  | 'not_found'            // 404/410: endpoint or resource gone
+  | 'rate_limited'         // 429: too many requests
+  | 'upstream_error'       // 5xx or network failure
+  | 'timeout'              // No response within the time limit
+  | 'invalid_response'     // Response body could not be parsed or validated
+  | 'out_of_coverage'      // Location outside the GAP product coverage
+  | 'service_unavailable'  // Circuit breaker open: GAP is failing, not calling it
+  | 'cancelled';           // The caller cancelled the request
+
+/**
+ * Base class for all GAP client errors
+ */
+export class GAPError extends Error {
+  /** Machine-readable error code */
+  readonly code: GAPErrorCode;
+
+  /** HTTP status code from GAP, when the error came from a response */
+  readonly status?: number;
+
+  /** Seconds the caller should wait before retrying, when known */
+  readonly retryAfterSeconds?: number;
+
+  /** Whether repeating the same request may succeed */
+  readonly retryable: boolean;
+
+  constructor(
+    code: GAPErrorCode,
+    message: string,
+    options: { status?: number; retryAfterSeconds?: number; retryable?: boolean; cause?: unknown } = {}
+  ) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = new.target.name;
+    this.code = code;
+    this.status = options.status;
+    this.retryAfterSeconds = options.retryAfterSeconds;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+/** Invalid input detected before calling GAP */
+export class GAPValidationError extends GAPError {
+  constructor(message: string, status?: number) {
+    super('invalid_request', message, { status });
+  }
+}
+
+/** 401/403 from GAP */
+export class GAPAuthError extends GAPError {
+  constructor(message: string, status: number) {
+    super('auth_failed', message, { status });
+  }
+}
+
+/** 404/410 from GAP */
+export class GAPNotFoundError extends GAPError {
+  constructor(message: string, status: number) {
+    super('not_found', message, { status });
+  }
+}
+
+/** 429 from GAP */
+export class GAPRateLimitError extends GAPError {
+  constructor(message: string, retryAfterSeconds?: number) {
+    super('rate_limited', message, { status: 429, retryAfterSeconds, retryable: true });
+  }
+}
+
+/** 5xx from GAP, or the connection failed */
+export class GAPUpstreamError extends GAPError {
+  constructor(message: string, status?: number, retryAfterSeconds?: number, cause?: unknown) {
+    super('upstream_error', message, { status, retryAfterSeconds, retryable: true, cause });
+  }
+}
+
+/** GAP took longer than the request time limit */
+export class GAPTimeoutError extends GAPError {
+  constructor(message: string) {
+    super('timeout', message, { retryable: true });
+  }
+}
+
+/** GAP answered with a body we could not understand */
+export class GAPInvalidResponseError extends GAPError {
+  constructor(message: string, status?: number) {
+    super('invalid_response', message, { status });
+  }
+}
+
+/** The requested point is outside the product's coverage */
+export class GAPOutOfCoverageError extends GAPError {
+  constructor(message: string, status?: number) {
+    super('out_of_coverage', message, { status });
+  }
+}
+
+/** The circuit breaker is open; GAP was not called */
+export class GAPCircuitOpenError extends GAPError {
+  constructor(retryAfterSeconds: number) {
+    super('service_unavailable', 'GAP API circuit breaker is open after repeated failures', { retryAfterSeconds });
+  }
+}
+
+/** The caller aborted the request (e.g. the MCP client cancelled the tool call) */
+export class GAPCancelledError extends GAPError {
+  constructor() {
+    super('cancelled', 'GAP API request was cancelled');
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date)
+ *
+ * @returns Seconds to wait, or undefined when absent/unparseable
+ */
+export function parseRetryAfter(header: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds;
+  const date = Date.parse(header);
+  if (!isNaN(date)) return Math.max(0, Math.ceil((date - now) / 1000));
+  return undefined;
+}
+
+/** Phrases GAP uses when a point has no data coverage */
+const OUT_OF_COVERAGE_PATTERN = /(out of|outside|not within|no data for).*(coverage|bound|area|location|grid|point)/i;
+
+/**
+ * Build the typed error for a non-OK GAP response
+ *
+ * @param status - HTTP status code
+ * @param body - Response body text (may be empty)
+ * @param retryAfterHeader - Raw Retry-After header value
+ */
+export function errorFromResponse(status: number, body: string, retryAfterHeader?: string | null): GAPError {
+  const detail = body || `HTTP ${status}`;
+  const message = `GAP API error (${status}): ${detail}`;
+  const retryAfter = parseRetryAfter(retryAfterHeader);
+
+  if (status === 401 || status === 403) return new GAPAuthError(message, status);
+  if (status === 429) return new GAPRateLimitError(message, retryAfter);
+  if ((status === 400 || status === 404) && OUT_OF_COVERAGE_PATTERN.test(body)) {
+    return new GAPOutOfCoverageError(message, status);
+  }
+  if (status === 404 || status === 410) return new GAPNotFoundError(message, status);
+  if (status >= 500) return new GAPUpstreamError(message, status, retryAfter);
+  if (status === 400) return new GAPValidationError(message, status);
+  return new GAPError('upstream_error', message, { status });
+}
@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { extraterrestrialRadiation, hargreavesEt0, penmanMonteithEt0, referenceEt } from './evapotranspiration.js';
+
+const near = (actual: number, expected: number, tolerance: number) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${actual} to be within ${tolerance} of ${expected}`);
+
+describe('extraterrestrialRadiation', () => {
+  it('matches FAO-56 example 8 (20°S, 3 September)', () => {
+    near(extraterrestrialRadiation(-20, '2026-09-03'), 32.2, 0.05);
+  });
+});
+
+describe('penmanMonteithEt0', () => {
+  it('matches FAO-56 example 18 (Brussels, 6 July)', () => {
+    // Tmax 21.5 °C, Tmin 12.3 °C, ea 1.409 kPa (≈70.5% RH), u2 2.078 m/s, Rs 22.07 MJ/m², 100 m
+    const ra = extraterrestrialRadiation(50.8, '2026-07-06');
+    near(ra, 41.09, 0.05);
+    near(penmanMonteithEt0(21.5, 12.3, 70.55, 2.078, 22.07 / 0.0864, ra, 100), 3.9, 0.05);
+  });
+});
+
+describe('hargreavesEt0', () => {
+  it('grows with the daily temperature range', () => {
+    const ra = extraterrestrialRadiation(-1.3, '2026-10-19');
+    assert.ok(hargreavesEt0(30, 15, ra) > hargreavesEt0(25, 20, ra));
+    assert.equal(hargreavesEt0(20, 20, ra), 0);
+  });
+});
+
+describe('referenceEt', () => {
+  it('uses Penman-Monteith when every input is available', () => {
+    const result = referenceEt({ date: '2026-10-19', max_temp: 28, min_temp: 15, humidity: 65, wind_speed: 2, solar_radiation: 240 }, -1.3);
+    assert.equal(result.method, 'penman-monteith');
+    assert.ok(result.et0 !== null && result.et0 > 3 && result.et0 < 7);
+  });
+
+  it('falls back to Hargreaves without humidity, wind or radiation', () => {
+    const result = referenceEt({ date: '2026-10-19', max_temp: 28, min_temp: 15, humidity: 65, wind_speed: null }, -1.3);
+    assert.equal(result.method, 'hargreaves');
+    assert.ok(result.et0 !== null && result.et0 > 3 && result.et0 < 7);
+  });
+
+  it('is unavailable without temperatures', () => {
+    assert.deepEqual(referenceEt({ date: '2026-10-19', max_temp: null, min_temp: 15 }, -1.3), { et0: null, method: 'unavailable' });
+  });
+});
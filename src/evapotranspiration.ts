@@ -0,0 +1,153 @@
+/**
+ * Reference evapotranspiration (ET0)
+ *
+ * Daily ET0 from the farming forecast attributes, following FAO Irrigation
+ * and Drainage Paper 56:
+ * - Penman-Monteith when temperature, humidity, wind and solar radiation
+ *   are all available
+ * - Hargreaves (temperature and latitude only) otherwise
+ *
+ * Assumptions: wind speed is taken as measured at 2 m, soil heat flux is
+ * zero for daily steps, and elevation defaults to 1200 m (typical of East
+ * African farming areas) when unknown.
+ *
+ * @module evapotranspiration
+ */
+
+import { daysBetween } from './date-utils.js';
+
+/** Elevation used when the caller gives none (m) */
+export const DEFAULT_ELEVATION_M = 1200;
+
+/** Solar constant (MJ m⁻² min⁻¹) */
+const SOLAR_CONSTANT = 0.082;
+
+/** Stefan-Boltzmann constant (MJ K⁻⁴ m⁻² day⁻¹) */
+const STEFAN_BOLTZMANN = 4.903e-9;
+
+/** W/m² (daily mean) to MJ m⁻² day⁻¹ */
+const WATTS_TO_MJ_PER_DAY = 0.0864;
+
+/**
+ * Weather inputs for one day (display units: °C, %, m/s, W/m²)
+ */
+export interface EtWeather {
+  date: string;
+  max_temp: number | null;
+  min_temp: number | null;
+  humidity?: number | null;
+  wind_speed?: number | null;
+  solar_radiation?: number | null;
+}
+
+/**
+ * ET0 for one day and how it was computed
+ */
+export interface ReferenceEt {
+  /** Reference evapotranspiration (mm/day), null when temperatures are missing */
+  et0: number | null;
+  method: 'penman-monteith' | 'hargreaves' | 'unavailable';
+}
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/**
+ * Saturation vapour pressure at a temperature (kPa)
+ */
+function saturationVapourPressure(temperature: number): number {
+  return 0.6108 * Math.exp((17.27 * temperature) / (temperature + 237.3));
+}
+
+/**
+ * Day of the year (1-366) of a YYYY-MM-DD date
+ */
+function dayOfYear(date: string): number {
+  return daysBetween(`${date.slice(0, 4)}-01-01`, date) + 1;
+}
+
+/**
+ * Extraterrestrial radiation for a latitude and date (MJ m⁻² day⁻¹)
+ */
+export function extraterrestrialRadiation(latitude: number, date: string): number {
+  const day = dayOfYear(date);
+  const phi = toRadians(latitude);
+  const inverseDistance = 1 + 0.033 * Math.cos((2 * Math.PI * day) / 365);
+  const declination = 0.409 * Math.sin((2 * Math.PI * day) / 365 - 1.39);
+  const sunsetAngle = Math.acos(Math.max(-1, Math.min(1, -Math.tan(phi) * Math.tan(declination))));
+  return ((24 * 60) / Math.PI) * SOLAR_CONSTANT * inverseDistance *
+    (sunsetAngle * Math.sin(phi) * Math.sin(declination) + Math.cos(phi) * Math.cos(declination) * Math.sin(sunsetAngle));
+}
+
+/**
+ * Hargreaves ET0 (mm/day) from temperatures and extraterrestrial radiation
+ */
+export function hargreavesEt0(maxTemp: number, minTemp: number, ra: number): number {
+  const mean = (maxTemp + minTemp) / 2;
+  return Math.max(0, 0.0023 * 0.408 * ra * (mean + 17.8) * Math.sqrt(Math.max(0, maxTemp - minTemp)));
+}
+
+/**
+ * FAO-56 Penman-Monteith ET0 (mm/day)
+ *
+ * @param humidity - Mean relative humidity (%)
+ * @param windSpeed - Wind speed at 2 m (m/s)
+ * @param solarRadiation - Mean solar radiation (W/m²)
+ * @param ra - Extraterrestrial radiation (MJ m⁻² day⁻¹)
+ * @param elevation - Elevation above sea level (m)
+ */
+export function penmanMonteithEt0(
+  maxTemp: number,
+  minTemp: number,
+  humidity: number,
+  windSpeed: number,
+  solarRadiation: number,
+  ra: number,
+  elevation: number
+): number {
+  const mean = (maxTemp + minTemp) / 2;
+  const slope = (4098 * saturationVapourPressure(mean)) / (mean + 237.3) ** 2;
+  const pressure = 101.3 * ((293 - 0.0065 * elevation) / 293) ** 5.26;
+  const psychrometric = 0.000665 * pressure;
+
+  const es = (saturationVapourPressure(maxTemp) + saturationVapourPressure(minTemp)) / 2;
+  const ea = (Math.min(100, Math.max(0, humidity)) / 100) * es;
+
+  const rs = solarRadiation * WATTS_TO_MJ_PER_DAY;
+  const rso = (0.75 + 2e-5 * elevation) * ra;
+  const netShortwave = 0.77 * rs;
+  const relativeShortwave = rso > 0 ? Math.min(1, rs / rso) : 1;
+  const netLongwave = STEFAN_BOLTZMANN *
+    (((maxTemp + 273.16) ** 4 + (minTemp + 273.16) ** 4) / 2) *
+    (0.34 - 0.14 * Math.sqrt(ea)) *
+    (1.35 * relativeShortwave - 0.35);
+  const netRadiation = netShortwave - netLongwave;
+
+  const et0 = (0.408 * slope * netRadiation + psychrometric * (900 / (mean + 273)) * windSpeed * (es - ea)) /
+    (slope + psychrometric * (1 + 0.34 * windSpeed));
+  return Math.max(0, et0);
+}
+
+/**
+ * Daily ET0 with the best method the available data allows
+ *
+ * @param day - Weather for the day
+ * @param latitude - Latitude of the location
+ * @param elevation - Elevation above sea level (m, default: DEFAULT_ELEVATION_M)
+ */
+export function referenceEt(day: EtWeather, latitude: number, elevation: number = DEFAULT_ELEVATION_M): ReferenceEt {
+  if (day.max_temp === null || day.min_temp === null) {
+    return { et0: null, method: 'unavailable' };
+  }
+
+  const ra = extraterrestrialRadiation(latitude, day.date);
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  if (day.humidity != null && day.wind_speed != null && day.solar_radiation != null) {
+    return {
+      et0: round(penmanMonteithEt0(day.max_temp, day.min_temp, day.humidity, day.wind_speed, day.solar_radiation, ra, elevation)),
+      method: 'penman-monteith'
+    };
+  }
+
+  return { et0: round(hargreavesEt0(day.max_temp, day.min_temp, ra)), method: 'hargreaves' };
+}
@@ -0,0 +1,202 @@
+/**
+ * Persistent farm profile registry
+ *
+ * Stores named farms (location, crops, planting date, soil) in a local JSON
+ * file so agents can refer to a farm by id instead of repeating raw
+ * coordinates, and advisory tools can use the crop and planting date.
+ *
+ * Key Features:
+ * - Single JSON file, written atomically (temp file + rename)
+ * - Writes serialized within the process so concurrent tool calls don't clobber each other
+ * - Farms optionally scoped to an owner/client id
+ *
+ * @module farm-registry
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * A registered farm
+ */
+export interface FarmProfile {
+  /** Stable identifier used by the tools (farm_id) */
+  id: string;
+
+  /** Display name, e.g. "Wanjiru's shamba" */
+  name: string;
+
+  /** Latitude coordinate (-90 to 90) */
+  latitude: number;
+
+  /** Longitude coordinate (-180 to 180) */
+  longitude: number;
+
+  /** Crops grown on the farm, e.g. ["maize", "beans"] */
+  crops: string[];
+
+  /** Planting date of the current season (YYYY-MM-DD) */
+  planting_date?: string;
+
+  /** Soil type, e.g. "clay", "loam", "sandy" */
+  soil_type?: string;
+
+  /** Owner or client application the farm belongs to */
+  owner_id?: string;
+
+  /** ISO 8601 creation time */
+  created_at: string;
+
+  /** ISO 8601 last update time */
+  updated_at: string;
+}
+
+/** Fields accepted when registering a farm */
+export type FarmInput = Omit<FarmProfile, 'id' | 'created_at' | 'updated_at'>;
+
+/** Fields accepted when updating a farm (all optional) */
+export type FarmUpdate = Partial<FarmInput>;
+
+/**
+ * Raised when a farm id is not in the registry
+ */
+export class FarmNotFoundError extends Error {
+  constructor(readonly farmId: string) {
+    super(`Farm not found: ${farmId}`);
+    this.name = 'FarmNotFoundError';
+  }
+}
+
+/**
+ * On-disk file format
+ */
+interface RegistryFile {
+  version: 1;
+  farms: FarmProfile[];
+}
+
+/**
+ * JSON-file backed farm registry
+ *
+ * @example
+ * ```typescript
+ * const registry = new FarmRegistry('.data/farms.json');
+ * const farm = await registry.create({ name: 'Kitale plot', latitude: 1.0157, longitude: 35.0062, crops: ['maize'] });
+ * const same = await registry.get(farm.id);
+ * ```
+ */
+export class FarmRegistry {
+  /** Loaded farms keyed by id (null until first use) */
+  private farms: Map<string, FarmProfile> | null = null;
+
+  /** Tail of the serialized operation queue */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param filePath - Location of the JSON file (created on first write)
+   */
+  constructor(private filePath: string) {}
+
+  /**
+   * Run an operation after all previously queued ones
+   */
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation, operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(): Promise<Map<string, FarmProfile>> {
+    if (this.farms) return this.farms;
+
+    try {
+      const content = JSON.parse(await readFile(this.filePath, 'utf8')) as RegistryFile;
+      this.farms = new Map((content.farms ?? []).map(farm => [farm.id, farm]));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw new Error(`Failed to read farm registry ${this.filePath}: ${error.message}`);
+      }
+      this.farms = new Map();
+    }
+    return this.farms;
+  }
+
+  private async save(farms: Map<string, FarmProfile>): Promise<void> {
+    const content: RegistryFile = { version: 1, farms: Array.from(farms.values()) };
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(content, null, 2), 'utf8');
+    await rename(tempPath, this.filePath);
+  }
+
+  /**
+   * List farms, optionally only those of one owner
+   */
+  async list(ownerId?: string): Promise<FarmProfile[]> {
+    return this.serialize(async () => {
+      const farms = Array.from((await this.load()).values());
+      return ownerId ? farms.filter(farm => farm.owner_id === ownerId) : farms;
+    });
+  }
+
+  /**
+   * Get a farm by id
+   *
+   * @throws FarmNotFoundError if the id is unknown
+   */
+  async get(id: string): Promise<FarmProfile> {
+    return this.serialize(async () => {
+      const farm = (await this.load()).get(id);
+      if (!farm) throw new FarmNotFoundError(id);
+      return farm;
+    });
+  }
+
+  /**
+   * Register a new farm
+   */
+  async create(input: FarmInput): Promise<FarmProfile> {
+    return this.serialize(async () => {
+      const farms = await this.load();
+      const now = new Date().toISOString();
+      const farm: FarmProfile = { ...input, id: randomUUID(), created_at: now, updated_at: now };
+      farms.set(farm.id, farm);
+      await this.save(farms);
+      return farm;
+    });
+  }
+
+  /**
+   * Update some fields of a farm
+   *
+   * @throws FarmNotFoundError if the id is unknown
+   */
+  async update(id: string, changes: FarmUpdate): Promise<FarmProfile> {
+    return this.serialize(async () => {
+      const farms = await this.load();
+      const existing = farms.get(id);
+      if (!existing) throw new FarmNotFoundError(id);
+
+      // Ignore explicit undefined values so they don't erase stored fields
+      const defined = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+      const farm: FarmProfile = { ...existing, ...defined, id, updated_at: new Date().toISOString() };
+      farms.set(id, farm);
+      await this.save(farms);
+      return farm;
+    });
+  }
+
+  /**
+   * Delete a farm
+   *
+   * @throws FarmNotFoundError if the id is unknown
+   */
+  async delete(id: string): Promise<void> {
+    return this.serialize(async () => {
+      const farms = await this.load();
+      if (!farms.delete(id)) throw new FarmNotFoundError(id);
+      await this.save(farms);
+    });
+  }
+}
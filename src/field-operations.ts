@@ -0,0 +1,243 @@
+/**
+ * Ranking forecast days for spraying, harvesting and sun-drying
+ *
+ * Every day is checked against the operation's thresholds (see
+ * data/field-operations.ts). Each check passes, fails or cannot be judged
+ * because data is missing, and explains itself in plain language. Days are
+ * then ranked: suitable days first, ordered by how comfortably they clear
+ * the limits.
+ *
+ * @module field-operations
+ */
+
+import { FieldOperation, OperationThresholds } from './data/field-operations.js';
+
+/**
+ * Weather for one day, as used by the operation checks
+ */
+export interface OperationWeather {
+  date: string;
+  max_temp: number | null;
+  precipitation: number | null;
+  humidity: number | null;
+  wind_speed: number | null;
+  solar_radiation: number | null;
+}
+
+export type DayStatus = 'suitable' | 'unsuitable' | 'uncertain';
+
+/**
+ * One day judged for one operation
+ */
+export interface OperationDay {
+  /** 1 = best day for the operation */
+  rank: number;
+  date: string;
+  status: DayStatus;
+  /** 0-100: how comfortably the day clears the limits (0 when a check fails) */
+  score: number;
+  passed: string[];
+  failed: string[];
+  /** Checks that could not be judged because data is missing */
+  unknown: string[];
+}
+
+/**
+ * An operation's ranked days
+ */
+export interface OperationPlan {
+  operation: { id: string; name: string; description: string };
+  thresholds: OperationThresholds;
+  /** Up to three best suitable dates, best first */
+  best_days: string[];
+  headline: string;
+  /** Days in rank order */
+  days: OperationDay[];
+}
+
+/** Hours of the operation day itself covered by its own rain check */
+const SAME_DAY_HOURS = 12;
+
+interface CheckResult {
+  passed: boolean | null;
+  /** Fraction of the limit left over (0-1), for ranking */
+  margin: number;
+  message: string;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Value with its unit ("65%", "3.5 m/s")
+ */
+function withUnit(value: number, unit: string): string {
+  return unit === '%' ? `${value}%` : `${value} ${unit}`;
+}
+
+/**
+ * Margin below an upper limit, or above a lower limit, as a share of the limit
+ */
+function margin(value: number, limit: number, kind: 'max' | 'min'): number {
+  if (limit === 0) return value === 0 ? 1 : 0;
+  const share = kind === 'max' ? (limit - value) / limit : (value - limit) / limit;
+  return Math.max(0, Math.min(1, share));
+}
+
+function checkMax(value: number | null, limit: number, what: string, unit: string, failText: string): CheckResult {
+  if (value === null) {
+    return { passed: null, margin: 0, message: `No ${what} data` };
+  }
+  const passed = value <= limit;
+  return {
+    passed,
+    margin: passed ? margin(value, limit, 'max') : 0,
+    message: passed
+      ? `${capitalize(what)} ${withUnit(round1(value), unit)} is within the ${withUnit(limit, unit)} limit`
+      : `${failText}: ${withUnit(round1(value), unit)} (limit ${withUnit(limit, unit)})`
+  };
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Following days that must stay dry to give the rain-free hours
+ */
+function rainFreeDays(hours: number): number {
+  return hours > SAME_DAY_HOURS ? Math.ceil((hours - SAME_DAY_HOURS) / 24) : 0;
+}
+
+/**
+ * Run every applicable check for one day
+ */
+function checkDay(days: OperationWeather[], index: number, thresholds: OperationThresholds): CheckResult[] {
+  const day = days[index];
+  const checks: CheckResult[] = [];
+
+  if (thresholds.max_wind_ms !== undefined) {
+    checks.push(checkMax(day.wind_speed, thresholds.max_wind_ms, 'wind', 'm/s', 'Too windy'));
+  }
+  if (thresholds.max_rain_mm !== undefined) {
+    checks.push(checkMax(day.precipitation, thresholds.max_rain_mm, 'rain', 'mm', 'Rain expected'));
+
+    const followingDays = rainFreeDays(thresholds.rain_free_hours ?? 0);
+    if (followingDays > 0) {
+      const after = days.slice(index + 1, index + 1 + followingDays);
+      const hours = thresholds.rain_free_hours;
+      if (after.length < followingDays || after.some(next => next.precipitation === null)) {
+        checks.push({ passed: null, margin: 0, message: `No forecast to confirm ${hours} rain-free hours afterwards` });
+      } else {
+        const wettest = after.reduce((best, next) => next.precipitation! > best.precipitation! ? next : best);
+        const passed = wettest.precipitation! <= thresholds.max_rain_mm;
+        checks.push({
+          passed,
+          margin: passed ? margin(wettest.precipitation!, thresholds.max_rain_mm, 'max') : 0,
+          message: passed
+            ? `Stays dry for the ${hours} hours afterwards`
+            : `Rain within ${hours} hours afterwards: ${round1(wettest.precipitation!)} mm on ${wettest.date}`
+        });
+      }
+    }
+  }
+  if (thresholds.max_rain_previous_day_mm !== undefined) {
+    const previous = days[index - 1];
+    checks.push(previous
+      ? checkMax(previous.precipitation, thresholds.max_rain_previous_day_mm, 'rain the day before', 'mm', 'Crop still wet from rain the day before')
+      : { passed: null, margin: 0, message: 'No data for the day before' });
+  }
+  if (thresholds.max_humidity_pct !== undefined) {
+    checks.push(checkMax(day.humidity, thresholds.max_humidity_pct, 'humidity', '%', 'Too humid'));
+  }
+  if (thresholds.min_solar_radiation_wm2 !== undefined) {
+    const limit = thresholds.min_solar_radiation_wm2;
+    if (day.solar_radiation === null) {
+      checks.push({ passed: null, margin: 0, message: 'No solar radiation data' });
+    } else {
+      const passed = day.solar_radiation >= limit;
+      checks.push({
+        passed,
+        margin: passed ? margin(day.solar_radiation, limit, 'min') : 0,
+        message: passed
+          ? `Sunshine ${Math.round(day.solar_radiation)} W/m² meets the ${limit} W/m² minimum`
+          : `Too cloudy: ${Math.round(day.solar_radiation)} W/m² (minimum ${limit} W/m²)`
+      });
+    }
+  }
+  if (thresholds.max_temp_c !== undefined) {
+    checks.push(checkMax(day.max_temp, thresholds.max_temp_c, 'maximum temperature', '°C', 'Too hot'));
+  }
+
+  return checks;
+}
+
+/**
+ * Judge and rank forecast days for one operation
+ *
+ * @param operation - Operation to plan
+ * @param thresholds - Effective thresholds (defaults merged with overrides)
+ * @param days - Days in date order: optionally yesterday (observed, used
+ *   only for look-back checks), then the forecast, including any days after
+ *   the period needed for rain-free checks
+ * @param from - First date to rank (YYYY-MM-DD)
+ * @param count - Number of days to rank
+ */
+export function planOperation(
+  operation: FieldOperation,
+  thresholds: OperationThresholds,
+  days: OperationWeather[],
+  from: string,
+  count: number
+): OperationPlan {
+  const judged = days
+    .map((day, index) => ({ day, index }))
+    .filter(({ day }) => day.date >= from)
+    .slice(0, count)
+    .map(({ day, index }) => {
+      const checks = checkDay(days, index, thresholds);
+      const failed = checks.filter(check => check.passed === false);
+      const unknown = checks.filter(check => check.passed === null);
+      const status: DayStatus = failed.length > 0 ? 'unsuitable' : unknown.length > 0 ? 'uncertain' : 'suitable';
+      const score = failed.length > 0 || checks.length === 0
+        ? 0
+        : Math.round(checks.reduce((sum, check) => sum + check.margin, 0) / checks.length * 100);
+
+      return {
+        date: day.date,
+        status,
+        score,
+        failedCount: failed.length,
+        passed: checks.filter(check => check.passed === true).map(check => check.message),
+        failed: failed.map(check => check.message),
+        unknown: unknown.map(check => check.message)
+      };
+    });
+
+  const statusOrder: Record<DayStatus, number> = { suitable: 0, uncertain: 1, unsuitable: 2 };
+  const ranked = [...judged].sort((a, b) =>
+    statusOrder[a.status] - statusOrder[b.status] ||
+    a.failedCount - b.failedCount ||
+    b.score - a.score ||
+    a.date.localeCompare(b.date));
+
+  const rankedDays: OperationDay[] = ranked.map(({ failedCount: _failedCount, ...day }, index) => ({ rank: index + 1, ...day }));
+  const best = rankedDays.filter(day => day.status === 'suitable').slice(0, 3).map(day => day.date);
+
+  let headline: string;
+  if (best.length > 0) {
+    const suitableCount = rankedDays.filter(day => day.status === 'suitable').length;
+    headline = `${operation.name}: ${suitableCount} of ${rankedDays.length} days ${suitableCount === 1 ? 'is' : 'are'} suitable; best is ${best[0]}.`;
+  } else if (rankedDays.some(day => day.status === 'uncertain')) {
+    headline = `${operation.name}: no day clearly suitable; ${rankedDays.find(day => day.status === 'uncertain')!.date} may work but some data is missing.`;
+  } else {
+    headline = `${operation.name}: no suitable days in the next ${rankedDays.length} days.`;
+  }
+
+  return {
+    operation: { id: operation.id, name: operation.name, description: operation.description },
+    thresholds,
+    best_days: best,
+    headline,
+    days: rankedDays
+  };
+}
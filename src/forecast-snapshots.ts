@@ -0,0 +1,258 @@
+/**
+ * Forecast snapshot store for verification
+ *
+ * Keeps every forecast fetched through GAPClient.getForecast, with the date
+ * it was issued, so it can later be compared with what was observed. Sites
+ * are grid cells of the historical product (~4 km), so repeated requests
+ * for the same farm land on the same site.
+ *
+ * Key Features:
+ * - One snapshot per site and issue date (later requests that day are merged in)
+ * - Observations added by the verification job (see forecast-verification.ts)
+ * - Single JSON file, written atomically (temp file + rename), writes serialized
+ * - Snapshots older than the retention period are dropped
+ *
+ * @module forecast-snapshots
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { GRID_RESOLUTION_DEGREES } from './cache.js';
+import { daysBetween, today } from './date-utils.js';
+import type { ForecastRecorder, GAPResponse } from './gap-client.js';
+import { formatDailyWeather } from './weather-format.js';
+
+/** Days snapshots are kept by default */
+export const DEFAULT_SNAPSHOT_RETENTION_DAYS = 180;
+
+/** Rain (mm) above which a day counts as rainy, matching the ensemble's P(precipitation > 1) */
+export const RAIN_DAY_MM = 1;
+
+/**
+ * One forecast day of a snapshot
+ */
+export interface SnapshotDay {
+  date: string;
+  /** Days between the issue date and this date (0 = same day) */
+  lead_days: number;
+  max_temp: number | null;
+  min_temp: number | null;
+  precipitation: number | null;
+  /** Ensemble probability of rain > 1 mm (0-1; only when ensemble data was fetched) */
+  rain_probability: number | null;
+}
+
+/**
+ * A forecast as issued on one day
+ */
+export interface ForecastSnapshot {
+  issued_on: string;
+  days: SnapshotDay[];
+}
+
+/**
+ * Observed weather for one day
+ */
+export interface ObservedDay {
+  max_temp: number | null;
+  min_temp: number | null;
+  precipitation: number | null;
+}
+
+/**
+ * Forecasts and observations for one grid cell
+ */
+export interface ForecastSite {
+  /** Grid cell key, e.g. "-0.08,34.76" */
+  id: string;
+  /** Coordinates of the first request in the cell */
+  latitude: number;
+  longitude: number;
+  snapshots: ForecastSnapshot[];
+  /** Observations keyed by date */
+  observations: Record<string, ObservedDay>;
+}
+
+/**
+ * On-disk file format
+ */
+interface SnapshotFile {
+  version: 1;
+  sites: ForecastSite[];
+}
+
+/**
+ * Grid cell key of a location
+ */
+export function siteId(lat: number, lon: number): string {
+  const resolution = GRID_RESOLUTION_DEGREES.cbam_historical_analysis;
+  const snap = (value: number) => (Math.round(value / resolution) * resolution).toFixed(2);
+  return `${snap(lat)},${snap(lon)}`;
+}
+
+/**
+ * Turn a forecast response into snapshot days
+ */
+function snapshotDays(response: GAPResponse, issuedOn: string): SnapshotDay[] {
+  return formatDailyWeather(response.results)
+    .filter(day => day.date >= issuedOn)
+    .map(day => {
+      const rain = day.ensemble?.probabilities.find(p =>
+        p.attribute === 'precipitation' && p.operator === '>' && p.threshold === RAIN_DAY_MM
+      );
+      return {
+        date: day.date,
+        lead_days: daysBetween(issuedOn, day.date),
+        max_temp: day.max_temp,
+        min_temp: day.min_temp,
+        precipitation: day.precipitation,
+        rain_probability: rain ? rain.probability : null
+      };
+    });
+}
+
+/**
+ * JSON-file backed forecast snapshot store
+ *
+ * @example
+ * ```typescript
+ * const snapshots = new ForecastSnapshotStore('.data/forecast-snapshots.json');
+ * const client = new GAPClient(token, baseUrl, { forecastRecorder: snapshots });
+ * ```
+ */
+export class ForecastSnapshotStore implements ForecastRecorder {
+  /** Loaded sites keyed by id (null until first use) */
+  private sites: Map<string, ForecastSite> | null = null;
+
+  /** Tail of the serialized operation queue */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param filePath - Location of the JSON file (created on first write)
+   * @param retentionDays - Days after issue a snapshot is kept
+   */
+  constructor(private filePath: string, private retentionDays: number = DEFAULT_SNAPSHOT_RETENTION_DAYS) {}
+
+  /**
+   * Run an operation after all previously queued ones
+   */
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation, operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(): Promise<Map<string, ForecastSite>> {
+    if (this.sites) return this.sites;
+
+    try {
+      const content = JSON.parse(await readFile(this.filePath, 'utf8')) as SnapshotFile;
+      this.sites = new Map((content.sites ?? []).map(site => [site.id, site]));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw new Error(`Failed to read forecast snapshots ${this.filePath}: ${error.message}`);
+      }
+      this.sites = new Map();
+    }
+    return this.sites;
+  }
+
+  private async save(sites: Map<string, ForecastSite>): Promise<void> {
+    const content: SnapshotFile = { version: 1, sites: Array.from(sites.values()) };
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(content), 'utf8');
+    await rename(tempPath, this.filePath);
+  }
+
+  /**
+   * Drop snapshots past the retention period and observations no snapshot needs
+   */
+  private prune(site: ForecastSite): void {
+    const oldest = today(-this.retentionDays);
+    site.snapshots = site.snapshots.filter(snapshot => snapshot.issued_on >= oldest);
+    site.observations = Object.fromEntries(
+      Object.entries(site.observations).filter(([date]) => date >= oldest)
+    );
+  }
+
+  /**
+   * Save a forecast issued on `issuedOn` (merged with that day's snapshot, if any)
+   */
+  async record(lat: number, lon: number, response: GAPResponse, issuedOn: string = today()): Promise<void> {
+    const days = snapshotDays(response, issuedOn);
+    if (days.length === 0) return;
+
+    return this.serialize(async () => {
+      const sites = await this.load();
+      const id = siteId(lat, lon);
+      const site = sites.get(id) ?? { id, latitude: lat, longitude: lon, snapshots: [], observations: {} };
+      sites.set(id, site);
+
+      let snapshot = site.snapshots.find(entry => entry.issued_on === issuedOn);
+      if (!snapshot) {
+        snapshot = { issued_on: issuedOn, days: [] };
+        site.snapshots.push(snapshot);
+        site.snapshots.sort((a, b) => a.issued_on.localeCompare(b.issued_on));
+      }
+
+      // Newer values win, but an ensemble probability isn't lost to a mean-only request
+      const byDate = new Map(snapshot.days.map(day => [day.date, day]));
+      days.forEach(day => {
+        const previous = byDate.get(day.date);
+        byDate.set(day.date, { ...day, rain_probability: day.rain_probability ?? previous?.rain_probability ?? null });
+      });
+      snapshot.days = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+
+      this.prune(site);
+      await this.save(sites);
+    });
+  }
+
+  /**
+   * The site of a location (undefined when nothing was recorded there)
+   */
+  async site(lat: number, lon: number): Promise<ForecastSite | undefined> {
+    return this.serialize(async () => (await this.load()).get(siteId(lat, lon)));
+  }
+
+  /**
+   * Sites with forecast dates that have passed but have no observation yet
+   *
+   * @param lagDays - Days after a date before its observation is expected
+   * @param giveUpDays - Days after a date after which a missing observation is no longer retried
+   * @returns Sites with their unverified dates, oldest first
+   */
+  async pending(lagDays: number, giveUpDays: number): Promise<Array<{ site: ForecastSite; dates: string[] }>> {
+    return this.serialize(async () => {
+      const newest = today(-lagDays);
+      const oldest = today(-giveUpDays);
+      return Array.from((await this.load()).values())
+        .map(site => {
+          const dates = new Set<string>();
+          site.snapshots.forEach(snapshot => snapshot.days.forEach(day => {
+            if (day.date <= newest && day.date >= oldest && !site.observations[day.date]) {
+              dates.add(day.date);
+            }
+          }));
+          return { site, dates: Array.from(dates).sort() };
+        })
+        .filter(entry => entry.dates.length > 0);
+    });
+  }
+
+  /**
+   * Store observations for a site
+   */
+  async addObservations(id: string, observations: Record<string, ObservedDay>): Promise<void> {
+    return this.serialize(async () => {
+      const sites = await this.load();
+      const site = sites.get(id);
+      if (!site) return;
+      Object.assign(site.observations, observations);
+      this.prune(site);
+      await this.save(sites);
+    });
+  }
+}
+
@@ -0,0 +1,226 @@
+/**
+ * Forecast verification: skill of recorded forecasts against observations
+ *
+ * The verification job fetches `cbam_historical_analysis` for forecast dates
+ * that have passed and stores it next to the snapshots. Skill is then
+ * computed per lead time (days between issue and forecast date):
+ * - MAE and bias (forecast minus observed) for temperatures and rainfall
+ * - Hit rate for rain/no-rain (rain day: more than 1 mm)
+ * - Brier score of the ensemble rain probability, where one was recorded
+ *   (0 is perfect, 0.25 is no better than always saying 50%)
+ *
+ * @module forecast-verification
+ */
+
+import { ForecastSite, ForecastSnapshotStore, ObservedDay, RAIN_DAY_MM } from './forecast-snapshots.js';
+import { GAPCancelledError } from './errors.js';
+import type { GAPClient, GAPRequestOptions } from './gap-client.js';
+import { formatDailyWeather } from './weather-format.js';
+
+/** Days after a date before its observation is fetched (analysis lag) */
+export const OBSERVATION_LAG_DAYS = 2;
+
+/** Days after a date after which a missing observation is no longer retried */
+const OBSERVATION_GIVE_UP_DAYS = 30;
+
+/** Fewest verified days for a metric to be reported */
+const MIN_PAIRS = 3;
+
+/**
+ * Error of a continuous forecast
+ */
+export interface ErrorStats {
+  /** Mean absolute error */
+  mae: number;
+  /** Mean of forecast minus observed (positive: forecast too high) */
+  bias: number;
+  days: number;
+}
+
+/**
+ * Rain/no-rain contingency counts
+ */
+export interface RainSkill {
+  /** Share of days where rain/no-rain was forecast correctly (0-1) */
+  hit_rate: number;
+  hits: number;
+  misses: number;
+  false_alarms: number;
+  correct_negatives: number;
+}
+
+/**
+ * Skill for one lead time (or all lead times together)
+ */
+export interface LeadTimeSkill {
+  /** Days ahead (null for all lead times together) */
+  lead_days: number | null;
+  verified_days: number;
+  max_temp: ErrorStats | null;
+  min_temp: ErrorStats | null;
+  precipitation: ErrorStats | null;
+  rain: RainSkill | null;
+  /** Brier score of P(rain > 1 mm) (0 = perfect) */
+  brier_score: number | null;
+  brier_days: number;
+}
+
+/**
+ * A forecast day paired with its observation
+ */
+interface VerifiedPair {
+  lead_days: number;
+  forecast: { max_temp: number | null; min_temp: number | null; precipitation: number | null; rain_probability: number | null };
+  observed: ObservedDay;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function errorStats(pairs: Array<[number | null, number | null]>): ErrorStats | null {
+  const valid = pairs.filter((pair): pair is [number, number] => pair[0] !== null && pair[1] !== null);
+  if (valid.length < MIN_PAIRS) return null;
+  const errors = valid.map(([forecast, observed]) => forecast - observed);
+  return {
+    mae: round2(errors.reduce((sum, error) => sum + Math.abs(error), 0) / errors.length),
+    bias: round2(errors.reduce((sum, error) => sum + error, 0) / errors.length),
+    days: errors.length
+  };
+}
+
+function rainSkill(pairs: VerifiedPair[]): RainSkill | null {
+  const valid = pairs.filter(pair => pair.forecast.precipitation !== null && pair.observed.precipitation !== null);
+  if (valid.length < MIN_PAIRS) return null;
+
+  const counts = { hits: 0, misses: 0, false_alarms: 0, correct_negatives: 0 };
+  valid.forEach(pair => {
+    const forecastRain = pair.forecast.precipitation! > RAIN_DAY_MM;
+    const observedRain = pair.observed.precipitation! > RAIN_DAY_MM;
+    if (forecastRain && observedRain) counts.hits++;
+    else if (observedRain) counts.misses++;
+    else if (forecastRain) counts.false_alarms++;
+    else counts.correct_negatives++;
+  });
+
+  return { hit_rate: round2((counts.hits + counts.correct_negatives) / valid.length), ...counts };
+}
+
+function skillOf(pairs: VerifiedPair[], leadDays: number | null): LeadTimeSkill {
+  const brier = pairs.filter(pair => pair.forecast.rain_probability !== null && pair.observed.precipitation !== null);
+  return {
+    lead_days: leadDays,
+    verified_days: pairs.length,
+    max_temp: errorStats(pairs.map(pair => [pair.forecast.max_temp, pair.observed.max_temp])),
+    min_temp: errorStats(pairs.map(pair => [pair.forecast.min_temp, pair.observed.min_temp])),
+    precipitation: errorStats(pairs.map(pair => [pair.forecast.precipitation, pair.observed.precipitation])),
+    rain: rainSkill(pairs),
+    brier_score: brier.length >= MIN_PAIRS
+      ? round2(brier.reduce((sum, pair) => {
+        const outcome = pair.observed.precipitation! > RAIN_DAY_MM ? 1 : 0;
+        return sum + (pair.forecast.rain_probability! - outcome) ** 2;
+      }, 0) / brier.length)
+      : null,
+    brier_days: brier.length
+  };
+}
+
+/**
+ * Skill of a site's forecasts, overall and per lead time
+ *
+ * @param since - Only forecast dates on or after this day (YYYY-MM-DD)
+ */
+export function computeSkill(site: ForecastSite, since: string): { overall: LeadTimeSkill; by_lead_time: LeadTimeSkill[] } {
+  const pairs: VerifiedPair[] = site.snapshots.flatMap(snapshot => snapshot.days
+    .filter(day => day.date >= since && site.observations[day.date])
+    .map(day => ({ lead_days: day.lead_days, forecast: day, observed: site.observations[day.date] })));
+
+  const leads = Array.from(new Set(pairs.map(pair => pair.lead_days))).sort((a, b) => a - b);
+  return {
+    overall: skillOf(pairs, null),
+    by_lead_time: leads.map(lead => skillOf(pairs.filter(pair => pair.lead_days === lead), lead))
+  };
+}
+
+/**
+ * Fetch observations for one site's unverified dates
+ *
+ * @returns Number of dates that now have an observation
+ */
+async function verifySite(
+  store: ForecastSnapshotStore,
+  gapClient: GAPClient,
+  site: ForecastSite,
+  dates: string[],
+  options: GAPRequestOptions
+): Promise<number> {
+  const data = await gapClient.getHistoricalRange(site.latitude, site.longitude, dates[0], dates[dates.length - 1], { signal: options.signal });
+  const wanted = new Set(dates);
+  const observations: Record<string, ObservedDay> = {};
+  formatDailyWeather(data.results)
+    .filter(day => wanted.has(day.date) && (day.max_temp !== null || day.min_temp !== null || day.precipitation !== null))
+    .forEach(day => {
+      observations[day.date] = { max_temp: day.max_temp, min_temp: day.min_temp, precipitation: day.precipitation };
+    });
+
+  await store.addObservations(site.id, observations);
+  return Object.keys(observations).length;
+}
+
+/**
+ * Verification job: fetch observations for every forecast date that has passed
+ *
+ * @param onlySite - Restrict the job to one site id
+ * @param options - Cancellation signal, and a progress callback called per site
+ * @returns Sites checked and dates verified
+ */
+export async function verifyForecasts(
+  store: ForecastSnapshotStore,
+  gapClient: GAPClient,
+  onlySite?: string,
+  options: GAPRequestOptions = {}
+): Promise<{ sites: number; verified_days: number }> {
+  const pending = (await store.pending(OBSERVATION_LAG_DAYS, OBSERVATION_GIVE_UP_DAYS))
+    .filter(entry => !onlySite || entry.site.id === onlySite);
+
+  // Sites one at a time to stay gentle on the upstream API; a failing site is retried next run
+  let verified = 0;
+  for (const [index, { site, dates }] of pending.entries()) {
+    try {
+      verified += await verifySite(store, gapClient, site, dates, options);
+    } catch (error: any) {
+      if (error instanceof GAPCancelledError) throw error;
+      console.warn(`[Verification] Could not fetch observations for ${site.id}: ${error.message}`);
+    }
+    options.onProgress?.(index + 1, pending.length);
+  }
+  return { sites: pending.length, verified_days: verified };
+}
+
+/**
+ * Plain-language summary of a site's skill
+ */
+export function describeSkill(overall: LeadTimeSkill, byLeadTime: LeadTimeSkill[]): string {
+  if (overall.verified_days === 0) {
+    return 'No forecast for this location has been verified yet. Forecasts are verified a few days after their dates have passed.';
+  }
+
+  const sentences = [`${overall.verified_days} forecast days verified.`];
+  if (overall.rain) {
+    const short = byLeadTime.find(skill => skill.lead_days !== null && skill.lead_days <= 1 && skill.rain);
+    const long = [...byLeadTime].reverse().find(skill => skill.lead_days !== null && skill.lead_days >= 7 && skill.rain);
+    let rain = `Rain or no rain was forecast correctly on ${Math.round(overall.rain.hit_rate * 100)}% of days`;
+    if (short && long) {
+      rain += ` (${Math.round(short.rain!.hit_rate * 100)}% ${short.lead_days === 0 ? 'for the same day' : 'one day ahead'}, ${Math.round(long.rain!.hit_rate * 100)}% ${long.lead_days} days ahead)`;
+    }
+    sentences.push(`${rain}.`);
+  }
+  if (overall.max_temp) {
+    const direction = Math.abs(overall.max_temp.bias) < 0.5
+      ? 'with no clear bias'
+      : `usually ${Math.abs(overall.max_temp.bias)} °C too ${overall.max_temp.bias > 0 ? 'warm' : 'cool'}`;
+    sentences.push(`Daytime temperature was off by ${overall.max_temp.mae} °C on average, ${direction}.`);
+  }
+  if (overall.precipitation && Math.abs(overall.precipitation.bias) >= 1) {
+    sentences.push(`Daily rainfall was ${overall.precipitation.bias > 0 ? 'over' : 'under'}-forecast by ${Math.abs(overall.precipitation.bias)} mm on average.`);
+  }
+  return sentences.join(' ');
+}
@@ -6,7 +6,8 @@
  *
  * Key Features:
  * - Handles ensemble forecast arrays (50 values per attribute)
- * - Aggregates multiple data points by date
+ * - Aggregates multiple data points by date (for every returned location)
+ * - Optionally aggregates days into weeks, dekads or months
  * - Converts raw API responses to farmer-friendly format
  * - Supports both historical and forecast data
  *
@@ -14,6 +15,50 @@
  */
 
 import fetch, { Response } from 'node-fetch';
+import { today, splitDateRange } from './date-utils.js';
+import { EnsembleSummary, EnsembleThreshold, summarizeEnsemble } from './ensemble.js';
+import { aggregateMeasurements, AggregationPeriod, GAPPeriodResult } from './aggregation.js';
+import type { MeasurementCache } from './cache.js';
+import {
+  GAPError,
+  GAPValidationError,
+  GAPTimeoutError,
+  GAPUpstreamError,
+  GAPInvalidResponseError,
+  GAPCancelledError,
+  errorFromResponse
+} from './errors.js';
+import { withRetry, RetryOptions, CircuitBreaker, CircuitBreakerOptions, CircuitState } from './resilience.js';
+
+/**
+ * Longest date range (in days) requested from GAP in a single call.
+ * Longer historical ranges are split into chunks of this size and merged.
+ */
+export const MAX_REQUEST_RANGE_DAYS = 30;
+
+/** Attributes requested for historical observations */
+const HISTORICAL_ATTRIBUTES = [
+  'max_temperature',  // Observed max temperature
+  'min_temperature',  // Observed min temperature
+  'precipitation'     // Observed precipitation
+];
+
+/** Attributes requested for the farming and seasonal forecasts */
+const FORECAST_ATTRIBUTES = [
+  'max_temperature',           // Daily maximum temperature (°C)
+  'max_temperature_anom',      // Temperature anomaly (deviation from normal)
+  'min_temperature',           // Daily minimum temperature (°C)
+  'min_temperature_anom',      // Min temperature anomaly
+  'precipitation',             // Total precipitation (mm)
+  'precipitation_anom',        // Precipitation anomaly
+  'relative_humidity',         // Relative humidity (0-1)
+  'relative_humidity_anom',    // Humidity anomaly
+  'solar_radiation',           // Solar radiation (W/m²) - important for crops
+  'wind_speed'                 // Wind speed (m/s)
+];
+
+/** Longest seasonal forecast range accepted (days, about 6 months) */
+export const MAX_SEASONAL_DAYS = 184;
 
 /**
  * Parameters for GAP API measurement requests
@@ -93,12 +138,87 @@ export interface GAPMeasurementResult {
   /** Longitude coordinate */
   lon: number;
 
+  /**
+   * Ensemble spread and threshold probabilities
+   * Only present when requested via GAPRequestOptions.ensemble
+   */
+  ensemble?: EnsembleSummary;
+
   /**
    * Weather attributes with averaged values
    * All ensemble forecast arrays have been averaged to single numbers
    * Examples: max_temperature, min_temperature, precipitation, etc.
    */
-  [key: string]: number | string;
+  [key: string]: number | string | EnsembleSummary | undefined;
+}
+
+/**
+ * Optional behaviour for measurement requests
+ */
+export interface GAPRequestOptions {
+  /**
+   * Attach per-day ensemble statistics (median, percentiles, spread)
+   * under an `ensemble` block. Default: false (mean values only)
+   */
+  ensemble?: boolean;
+
+  /**
+   * Thresholds to turn into member probabilities when `ensemble` is set
+   * Default: DEFAULT_ENSEMBLE_THRESHOLDS
+   */
+  thresholds?: EnsembleThreshold[];
+
+  /**
+   * Also aggregate the daily results into weeks, dekads or months under
+   * `periods`. Default: daily results only
+   */
+  aggregate?: AggregationPeriod;
+
+  /**
+   * Cancels the request, e.g. when the MCP client cancels the tool call
+   * (not part of the cache key)
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called after each request of a multi-request range
+   * (getHistoricalRange, getSeasonalForecast)
+   */
+  onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * Daily results for one location of a GAP response
+ */
+export interface GAPLocationResult {
+  /** Latitude of the grid point GAP answered for */
+  lat: number;
+
+  /** Longitude of the grid point GAP answered for */
+  lon: number;
+
+  /** Daily results for this location, chronological */
+  results: GAPMeasurementResult[];
+
+  /** Period aggregates (only when requested via GAPRequestOptions.aggregate) */
+  periods?: GAPPeriodResult[];
+}
+
+/**
+ * Where a response's data came from
+ */
+export interface GAPProvenance {
+  /** GAP data product */
+  product: GAPMeasurementParams['product'];
+
+  /**
+   * When the data was fetched from GAP (ISO 8601). Cached responses keep
+   * the time of the original request; merged ranges the oldest one.
+   */
+  retrieved_at: string;
+
+  /** Ensemble members per attribute and day (null for single-valued data) */
+  ensemble_size: number | null;
 }
 
 /**
@@ -106,9 +226,21 @@ export interface GAPMeasurementResult {
  * Mimics pagination structure for future expansion
  */
 export interface GAPResponse {
-  /** Array of daily weather data points */
+  /**
+   * Array of daily weather data points
+   * For multi-location responses: every location's days, location by location
+   */
   results: GAPMeasurementResult[];
 
+  /** The same results grouped per location (one entry per GAP result) */
+  locations: GAPLocationResult[];
+
+  /**
+   * Period aggregates, location by location
+   * Only present when requested via GAPRequestOptions.aggregate
+   */
+  periods?: GAPPeriodResult[];
+
   /** Total number of results */
   count: number;
 
@@ -117,6 +249,80 @@ export interface GAPResponse {
 
   /** URL for previous page (currently always null) */
   previous: string | null;
+
+  /** Product, retrieval time and ensemble size of the data */
+  provenance: GAPProvenance;
+}
+
+/**
+ * Provenance of several responses, one entry per product
+ *
+ * Entries for the same product keep the oldest retrieval time and the
+ * largest ensemble size.
+ *
+ * @example
+ * ```typescript
+ * const sources = combineProvenance(history, forecast);
+ * // [{ product: 'cbam_historical_analysis', ... }, { product: 'salient_seasonal_forecast', ... }]
+ * ```
+ */
+export function combineProvenance(...responses: GAPResponse[]): GAPProvenance[] {
+  const byProduct = new Map<string, GAPProvenance>();
+  responses.forEach(({ provenance }) => {
+    const known = byProduct.get(provenance.product);
+    if (!known) {
+      byProduct.set(provenance.product, { ...provenance });
+      return;
+    }
+    if (provenance.retrieved_at < known.retrieved_at) {
+      known.retrieved_at = provenance.retrieved_at;
+    }
+    if (provenance.ensemble_size !== null && (known.ensemble_size === null || provenance.ensemble_size > known.ensemble_size)) {
+      known.ensemble_size = provenance.ensemble_size;
+    }
+  });
+  return Array.from(byProduct.values());
+}
+
+/**
+ * Most ensemble members behind one attribute value (null when every value
+ * is a single number, as for observations)
+ */
+function ensembleMembers(dataPoints: GAPDataPoint[]): number | null {
+  let members: number | null = null;
+  for (const dataPoint of dataPoints) {
+    for (const value of Object.values(dataPoint)) {
+      if (Array.isArray(value)) {
+        members = Math.max(members ?? 0, value.length);
+      }
+    }
+  }
+  return members;
+}
+
+/**
+ * Receives every forecast fetched through GAPClient.getForecast
+ * (e.g. to verify it against observations later)
+ */
+export interface ForecastRecorder {
+  record(lat: number, lon: number, response: GAPResponse, issuedOn: string): Promise<void>;
+}
+
+/**
+ * Optional client configuration
+ */
+export interface GAPClientOptions {
+  /** Response cache shared across requests (default: no caching) */
+  cache?: MeasurementCache;
+
+  /** Retry policy for retryable failures, or false to disable (default: 3 attempts) */
+  retry?: RetryOptions | false;
+
+  /** Circuit breaker settings, or false to disable (default: open after 5 failures) */
+  circuitBreaker?: CircuitBreakerOptions | false;
+
+  /** Where to record forecasts for verification (default: not recorded) */
+  forecastRecorder?: ForecastRecorder;
 }
 
 /**
@@ -126,7 +332,7 @@ export interface GAPResponse {
  * 1. API authentication via token
  * 2. HTTP requests to GAP endpoints
  * 3. Response transformation (ensemble forecast aggregation)
- * 4. Error handling
+ * 4. Typed errors, retries with backoff and a circuit breaker
  *
  * @example
  * ```typescript
@@ -142,15 +348,39 @@ export class GAPClient {
   /** Base URL for GAP API */
   private baseUrl: string;
 
+  /** Optional response cache */
+  private cache?: MeasurementCache;
+
+  /** Retry policy (undefined = no retries) */
+  private retryOptions?: RetryOptions;
+
+  /** Circuit breaker guarding upstream calls (undefined = disabled) */
+  private breaker?: CircuitBreaker;
+
+  /** Forecast recorder (undefined = forecasts are not recorded) */
+  private forecastRecorder?: ForecastRecorder;
+
   /**
    * Creates a new GAP API client
    *
    * @param apiToken - Your GAP API authentication token
    * @param baseUrl - Base URL for GAP API (default: https://gap.tomorrownow.org/api/v1)
+   * @param options - Optional configuration (e.g. a shared response cache)
    */
-  constructor(apiToken: string, baseUrl: string = 'https://gap.tomorrownow.org/api/v1') {
+  constructor(apiToken: string, baseUrl: string = 'https://gap.tomorrownow.org/api/v1', options: GAPClientOptions = {}) {
     this.apiToken = apiToken;
     this.baseUrl = baseUrl;
+    this.cache = options.cache;
+    this.retryOptions = options.retry === false ? undefined : (options.retry ?? {});
+    this.breaker = options.circuitBreaker === false ? undefined : new CircuitBreaker(options.circuitBreaker ?? {});
+    this.forecastRecorder = options.forecastRecorder;
+  }
+
+  /**
+   * Current circuit breaker state (for health reporting)
+   */
+  get circuitState(): CircuitState | 'disabled' {
+    return this.breaker?.state ?? 'disabled';
   }
 
   /**
@@ -161,21 +391,63 @@ export class GAPClient {
    * 2. Processing ensemble forecasts (50 values per attribute)
    * 3. Grouping data points by date
    * 4. Averaging ensemble members to single daily values
+   * 5. Optionally aggregating days into weeks, dekads or months
    *
    * @param params - Request parameters (location, dates, attributes)
+   * @param options - Optional extras such as ensemble statistics
    * @returns Processed weather data grouped by date
-   * @throws Error if API request fails or returns invalid data
+   * @throws GAPError subclass describing why the request failed
    */
-  async getMeasurement(params: GAPMeasurementParams): Promise<GAPResponse> {
+  async getMeasurement(params: GAPMeasurementParams, options: GAPRequestOptions = {}): Promise<GAPResponse> {
     // Validate inputs
     if (typeof params.lat !== 'number' || isNaN(params.lat) || params.lat < -90 || params.lat > 90) {
-      throw new Error(`Invalid latitude: ${params.lat}`);
+      throw new GAPValidationError(`Invalid latitude: ${params.lat}`);
     }
     if (typeof params.lon !== 'number' || isNaN(params.lon) || params.lon < -180 || params.lon > 180) {
-      throw new Error(`Invalid longitude: ${params.lon}`);
+      throw new GAPValidationError(`Invalid longitude: ${params.lon}`);
     }
     if (!params.start_date || !params.end_date) {
-      throw new Error('Start date and end date are required');
+      throw new GAPValidationError('Start date and end date are required');
+    }
+
+    if (options.signal?.aborted) {
+      throw new GAPCancelledError();
+    }
+
+    // Serve repeated requests from the cache when one is configured
+    if (this.cache) {
+      const fetcher = () => this.fetchMeasurement(params, options);
+      try {
+        return await this.cache.getOrFetch(params, options, fetcher);
+      } catch (error) {
+        // A shared in-flight request cancelled by its first caller: fetch again for this one
+        if (error instanceof GAPCancelledError && !options.signal?.aborted) {
+          return this.cache.getOrFetch(params, options, fetcher);
+        }
+        throw error;
+      }
+    }
+    return this.fetchMeasurement(params, options);
+  }
+
+  /**
+   * Fetch from GAP through the circuit breaker, retrying retryable failures
+   */
+  private async fetchMeasurement(params: GAPMeasurementParams, options: GAPRequestOptions): Promise<GAPResponse> {
+    const attempt = () => this.breaker
+      ? this.breaker.execute(() => this.requestMeasurement(params, options))
+      : this.requestMeasurement(params, options);
+
+    return this.retryOptions ? withRetry(attempt, this.retryOptions, options.signal) : attempt();
+  }
+
+  /**
+   * Perform a single HTTP request to GAP and parse the response
+   */
+  private async requestMeasurement(params: GAPMeasurementParams, options: GAPRequestOptions): Promise<GAPResponse> {
+    // An abort event that fired before this attempt (e.g. during a retry backoff) is not replayed
+    if (options.signal?.aborted) {
+      throw new GAPCancelledError();
     }
 
     // Build the API request URL
@@ -188,9 +460,11 @@ export class GAPClient {
 
     console.log(`[GAP API] Fetching: ${url.toString()}`);
 
-    // Make authenticated request to GAP API with timeout
+    // Make authenticated request to GAP API with timeout; the caller's signal aborts it too
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
+    const onCancel = () => controller.abort();
+    options.signal?.addEventListener('abort', onCancel, { once: true });
 
     try {
       const response = await fetch(url.toString(), {
@@ -206,8 +480,8 @@ export class GAPClient {
 
       // Handle API errors
       if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`GAP API error (${response.status}): ${errorText || response.statusText}`);
+        const errorText = await response.text().catch(() => '');
+        throw errorFromResponse(response.status, errorText || response.statusText, response.headers.get('retry-after'));
       }
 
       // Get response text for logging and parsing
@@ -221,34 +495,44 @@ export class GAPClient {
         status: response.status,
         statusText: response.statusText,
         headers: response.headers
-      }));
+      }), params.product, options);
     } catch (error: any) {
       clearTimeout(timeoutId);
+      if (error instanceof GAPError) {
+        throw error;
+      }
       if (error.name === 'AbortError') {
-        throw new Error('Request timeout: GAP API took too long to respond (30s limit)');
+        if (options.signal?.aborted) {
+          throw new GAPCancelledError();
+        }
+        throw new GAPTimeoutError('Request timeout: GAP API took too long to respond (30s limit)');
       }
-      throw error;
+      // Network-level failure (DNS, connection reset, ...)
+      throw new GAPUpstreamError(`GAP API request failed: ${error.message ?? 'Unknown error'}`, undefined, undefined, error);
+    } finally {
+      options.signal?.removeEventListener('abort', onCancel);
     }
   }
 
   /**
    * Parse and validate API response
    */
-  private async parseResponse(response: Response): Promise<GAPResponse> {
+  private async parseResponse(response: Response, product: GAPMeasurementParams['product'], options: GAPRequestOptions = {}): Promise<GAPResponse> {
+    const retrievedAt = new Date().toISOString();
     let rawData: GAPRawResponse;
     try {
       rawData = await response.json() as GAPRawResponse;
     } catch (parseError) {
-      throw new Error(`Failed to parse API response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+      throw new GAPInvalidResponseError(`Failed to parse API response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`, response.status);
     }
 
     // Validate response structure
     if (!rawData || typeof rawData !== 'object') {
-      throw new Error('Invalid API response format: expected object');
+      throw new GAPInvalidResponseError('Invalid API response format: expected object', response.status);
     }
 
     if (!rawData.results || !Array.isArray(rawData.results)) {
-      throw new Error('Invalid API response: missing results array');
+      throw new GAPInvalidResponseError('Invalid API response: missing results array', response.status);
     }
 
     //  =================================================================
@@ -258,85 +542,113 @@ export class GAPClient {
     //  We need to aggregate these to single daily values for farmers
     //  =================================================================
 
-    const transformedResults: GAPMeasurementResult[] = [];
-
-    if (rawData.results && rawData.results.length > 0) {
-      // Extract the first result (one per location)
-      const result = rawData.results[0];
+    // Transform every location GAP returned (one result per point)
+    let ensembleSize: number | null = null;
+    const locations: GAPLocationResult[] = rawData.results.map(result => {
       const [lon, lat] = result.geometry.coordinates; // GeoJSON format: [lon, lat]
+      const results = this.transformLocation(result, options);
+      const members = ensembleMembers(result.data ?? []);
+      if (members !== null) {
+        ensembleSize = Math.max(ensembleSize ?? 0, members);
+      }
+      // Optional: roll the daily results up into calendar periods
+      return options.aggregate
+        ? { lat, lon, results, periods: aggregateMeasurements(results, options.aggregate) }
+        : { lat, lon, results };
+    });
+    const transformedResults = locations.flatMap(location => location.results);
 
-      // Step 1: Group multiple data points by date
-      // (Ensemble forecasts have multiple entries per date)
-      const groupedByDate = new Map<string, GAPDataPoint[]>();
-      result.data.forEach(dataPoint => {
-        const date = dataPoint.datetime.split('T')[0]; // Extract YYYY-MM-DD
-        if (!groupedByDate.has(date)) {
-          groupedByDate.set(date, []);
-        }
-        groupedByDate.get(date)!.push(dataPoint);
+    console.log(`[GAP API] Processed ${transformedResults.length} days of data across ${locations.length} location(s)`);
+
+    // Return in pagination-ready format
+    return {
+      results: transformedResults,
+      locations,
+      ...(options.aggregate ? { periods: locations.flatMap(location => location.periods ?? []) } : {}),
+      count: transformedResults.length,
+      next: null, // Pagination not implemented yet
+      previous: null,
+      provenance: { product, retrieved_at: retrievedAt, ensemble_size: ensembleSize }
+    };
+  }
+
+  /**
+   * Aggregate the data points of one location into daily results
+   */
+  private transformLocation(result: GAPRawResponse['results'][number], options: GAPRequestOptions): GAPMeasurementResult[] {
+    const transformedResults: GAPMeasurementResult[] = [];
+    const [lon, lat] = result.geometry.coordinates; // GeoJSON format: [lon, lat]
+
+    // Step 1: Group multiple data points by date
+    // (Ensemble forecasts have multiple entries per date)
+    const groupedByDate = new Map<string, GAPDataPoint[]>();
+    (result.data ?? []).forEach(dataPoint => {
+      const date = dataPoint.datetime.split('T')[0]; // Extract YYYY-MM-DD
+      if (!groupedByDate.has(date)) {
+        groupedByDate.set(date, []);
+      }
+      groupedByDate.get(date)!.push(dataPoint);
+    });
+
+    // Step 2: Aggregate all data points for each date
+    groupedByDate.forEach((dataPoints, date) => {
+      const transformed: GAPMeasurementResult = {
+        date,
+        lat,
+        lon
+      };
+
+      // Collect all unique attribute names across data points
+      const attributes = new Set<string>();
+      dataPoints.forEach(dp => {
+        Object.keys(dp).forEach(key => {
+          if (key !== 'datetime') attributes.add(key);
+        });
       });
 
-      // Step 2: Aggregate all data points for each date
-      groupedByDate.forEach((dataPoints, date) => {
-        const transformed: GAPMeasurementResult = {
-          date,
-          lat,
-          lon
-        };
+      // Step 3: Average ensemble forecast arrays
+      const membersByAttribute = new Map<string, number[]>();
+      attributes.forEach(attr => {
+        const allValues: number[] = [];
 
-        // Collect all unique attribute names across data points
-        const attributes = new Set<string>();
         dataPoints.forEach(dp => {
-          Object.keys(dp).forEach(key => {
-            if (key !== 'datetime') attributes.add(key);
-          });
-        });
+          const value = dp[attr];
 
-        // Step 3: Average ensemble forecast arrays
-        attributes.forEach(attr => {
-          const allValues: number[] = [];
-
-          dataPoints.forEach(dp => {
-            const value = dp[attr];
-
-            // Handle ensemble forecasts (arrays of 50 values)
-            if (Array.isArray(value)) {
-              // Flatten array and filter to only numbers
-              const numericValues = value.filter(v => typeof v === 'number' && !isNaN(v));
-              allValues.push(...numericValues);
-            }
-            // Handle single values (historical data)
-            else if (typeof value === 'number' && !isNaN(value)) {
-              allValues.push(value);
-            }
-            // Skip non-numeric values (strings, null, undefined, etc.)
-          });
-
-          // Calculate mean of all collected values
-          if (allValues.length > 0) {
-            transformed[attr] = allValues.reduce((sum, v) => sum + v, 0) / allValues.length;
-          } else {
-            // Log when attribute has no valid values
-            console.log(`[GAP API] Attribute '${attr}' has no valid numeric values for date ${date}`);
+          // Handle ensemble forecasts (arrays of 50 values)
+          if (Array.isArray(value)) {
+            // Flatten array and filter to only numbers
+            const numericValues = value.filter(v => typeof v === 'number' && !isNaN(v));
+            allValues.push(...numericValues);
           }
+          // Handle single values (historical data)
+          else if (typeof value === 'number' && !isNaN(value)) {
+            allValues.push(value);
+          }
+          // Skip non-numeric values (strings, null, undefined, etc.)
         });
 
-        transformedResults.push(transformed);
+        membersByAttribute.set(attr, allValues);
+
+        // Calculate mean of all collected values
+        if (allValues.length > 0) {
+          transformed[attr] = allValues.reduce((sum, v) => sum + v, 0) / allValues.length;
+        } else {
+          // Log when attribute has no valid values
+          console.log(`[GAP API] Attribute '${attr}' has no valid numeric values for date ${date}`);
+        }
       });
 
-      // Sort results chronologically
-      transformedResults.sort((a, b) => a.date.localeCompare(b.date));
-    }
+      // Step 4 (optional): Describe the ensemble spread
+      if (options.ensemble) {
+        transformed.ensemble = summarizeEnsemble(membersByAttribute, options.thresholds);
+      }
 
-    console.log(`[GAP API] Processed ${transformedResults.length} days of data`);
+      transformedResults.push(transformed);
+    });
 
-    // Return in pagination-ready format
-    return {
-      results: transformedResults,
-      count: transformedResults.length,
-      next: null, // Pagination not implemented yet
-      previous: null
-    };
+    // Sort results chronologically
+    transformedResults.sort((a, b) => a.date.localeCompare(b.date));
+    return transformedResults;
   }
 
   /**
@@ -348,6 +660,7 @@ export class GAPClient {
    * @param lat - Latitude coordinate (-90 to 90)
    * @param lon - Longitude coordinate (-180 to 180)
    * @param days - Number of forecast days (1-14, default: 7)
+   * @param options - Optional extras such as ensemble statistics
    * @returns Promise with daily weather forecast
    *
    * @example
@@ -358,12 +671,12 @@ export class GAPClient {
    * });
    * ```
    */
-  async getForecast(lat: number, lon: number, days: number = 7): Promise<GAPResponse> {
+  async getForecast(lat: number, lon: number, days: number = 7, options: GAPRequestOptions = {}): Promise<GAPResponse> {
     const startDate = new Date();
     const endDate = new Date();
     endDate.setDate(endDate.getDate() + days);
 
-    return this.getMeasurement({
+    const response = await this.getMeasurement({
       lat,
       lon,
       start_date: startDate.toISOString().split('T')[0],
@@ -377,7 +690,14 @@ export class GAPClient {
         'wind_speed'          // Wind speed (m/s)
       ].join(','),
       output_type: 'json'
+    }, options);
+
+    // Recording must never fail or slow down the forecast itself
+    this.forecastRecorder?.record(lat, lon, response, today()).catch(error => {
+      console.warn(`[GAP API] Could not record forecast snapshot: ${error.message}`);
     });
+
+    return response;
   }
 
   /**
@@ -389,6 +709,7 @@ export class GAPClient {
    * @param lat - Latitude coordinate
    * @param lon - Longitude coordinate
    * @param daysBack - Number of past days to fetch (default: 30)
+   * @param options - Optional cancellation signal and progress callback
    * @returns Promise with historical weather data
    *
    * @example
@@ -397,24 +718,63 @@ export class GAPClient {
    * console.log(`Last 30 days had ${history.count} records`);
    * ```
    */
-  async getHistorical(lat: number, lon: number, daysBack: number = 30): Promise<GAPResponse> {
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - daysBack);
+  async getHistorical(lat: number, lon: number, daysBack: number = 30, options: GAPRequestOptions = {}): Promise<GAPResponse> {
+    return this.getHistoricalRange(lat, lon, today(-daysBack), today(), options);
+  }
 
-    return this.getMeasurement({
-      lat,
-      lon,
-      start_date: startDate.toISOString().split('T')[0],
-      end_date: endDate.toISOString().split('T')[0],
-      product: 'cbam_historical_analysis', // Historical analysis product
-      attributes: [
-        'max_temperature',  // Observed max temperature
-        'min_temperature',  // Observed min temperature
-        'precipitation'     // Observed precipitation
-      ].join(','),
-      output_type: 'json'
-    });
+  /**
+   * Get historical weather data for an explicit date range
+   *
+   * Ranges longer than MAX_REQUEST_RANGE_DAYS are fetched in consecutive
+   * chunks and merged into a single chronological response.
+   *
+   * @param lat - Latitude coordinate
+   * @param lon - Longitude coordinate
+   * @param startDate - First day (YYYY-MM-DD, inclusive)
+   * @param endDate - Last day (YYYY-MM-DD, inclusive)
+   * @param options - Optional cancellation signal and progress callback (per chunk)
+   * @returns Promise with historical weather data for the whole range
+   *
+   * @example
+   * ```typescript
+   * const march = await client.getHistoricalRange(1.2921, 36.8219, '2025-03-01', '2025-03-31');
+   * ```
+   */
+  async getHistoricalRange(lat: number, lon: number, startDate: string, endDate: string, options: GAPRequestOptions = {}): Promise<GAPResponse> {
+    const chunks = splitDateRange(startDate, endDate, MAX_REQUEST_RANGE_DAYS);
+    if (chunks.length === 0) {
+      throw new GAPValidationError(`Invalid date range: ${startDate} is after ${endDate}`);
+    }
+
+    // Fetch sequentially to stay gentle on the upstream API
+    const byDate = new Map<string, GAPMeasurementResult>();
+    const responses: GAPResponse[] = [];
+    for (const [index, chunk] of chunks.entries()) {
+      const response = await this.getMeasurement({
+        lat,
+        lon,
+        start_date: chunk.start,
+        end_date: chunk.end,
+        product: 'cbam_historical_analysis', // Historical analysis product
+        attributes: HISTORICAL_ATTRIBUTES.join(','),
+        output_type: 'json'
+      }, { signal: options.signal });
+      // Chunk boundaries are inclusive on both sides upstream; keep one row per date
+      response.results.forEach(result => byDate.set(result.date, result));
+      responses.push(response);
+      options.onProgress?.(index + 1, chunks.length);
+    }
+
+    const results = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+
+    return {
+      results,
+      locations: results.length > 0 ? [{ lat: results[0].lat, lon: results[0].lon, results }] : [],
+      count: results.length,
+      next: null,
+      previous: null,
+      provenance: combineProvenance(...responses)[0]
+    };
   }
 
   /**
@@ -427,6 +787,7 @@ export class GAPClient {
    * @param lat - Latitude coordinate
    * @param lon - Longitude coordinate
    * @param days - Number of forecast days (7-14, default: 14)
+   * @param options - Optional extras such as ensemble statistics
    * @returns Promise with comprehensive weather forecast
    *
    * @example
@@ -437,7 +798,7 @@ export class GAPClient {
    * });
    * ```
    */
-  async getFarmingForecast(lat: number, lon: number, days: number = 14): Promise<GAPResponse> {
+  async getFarmingForecast(lat: number, lon: number, days: number = 14, options: GAPRequestOptions = {}): Promise<GAPResponse> {
     const startDate = new Date();
     const endDate = new Date();
     endDate.setDate(endDate.getDate() + days);
@@ -448,19 +809,69 @@ export class GAPClient {
       start_date: startDate.toISOString().split('T')[0],
       end_date: endDate.toISOString().split('T')[0],
       product: 'salient_seasonal_forecast',
-      attributes: [
-        'max_temperature',           // Daily maximum temperature (°C)
-        'max_temperature_anom',      // Temperature anomaly (deviation from normal)
-        'min_temperature',           // Daily minimum temperature (°C)
-        'min_temperature_anom',      // Min temperature anomaly
-        'precipitation',             // Total precipitation (mm)
-        'precipitation_anom',        // Precipitation anomaly
-        'relative_humidity',         // Relative humidity (0-1)
-        'relative_humidity_anom',    // Humidity anomaly
-        'solar_radiation',           // Solar radiation (W/m²) - important for crops
-        'wind_speed'                 // Wind speed (m/s)
-      ].join(','),
+      attributes: FORECAST_ATTRIBUTES.join(','),
       output_type: 'json'
-    });
+    }, options);
+  }
+
+  /**
+   * Get the seasonal outlook (up to about 6 months ahead)
+   *
+   * Requests the farming forecast attributes in MAX_REQUEST_RANGE_DAYS
+   * chunks, merges them and, when `options.aggregate` is set, aggregates
+   * the whole range into periods (so periods spanning chunks are complete).
+   *
+   * @param lat - Latitude coordinate
+   * @param lon - Longitude coordinate
+   * @param days - Number of days ahead (1-MAX_SEASONAL_DAYS, default: 90)
+   * @param options - Optional extras such as period aggregation
+   * @returns Promise with daily results and, if requested, period aggregates
+   *
+   * @example
+   * ```typescript
+   * const outlook = await client.getSeasonalForecast(-0.0917, 34.768, 90, { aggregate: 'month' });
+   * outlook.periods?.forEach(month => {
+   *   console.log(`${month.period}: ${month.totals.precipitation} mm`);
+   * });
+   * ```
+   */
+  async getSeasonalForecast(lat: number, lon: number, days: number = 90, options: GAPRequestOptions = {}): Promise<GAPResponse> {
+    if (!Number.isInteger(days) || days < 1 || days > MAX_SEASONAL_DAYS) {
+      throw new GAPValidationError(`Invalid seasonal range: ${days} days (1-${MAX_SEASONAL_DAYS})`);
+    }
+    const { aggregate, onProgress, ...dailyOptions } = options;
+
+    // Fetch sequentially to stay gentle on the upstream API
+    const byDate = new Map<string, GAPMeasurementResult>();
+    const responses: GAPResponse[] = [];
+    const chunks = splitDateRange(today(), today(days), MAX_REQUEST_RANGE_DAYS);
+    for (const [index, chunk] of chunks.entries()) {
+      const response = await this.getMeasurement({
+        lat,
+        lon,
+        start_date: chunk.start,
+        end_date: chunk.end,
+        product: 'salient_seasonal_forecast',
+        attributes: FORECAST_ATTRIBUTES.join(','),
+        output_type: 'json'
+      }, dailyOptions);
+      // Chunk boundaries are inclusive on both sides upstream; keep one row per date
+      response.results.forEach(result => byDate.set(result.date, result));
+      responses.push(response);
+      onProgress?.(index + 1, chunks.length);
+    }
+
+    const results = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+    const periods = aggregate ? aggregateMeasurements(results, aggregate) : undefined;
+
+    return {
+      results,
+      locations: results.length > 0 ? [{ lat: results[0].lat, lon: results[0].lon, results, ...(periods ? { periods } : {}) }] : [],
+      ...(periods ? { periods } : {}),
+      count: results.length,
+      next: null,
+      previous: null,
+      provenance: combineProvenance(...responses)[0]
+    };
   }
 }
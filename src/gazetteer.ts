@@ -0,0 +1,287 @@
+/**
+ * Offline place-name lookup
+ *
+ * Resolves names like "Kitale", "Mbale, Uganda" or "Machakos county" to
+ * coordinates using the bundled first-level areas (admin-areas.ts) and the
+ * town/sub-county gazetteer (places.ts). Matching is forgiving about case,
+ * punctuation, accents, suffixes such as "county" or "town", and small
+ * spelling mistakes. Names that match several distinct places are reported
+ * as ambiguous with the candidates, rather than guessed.
+ *
+ * @module gazetteer
+ */
+
+import { ADMIN_AREAS, COUNTRIES, CountryCode } from './data/admin-areas.js';
+import { PLACES, PlaceKind } from './data/places.js';
+import { haversineKm } from './geography.js';
+
+/**
+ * Minimum score for a fuzzy match to be used
+ */
+const MIN_MATCH_SCORE = 0.75;
+
+/**
+ * Minimum score for a name to be offered as a suggestion
+ */
+const MIN_SUGGESTION_SCORE = 0.5;
+
+/**
+ * Matches closer than this are treated as the same place (km)
+ * e.g. Kisii County and Kisii town
+ */
+const SAME_PLACE_DISTANCE_KM = 30;
+
+/**
+ * Words that describe the kind of place rather than name it
+ */
+const GENERIC_WORDS = new Set([
+  'county', 'sub', 'subcounty', 'district', 'region', 'town', 'city', 'municipality',
+  'ward', 'village', 'location', 'division', 'constituency', 'area', 'near', 'in'
+]);
+
+/**
+ * A gazetteer entry matched by a search
+ */
+export interface PlaceMatch {
+  name: string;
+  kind: PlaceKind;
+  country: string;
+  country_code: CountryCode;
+  /** First-level area the place belongs to */
+  admin_area: string;
+  admin_area_type: string;
+  /** Readable label, e.g. "Kitale, Trans Nzoia County, Kenya" */
+  label: string;
+  latitude: number;
+  longitude: number;
+  /** Match quality from 0 to 1 (1 = exact name or alias) */
+  score: number;
+}
+
+/**
+ * Options for searchPlaces/resolvePlace
+ */
+export interface PlaceSearchOptions {
+  /** Only match places in this country */
+  country?: CountryCode;
+
+  /** Maximum number of matches (default: 5) */
+  limit?: number;
+}
+
+/**
+ * Thrown when no bundled place matches a name
+ */
+export class PlaceNotFoundError extends Error {
+  constructor(readonly query: string, readonly suggestions: PlaceMatch[]) {
+    super(`Place not found: ${query}`);
+    this.name = 'PlaceNotFoundError';
+  }
+}
+
+/**
+ * Thrown when a name matches several distinct places
+ */
+export class AmbiguousPlaceError extends Error {
+  constructor(readonly query: string, readonly candidates: PlaceMatch[]) {
+    super(`Ambiguous place name: ${query}`);
+    this.name = 'AmbiguousPlaceError';
+  }
+}
+
+interface IndexedPlace {
+  match: Omit<PlaceMatch, 'score'>;
+  /** Normalized name and aliases */
+  names: string[];
+  /** Normalized first-level area and country, used for qualifiers like "Busia, Uganda" */
+  qualifiers: string[];
+}
+
+/**
+ * Lower-case, strip accents and punctuation, and collapse whitespace
+ */
+export function normalizePlaceName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’`]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Drop generic words ("county", "town", ...) from a normalized name
+ */
+function stripGenericWords(value: string): string {
+  const words = value.split(' ').filter(word => !GENERIC_WORDS.has(word));
+  return words.length > 0 ? words.join(' ') : value;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Score how well a normalized query matches a normalized name (0-1)
+ */
+function scoreName(query: string, name: string): number {
+  if (query === name) return 1;
+  if (query.replace(/ /g, '') === name.replace(/ /g, '')) return 0.98;
+  if (query.length >= 3 && name.startsWith(query)) return 0.9;
+  if (` ${query} `.includes(` ${name} `)) return 0.85;
+  return 1 - levenshtein(query, name) / Math.max(query.length, name.length);
+}
+
+function buildIndex(): IndexedPlace[] {
+  const index: IndexedPlace[] = [];
+  const add = (
+    name: string,
+    kind: PlaceKind,
+    countryCode: CountryCode,
+    adminArea: string,
+    [latitude, longitude]: [number, number],
+    aliases: string[] = []
+  ) => {
+    const country = COUNTRIES[countryCode];
+    const areaLabel = `${adminArea} ${country.adminType}, ${country.name}`;
+    index.push({
+      match: {
+        name,
+        kind,
+        country: country.name,
+        country_code: countryCode,
+        admin_area: adminArea,
+        admin_area_type: country.adminType,
+        label: kind === 'admin_area' ? areaLabel : `${name}, ${areaLabel}`,
+        latitude,
+        longitude
+      },
+      names: [name, ...aliases].map(value => stripGenericWords(normalizePlaceName(value))),
+      qualifiers: [normalizePlaceName(adminArea), normalizePlaceName(country.name), countryCode.toLowerCase()]
+    });
+  };
+
+  for (const area of ADMIN_AREAS) {
+    add(area.name, 'admin_area', area.country, area.name, area.anchors[0]);
+  }
+  for (const place of PLACES) {
+    add(place.name, place.kind, place.country, place.admin_area, [place.latitude, place.longitude], place.aliases);
+  }
+  return index;
+}
+
+let placeIndex: IndexedPlace[] | null = null;
+
+/**
+ * Split "Mbale, Uganda" or "Busia Kenya" into the name and any qualifiers
+ */
+function parseQuery(query: string): { name: string; qualifiers: string[] } {
+  const [head, ...rest] = query.split(',').map(part => normalizePlaceName(part)).filter(Boolean);
+  const qualifiers = rest.map(stripGenericWords);
+
+  // A trailing country name without a comma ("Busia Uganda")
+  const words = (head ?? '').split(' ');
+  const countryNames = Object.values(COUNTRIES).map(country => normalizePlaceName(country.name));
+  if (words.length > 1 && countryNames.includes(words[words.length - 1])) {
+    qualifiers.push(words.pop()!);
+  }
+
+  return { name: stripGenericWords(words.join(' ')), qualifiers };
+}
+
+/**
+ * Kind preference when collapsing matches of the same place
+ * (towns and sub-counties have more precise coordinates than a county anchor)
+ */
+const KIND_ORDER: Record<PlaceKind, number> = { town: 0, sub_county: 1, admin_area: 2 };
+
+/**
+ * Collapse matches that name the same place (e.g. Kisii County and Kisii town)
+ */
+function collapseSamePlace(matches: PlaceMatch[]): PlaceMatch[] {
+  const kept: PlaceMatch[] = [];
+  for (const match of matches) {
+    const duplicate = kept.findIndex(other =>
+      other.country_code === match.country_code &&
+      normalizePlaceName(other.name) === normalizePlaceName(match.name) &&
+      haversineKm(other.latitude, other.longitude, match.latitude, match.longitude) <= SAME_PLACE_DISTANCE_KM
+    );
+    if (duplicate === -1) {
+      kept.push(match);
+    } else if (KIND_ORDER[match.kind] < KIND_ORDER[kept[duplicate].kind]) {
+      kept[duplicate] = { ...match, score: Math.max(match.score, kept[duplicate].score) };
+    }
+  }
+  return kept;
+}
+
+/**
+ * All matches above a minimum score, best first
+ */
+function rankMatches(query: string, country: CountryCode | undefined, minScore: number): PlaceMatch[] {
+  placeIndex ??= buildIndex();
+  const parsed = parseQuery(query);
+  if (!parsed.name) return [];
+
+  const scored: PlaceMatch[] = [];
+  for (const place of placeIndex) {
+    if (country && place.match.country_code !== country) continue;
+    if (parsed.qualifiers.some(qualifier =>
+      !place.qualifiers.some(value => scoreName(qualifier, value) >= MIN_MATCH_SCORE))) {
+      continue;
+    }
+    const score = Math.max(...place.names.map(name => scoreName(parsed.name, name)));
+    if (score >= minScore) {
+      scored.push({ ...place.match, score: Math.round(score * 100) / 100 });
+    }
+  }
+
+  scored.sort((a, b) => b.score - a.score || KIND_ORDER[a.kind] - KIND_ORDER[b.kind] || a.name.localeCompare(b.name));
+  return collapseSamePlace(scored);
+}
+
+/**
+ * Search the bundled gazetteer for places matching a name
+ *
+ * @param query - Place name, optionally qualified ("Mbale, Uganda", "Kitale, Trans Nzoia")
+ * @param options - Country filter and result limit
+ * @returns Matches, best first (empty when nothing is close)
+ */
+export function searchPlaces(query: string, options: PlaceSearchOptions = {}): PlaceMatch[] {
+  return rankMatches(query, options.country, MIN_SUGGESTION_SCORE).slice(0, options.limit ?? 5);
+}
+
+/**
+ * Resolve a place name to a single place
+ *
+ * @throws PlaceNotFoundError when nothing matches well enough (with suggestions)
+ * @throws AmbiguousPlaceError when several distinct places match equally well
+ */
+export function resolvePlace(query: string, options: PlaceSearchOptions = {}): PlaceMatch {
+  const matches = rankMatches(query, options.country, MIN_SUGGESTION_SCORE);
+  const usable = matches.filter(match => match.score >= MIN_MATCH_SCORE);
+
+  if (usable.length === 0) {
+    throw new PlaceNotFoundError(query, matches.slice(0, options.limit ?? 5));
+  }
+
+  // Exact matches compete only with each other; fuzzy matches with anything close
+  const [best] = usable;
+  const margin = best.score === 1 ? 0 : 0.05;
+  const rivals = usable.filter(match => match.score >= best.score - margin);
+  if (rivals.length > 1) {
+    throw new AmbiguousPlaceError(query, rivals.slice(0, options.limit ?? 5));
+  }
+
+  return best;
+}
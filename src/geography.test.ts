@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { COUNTRIES } from './data/admin-areas.js';
+import { PLACES } from './data/places.js';
+import { isInCoverage, reverseGeocode } from './geography.js';
+
+describe('reverseGeocode', () => {
+  it('labels every gazetteer place with its own country and area', () => {
+    const mislabelled = PLACES
+      .filter(place => {
+        const region = reverseGeocode(place.latitude, place.longitude);
+        return region.country_code !== place.country || region.admin_area !== place.admin_area;
+      })
+      .map(place => `${place.name}, ${place.admin_area}, ${COUNTRIES[place.country].name}`);
+    assert.deepEqual(mislabelled, []);
+  });
+
+  it('keeps border towns on their side of the border', () => {
+    assert.equal(reverseGeocode(-2.93, 37.51).label, 'Kajiado County, Kenya');
+    assert.equal(reverseGeocode(0.63, 34.27).label, 'Busia County, Kenya');
+  });
+
+  it('does not label points far from every anchor', () => {
+    const region = reverseGeocode(-1.29, 10);
+    assert.equal(region.country, null);
+    assert.equal(region.label, 'Unknown region');
+    assert.equal(isInCoverage(-1.29, 10), false);
+  });
+});
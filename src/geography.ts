@@ -0,0 +1,132 @@
+/**
+ * Offline geography helpers
+ *
+ * - Coverage check against the bundled GAP coverage polygon
+ * - Reverse lookup of country and first-level area (county/region/district)
+ *   by nearest bundled anchor point (area anchors and gazetteer places)
+ *
+ * Nothing here calls a network service, so it works in the field and adds
+ * no latency to tool calls.
+ *
+ * @module geography
+ */
+
+import { GAP_COVERAGE_POLYGON } from './data/coverage.js';
+import { ADMIN_AREAS, AdminArea, COUNTRIES, CountryCode } from './data/admin-areas.js';
+import { PLACES } from './data/places.js';
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Anchors further than this from a point are not used to label it (km)
+ * Beyond this distance the point is most likely outside the bundled countries.
+ */
+const MAX_ANCHOR_DISTANCE_KM = 150;
+
+/**
+ * Anchor points with the area they label: each area's own anchors, plus
+ * every gazetteer place for the area it belongs to, so border towns such as
+ * Malaba or Loitokitok are not labelled by a closer anchor across the border
+ */
+const ANCHORS: Array<{ area: AdminArea; latitude: number; longitude: number }> = [
+  ...ADMIN_AREAS.flatMap(area => area.anchors.map(([latitude, longitude]) => ({ area, latitude, longitude }))),
+  ...PLACES.flatMap(place => {
+    const area = ADMIN_AREAS.find(entry => entry.country === place.country && entry.name === place.admin_area);
+    return area ? [{ area, latitude: place.latitude, longitude: place.longitude }] : [];
+  })
+];
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Ray-casting point-in-polygon test
+ *
+ * @param ring - Polygon ring as [longitude, latitude] pairs
+ */
+export function pointInPolygon(lat: number, lon: number, ring: Array<[number, number]>): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const crosses = (yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * True when a point is inside the bundled GAP coverage polygon
+ */
+export function isInCoverage(lat: number, lon: number): boolean {
+  return pointInPolygon(lat, lon, GAP_COVERAGE_POLYGON);
+}
+
+/**
+ * Result of an offline reverse lookup
+ */
+export interface RegionInfo {
+  /** Country name, e.g. "Kenya" (null when unknown) */
+  country: string | null;
+
+  /** ISO country code (null when unknown) */
+  country_code: CountryCode | null;
+
+  /** First-level area, e.g. "Nakuru" (null when unknown) */
+  admin_area: string | null;
+
+  /** Local name of the area type: County, Region or District */
+  admin_area_type: string | null;
+
+  /** Readable label, e.g. "Nakuru County, Kenya" */
+  label: string;
+}
+
+/**
+ * Country and first-level area by name
+ */
+export function regionOf(countryCode: CountryCode, adminArea: string): RegionInfo {
+  const country = COUNTRIES[countryCode];
+  return {
+    country: country.name,
+    country_code: countryCode,
+    admin_area: adminArea,
+    admin_area_type: country.adminType,
+    label: `${adminArea} ${country.adminType}, ${country.name}`
+  };
+}
+
+/**
+ * Find the country and first-level area of a point from bundled anchors
+ *
+ * Approximate near borders (nearest-anchor, not real boundaries).
+ */
+export function reverseGeocode(lat: number, lon: number): RegionInfo {
+  let best: { area: AdminArea; distance: number } | null = null;
+  for (const anchor of ANCHORS) {
+    const distance = haversineKm(lat, lon, anchor.latitude, anchor.longitude);
+    if (!best || distance < best.distance) {
+      best = { area: anchor.area, distance };
+    }
+  }
+
+  if (!best || best.distance > MAX_ANCHOR_DISTANCE_KM) {
+    return {
+      country: null,
+      country_code: null,
+      admin_area: null,
+      admin_area_type: null,
+      label: isInCoverage(lat, lon) ? 'East Africa' : 'Unknown region'
+    };
+  }
+
+  return regionOf(best.area.country, best.area.name);
+}
@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { findSpecies, stressCategory, temperatureHumidityIndex, wetBulbTemperature } from './heat-stress.js';
+
+describe('wetBulbTemperature', () => {
+  it('matches the published example (20 °C, 50 % gives 13.7 °C)', () => {
+    assert.ok(Math.abs(wetBulbTemperature(20, 50) - 13.7) < 0.05);
+  });
+});
+
+describe('temperatureHumidityIndex', () => {
+  it('computes the NRC index', () => {
+    assert.ok(Math.abs(temperatureHumidityIndex(30, 50, 'nrc') - 78.3) < 1e-9);
+  });
+
+  it('rises with humidity and clamps it to 0-100 %', () => {
+    assert.ok(temperatureHumidityIndex(30, 80, 'nrc') > temperatureHumidityIndex(30, 40, 'nrc'));
+    assert.equal(temperatureHumidityIndex(30, 120, 'small_ruminant'), temperatureHumidityIndex(30, 100, 'small_ruminant'));
+    assert.equal(temperatureHumidityIndex(30, 100, 'small_ruminant'), 30);
+  });
+});
+
+describe('stressCategory', () => {
+  it('starts each category at its threshold', () => {
+    const cattle = findSpecies('cattle')!;
+    assert.equal(stressCategory(74.9, cattle), 'normal');
+    assert.equal(stressCategory(75, cattle), 'alert');
+    assert.equal(stressCategory(79, cattle), 'danger');
+    assert.equal(stressCategory(90, cattle), 'emergency');
+  });
+});
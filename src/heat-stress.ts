@@ -0,0 +1,203 @@
+/**
+ * Livestock heat stress from forecast temperature and humidity
+ *
+ * Computes a daytime THI from the maximum temperature and a night-time THI
+ * from the minimum temperature (both with daily mean humidity), classifies
+ * the day with the species thresholds in data/livestock.ts and, when the
+ * forecast carries ensemble statistics, adds a worst case from the 90th
+ * percentile of maximum temperature and humidity.
+ *
+ * @module heat-stress
+ */
+
+import { LIVESTOCK_SPECIES, LivestockSpecies, StressCategory, ThiFormula } from './data/livestock.js';
+import { DailyWeather } from './weather-format.js';
+
+const CATEGORY_ORDER: Record<StressCategory, number> = { normal: 0, alert: 1, danger: 2, emergency: 3 };
+
+/**
+ * Heat stress for one species on one day
+ */
+export interface HeatStressDay {
+  date: string;
+  max_temp: number | null;
+  min_temp: number | null;
+  humidity: number | null;
+  /** THI at the day's maximum temperature */
+  thi: number | null;
+  category: StressCategory | null;
+  /** THI at the night's minimum temperature */
+  night_thi: number | null;
+  /** Night cool enough (below the alert threshold) for animals to recover */
+  night_relief: boolean | null;
+  /** 90th percentile case from the ensemble (null when not available) */
+  worst_case: { max_temp: number; humidity: number; thi: number; category: StressCategory } | null;
+}
+
+/**
+ * A species' heat stress over the forecast period
+ */
+export interface HeatStressReport {
+  species: { id: string; name: string; formula: ThiFormula; thresholds: LivestockSpecies['thresholds'] };
+  peak_category: StressCategory;
+  /** Worst category including the ensemble worst case */
+  worst_case_category: StressCategory | null;
+  /** First day at alert or above (expected values) */
+  first_stress_date: string | null;
+  /** Days at each category (expected values) */
+  days_by_category: Record<StressCategory, number>;
+  /** Hot days followed by a night with no relief */
+  nights_without_relief: string[];
+  headline: string;
+  advice: string[];
+  days: HeatStressDay[];
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Look up a species by id, name or alias (case-insensitive)
+ */
+export function findSpecies(species: string): LivestockSpecies | undefined {
+  const wanted = species.trim().toLowerCase().replace(/[\s-]+/g, ' ');
+  return LIVESTOCK_SPECIES.find(entry =>
+    [entry.id.replace(/_/g, ' '), entry.name, ...entry.aliases]
+      .some(name => name.toLowerCase() === wanted)
+  );
+}
+
+/**
+ * Readable list of supported species, for error messages
+ */
+export function supportedSpecies(): string {
+  return LIVESTOCK_SPECIES.map(entry => entry.id).join(', ');
+}
+
+/**
+ * Wet-bulb temperature (°C) from air temperature and relative humidity (Stull, 2011)
+ */
+export function wetBulbTemperature(tempC: number, humidityPct: number): number {
+  const rh = humidityPct;
+  return tempC * Math.atan(0.151977 * Math.sqrt(rh + 8.313659))
+    + Math.atan(tempC + rh)
+    - Math.atan(rh - 1.676331)
+    + 0.00391838 * Math.pow(rh, 1.5) * Math.atan(0.023101 * rh)
+    - 4.686035;
+}
+
+/**
+ * Temperature-Humidity Index with the given formula
+ *
+ * @param tempC - Air temperature (°C)
+ * @param humidityPct - Relative humidity (%)
+ */
+export function temperatureHumidityIndex(tempC: number, humidityPct: number, formula: ThiFormula): number {
+  const rh = Math.max(0, Math.min(100, humidityPct));
+  switch (formula) {
+    case 'nrc':
+      return (1.8 * tempC + 32) - (0.55 - 0.0055 * rh) * (1.8 * tempC - 26);
+    case 'small_ruminant':
+      return tempC - (0.31 - 0.31 * rh / 100) * (tempC - 14.4);
+    case 'poultry':
+      return 0.85 * tempC + 0.15 * wetBulbTemperature(tempC, rh);
+  }
+}
+
+/**
+ * Stress category for a THI value
+ */
+export function stressCategory(thi: number, species: LivestockSpecies): StressCategory {
+  if (thi >= species.thresholds.emergency) return 'emergency';
+  if (thi >= species.thresholds.danger) return 'danger';
+  if (thi >= species.thresholds.alert) return 'alert';
+  return 'normal';
+}
+
+function worse(a: StressCategory, b: StressCategory): StressCategory {
+  return CATEGORY_ORDER[b] > CATEGORY_ORDER[a] ? b : a;
+}
+
+/**
+ * Assess heat stress for a species over forecast days (in date order)
+ */
+export function buildHeatStressReport(species: LivestockSpecies, days: DailyWeather[]): HeatStressReport {
+  const assessed = days.map((day): HeatStressDay => {
+    const thi = day.max_temp !== null && day.humidity !== null
+      ? temperatureHumidityIndex(day.max_temp, day.humidity, species.formula)
+      : null;
+    const nightThi = day.min_temp !== null && day.humidity !== null
+      ? temperatureHumidityIndex(day.min_temp, day.humidity, species.formula)
+      : null;
+
+    const tempStats = day.ensemble?.stats.max_temp;
+    const humidityStats = day.ensemble?.stats.humidity;
+    let worstCase: HeatStressDay['worst_case'] = null;
+    if (tempStats && humidityStats) {
+      const worstThi = temperatureHumidityIndex(tempStats.p90, humidityStats.p90, species.formula);
+      worstCase = {
+        max_temp: tempStats.p90,
+        humidity: humidityStats.p90,
+        thi: round1(worstThi),
+        category: stressCategory(worstThi, species)
+      };
+    }
+
+    return {
+      date: day.date,
+      max_temp: day.max_temp,
+      min_temp: day.min_temp,
+      humidity: day.humidity,
+      thi: thi !== null ? round1(thi) : null,
+      category: thi !== null ? stressCategory(thi, species) : null,
+      night_thi: nightThi !== null ? round1(nightThi) : null,
+      night_relief: nightThi !== null ? nightThi < species.thresholds.alert : null,
+      worst_case: worstCase
+    };
+  });
+
+  const daysByCategory: Record<StressCategory, number> = { normal: 0, alert: 0, danger: 0, emergency: 0 };
+  assessed.forEach(day => {
+    if (day.category) daysByCategory[day.category]++;
+  });
+
+  const peak = assessed.reduce<StressCategory>((best, day) => day.category ? worse(best, day.category) : best, 'normal');
+  const worstCases = assessed.filter(day => day.worst_case);
+  const worstCase = worstCases.length > 0
+    ? worstCases.reduce<StressCategory>((best, day) => worse(best, day.worst_case!.category), peak)
+    : null;
+  const firstStress = assessed.find(day => day.category && day.category !== 'normal');
+  const noRelief = assessed
+    .filter(day => day.category && day.category !== 'normal' && day.night_relief === false)
+    .map(day => day.date);
+
+  let headline: string;
+  if (peak !== 'normal') {
+    const peakDay = assessed.find(day => day.category === peak)!;
+    headline = `${species.name}: heat stress reaches ${peak} level on ${peakDay.date} (THI ${peakDay.thi}); ${daysByCategory.alert + daysByCategory.danger + daysByCategory.emergency} of ${assessed.length} days at alert or above.`;
+  } else {
+    headline = `${species.name}: no heat stress expected in the next ${assessed.length} days.`;
+  }
+  if (worstCase && CATEGORY_ORDER[worstCase] > CATEGORY_ORDER[peak]) {
+    headline += ` In a hotter-than-expected case (1 in 10 forecasts) it could reach ${worstCase} level.`;
+  }
+
+  const advice = [...species.advice[peak]];
+  if (noRelief.length > 0) {
+    advice.push(`Nights stay warm on ${noRelief.join(', ')}, so animals cannot cool down overnight; stress builds up over consecutive days.`);
+  }
+  if (worstCase && CATEGORY_ORDER[worstCase] > CATEGORY_ORDER[peak]) {
+    advice.push(`Be ready to step up to ${worstCase}-level measures: ${species.advice[worstCase][0]}`);
+  }
+
+  return {
+    species: { id: species.id, name: species.name, formula: species.formula, thresholds: species.thresholds },
+    peak_category: peak,
+    worst_case_category: worstCase,
+    first_stress_date: firstStress?.date ?? null,
+    days_by_category: daysByCategory,
+    nights_without_relief: noRelief,
+    headline,
+    advice,
+    days: assessed
+  };
+}
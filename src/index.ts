@@ -1,10 +1,14 @@
 import 'dotenv/config';
+import { randomUUID } from 'node:crypto';
 import express from 'express';
 import cors from 'cors';
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
-import { z } from 'zod';
-import { GAPClient } from './gap-client.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { AlertScheduler } from './alerts.js';
+import { createMcpServer } from './server.js';
+import { createServices, createToolContext, loadServiceConfig, runForecastVerification } from './services.js';
+import { SessionMode, SessionStore } from './sessions.js';
+import { ToolContext } from './tools/context.js';
 
 const app = express();
 
@@ -13,31 +17,44 @@ app.use(express.json());
 app.use(cors({
   origin: process.env.ALLOWED_ORIGINS?.split(',') || '*',
   exposedHeaders: ['Mcp-Session-Id'],
-  allowedHeaders: ['Content-Type', 'mcp-session-id', 'Authorization', 'X-Farm-Latitude', 'X-Farm-Longitude']
+  allowedHeaders: ['Content-Type', 'mcp-session-id', 'mcp-protocol-version', 'last-event-id', 'Authorization', 'X-Farm-Latitude', 'X-Farm-Longitude']
 }));
 
 // Environment variables
-const GAP_API_TOKEN = process.env.GAP_API_TOKEN || '';
-const GAP_API_BASE_URL = process.env.GAP_API_BASE_URL || 'https://gap.tomorrownow.org/api/v1';
 const PORT = process.env.PORT || 3000;
 
+// GAP client, cache and stores (shared by every MCP request)
+const services = createServices(loadServiceConfig());
+const { config, gapClient, measurementCache, alertStore } = services;
+
 // Warn if token is missing
-if (!GAP_API_TOKEN) {
+if (!config.gapApiToken) {
   console.warn('⚠️  WARNING: GAP_API_TOKEN environment variable is not set!');
   console.warn('⚠️  Server will start but MCP tools will not work until token is configured.');
 }
 
-// Initialize GAP Client
-const gapClient = GAP_API_TOKEN ? new GAPClient(GAP_API_TOKEN, GAP_API_BASE_URL) : null;
+// MCP sessions: stateless (a fresh server per request) or stateful (a server per client session)
+const MCP_SESSION_MODE: SessionMode = process.env.MCP_SESSION_MODE === 'stateful' ? 'stateful' : 'stateless';
+const MCP_SESSION_IDLE_MINUTES = Number(process.env.MCP_SESSION_IDLE_MINUTES) || 30;
+const MCP_MAX_SESSIONS = Number(process.env.MCP_MAX_SESSIONS) || 100;
+const sessionStore = MCP_SESSION_MODE === 'stateful'
+  ? new SessionStore(MCP_SESSION_IDLE_MINUTES * 60 * 1000, MCP_MAX_SESSIONS)
+  : undefined;
+sessionStore?.startSweeper();
 
 // Health check endpoint
-app.get('/health', (req, res) => {
+app.get('/health', async (req, res) => {
   res.json({
     status: 'healthy',
     service: 'gap-agriculture-mcp-server',
     timestamp: new Date().toISOString(),
     version: '2.0.0',
-    gapApiConfigured: !!GAP_API_TOKEN
+    gapApiConfigured: !!config.gapApiToken,
+    gapCircuit: gapClient?.circuitState ?? 'disabled',
+    cache: measurementCache ? await measurementCache.stats() : { enabled: false },
+    sessions: sessionStore
+      ? { mode: MCP_SESSION_MODE, active: sessionStore.size, max: MCP_MAX_SESSIONS, idle_timeout_minutes: MCP_SESSION_IDLE_MINUTES }
+      : { mode: MCP_SESSION_MODE }
   });
 });
 
@@ -49,228 +66,134 @@ app.get('/', (req, res) => {
     description: 'Weather intelligence powered by TomorrowNow GAP API with intelligent Agent analysis',
     endpoints: {
       health: '/health',
-      mcp: '/mcp (POST)'
+      mcp: sessionStore ? '/mcp (POST, GET, DELETE)' : '/mcp (POST)'
     },
     tools: [
-      'get_gap_weather_forecast'
+      'get_gap_weather_forecast',
+      'get_gap_historical_weather',
+      'get_gap_farming_forecast',
+      'get_gap_batch_forecast',
+      'register_farm',
+      'update_farm',
+      'list_farms',
+      'delete_farm',
+      'search_places',
+      'get_crop_stage',
+      'get_irrigation_schedule',
+      'get_planting_advice',
+      'get_pest_disease_risk',
+      'get_field_operation_windows',
+      'get_livestock_heat_stress',
+      'get_seasonal_outlook',
+      'get_rainfall_statistics',
+      'get_climate_normals',
+      'get_forecast_accuracy',
+      'create_alert_rule',
+      'list_alert_rules',
+      'delete_alert_rule',
+      'test_alert_rule'
+    ],
+    resources: [
+      'gap://forecast/{lat}/{lon}{?days}',
+      'gap://historical/{lat}/{lon}/{start}/{end}',
+      'gap://farm/{id}/summary'
+    ],
+    prompts: [
+      'weekly_farm_briefing',
+      'planting_decision'
     ]
   });
 });
 
-// Main MCP endpoint
-app.post('/mcp', async (req, res) => {
-  try {
-    // Extract default coordinates from custom headers
-    const headerLat = req.headers['x-farm-latitude'] as string;
-    const headerLon = req.headers['x-farm-longitude'] as string;
-    const defaultLatitude = headerLat ? parseFloat(headerLat) : undefined;
-    const defaultLongitude = headerLon ? parseFloat(headerLon) : undefined;
-
-    if (defaultLatitude && defaultLongitude) {
-      console.log(`[MCP] Using default coordinates from headers: lat=${defaultLatitude}, lon=${defaultLongitude}`);
-    }
-
-    const transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined // Stateless
-    });
-
-    const server = new McpServer({
-      name: 'gap-weather-intelligence',
-      version: '2.0.0',
-      description: 'Satellite weather data for agriculture in Kenya and East Africa via TomorrowNow Global Access Platform (GAP)'
-    });
-
-    // Single Tool: Get Weather Forecast
-    server.tool(
-      'get_gap_weather_forecast',
-      'Get satellite weather forecast (temperature, rainfall, humidity, wind) for agricultural planning in Kenya and East Africa. Data from TomorrowNow GAP Platform.',
-      {
-        latitude: z.number().min(-90).max(90).optional().describe('Latitude coordinate (e.g., -1.2864 for Nairobi). Optional if provided in headers.'),
-        longitude: z.number().min(-180).max(180).optional().describe('Longitude coordinate (e.g., 36.8172 for Nairobi). Optional if provided in headers.'),
-        days: z.number().min(1).max(14).default(7).optional().describe('Number of days to forecast (1-14, default: 7). Use 14 days for comprehensive analysis.')
-      },
-      async ({ latitude, longitude, days = 7 }) => {
-        try {
-          // Use header defaults if coordinates not provided, fallback to Nairobi
-          const NAIROBI_LAT = -1.2864;
-          const NAIROBI_LON = 36.8172;
-          const lat = latitude ?? defaultLatitude ?? NAIROBI_LAT;
-          const lon = longitude ?? defaultLongitude ?? NAIROBI_LON;
-
-          console.log(`[MCP Tool] get_gap_weather_forecast called: lat=${lat}, lon=${lon}, days=${days}`);
-
-          // Validate coordinates
-          if (typeof lat !== 'number' || isNaN(lat) || lat < -90 || lat > 90) {
-            return {
-              content: [{
-                type: 'text',
-                text: 'Invalid latitude coordinate. Please provide a valid latitude between -90 and 90.'
-              }],
-              isError: true
-            };
-          }
-          if (typeof lon !== 'number' || isNaN(lon) || lon < -180 || lon > 180) {
-            return {
-              content: [{
-                type: 'text',
-                text: 'Invalid longitude coordinate. Please provide a valid longitude between -180 and 180.'
-              }],
-              isError: true
-            };
-          }
-          if (typeof days !== 'number' || days < 1 || days > 14) {
-            return {
-              content: [{
-                type: 'text',
-                text: 'Invalid number of days. Please provide a value between 1 and 14.'
-              }],
-              isError: true
-            };
-          }
-
-          if (!gapClient) {
-            return {
-              content: [{
-                type: 'text',
-                text: 'I\'m having trouble connecting to the weather data service. Try again in a moment?'
-              }],
-              isError: true
-            };
-          }
-
-          const data = await gapClient.getForecast(lat, lon, days);
-
-          if (data.count === 0) {
-            return {
-              content: [{
-                type: 'text',
-                text: `No weather data available for this location. Please check if the coordinates are correct.`
-              }],
-              isError: false
-            };
-          }
-
-          const toNumber = (value: unknown, multiplier = 1) => {
-            if (typeof value === 'number' && Number.isFinite(value)) {
-              return Number((value * multiplier).toFixed(1));
-            }
-
-            const parsed = Number(value);
-            return Number.isFinite(parsed) ? Number((parsed * multiplier).toFixed(1)) : null;
-          };
-
-          const buildAverage = (values: Array<number | null>, total = false) => {
-            const filtered = values.filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
-            if (!filtered.length) {
-              return null;
-            }
+/**
+ * Default coordinates from the X-Farm-Latitude / X-Farm-Longitude headers
+ */
+function headerDefaults(req: express.Request): Pick<ToolContext, 'defaultLatitude' | 'defaultLongitude'> {
+  const headerLat = req.headers['x-farm-latitude'] as string;
+  const headerLon = req.headers['x-farm-longitude'] as string;
+  const defaultLatitude = headerLat ? parseFloat(headerLat) : undefined;
+  const defaultLongitude = headerLon ? parseFloat(headerLon) : undefined;
+
+  if (defaultLatitude !== undefined && defaultLongitude !== undefined) {
+    console.log(`[MCP] Using default coordinates from headers: lat=${defaultLatitude}, lon=${defaultLongitude}`);
+  }
+  return { defaultLatitude, defaultLongitude };
+}
 
-            const aggregate = filtered.reduce((sum, val) => sum + val, 0);
-            const result = total ? aggregate : aggregate / filtered.length;
-            return Number(result.toFixed(1));
-          };
+/**
+ * Send a JSON-RPC error response
+ */
+function sendJsonRpcError(res: express.Response, status: number, code: number, message: string, data?: string): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message, ...(data !== undefined ? { data } : {}) },
+    id: null
+  });
+}
 
-          // Log sample of raw data to debug null values
-          if (data.results.length > 0) {
-            const sampleDay = data.results[0];
-            console.log('[MCP Tool] Sample day data:', {
-              date: sampleDay.date,
-              max_temperature: sampleDay.max_temperature,
-              min_temperature: sampleDay.min_temperature,
-              precipitation: sampleDay.precipitation,
-              relative_humidity: sampleDay.relative_humidity,
-              wind_speed: sampleDay.wind_speed,
-              allKeys: Object.keys(sampleDay)
-            });
-          }
+/**
+ * Stateful mode: route a request to its session, or open one on initialize
+ */
+async function handleSessionRequest(req: express.Request, res: express.Response, sessions: SessionStore): Promise<void> {
+  const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+  if (sessionId) {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found. Please initialize a new session.');
+      return;
+    }
+    if (req.method === 'POST') {
+      Object.assign(session.context, headerDefaults(req));
+    }
+    sessions.track(session, res);
+    await session.transport.handleRequest(req, res, req.body);
+    return;
+  }
 
-          // Format as clean JSON for Agent to analyze
-          const forecast = data.results.map((day) => {
-            const maxTemp = toNumber(day.max_temperature);
-            const minTemp = toNumber(day.min_temperature);
-            const precipitation = toNumber(day.precipitation);
-            const humidity = toNumber(day.relative_humidity, 100);
-            const windSpeed = toNumber(day.wind_speed);
+  if (req.method !== 'POST' || !isInitializeRequest(req.body)) {
+    sendJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required (send initialize first).');
+    return;
+  }
+  if (sessions.isFull) {
+    sendJsonRpcError(res, 503, -32000, `Too many open sessions (${sessions.maxSessions}). Please try again later.`);
+    return;
+  }
 
-            return {
-              date: day.date,
-              max_temp: maxTemp,
-              min_temp: minTemp,
-              precipitation,
-              humidity,
-              wind_speed: windSpeed
-            };
-          });
+  const context = createToolContext(services, headerDefaults(req));
+  const server = createMcpServer(context);
+  const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: id => {
+      const now = Date.now();
+      sessions.add({ id, server, transport, context, created_at: new Date(now).toISOString(), last_seen: now, open_responses: 0 });
+    }
+  });
+  transport.onclose = () => {
+    if (transport.sessionId) sessions.remove(transport.sessionId);
+  };
 
-          // Check if all values are null - this indicates GAP API returned no data
-          const allNull = forecast.every(day => 
-            day.max_temp === null && 
-            day.min_temp === null && 
-            day.precipitation === null && 
-            day.humidity === null && 
-            day.wind_speed === null
-          );
+  await server.connect(transport);
+  await transport.handleRequest(req, res, req.body);
+}
 
-          if (allNull) {
-            console.warn('[MCP Tool] ⚠️  All forecast values are null - GAP API may not have data for these dates');
-          }
+// Main MCP endpoint (POST: JSON-RPC requests; GET and DELETE: session stream and teardown in stateful mode)
+app.all('/mcp', async (req, res) => {
+  try {
+    if (sessionStore) {
+      await handleSessionRequest(req, res, sessionStore);
+      return;
+    }
 
-          // Return structured data that Agent can analyze intelligently
-          const response = {
-            location: {
-              latitude: lat,
-              longitude: lon,
-              region: 'Kenya/East Africa'
-            },
-            period: {
-              days: days,
-              start_date: forecast[0].date,
-              end_date: forecast[forecast.length - 1].date
-            },
-            forecast: forecast,
-            summary: {
-              avg_max_temp: buildAverage(forecast.map(d => d.max_temp ?? null)),
-              avg_min_temp: buildAverage(forecast.map(d => d.min_temp ?? null)),
-              total_precipitation: buildAverage(forecast.map(d => d.precipitation ?? null), true),
-              avg_humidity: buildAverage(forecast.map(d => d.humidity ?? null))
-            },
-            data_source: 'TomorrowNow GAP Platform (satellite-based)'
-          };
+    if (req.method !== 'POST') {
+      sendJsonRpcError(res, 405, -32000, 'Method not allowed: this server is stateless (set MCP_SESSION_MODE=stateful for sessions).');
+      return;
+    }
 
-          return {
-            content: [{
-              type: 'text',
-              text: JSON.stringify(response, null, 2)
-            }]
-          };
-        } catch (error: any) {
-          console.error('[MCP Tool] Error in get_gap_weather_forecast:', error);
-          console.error('[MCP Tool] Error details:', {
-            message: error.message,
-            stack: error.stack,
-            name: error.name
-          });
-          
-          // Provide more specific error message if available
-          let errorMessage = `I'm having trouble getting weather data right now. Try again in a moment?`;
-          if (error.message && error.message.includes('410')) {
-            errorMessage = `The weather data service endpoint is no longer available. Please contact support.`;
-          } else if (error.message && error.message.includes('401')) {
-            errorMessage = `Weather data service authentication failed. Please check API credentials.`;
-          } else if (error.message && error.message.includes('timeout')) {
-            errorMessage = `Weather data service took too long to respond. Please try again.`;
-          }
-          
-          return {
-            content: [{
-              type: 'text',
-              text: errorMessage
-            }],
-            isError: true
-          };
-        }
-      }
-    );
+    const server = createMcpServer(createToolContext(services, headerDefaults(req)));
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined // Stateless
+    });
 
     // Connect and handle the request
     await server.connect(transport);
@@ -278,18 +201,22 @@ app.post('/mcp', async (req, res) => {
 
   } catch (error) {
     console.error('[MCP] Error:', error);
-    res.status(500).json({
-      jsonrpc: '2.0',
-      error: {
-        code: -32603,
-        message: 'Internal server error',
-        data: error instanceof Error ? error.message : 'Unknown error'
-      },
-      id: null
-    });
+    if (!res.headersSent) {
+      sendJsonRpcError(res, 500, -32603, 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+    }
   }
 });
 
+// Run the verification job periodically (0 disables it; get_forecast_accuracy still verifies on demand)
+const verificationTimer = gapClient && config.forecastVerifyIntervalHours > 0
+  ? setInterval(() => runForecastVerification(services), config.forecastVerifyIntervalHours * 60 * 60 * 1000)
+  : undefined;
+verificationTimer?.unref();
+
+// Re-evaluate alert rules periodically and deliver new events
+const alertScheduler = gapClient && config.alertCheckIntervalMinutes > 0 ? new AlertScheduler(alertStore, gapClient) : undefined;
+alertScheduler?.start(config.alertCheckIntervalMinutes * 60 * 1000);
+
 // Start server
 const HOST = '0.0.0.0';
 const server = app.listen(Number(PORT), HOST, () => {
@@ -301,8 +228,17 @@ const server = app.listen(Number(PORT), HOST, () => {
   console.log(`✅ Server running on ${HOST}:${PORT}`);
   console.log(`📍 Health check: http://localhost:${PORT}/health`);
   console.log(`🌾 MCP endpoint: http://localhost:${PORT}/mcp`);
-  console.log(`🔑 GAP API Token: ${GAP_API_TOKEN ? '✅ Configured' : '⚠️  NOT CONFIGURED'}`);
-  console.log(`🛠️  Tools: 1 (get_gap_weather_forecast - up to 14 days)`);
+  console.log(`🔑 GAP API Token: ${config.gapApiToken ? '✅ Configured' : '⚠️  NOT CONFIGURED'}`);
+  console.log(`🔗 MCP sessions: ${sessionStore ? `stateful, idle timeout ${MCP_SESSION_IDLE_MINUTES} min, max ${MCP_MAX_SESSIONS}` : 'stateless'}`);
+  console.log(`🗄️  Response cache: ${measurementCache ? config.cacheStore : 'disabled'}`);
+  console.log(`🛠️  Tools: 23 (weather forecast, historical, farming forecast, batch forecast, 4 farm registry tools, place search, crop stage, irrigation, planting advice, pest & disease risk, field operation windows, livestock heat stress, seasonal outlook, rainfall statistics, climate normals, forecast accuracy, 4 alert tools)`);
+  console.log(`📚 Resources: forecast, historical, farm summary; prompts: weekly_farm_briefing, planting_decision`);
+  console.log(`🚜 Farm registry: ${config.farmRegistryPath}`);
+  console.log(`🐛 Risk models: built-in${config.pestModelsPath ? ` + ${config.pestModelsPath}` : ''}`);
+  console.log(`📊 Climatology: ${config.climatologyYears}-year baselines in ${config.climatologyDir}`);
+  console.log(`🔔 Alerts: ${config.alertsPath}, ${alertScheduler ? `checked every ${config.alertCheckIntervalMinutes} min` : 'scheduler disabled'}`);
+  console.log(`🎯 Forecast verification: ${config.forecastSnapshotsPath}, ${verificationTimer ? `every ${config.forecastVerifyIntervalHours} h` : 'on demand only'}`);
+  console.log(`🗺️  Coverage check: ${config.coverageMode}, default location: ${config.serverDefault ? `${config.serverDefault.latitude}, ${config.serverDefault.longitude}` : 'none'}`);
   console.log('=========================================');
   console.log('📝 Agent analyzes weather data for farming advice');
   console.log('=========================================');
@@ -312,6 +248,7 @@ const server = app.listen(Number(PORT), HOST, () => {
 // Graceful shutdown handling
 process.on('SIGTERM', () => {
   console.log('SIGTERM signal received: closing HTTP server');
+  sessionStore?.closeAll().catch(error => console.error('[MCP] Closing sessions failed:', error));
   server.close(() => {
     console.log('HTTP server closed');
     process.exit(0);
@@ -320,6 +257,7 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('SIGINT signal received: closing HTTP server');
+  sessionStore?.closeAll().catch(error => console.error('[MCP] Closing sessions failed:', error));
   server.close(() => {
     console.log('HTTP server closed');
     process.exit(0);
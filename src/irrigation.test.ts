@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { findCropProfile } from './crop-stages.js';
+import { SoilType } from './data/soil-types.js';
+import {
+  buildIrrigationSchedule,
+  cropCoefficient,
+  effectiveRain,
+  findSoilType,
+  IrrigationWeather,
+  LITRES_PER_MM_PER_ACRE,
+  WaterBalanceSetup
+} from './irrigation.js';
+
+const maize = findCropProfile('maize')!;
+const beans = findCropProfile('beans')!;
+const loam = findSoilType('loam')!;
+
+function day(date: string, precipitation: number): IrrigationWeather {
+  return { date, max_temp: 28, min_temp: 15, precipitation };
+}
+
+function setup(overrides: Partial<WaterBalanceSetup> = {}): WaterBalanceSetup {
+  return { crop: maize, stage: 'mid_season', soil: loam, soilMoisture: 'wet', method: 'drip', latitude: -1.3, ...overrides };
+}
+
+describe('effectiveRain', () => {
+  it('ignores light showers and counts 80% of the rest', () => {
+    assert.equal(effectiveRain(null), 0);
+    assert.equal(effectiveRain(1.5), 0);
+    assert.equal(effectiveRain(10), 8);
+  });
+});
+
+describe('cropCoefficient', () => {
+  it('interpolates the development and late-season stages', () => {
+    assert.equal(cropCoefficient(maize, 'initial'), 0.3);
+    assert.equal(cropCoefficient(maize, 'development'), 0.75);
+    assert.equal(cropCoefficient(maize, 'mid_season'), 1.2);
+    assert.equal(cropCoefficient(maize, 'late_season'), 0.85);
+  });
+});
+
+describe('findSoilType', () => {
+  it('matches aliases regardless of case and separators', () => {
+    assert.equal(findSoilType('Black-Cotton')?.id, 'clay');
+    assert.equal(findSoilType('peat'), undefined);
+  });
+});
+
+describe('buildIrrigationSchedule', () => {
+  it('sizes the root zone from the crop, stage and soil', () => {
+    const { parameters } = buildIrrigationSchedule(setup({ soilMoisture: 'dry' }), []);
+    assert.equal(parameters.root_depth_m, 1.2);
+    assert.equal(parameters.total_available_water_mm, 180);
+    assert.equal(parameters.readily_available_water_mm, 99);
+    assert.equal(parameters.starting_depletion_mm, 99);
+  });
+
+  it('irrigates once the readily available water is used and refills the root zone', () => {
+    const schedule = buildIrrigationSchedule(setup({ crop: beans, stage: 'initial', soilMoisture: 'dry', method: 'sprinkler' }), [
+      day('2026-10-19', 0),
+      day('2026-10-20', 0)
+    ]);
+    const [first, second] = schedule.days;
+
+    assert.equal(first.action, 'irrigate');
+    assert.equal(first.net_irrigation_mm, first.depletion_mm);
+    assert.equal(first.gross_irrigation_mm, Math.round(first.net_irrigation_mm / 0.75 * 10) / 10);
+    assert.equal(first.litres_per_acre, Math.round(first.gross_irrigation_mm * LITRES_PER_MM_PER_ACRE));
+    assert.equal(second.action, 'skip');
+    assert.equal(second.depletion_mm, second.crop_et_mm);
+    assert.equal(schedule.summary.irrigation_days, 1);
+    assert.equal(schedule.summary.next_irrigation_date, '2026-10-19');
+  });
+
+  it('waits when useful rain is forecast for the next day', () => {
+    const schedule = buildIrrigationSchedule(setup({ crop: beans, stage: 'initial', soilMoisture: 'dry' }), [
+      day('2026-10-19', 0),
+      day('2026-10-20', 30)
+    ]);
+    assert.equal(schedule.days[0].action, 'skip');
+    assert.match(schedule.days[0].reason, /useful rain is forecast tomorrow/);
+    assert.equal(schedule.summary.irrigation_days, 0);
+  });
+
+  it('credits rain only when it covers the crop water use', () => {
+    const schedule = buildIrrigationSchedule(setup(), [
+      day('2026-10-19', 3),
+      day('2026-10-20', 20)
+    ]);
+    const [light, heavy] = schedule.days;
+
+    assert.ok(light.effective_rain_mm > 0 && light.effective_rain_mm < light.crop_et_mm);
+    assert.equal(light.reason, 'Soil still holds enough water for the crop');
+    assert.ok(heavy.effective_rain_mm >= heavy.crop_et_mm);
+    assert.equal(heavy.reason, 'Rain is keeping the soil moist enough');
+  });
+
+  it('does not credit rain on a day without crop water use', () => {
+    const noEt: IrrigationWeather = { date: '2026-10-19', max_temp: null, min_temp: null, precipitation: 10 };
+    const [wet] = buildIrrigationSchedule(setup(), [noEt]).days;
+
+    assert.equal(wet.crop_et_mm, 0);
+    assert.ok(wet.effective_rain_mm > 0);
+    assert.equal(wet.reason, 'Soil still holds enough water for the crop');
+  });
+
+  it('never depletes beyond the total available water', () => {
+    const shallow: SoilType = { id: 'test', name: 'Test', aliases: [], available_water_mm_per_m: 10 };
+    const schedule = buildIrrigationSchedule(setup({ soil: shallow, soilMoisture: 'dry' }), [day('2026-10-19', 0)]);
+    assert.ok(schedule.days[0].depletion_mm <= schedule.parameters.total_available_water_mm);
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Irrigation scheduling
+ *
+ * A daily root-zone water balance (FAO-56 chapter 8, simplified):
+ *
+ *   depletion(end) = depletion(start) - effective rain + crop ET
+ *
+ * Crop ET is ET0 times the crop coefficient for the growth stage. When the
+ * depletion reaches the readily available water (the share of the soil's
+ * available water the crop can use without stress) the field should be
+ * irrigated back to field capacity, unless enough rain is forecast for the
+ * next day. Rain beyond field capacity drains away.
+ *
+ * @module irrigation
+ */
+
+import { CropProfile } from './data/crop-profiles.js';
+import { SOIL_TYPES, SoilType } from './data/soil-types.js';
+import { EtWeather, referenceEt, ReferenceEt } from './evapotranspiration.js';
+
+/** Litres of water per mm over one acre (4046.86 m²) */
+export const LITRES_PER_MM_PER_ACRE = 4046.86;
+
+/** Rain below this (mm) is assumed lost to interception and evaporation */
+const MIN_EFFECTIVE_RAIN_MM = 2;
+
+/** Share of rain above the minimum that reaches the root zone */
+const EFFECTIVE_RAIN_FRACTION = 0.8;
+
+/** Rooting depth during the initial stage (m) */
+const INITIAL_ROOT_DEPTH_M = 0.3;
+
+/**
+ * FAO-56 growth stages used for crop coefficients
+ */
+export type GrowthStage = 'initial' | 'development' | 'mid_season' | 'late_season';
+
+/**
+ * How wet the root zone is at the start of the schedule
+ */
+export type SoilMoisture = 'wet' | 'moist' | 'dry';
+
+/**
+ * Irrigation methods and their application efficiency
+ */
+export const IRRIGATION_EFFICIENCY = {
+  drip: 0.9,
+  sprinkler: 0.75,
+  furrow: 0.6
+} as const;
+
+export type IrrigationMethod = keyof typeof IRRIGATION_EFFICIENCY;
+
+/**
+ * Starting depletion as a share of the readily available water
+ */
+const INITIAL_DEPLETION: Record<SoilMoisture, number> = {
+  wet: 0,
+  moist: 0.5,
+  dry: 1
+};
+
+/**
+ * Weather for one day of the water balance
+ */
+export interface IrrigationWeather extends EtWeather {
+  precipitation: number | null;
+}
+
+/**
+ * One day of the irrigation schedule
+ */
+export interface IrrigationDay {
+  date: string;
+  rainfall_mm: number | null;
+  effective_rain_mm: number;
+  et0_mm: number | null;
+  et0_method: ReferenceEt['method'];
+  crop_et_mm: number;
+  /** Root-zone depletion after rain and crop water use, before irrigation (mm) */
+  depletion_mm: number;
+  action: 'irrigate' | 'skip';
+  /** Water the root zone needs (mm) */
+  net_irrigation_mm: number;
+  /** Water to apply, allowing for the method's losses (mm) */
+  gross_irrigation_mm: number;
+  litres_per_acre: number;
+  reason: string;
+}
+
+/**
+ * Inputs that fix the water balance for a field
+ */
+export interface WaterBalanceSetup {
+  crop: CropProfile;
+  stage: GrowthStage;
+  soil: SoilType;
+  soilMoisture: SoilMoisture;
+  method: IrrigationMethod;
+  latitude: number;
+  elevation?: number;
+}
+
+/**
+ * Full schedule with its parameters and totals
+ */
+export interface IrrigationSchedule {
+  parameters: {
+    crop_coefficient: number;
+    root_depth_m: number;
+    total_available_water_mm: number;
+    readily_available_water_mm: number;
+    starting_depletion_mm: number;
+    application_efficiency: number;
+  };
+  days: IrrigationDay[];
+  summary: {
+    total_rainfall_mm: number;
+    total_effective_rain_mm: number;
+    total_crop_et_mm: number;
+    irrigation_days: number;
+    total_gross_irrigation_mm: number;
+    total_litres_per_acre: number;
+    next_irrigation_date: string | null;
+  };
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Look up a soil type by id, name or alias (case-insensitive)
+ */
+export function findSoilType(soil: string): SoilType | undefined {
+  const wanted = soil.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+  return SOIL_TYPES.find(type =>
+    [type.id.replace(/_/g, ' '), type.name, ...type.aliases]
+      .some(name => name.toLowerCase() === wanted)
+  );
+}
+
+/**
+ * Readable list of supported soil types, for error messages
+ */
+export function supportedSoilTypes(): string {
+  return SOIL_TYPES.map(type => type.id).join(', ');
+}
+
+/**
+ * Crop coefficient for a growth stage (development and late season are
+ * taken halfway between the neighbouring stages)
+ */
+export function cropCoefficient(crop: CropProfile, stage: GrowthStage): number {
+  const { kc_initial, kc_mid, kc_end } = crop.water;
+  switch (stage) {
+    case 'initial': return kc_initial;
+    case 'development': return round2((kc_initial + kc_mid) / 2);
+    case 'mid_season': return kc_mid;
+    case 'late_season': return round2((kc_mid + kc_end) / 2);
+  }
+}
+
+/**
+ * Effective rooting depth for a growth stage (m)
+ */
+function rootDepth(crop: CropProfile, stage: GrowthStage): number {
+  const full = crop.water.root_depth_m;
+  if (stage === 'initial') return Math.min(full, INITIAL_ROOT_DEPTH_M);
+  if (stage === 'development') return round2(Math.max(Math.min(full, INITIAL_ROOT_DEPTH_M), full * 0.7));
+  return full;
+}
+
+/**
+ * Share of the day's rain that reaches the root zone (mm)
+ */
+export function effectiveRain(precipitation: number | null): number {
+  if (precipitation === null || precipitation < MIN_EFFECTIVE_RAIN_MM) return 0;
+  return round1(precipitation * EFFECTIVE_RAIN_FRACTION);
+}
+
+/**
+ * Run the water balance and decide, day by day, whether to irrigate
+ */
+export function buildIrrigationSchedule(setup: WaterBalanceSetup, weather: IrrigationWeather[]): IrrigationSchedule {
+  const kc = cropCoefficient(setup.crop, setup.stage);
+  const depth = rootDepth(setup.crop, setup.stage);
+  const taw = round1(setup.soil.available_water_mm_per_m * depth);
+  const raw = round1(taw * setup.crop.water.depletion_fraction);
+  const efficiency = IRRIGATION_EFFICIENCY[setup.method];
+  const startingDepletion = round1(raw * INITIAL_DEPLETION[setup.soilMoisture]);
+
+  const days: IrrigationDay[] = [];
+  let depletion = startingDepletion;
+
+  weather.forEach((day, index) => {
+    const { et0, method } = referenceEt(day, setup.latitude, setup.elevation);
+    const cropEt = et0 !== null ? round1(et0 * kc) : 0;
+    const rain = effectiveRain(day.precipitation);
+
+    depletion = Math.min(taw, Math.max(0, depletion - rain + cropEt));
+    const base = {
+      date: day.date,
+      rainfall_mm: day.precipitation,
+      effective_rain_mm: rain,
+      et0_mm: et0,
+      et0_method: method,
+      crop_et_mm: cropEt,
+      depletion_mm: round1(depletion)
+    };
+
+    if (depletion < raw) {
+      days.push({
+        ...base,
+        action: 'skip',
+        net_irrigation_mm: 0,
+        gross_irrigation_mm: 0,
+        litres_per_acre: 0,
+        // Credit rain only when it covered the day's crop water use
+        reason: rain >= cropEt && cropEt > 0 ? 'Rain is keeping the soil moist enough' : 'Soil still holds enough water for the crop'
+      });
+      return;
+    }
+
+    const tomorrowRain = effectiveRain(weather[index + 1]?.precipitation ?? null);
+    if (tomorrowRain >= depletion / 2) {
+      days.push({
+        ...base,
+        action: 'skip',
+        net_irrigation_mm: 0,
+        gross_irrigation_mm: 0,
+        litres_per_acre: 0,
+        reason: `Soil is drying but about ${round1(tomorrowRain)} mm of useful rain is forecast tomorrow`
+      });
+      return;
+    }
+
+    const net = round1(depletion);
+    const gross = round1(net / efficiency);
+    days.push({
+      ...base,
+      action: 'irrigate',
+      net_irrigation_mm: net,
+      gross_irrigation_mm: gross,
+      litres_per_acre: Math.round(gross * LITRES_PER_MM_PER_ACRE),
+      reason: 'Crop has used the readily available soil water; refill the root zone'
+    });
+    depletion = 0;
+  });
+
+  const sum = (values: number[]) => round1(values.reduce((total, value) => total + value, 0));
+  const irrigated = days.filter(day => day.action === 'irrigate');
+  return {
+    parameters: {
+      crop_coefficient: kc,
+      root_depth_m: depth,
+      total_available_water_mm: taw,
+      readily_available_water_mm: raw,
+      starting_depletion_mm: startingDepletion,
+      application_efficiency: efficiency
+    },
+    days,
+    summary: {
+      total_rainfall_mm: sum(days.map(day => day.rainfall_mm ?? 0)),
+      total_effective_rain_mm: sum(days.map(day => day.effective_rain_mm)),
+      total_crop_et_mm: sum(days.map(day => day.crop_et_mm)),
+      irrigation_days: irrigated.length,
+      total_gross_irrigation_mm: sum(irrigated.map(day => day.gross_irrigation_mm)),
+      total_litres_per_acre: irrigated.reduce((total, day) => total + day.litres_per_acre, 0),
+      next_irrigation_date: irrigated[0]?.date ?? null
+    }
+  };
+}
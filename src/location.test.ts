@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { describeLocation, resolveLocation } from './location.js';
+
+describe('resolveLocation', () => {
+  it('labels a place with its own area and country', async () => {
+    const location = await resolveLocation({ place: 'Tarime' }, { coverageMode: 'off' });
+    assert.equal(location.place?.label, 'Tarime, Mara Region, Tanzania');
+    assert.equal(describeLocation(location).region, 'Mara Region, Tanzania');
+  });
+
+  it('labels coordinates from the nearest anchor', async () => {
+    const location = await resolveLocation({ latitude: 1.016, longitude: 35.006 }, { coverageMode: 'off' });
+    assert.equal(location.region.label, 'Trans Nzoia County, Kenya');
+  });
+
+  it('asks for a location when none is given', async () => {
+    await assert.rejects(resolveLocation({}, {}), /I need the farm location/);
+  });
+});
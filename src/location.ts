@@ -0,0 +1,203 @@
+/**
+ * Location resolution for the weather tools
+ *
+ * Tools accept a location in several ways; this module turns them into
+ * coordinates in a single order of precedence:
+ * 1. farm_id (looked up in the farm registry)
+ * 2. explicit latitude/longitude arguments
+ * 3. a place name, looked up in the bundled offline gazetteer
+ * 4. X-Farm-Latitude/X-Farm-Longitude header defaults
+ * 5. the server-configured default location (if any)
+ *
+ * There is no silent fallback: without any of these the tool gets a clear
+ * error asking for a location. Resolved points are checked against the
+ * bundled GAP coverage area and labelled with their real country and
+ * county/region before anything is sent upstream.
+ *
+ * @module location
+ */
+
+import { GAPValidationError, GAPOutOfCoverageError } from './errors.js';
+import { FarmProfile, FarmRegistry } from './farm-registry.js';
+import { isInCoverage, regionOf, reverseGeocode, RegionInfo } from './geography.js';
+import { resolvePlace, PlaceMatch } from './gazetteer.js';
+
+/**
+ * What to do with points outside the bundled coverage polygon
+ * - reject: fail before calling GAP
+ * - warn: call GAP but add a warning to the response
+ * - off: skip the check
+ */
+export type CoverageMode = 'reject' | 'warn' | 'off';
+
+/**
+ * Location arguments shared by the weather tools
+ */
+export interface LocationArgs {
+  farm_id?: string;
+  latitude?: number;
+  longitude?: number;
+  place?: string;
+}
+
+/**
+ * Per-request context used to resolve a location
+ */
+export interface LocationContext {
+  /** Farm registry (undefined when disabled) */
+  registry?: FarmRegistry;
+
+  /** Default latitude from request headers */
+  defaultLatitude?: number;
+
+  /** Default longitude from request headers */
+  defaultLongitude?: number;
+
+  /** Server-configured default location (DEFAULT_LATITUDE/DEFAULT_LONGITUDE) */
+  serverDefault?: { latitude: number; longitude: number };
+
+  /** Coverage policy (default: reject) */
+  coverageMode?: CoverageMode;
+}
+
+/**
+ * Coordinates a tool should use, and where they came from
+ */
+export interface ResolvedLocation {
+  latitude: number;
+  longitude: number;
+  source: 'farm' | 'arguments' | 'place' | 'headers' | 'server_default';
+  /** The registered farm, when resolved from farm_id */
+  farm?: FarmProfile;
+  /** The gazetteer match, when resolved from a place name */
+  place?: PlaceMatch;
+  /** Country and county/region from the offline reverse lookup */
+  region: RegionInfo;
+  /** Whether the point is inside the GAP coverage polygon (null when not checked) */
+  in_coverage: boolean | null;
+  /** Caveats to pass on to the user (e.g. possibly outside coverage) */
+  warnings: string[];
+}
+
+const isLatitude = (value: unknown): value is number =>
+  typeof value === 'number' && !isNaN(value) && value >= -90 && value <= 90;
+
+const isLongitude = (value: unknown): value is number =>
+  typeof value === 'number' && !isNaN(value) && value >= -180 && value <= 180;
+
+/**
+ * Pick the coordinates from the first available source
+ */
+async function pickCoordinates(
+  args: LocationArgs,
+  context: LocationContext
+): Promise<Pick<ResolvedLocation, 'latitude' | 'longitude' | 'source' | 'farm' | 'place'>> {
+  if (args.farm_id) {
+    if (!context.registry) {
+      throw new GAPValidationError('Farm profiles are not enabled on this server. Please provide latitude and longitude.');
+    }
+    const farm = await context.registry.get(args.farm_id);
+    return { latitude: farm.latitude, longitude: farm.longitude, source: 'farm', farm };
+  }
+
+  if (args.latitude !== undefined || args.longitude !== undefined) {
+    if (!isLatitude(args.latitude) || !isLongitude(args.longitude)) {
+      throw new GAPValidationError('Please provide both a valid latitude (-90 to 90) and longitude (-180 to 180).');
+    }
+    return { latitude: args.latitude, longitude: args.longitude, source: 'arguments' };
+  }
+
+  if (args.place) {
+    const place = resolvePlace(args.place);
+    return { latitude: place.latitude, longitude: place.longitude, source: 'place', place };
+  }
+
+  if (isLatitude(context.defaultLatitude) && isLongitude(context.defaultLongitude)) {
+    return { latitude: context.defaultLatitude, longitude: context.defaultLongitude, source: 'headers' };
+  }
+
+  if (context.serverDefault) {
+    return { ...context.serverDefault, source: 'server_default' };
+  }
+
+  throw new GAPValidationError('I need the farm location. Please provide a farm_id, a place name, or a latitude and longitude.');
+}
+
+/**
+ * Resolve tool arguments to checked, labelled coordinates
+ *
+ * @param args - farm_id, latitude/longitude and/or place from the tool call
+ * @param context - Registry, header/server defaults and coverage policy
+ * @throws GAPValidationError when no valid location can be determined
+ * @throws GAPOutOfCoverageError when the point is outside coverage and the policy is reject
+ * @throws FarmNotFoundError when farm_id is unknown
+ * @throws PlaceNotFoundError / AmbiguousPlaceError when the place name can't be resolved to one place
+ */
+export async function resolveLocation(args: LocationArgs, context: LocationContext): Promise<ResolvedLocation> {
+  const picked = await pickCoordinates(args, context);
+  const coverageMode = context.coverageMode ?? 'reject';
+  const warnings: string[] = [];
+
+  let inCoverage: boolean | null = null;
+  if (coverageMode !== 'off') {
+    inCoverage = isInCoverage(picked.latitude, picked.longitude);
+    if (!inCoverage) {
+      if (coverageMode === 'reject') {
+        throw new GAPOutOfCoverageError(
+          `Location ${picked.latitude}, ${picked.longitude} is outside the GAP coverage area`
+        );
+      }
+      warnings.push('This location appears to be outside the GAP coverage area (East Africa); weather data may be missing or unreliable.');
+    }
+  }
+
+  if (picked.place && picked.place.score < 1) {
+    warnings.push(`"${args.place}" was interpreted as ${picked.place.label}.`);
+  }
+
+  if (picked.source === 'server_default') {
+    warnings.push('No location was given, so the server\'s default location was used.');
+  }
+
+  return {
+    ...picked,
+    // A place knows its own area; nearest-anchor lookup can cross a border
+    region: picked.place
+      ? regionOf(picked.place.country_code, picked.place.admin_area)
+      : reverseGeocode(picked.latitude, picked.longitude),
+    in_coverage: inCoverage,
+    warnings
+  };
+}
+
+/**
+ * Location block included in tool responses
+ */
+export function describeLocation(location: ResolvedLocation) {
+  return {
+    latitude: location.latitude,
+    longitude: location.longitude,
+    region: location.region.label,
+    country: location.region.country,
+    admin_area: location.region.admin_area,
+    admin_area_type: location.region.admin_area_type,
+    source: location.source,
+    farm: describeFarm(location.farm),
+    place: location.place ? { name: location.place.name, kind: location.place.kind, label: location.place.label } : undefined,
+    ...(location.warnings.length > 0 ? { warnings: location.warnings } : {})
+  };
+}
+
+/**
+ * Farm details to include in tool responses (crop context for advisories)
+ */
+export function describeFarm(farm: FarmProfile | undefined) {
+  if (!farm) return undefined;
+  return {
+    id: farm.id,
+    name: farm.name,
+    crops: farm.crops,
+    planting_date: farm.planting_date ?? null,
+    soil_type: farm.soil_type ?? null
+  };
+}
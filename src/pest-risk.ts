@@ -0,0 +1,281 @@
+/**
+ * Pest and disease risk scoring from daily forecast weather
+ *
+ * Evaluates the data-driven models in data/risk-models.ts (plus any loaded
+ * from a JSON file) against each forecast day: every condition the day meets
+ * adds its points, runs of favourable days can add persistence points, and
+ * the total maps to low / medium / high risk with the conditions that
+ * triggered it.
+ *
+ * @module pest-risk
+ */
+
+import { readFile } from 'node:fs/promises';
+import { z } from 'zod';
+import { RISK_MODELS, RiskCondition, RiskField, RiskModel } from './data/risk-models.js';
+import { dailyGdd, findCropProfile } from './crop-stages.js';
+import { DailyWeather } from './weather-format.js';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+const RISK_ORDER: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2 };
+
+/**
+ * Risk for one model on one day
+ */
+export interface RiskDay {
+  date: string;
+  risk: RiskLevel;
+  score: number;
+  /** Labels of the conditions that were met */
+  triggers: string[];
+  /** Fields the model needed but the forecast did not provide */
+  missing?: RiskField[];
+}
+
+/**
+ * A model's risk over the forecast period
+ */
+export interface RiskAssessment {
+  model: Pick<RiskModel, 'id' | 'name' | 'type' | 'crops' | 'description'>;
+  peak_risk: RiskLevel;
+  /** First day at the peak risk level */
+  peak_date: string | null;
+  /** First day at medium or high risk: scout by then */
+  scout_by: string | null;
+  high_risk_days: string[];
+  /** Advice for the peak risk level */
+  advice: string;
+  days: RiskDay[];
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Lowercase id form used to match crop names against model crop lists
+ */
+function cropKey(crop: string): string {
+  return findCropProfile(crop)?.id ?? crop.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+/**
+ * Models that cover a crop
+ */
+export function modelsForCrop(models: RiskModel[], crop: string): RiskModel[] {
+  const key = cropKey(crop);
+  return models.filter(model => model.crops.some(modelCrop => cropKey(modelCrop) === key));
+}
+
+/**
+ * Comma-separated crops covered by at least one model (for error messages)
+ */
+export function coveredCrops(models: RiskModel[]): string {
+  return Array.from(new Set(models.flatMap(model => model.crops))).sort().join(', ');
+}
+
+function meetsCondition(value: number, condition: RiskCondition): boolean {
+  const threshold = condition.value;
+  if (Array.isArray(threshold)) {
+    return value >= threshold[0] && value <= threshold[1];
+  }
+  switch (condition.operator) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+    default: return false;
+  }
+}
+
+/**
+ * Daily values for every field a condition can test
+ *
+ * precipitation_3day only sums the days available, so the first two forecast
+ * days cover fewer than three days of rain.
+ */
+function fieldValues(days: DailyWeather[], index: number, model: RiskModel): Record<RiskField, number | null> {
+  const day = days[index];
+  const mean = day.max_temp !== null && day.min_temp !== null ? (day.max_temp + day.min_temp) / 2 : null;
+  const recent = days.slice(Math.max(0, index - 2), index + 1).map(d => d.precipitation);
+  const rain3 = recent.some(value => value !== null)
+    ? recent.reduce<number>((sum, value) => sum + (value ?? 0), 0)
+    : null;
+
+  return {
+    max_temp: day.max_temp,
+    min_temp: day.min_temp,
+    mean_temp: mean,
+    humidity: day.humidity,
+    precipitation: day.precipitation,
+    precipitation_3day: rain3,
+    wind_speed: day.wind_speed,
+    gdd: model.degree_days ? dailyGdd(day.max_temp, day.min_temp, model.degree_days) : null
+  };
+}
+
+function riskLevel(score: number, model: RiskModel): RiskLevel {
+  if (score >= model.high_at) return 'high';
+  if (score >= model.medium_at) return 'medium';
+  return 'low';
+}
+
+/**
+ * Score one model against the forecast days (in date order)
+ */
+export function evaluateRiskModel(model: RiskModel, days: DailyWeather[]): RiskAssessment {
+  let streak = 0;
+
+  const riskDays = days.map((day, index): RiskDay => {
+    const values = fieldValues(days, index, model);
+    const triggers: string[] = [];
+    const missing = new Set<RiskField>();
+    let score = 0;
+
+    for (const condition of model.conditions) {
+      const value = values[condition.field];
+      if (value === null) {
+        missing.add(condition.field);
+      } else if (meetsCondition(value, condition)) {
+        score += condition.points;
+        triggers.push(condition.label);
+      }
+    }
+
+    streak = score >= model.medium_at ? streak + 1 : 0;
+    if (model.persistence && streak >= model.persistence.days) {
+      score += model.persistence.points;
+      triggers.push(model.persistence.label);
+    }
+
+    return {
+      date: day.date,
+      risk: riskLevel(score, model),
+      score: round1(score),
+      triggers,
+      ...(missing.size > 0 ? { missing: Array.from(missing) } : {})
+    };
+  });
+
+  const peak = riskDays.reduce<RiskLevel>(
+    (best, day) => RISK_ORDER[day.risk] > RISK_ORDER[best] ? day.risk : best,
+    'low'
+  );
+
+  return {
+    model: {
+      id: model.id,
+      name: model.name,
+      type: model.type,
+      crops: model.crops,
+      description: model.description
+    },
+    peak_risk: peak,
+    peak_date: riskDays.find(day => day.risk === peak)?.date ?? null,
+    scout_by: riskDays.find(day => day.risk !== 'low')?.date ?? null,
+    high_risk_days: riskDays.filter(day => day.risk === 'high').map(day => day.date),
+    advice: model.advice[peak],
+    days: riskDays
+  };
+}
+
+/**
+ * Sort assessments by peak risk (highest first), then by how soon it arrives
+ */
+export function rankAssessments(assessments: RiskAssessment[]): RiskAssessment[] {
+  return [...assessments].sort((a, b) =>
+    RISK_ORDER[b.peak_risk] - RISK_ORDER[a.peak_risk] ||
+    (a.scout_by ?? '9999').localeCompare(b.scout_by ?? '9999'));
+}
+
+const conditionSchema = z.object({
+  field: z.enum(['max_temp', 'min_temp', 'mean_temp', 'humidity', 'precipitation', 'precipitation_3day', 'wind_speed', 'gdd']),
+  operator: z.enum(['>', '>=', '<', '<=', 'between']),
+  value: z.union([z.number(), z.tuple([z.number(), z.number()])]),
+  points: z.number(),
+  label: z.string().min(1)
+}).refine(condition => (condition.operator === 'between') === Array.isArray(condition.value), {
+  message: "'between' needs a [low, high] value; other operators need a single number"
+});
+
+const modelSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_]+$/, 'Use lowercase letters, digits and underscores'),
+  name: z.string().min(1),
+  type: z.enum(['disease', 'pest']),
+  crops: z.array(z.string().min(1)).min(1),
+  description: z.string(),
+  conditions: z.array(conditionSchema).min(1),
+  medium_at: z.number(),
+  high_at: z.number(),
+  persistence: z.object({ days: z.number().int().min(1), points: z.number(), label: z.string().min(1) }).optional(),
+  degree_days: z.object({ base_temp_c: z.number(), cap_temp_c: z.number() }).optional(),
+  advice: z.object({ low: z.string(), medium: z.string(), high: z.string() })
+}).refine(model => model.degree_days || !model.conditions.some(condition => condition.field === 'gdd'), {
+  message: "Models with 'gdd' conditions need degree_days"
+}).refine(model => model.high_at >= model.medium_at, {
+  message: 'high_at must be at least medium_at'
+});
+
+const modelFileSchema = z.object({ models: z.array(modelSchema) });
+
+/**
+ * Built-in risk models plus any from a JSON file
+ *
+ * The file has the shape `{ "models": [...] }` with models in the RiskModel
+ * format; a file model with the same id as a built-in one replaces it.
+ *
+ * @example
+ * ```typescript
+ * const catalog = new RiskModelCatalog(process.env.PEST_MODELS_PATH);
+ * const models = await catalog.list();
+ * ```
+ */
+export class RiskModelCatalog {
+  /** Loaded models (null until first use) */
+  private models: Promise<RiskModel[]> | null = null;
+
+  /**
+   * @param filePath - Optional JSON file with extra or replacement models
+   */
+  constructor(private filePath?: string) {}
+
+  /**
+   * All models, in built-in order followed by new file models
+   */
+  list(): Promise<RiskModel[]> {
+    if (!this.models) {
+      this.models = this.load();
+      this.models.catch(() => { this.models = null; });
+    }
+    return this.models;
+  }
+
+  /**
+   * Find a model by id
+   */
+  async get(id: string): Promise<RiskModel | undefined> {
+    return (await this.list()).find(model => model.id === id);
+  }
+
+  private async load(): Promise<RiskModel[]> {
+    if (!this.filePath) return RISK_MODELS;
+
+    let content: unknown;
+    try {
+      content = JSON.parse(await readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return RISK_MODELS;
+      throw new Error(`Failed to read risk models ${this.filePath}: ${error.message}`);
+    }
+
+    const parsed = modelFileSchema.safeParse(content);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(`Invalid risk models in ${this.filePath} at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+    }
+
+    const fileModels = new Map(parsed.data.models.map(model => [model.id, model as RiskModel]));
+    const merged = RISK_MODELS.map(model => fileModels.get(model.id) ?? model);
+    const added = parsed.data.models.filter(model => !RISK_MODELS.some(builtIn => builtIn.id === model.id));
+    return [...merged, ...(added as RiskModel[])];
+  }
+}
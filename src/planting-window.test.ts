@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { findOnsetWindows, plantingRuleFor } from './planting-window.js';
+import { RainDay } from './rainfall-stats.js';
+
+function series(rain: number[]): RainDay[] {
+  return rain.map((precipitation, i) => ({
+    date: new Date(Date.UTC(2026, 9, 1 + i)).toISOString().slice(0, 10),
+    precipitation,
+    source: 'observed'
+  }));
+}
+
+describe('plantingRuleFor', () => {
+  it('applies crop overrides on top of the default rule', () => {
+    assert.equal(plantingRuleFor('beans').dry_spell_days, 6);
+    assert.equal(plantingRuleFor('beans').onset_rain_mm, 20);
+    assert.deepEqual(plantingRuleFor(undefined), plantingRuleFor('maize'));
+  });
+});
+
+describe('findOnsetWindows', () => {
+  const rule = plantingRuleFor('maize');
+
+  it('finds a window with enough rain on enough wet days', () => {
+    const windows = findOnsetWindows(series([12, 10, 0, ...Array(21).fill(3)]), rule);
+    assert.equal(windows[0].start, '2026-10-01');
+    assert.equal(windows[0].rain_mm, 22);
+    assert.equal(windows[0].wet_days, 2);
+    assert.equal(windows[0].passes, true);
+    assert.equal(windows[0].verified, true);
+  });
+
+  it('ignores a single heavy day', () => {
+    assert.deepEqual(findOnsetWindows(series([30, 0, 0, 0]), rule), []);
+  });
+
+  it('flags a false start followed by a long dry spell', () => {
+    const [window] = findOnsetWindows(series([12, 10, 0, ...Array(21).fill(0)]), rule);
+    assert.equal(window.passes, false);
+    assert.equal(window.longest_dry_spell?.days, rule.dry_spell_check_days);
+  });
+});
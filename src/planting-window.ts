@@ -0,0 +1,223 @@
+/**
+ * Rainy-season onset detection and planting verdicts
+ *
+ * Scans recent observed rainfall followed by the forecast for onset windows
+ * (enough rain over a few days, see data/planting-rules.ts) and checks the
+ * days after each window for a dry spell long enough to kill seedlings (a
+ * "false start"). The result is a plant now / wait / risky verdict with the
+ * evidence behind it.
+ *
+ * @module planting-window
+ */
+
+import { CROP_PLANTING_RULES, DEFAULT_PLANTING_RULE, PlantingRule } from './data/planting-rules.js';
+import { addDays, daysBetween } from './date-utils.js';
+import { DrySpell, longestDrySpell, RainDay, totalRain } from './rainfall-stats.js';
+
+/**
+ * Forecast days beyond this are less skilful; verdicts relying on them are
+ * reported with lower confidence
+ */
+const RELIABLE_FORECAST_DAYS = 14;
+
+/**
+ * Share of the dry-spell check that must be covered by data for a window to
+ * count as verified
+ */
+const MIN_CHECK_COVERAGE = 0.6;
+
+/**
+ * An onset window and what follows it
+ */
+export interface OnsetWindow {
+  start: string;
+  /** Onset date: the last day of the window, planting can start the day after */
+  end: string;
+  rain_mm: number;
+  wet_days: number;
+  source: 'observed' | 'forecast' | 'mixed';
+  /** Longest dry spell in the check period after the window */
+  longest_dry_spell: DrySpell | null;
+  /** Days of the check period covered by data */
+  checked_days: number;
+  /** No dry spell of the rule's length in the checked days */
+  passes: boolean;
+  /** Enough of the check period has data to trust `passes` */
+  verified: boolean;
+}
+
+export type PlantingVerdict = 'plant_now' | 'wait' | 'risky';
+
+/**
+ * Planting advice with its evidence
+ */
+export interface PlantingAdvice {
+  verdict: PlantingVerdict;
+  headline: string;
+  /** Date from which planting is expected to be safe (null when no window is in sight) */
+  expected_window_open: string | null;
+  confidence: 'high' | 'medium' | 'low';
+  rule: PlantingRule;
+  evidence: {
+    recent_rain: {
+      last_7_days_mm: number | null;
+      last_14_days_mm: number | null;
+      last_30_days_mm: number | null;
+      wet_days_last_14: number;
+    };
+    forecast_rain: {
+      next_7_days_mm: number | null;
+      next_14_days_mm: number | null;
+      next_30_days_mm: number | null;
+    };
+    /** The onset window behind the verdict, if any */
+    onset: OnsetWindow | null;
+    /** Longest dry spell in the forecast */
+    longest_forecast_dry_spell: DrySpell | null;
+    reasons: string[];
+  };
+}
+
+/**
+ * Planting rule for a crop (the default when the crop has no overrides)
+ */
+export function plantingRuleFor(cropId: string | undefined): PlantingRule {
+  return { ...DEFAULT_PLANTING_RULE, ...(cropId ? CROP_PLANTING_RULES[cropId] : {}) };
+}
+
+/**
+ * Every onset window in the series, in date order
+ */
+export function findOnsetWindows(series: RainDay[], rule: PlantingRule): OnsetWindow[] {
+  const windows: OnsetWindow[] = [];
+
+  for (let i = 0; i + rule.onset_window_days <= series.length; i++) {
+    const window = series.slice(i, i + rule.onset_window_days);
+    const rain = totalRain(window);
+    const wetDays = window.filter(day => (day.precipitation ?? 0) >= rule.wet_day_mm).length;
+    if (rain === null || rain < rule.onset_rain_mm || wetDays < rule.min_wet_days) continue;
+
+    const after = series.slice(i + rule.onset_window_days, i + rule.onset_window_days + rule.dry_spell_check_days);
+    const spell = longestDrySpell(after, rule.wet_day_mm);
+    const sources = new Set(window.map(day => day.source));
+
+    windows.push({
+      start: window[0].date,
+      end: window[window.length - 1].date,
+      rain_mm: rain,
+      wet_days: wetDays,
+      source: sources.size > 1 ? 'mixed' : window[0].source,
+      longest_dry_spell: spell,
+      checked_days: after.length,
+      passes: !spell || spell.days < rule.dry_spell_days,
+      verified: after.length >= rule.dry_spell_check_days * MIN_CHECK_COVERAGE
+    });
+  }
+
+  return windows;
+}
+
+/**
+ * Decide whether to plant now, wait or treat planting as risky
+ *
+ * @param series - Observed days up to yesterday followed by forecast days from today, in order
+ * @param rule - Onset and dry-spell criteria
+ * @param asOf - Today's date (YYYY-MM-DD)
+ */
+export function buildPlantingAdvice(series: RainDay[], rule: PlantingRule, asOf: string): PlantingAdvice {
+  const observed = series.filter(day => day.date < asOf);
+  const forecast = series.filter(day => day.date >= asOf);
+  const windows = findOnsetWindows(series, rule);
+  const reasons: string[] = [];
+
+  // Onset windows completed by today; onset is the first one that holds, a false start the latest that didn't
+  const started = windows.filter(window => window.end <= asOf);
+  const upcoming = windows.filter(window => window.end > asOf);
+  const recentOnset = started.find(window => window.passes);
+  const falseStart = [...started].reverse().find(window => !window.passes);
+  const nextGood = upcoming.find(window => window.passes);
+
+  const usesLongRange = (window: OnsetWindow) =>
+    daysBetween(asOf, window.end) + window.checked_days > RELIABLE_FORECAST_DAYS;
+
+  let verdict: PlantingVerdict;
+  let headline: string;
+  let onset: OnsetWindow | null;
+  let expected: string | null;
+  let confidence: PlantingAdvice['confidence'];
+
+  // A season that started well can still stall: check the days ahead of today too
+  const aheadSpell = longestDrySpell(forecast.slice(0, rule.dry_spell_check_days), rule.wet_day_mm);
+  const dryAhead = aheadSpell && aheadSpell.days >= rule.dry_spell_days ? aheadSpell : null;
+
+  if (recentOnset && dryAhead) {
+    verdict = 'risky';
+    onset = recentOnset;
+    expected = nextGood && nextGood.end > dryAhead.end ? addDays(nextGood.end, 1) : addDays(dryAhead.end, 1);
+    headline = `The rains started (${recentOnset.rain_mm} mm from ${recentOnset.start} to ${recentOnset.end}), but a ${dryAhead.days}-day dry spell is forecast from ${dryAhead.start}. Seed planted now may dry out; wait until about ${expected} unless you can water.`;
+    reasons.push(`At least ${rule.onset_rain_mm} mm fell within ${rule.onset_window_days} days.`);
+    reasons.push(`A dry spell of ${dryAhead.days} days (${dryAhead.start} to ${dryAhead.end}) is forecast, longer than the ${rule.dry_spell_days}-day limit.`);
+    confidence = daysBetween(asOf, dryAhead.start) >= RELIABLE_FORECAST_DAYS ? 'low' : 'medium';
+  } else if (recentOnset) {
+    verdict = 'plant_now';
+    onset = recentOnset;
+    expected = addDays(recentOnset.end, 1) < asOf ? asOf : addDays(recentOnset.end, 1);
+    headline = `The rains have started (${recentOnset.rain_mm} mm from ${recentOnset.start} to ${recentOnset.end}) and no long dry spell is expected. Plant now while the soil is moist.`;
+    reasons.push(`At least ${rule.onset_rain_mm} mm fell within ${rule.onset_window_days} days.`);
+    reasons.push(recentOnset.verified
+      ? `No dry spell of ${rule.dry_spell_days}+ days in the ${recentOnset.checked_days} days that follow.`
+      : `No dry spell of ${rule.dry_spell_days}+ days in the ${recentOnset.checked_days} days of data that follow (the full ${rule.dry_spell_check_days}-day check is not yet possible).`);
+    confidence = recentOnset.verified && !usesLongRange(recentOnset) ? 'high' : 'medium';
+  } else if (falseStart) {
+    verdict = 'risky';
+    onset = falseStart;
+    expected = nextGood ? addDays(nextGood.end, 1) : null;
+    const spell = falseStart.longest_dry_spell!;
+    headline = `Some rain has fallen (${falseStart.rain_mm} mm by ${falseStart.end}), but a ${spell.days}-day dry spell is expected from ${spell.start}. Seedlings may not survive; wait for the rains to settle${expected ? ` (a safer window may open around ${expected})` : ''}.`;
+    reasons.push(`Onset rain was reached by ${falseStart.end}.`);
+    reasons.push(`A dry spell of ${spell.days} days (${spell.start} to ${spell.end}) follows, longer than the ${rule.dry_spell_days}-day limit.`);
+    confidence = usesLongRange(falseStart) ? 'low' : 'medium';
+  } else if (nextGood) {
+    verdict = 'wait';
+    onset = nextGood;
+    expected = addDays(nextGood.end, 1);
+    headline = `The rains have not started yet. Enough rain to plant is forecast around ${nextGood.start} to ${nextGood.end}; prepare land and inputs and plant from about ${expected}.`;
+    reasons.push(`Not enough rain yet: less than ${rule.onset_rain_mm} mm within ${rule.onset_window_days} days so far.`);
+    reasons.push(`The forecast shows ${nextGood.rain_mm} mm from ${nextGood.start} to ${nextGood.end}${nextGood.verified ? ' without a long dry spell after it' : ''}.`);
+    confidence = usesLongRange(nextGood) || !nextGood.verified ? 'low' : 'medium';
+  } else {
+    verdict = 'wait';
+    onset = upcoming[0] ?? null;
+    expected = null;
+    headline = upcoming.length > 0
+      ? `Some heavy rain is forecast around ${upcoming[0].end}, but it is likely to be followed by a long dry spell. Wait before planting.`
+      : `The rains have not started and no planting rains are forecast in the next ${forecast.length} days. Wait and check again next week.`;
+    reasons.push(`No ${rule.onset_window_days}-day period with ${rule.onset_rain_mm} mm followed by a safe ${rule.dry_spell_check_days}-day stretch was found.`);
+    confidence = 'medium';
+  }
+
+  const lastObserved = (days: number) => observed.slice(-days);
+  return {
+    verdict,
+    headline,
+    expected_window_open: expected,
+    confidence,
+    rule,
+    evidence: {
+      recent_rain: {
+        last_7_days_mm: totalRain(lastObserved(7)),
+        last_14_days_mm: totalRain(lastObserved(14)),
+        last_30_days_mm: totalRain(lastObserved(30)),
+        wet_days_last_14: lastObserved(14).filter(day => (day.precipitation ?? 0) >= rule.wet_day_mm).length
+      },
+      forecast_rain: {
+        next_7_days_mm: totalRain(forecast.slice(0, 7)),
+        next_14_days_mm: totalRain(forecast.slice(0, 14)),
+        next_30_days_mm: totalRain(forecast.slice(0, 30))
+      },
+      onset,
+      longest_forecast_dry_spell: longestDrySpell(forecast, rule.wet_day_mm),
+      reasons
+    }
+  };
+}
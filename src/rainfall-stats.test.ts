@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { findDrySpells, longestDrySpell, RainDay, sameDatesYearsBefore, totalRain } from './rainfall-stats.js';
+
+function series(rain: Array<number | null>): RainDay[] {
+  return rain.map((precipitation, i) => ({ date: `2026-10-${String(i + 1).padStart(2, '0')}`, precipitation, source: 'observed' }));
+}
+
+describe('findDrySpells', () => {
+  it('finds every run below the wet-day threshold, including one at the end', () => {
+    assert.deepEqual(findDrySpells(series([0, 0.5, 3, 0, 0, 0]), 1), [
+      { start: '2026-10-01', end: '2026-10-02', days: 2 },
+      { start: '2026-10-04', end: '2026-10-06', days: 3 }
+    ]);
+  });
+
+  it('breaks runs at missing days', () => {
+    assert.deepEqual(findDrySpells(series([0, null, 0]), 1).map(spell => spell.days), [1, 1]);
+  });
+});
+
+describe('longestDrySpell', () => {
+  it('keeps the earliest of equally long spells', () => {
+    assert.equal(longestDrySpell(series([0, 0, 5, 0, 0]), 1)?.start, '2026-10-01');
+    assert.equal(longestDrySpell(series([5, 5]), 1), null);
+  });
+});
+
+describe('totalRain', () => {
+  it('sums known days and is null without data', () => {
+    assert.equal(totalRain(series([1.25, null, 2.1])), 3.4);
+    assert.equal(totalRain(series([null])), null);
+  });
+});
+
+describe('sameDatesYearsBefore', () => {
+  it('shifts both dates back by whole years', () => {
+    assert.deepEqual(sameDatesYearsBefore('2026-03-01', '2026-05-31', 1), { start: '2025-03-01', end: '2025-05-31' });
+  });
+});
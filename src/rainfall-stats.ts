@@ -0,0 +1,240 @@
+/**
+ * Agronomic statistics for a daily rainfall series
+ *
+ * Counts rainy and heavy-rain days, finds dry spells (runs of days below
+ * the dry-day threshold; missing days break a run) and compares the
+ * cumulative total with a reference period. The series can be observed,
+ * forecast or both, so every day carries its source.
+ *
+ * @module rainfall-stats
+ */
+
+import { addDays, daysBetween } from './date-utils.js';
+
+/**
+ * Rainfall for one day of a series
+ */
+export interface RainDay {
+  date: string;
+  precipitation: number | null;
+  source: 'observed' | 'forecast';
+}
+
+/**
+ * A run of consecutive dry days
+ */
+export interface DrySpell {
+  start: string;
+  end: string;
+  days: number;
+}
+
+/**
+ * Days above a heavy-rain threshold
+ */
+export interface HeavyRainCount {
+  threshold_mm: number;
+  days: number;
+  dates: string[];
+}
+
+/**
+ * Dry spells at least a given length
+ */
+export interface DrySpellCount {
+  min_days: number;
+  count: number;
+}
+
+/**
+ * Cumulative rainfall compared with a reference period
+ */
+export interface RainfallComparison {
+  reference_start: string;
+  reference_end: string;
+  total_mm: number | null;
+  reference_total_mm: number | null;
+  difference_mm: number | null;
+  /** Analysed total as a percentage of the reference total */
+  percent_of_reference: number | null;
+  verdict: string;
+}
+
+/**
+ * Statistics for a rainfall series
+ */
+export interface RainfallStatistics {
+  period: {
+    start: string;
+    end: string;
+    days: number;
+    observed_days: number;
+    forecast_days: number;
+    missing_days: number;
+  };
+  dry_day_threshold_mm: number;
+  total_mm: number | null;
+  mean_daily_mm: number | null;
+  rainy_days: number;
+  dry_days: number;
+  wettest_day: { date: string; precipitation: number } | null;
+  heavy_rain: HeavyRainCount[];
+  longest_dry_spell: DrySpell | null;
+  /** Dry spell still running on the last day of the series */
+  ongoing_dry_spell: DrySpell | null;
+  dry_spells: DrySpellCount[];
+}
+
+/** Percentage band around the reference treated as "near normal" */
+const NEAR_REFERENCE_PCT = 10;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Every run of dry days, in date order (missing days break a run)
+ */
+export function findDrySpells(days: RainDay[], wetDayMm: number): DrySpell[] {
+  const spells: DrySpell[] = [];
+  let runStart: number | null = null;
+
+  days.forEach((day, index) => {
+    const dry = day.precipitation !== null && day.precipitation < wetDayMm;
+    if (dry && runStart === null) runStart = index;
+    const runEnds = !dry || index === days.length - 1;
+    if (runStart !== null && runEnds) {
+      const last = dry ? index : index - 1;
+      spells.push({ start: days[runStart].date, end: days[last].date, days: last - runStart + 1 });
+      runStart = null;
+    }
+  });
+
+  return spells;
+}
+
+/**
+ * Longest run of dry days (the earliest when tied)
+ */
+export function longestDrySpell(days: RainDay[], wetDayMm: number): DrySpell | null {
+  return findDrySpells(days, wetDayMm).reduce<DrySpell | null>(
+    (best, spell) => !best || spell.days > best.days ? spell : best,
+    null
+  );
+}
+
+/**
+ * Total rain over a set of days (null when no day has data)
+ */
+export function totalRain(days: RainDay[]): number | null {
+  const values = days.map(day => day.precipitation).filter((value): value is number => value !== null);
+  return values.length > 0 ? round1(values.reduce((sum, value) => sum + value, 0)) : null;
+}
+
+/**
+ * Compute the statistics for a series (in date order)
+ *
+ * @param days - The rainfall series
+ * @param dryDayMm - Rain below which a day counts as dry
+ * @param heavyThresholds - Heavy-rain thresholds to count (mm)
+ * @param spellLengths - Dry-spell lengths to count (days)
+ */
+export function buildRainfallStatistics(
+  days: RainDay[],
+  dryDayMm: number,
+  heavyThresholds: number[],
+  spellLengths: number[]
+): RainfallStatistics {
+  const valid = days.filter((day): day is RainDay & { precipitation: number } => day.precipitation !== null);
+  const total = totalRain(days);
+  const spells = findDrySpells(days, dryDayMm);
+  const last = spells[spells.length - 1];
+  const wettest = valid.reduce<(typeof valid)[number] | null>(
+    (best, day) => !best || day.precipitation > best.precipitation ? day : best,
+    null
+  );
+
+  return {
+    period: {
+      start: days[0]?.date ?? '',
+      end: days[days.length - 1]?.date ?? '',
+      days: days.length,
+      observed_days: days.filter(day => day.source === 'observed').length,
+      forecast_days: days.filter(day => day.source === 'forecast').length,
+      missing_days: days.length - valid.length
+    },
+    dry_day_threshold_mm: dryDayMm,
+    total_mm: total,
+    mean_daily_mm: total !== null ? round1(total / valid.length) : null,
+    rainy_days: valid.filter(day => day.precipitation >= dryDayMm).length,
+    dry_days: valid.filter(day => day.precipitation < dryDayMm).length,
+    wettest_day: wettest ? { date: wettest.date, precipitation: round1(wettest.precipitation) } : null,
+    heavy_rain: [...heavyThresholds].sort((a, b) => a - b).map(threshold => {
+      const dates = valid.filter(day => day.precipitation > threshold).map(day => day.date);
+      return { threshold_mm: threshold, days: dates.length, dates };
+    }),
+    longest_dry_spell: longestDrySpell(days, dryDayMm),
+    ongoing_dry_spell: last && last.end === days[days.length - 1].date ? last : null,
+    dry_spells: [...spellLengths].sort((a, b) => a - b).map(minDays => ({
+      min_days: minDays,
+      count: spells.filter(spell => spell.days >= minDays).length
+    }))
+  };
+}
+
+/**
+ * Compare the series total with a reference series of the same length
+ *
+ * @param range - Calendar bounds of the reference period
+ */
+export function compareWithReference(
+  days: RainDay[],
+  reference: RainDay[],
+  range: { start: string; end: string }
+): RainfallComparison {
+  const total = totalRain(days);
+  const referenceTotal = totalRain(reference);
+  const difference = total !== null && referenceTotal !== null ? round1(total - referenceTotal) : null;
+  const percent = total !== null && referenceTotal !== null && referenceTotal > 0
+    ? Math.round(total / referenceTotal * 100)
+    : null;
+
+  let verdict: string;
+  if (total === null || referenceTotal === null) {
+    verdict = 'Not enough data to compare with the reference period.';
+  } else if (percent === null) {
+    verdict = total > 0 ? `${total} mm against no rain in the reference period.` : 'No rain in either period.';
+  } else if (Math.abs(percent - 100) < NEAR_REFERENCE_PCT) {
+    verdict = `Similar to the reference period (${percent}% of its ${referenceTotal} mm).`;
+  } else {
+    verdict = `${percent > 100 ? 'Wetter' : 'Drier'} than the reference period: ${total} mm against ${referenceTotal} mm (${percent}%).`;
+  }
+
+  return {
+    reference_start: range.start,
+    reference_end: range.end,
+    total_mm: total,
+    reference_total_mm: referenceTotal,
+    difference_mm: difference,
+    percent_of_reference: percent,
+    verdict
+  };
+}
+
+/**
+ * Shift a date range back by whole years (same calendar dates)
+ *
+ * @returns The shifted start and end (YYYY-MM-DD)
+ */
+export function sameDatesYearsBefore(start: string, end: string, years: number): { start: string; end: string } {
+  const shift = (date: string) => {
+    const [year, rest] = [Number(date.slice(0, 4)), date.slice(4)];
+    // 29 February falls back to 28 February in non-leap years
+    const shifted = `${year - years}${rest}`;
+    return rest === '-02-29' && !isLeapYear(year - years) ? `${year - years}-02-28` : shifted;
+  };
+  const shiftedStart = shift(start);
+  return { start: shiftedStart, end: addDays(shiftedStart, daysBetween(start, end)) };
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
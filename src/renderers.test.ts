@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { renderCsv, renderGeoJson, renderMarkdown, renderSms, RenderableDay, RenderableReport, SMS_MAX_LENGTH } from './renderers.js';
+import { buildPeriodTotals, buildWeatherSummary, DailyWeather } from './weather-format.js';
+
+const kitale = { latitude: 1.0157, longitude: 35.0062, region: 'Kenya', place: { name: 'Kitale' } };
+
+/** Consecutive days from Monday 2026-10-19 */
+function days(count: number, overrides: Partial<DailyWeather> = {}): DailyWeather[] {
+  return Array.from({ length: count }, (_, i) => ({
+    date: new Date(Date.UTC(2026, 9, 19 + i)).toISOString().slice(0, 10),
+    max_temp: 25.6,
+    min_temp: 14.6,
+    precipitation: i === 0 ? 12.2 : 0,
+    humidity: 70,
+    wind_speed: 2.1,
+    solar_radiation: null,
+    ...overrides
+  }));
+}
+
+function single(series: RenderableDay[]): RenderableReport {
+  return { title: 'Forecast', series: [{ location: kitale, days: series }] };
+}
+
+describe('renderCsv', () => {
+  it('writes one row per day with labelled columns', () => {
+    const [header, first] = renderCsv(single(days(2))).split('\n');
+    assert.equal(header, 'date,max_temp,min_temp,precipitation,humidity,wind_speed,solar_radiation');
+    assert.equal(first, '2026-10-19,25.6,14.6,12.2,70,2.1,');
+  });
+
+  it('quotes text with commas or quotes and joins lists', () => {
+    const csv = renderCsv(single([{ date: '2026-10-19', advice: 'Plant, then "wait"', tags: ['dry', 'hot'] } as RenderableDay]));
+    assert.equal(csv.split('\n')[1], '2026-10-19,"Plant, then ""wait""",dry; hot');
+  });
+
+  it('leads batch rows with the name and coordinates, blank without a location', () => {
+    const csv = renderCsv({
+      title: 'Forecast',
+      series: [
+        { name: 'Plot A', location: kitale, days: days(1) },
+        { name: 'Plot B', days: [], error: 'not found' }
+      ]
+    });
+    const [header, row] = csv.split('\n');
+    assert.ok(header.startsWith('name,latitude,longitude,date,'));
+    assert.ok(row.startsWith('Plot A,1.0157,35.0062,2026-10-19,'));
+  });
+});
+
+describe('renderGeoJson', () => {
+  it('places each location at [longitude, latitude]', () => {
+    const collection = JSON.parse(renderGeoJson(single(days(1))));
+    assert.equal(collection.type, 'FeatureCollection');
+    const [feature] = collection.features;
+    assert.deepEqual(feature.geometry, { type: 'Point', coordinates: [35.0062, 1.0157] });
+    assert.equal(feature.properties.name, 'Kitale');
+    assert.equal(feature.properties.days.length, 1);
+  });
+
+  it('has null geometry for an unresolved batch location', () => {
+    const collection = JSON.parse(renderGeoJson({ title: 'Forecast', series: [{ name: 'Nowhere', days: [], error: 'not found' }] }));
+    assert.equal(collection.features[0].geometry, null);
+    assert.equal(collection.features[0].properties.region, null);
+    assert.equal(collection.features[0].properties.error, 'not found');
+  });
+});
+
+describe('renderMarkdown', () => {
+  it('renders a heading, table and summary line', () => {
+    const forecast = days(2);
+    const lines = renderMarkdown({ title: 'Forecast', series: [{ location: kitale, days: forecast, summary: buildWeatherSummary(forecast) }] }).split('\n');
+    assert.equal(lines[0], '**Forecast: Kitale** (Kenya)');
+    assert.equal(lines[2], '| Date | Max °C | Min °C | Rain mm | Humidity % | Wind m/s |');
+    assert.equal(lines[3], '|---|---:|---:|---:|---:|---:|');
+    assert.equal(lines[4], '| Mon 2026-10-19 | 25.6 | 14.6 | 12.2 | 70 | 2.1 |');
+    assert.match(lines[lines.length - 1], /^Total rain 12\.2 mm, average max 25\.6 °C/);
+  });
+
+  it('explains a batch location without data', () => {
+    const markdown = renderMarkdown({ title: 'Forecast', series: [{ name: 'Plot B', days: [], error: 'farm not found' }] });
+    assert.equal(markdown, '**Forecast: Plot B**\n\n_No data: farm not found_');
+  });
+});
+
+describe('renderSms', () => {
+  it('lists rounded days after the location name', () => {
+    assert.equal(renderSms(single(days(2))), 'Kitale: Mon 26/15C 12mm | Tue 26/15C 0mm');
+  });
+
+  it('drops the days that do not fit one message', () => {
+    const sms = renderSms(single(days(14)));
+    assert.ok(sms.length <= SMS_MAX_LENGTH);
+    assert.ok(sms.endsWith('0mm'));
+    assert.ok(sms.split(' | ').length < 14);
+  });
+
+  it('sums up long observed periods', () => {
+    const observed = days(30);
+    const sms = renderSms({ title: 'Observed weather', series: [{ location: kitale, days: observed, totals: buildPeriodTotals(observed) }] });
+    assert.equal(sms, 'Kitale 19/10-17/11: 12mm, 1 rainy days, wettest 19/10 12mm, max 26C, min 15C');
+  });
+
+  it('reduces names to plain ASCII', () => {
+    const sms = renderSms({ title: 'Forecast', series: [{ location: { ...kitale, place: { name: 'Muranga’s Kĩrĩnyaga' } }, days: days(1) }] });
+    assert.match(sms, /^Murangas Kirinyaga: /);
+  });
+
+  it('gives each batch location its totals, or n/a', () => {
+    const forecast = days(3);
+    const sms = renderSms({
+      title: 'Forecast',
+      series: [
+        { name: 'Plot A', location: kitale, days: forecast, summary: buildWeatherSummary(forecast) },
+        { name: 'Plot B', days: [], error: 'not found' }
+      ]
+    });
+    assert.equal(sms, '3d rain, max/min: Plot A 12mm 26/15C | Plot B n/a');
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Alternative text renderings of weather tool responses
+ *
+ * The weather tools answer in JSON. Downstream channels need other shapes:
+ * - csv: one row per day (and location), for spreadsheets
+ * - geojson: a FeatureCollection with one point per location, for GIS
+ * - markdown: a table per location, for chat UIs
+ * - sms: a digest of at most 160 plain ASCII characters, e.g.
+ *   "Kitale: Mon 24/15C 12mm | Tue 25/16C 0mm | ..."
+ *
+ * Renderers take the daily rows and summaries the tools already built, so
+ * every format shows the same numbers as the JSON.
+ *
+ * @module renderers
+ */
+
+import { PeriodTotals, WeatherSummary } from './weather-format.js';
+
+export const OUTPUT_FORMATS = ['json', 'csv', 'geojson', 'markdown', 'sms'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/** Longest SMS digest: one GSM-7 message (also fits a USSD screen) */
+export const SMS_MAX_LENGTH = 160;
+
+/** Characters kept of a location name in an SMS digest */
+const SMS_LABEL_LENGTH = 20;
+
+/**
+ * One day of a tool response (DailyWeather, FarmingForecastDay, ...)
+ * Other fields are rendered as extra columns.
+ */
+export interface RenderableDay {
+  date: string;
+  max_temp?: number | null;
+  min_temp?: number | null;
+  precipitation?: number | null;
+}
+
+/**
+ * Location block of a tool response (see describeLocation)
+ */
+export interface RenderableLocation {
+  latitude: number;
+  longitude: number;
+  region: string;
+  admin_area?: string | null;
+  farm?: { name: string };
+  place?: { name: string };
+}
+
+/**
+ * One location's daily series
+ */
+export interface RenderableSeries {
+  /** Name given in a batch request */
+  name?: string;
+  /** Missing when a batch location could not be resolved */
+  location?: RenderableLocation;
+  days: RenderableDay[];
+  summary?: WeatherSummary;
+  totals?: PeriodTotals;
+  /** Why a batch location has no data */
+  error?: string;
+}
+
+/**
+ * A tool response reduced to what the renderers need
+ */
+export interface RenderableReport {
+  /** e.g. "Forecast" or "Observed weather" */
+  title: string;
+  series: RenderableSeries[];
+}
+
+/** Column headings with units, in display order; other fields follow by name */
+const COLUMN_LABELS: Record<string, string> = {
+  max_temp: 'Max °C',
+  min_temp: 'Min °C',
+  precipitation: 'Rain mm',
+  humidity: 'Humidity %',
+  wind_speed: 'Wind m/s',
+  solar_radiation: 'Solar W/m²',
+  max_temp_anomaly: 'Max vs normal °C',
+  min_temp_anomaly: 'Min vs normal °C',
+  precipitation_anomaly: 'Rain vs normal mm',
+  precipitation_anomaly_pct: 'Rain vs normal %',
+  humidity_anomaly: 'Humidity vs normal %',
+  anomalies: 'Compared to normal'
+};
+
+/** Columns of a Markdown table; CSV and GeoJSON keep every field */
+const MARKDOWN_COLUMNS = ['max_temp', 'min_temp', 'precipitation', 'humidity', 'wind_speed', 'anomalies'];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function weekday(date: string): string {
+  return WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+}
+
+/** "2026-10-19" as "19/10" */
+function dayMonth(date: string): string {
+  return `${date.slice(8, 10)}/${date.slice(5, 7)}`;
+}
+
+/**
+ * Fields with a flat value (number, text or list of text), in display order
+ * Nested blocks such as ensemble statistics only appear in JSON and GeoJSON.
+ */
+function columnsOf(series: RenderableSeries[]): string[] {
+  const seen = new Set<string>();
+  series.forEach(entry => entry.days.forEach(day => Object.entries(day).forEach(([field, value]) => {
+    const flat = value === null || typeof value === 'number' || typeof value === 'string'
+      || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+    if (field !== 'date' && flat) seen.add(field);
+  })));
+  const known = Object.keys(COLUMN_LABELS).filter(field => seen.has(field));
+  return [...known, ...Array.from(seen).filter(field => !(field in COLUMN_LABELS))];
+}
+
+/** A day's value by field name */
+function fieldOf(day: RenderableDay, field: string): unknown {
+  return (day as unknown as Record<string, unknown>)[field];
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return Array.isArray(value) ? value.join('; ') : String(value);
+}
+
+/**
+ * Short name of a series: batch name, farm, place, else the admin area or region
+ */
+function seriesLabel(entry: RenderableSeries): string {
+  const location = entry.location;
+  return entry.name ?? location?.farm?.name ?? location?.place?.name ?? location?.admin_area ?? location?.region ?? 'Unknown location';
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * One row per day; batch reports lead with the location name and coordinates
+ */
+export function renderCsv(report: RenderableReport): string {
+  const columns = columnsOf(report.series);
+  const batch = report.series.length > 1 || report.series.some(entry => entry.name !== undefined);
+  const header = [...(batch ? ['name', 'latitude', 'longitude'] : []), 'date', ...columns];
+  const rows = report.series.flatMap(entry => entry.days.map(day => [
+    ...(batch ? [seriesLabel(entry), cellText(entry.location?.latitude), cellText(entry.location?.longitude)] : []),
+    day.date,
+    ...columns.map(column => cellText(fieldOf(day, column)))
+  ]));
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n');
+}
+
+/**
+ * A FeatureCollection with one Point per location; days, summary and totals
+ * are feature properties
+ */
+export function renderGeoJson(report: RenderableReport): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: report.series.map(entry => ({
+      type: 'Feature',
+      // GeoJSON positions are [longitude, latitude]
+      geometry: entry.location ? { type: 'Point', coordinates: [entry.location.longitude, entry.location.latitude] } : null,
+      properties: {
+        name: seriesLabel(entry),
+        region: entry.location?.region ?? null,
+        title: report.title,
+        ...(entry.error ? { error: entry.error } : {}),
+        ...(entry.summary ? { summary: entry.summary } : {}),
+        ...(entry.totals ? { totals: entry.totals } : {}),
+        days: entry.days
+      }
+    }))
+  }, null, 2);
+}
+
+function markdownCell(value: string): string {
+  return value === '' ? '-' : value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/**
+ * Summary sentence under a Markdown table
+ */
+function summaryLine(entry: RenderableSeries): string | null {
+  const parts: string[] = [];
+  const rain = entry.totals?.total_precipitation ?? entry.summary?.total_precipitation;
+  if (rain !== undefined && rain !== null) parts.push(`total rain ${rain} mm`);
+  if (entry.totals) parts.push(`${entry.totals.rainy_days} rainy day(s)`);
+  if (entry.summary?.avg_max_temp !== undefined && entry.summary.avg_max_temp !== null) parts.push(`average max ${entry.summary.avg_max_temp} °C`);
+  if (entry.summary?.avg_min_temp !== undefined && entry.summary.avg_min_temp !== null) parts.push(`average min ${entry.summary.avg_min_temp} °C`);
+  return parts.length > 0 ? `${parts.join(', ').replace(/^./, first => first.toUpperCase())}.` : null;
+}
+
+/**
+ * A heading, table and summary line per location
+ */
+export function renderMarkdown(report: RenderableReport): string {
+  const columns = columnsOf(report.series).filter(column => MARKDOWN_COLUMNS.includes(column));
+  const header = ['Date', ...columns.map(column => COLUMN_LABELS[column])];
+
+  return report.series.map(entry => {
+    const region = entry.location ? ` (${entry.location.region})` : '';
+    const lines = [`**${report.title}: ${seriesLabel(entry)}**${region}`, ''];
+    if (entry.error) {
+      lines.push(`_No data: ${entry.error}_`);
+      return lines.join('\n');
+    }
+    lines.push(`| ${header.join(' | ')} |`);
+    // Numbers right-aligned, text left-aligned
+    lines.push(`|${['---', ...columns.map(column => column === 'anomalies' ? '---' : '---:')].join('|')}|`);
+    entry.days.forEach(day => {
+      const cells = [`${weekday(day.date)} ${day.date}`, ...columns.map(column => markdownCell(cellText(fieldOf(day, column))))];
+      lines.push(`| ${cells.join(' | ')} |`);
+    });
+    const summary = summaryLine(entry);
+    if (summary) lines.push('', summary);
+    return lines.join('\n');
+  }).join('\n\n');
+}
+
+/** Rounded value for SMS, "-" when missing */
+function smsNumber(value: unknown): string {
+  return typeof value === 'number' ? String(Math.round(value)) : '-';
+}
+
+/**
+ * Join parts after a prefix, dropping trailing parts that do not fit one SMS
+ */
+function fitSms(prefix: string, parts: string[], separator = ' | '): string {
+  let text = prefix;
+  for (const [index, part] of parts.entries()) {
+    const next = `${text}${index === 0 ? '' : separator}${part}`;
+    if (next.length > SMS_MAX_LENGTH) break;
+    text = next;
+  }
+  return text.slice(0, SMS_MAX_LENGTH);
+}
+
+/** "Mon 24/15C 12mm" */
+function smsDay(day: RenderableDay): string {
+  return `${weekday(day.date)} ${smsNumber(day.max_temp)}/${smsNumber(day.min_temp)}C ${smsNumber(day.precipitation)}mm`;
+}
+
+/** "01/09-30/09: 84mm, 12 rainy days, wettest 03/09 22mm, max 29C, min 12C" */
+function smsTotals(entry: RenderableSeries, totals: PeriodTotals): string {
+  const first = entry.days[0]?.date;
+  const last = entry.days[entry.days.length - 1]?.date;
+  const parts = [
+    `${smsNumber(totals.total_precipitation)}mm`,
+    `${totals.rainy_days} rainy days`,
+    ...(totals.wettest_day ? [`wettest ${dayMonth(totals.wettest_day.date)} ${smsNumber(totals.wettest_day.value)}mm`] : []),
+    ...(totals.highest_max_temp ? [`max ${smsNumber(totals.highest_max_temp.value)}C`] : []),
+    ...(totals.lowest_min_temp ? [`min ${smsNumber(totals.lowest_min_temp.value)}C`] : [])
+  ];
+  const period = first && last ? ` ${dayMonth(first)}-${dayMonth(last)}` : '';
+  return fitSms(`${smsLabel(entry)}${period}: `, parts, ', ');
+}
+
+/** Location name reduced to plain ASCII that fits the digest */
+function smsLabel(entry: RenderableSeries): string {
+  return seriesLabel(entry)
+    .normalize('NFKD')
+    .replace(/[^\x20-\x7e]/g, '')
+    .slice(0, SMS_LABEL_LENGTH)
+    .trim();
+}
+
+/**
+ * A digest of at most SMS_MAX_LENGTH plain ASCII characters
+ *
+ * A single location lists as many days as fit ("Kitale: Mon 24/15C 12mm |
+ * Tue ..."); observed periods too long for that are summed up instead. Batch
+ * reports give each location's total rain and average temperatures.
+ */
+export function renderSms(report: RenderableReport): string {
+  if (report.series.length === 1 && report.series[0].name === undefined) {
+    const [entry] = report.series;
+    const days = entry.days.map(smsDay);
+    const daily = fitSms(`${smsLabel(entry)}: `, days);
+    const allDaysFit = daily.split(' | ').length === days.length;
+    return !allDaysFit && entry.totals ? smsTotals(entry, entry.totals) : daily;
+  }
+
+  const days = Math.max(0, ...report.series.map(entry => entry.days.length));
+  const parts = report.series.map(entry => entry.error || !entry.summary
+    ? `${smsLabel(entry)} n/a`
+    : `${smsLabel(entry)} ${smsNumber(entry.summary.total_precipitation)}mm ${smsNumber(entry.summary.avg_max_temp)}/${smsNumber(entry.summary.avg_min_temp)}C`);
+  return fitSms(`${days}d rain, max/min: `, parts);
+}
+
+/**
+ * Render a report in a text format other than JSON
+ */
+export function renderReport(report: RenderableReport, format: Exclude<OutputFormat, 'json'>): string {
+  switch (format) {
+    case 'csv': return renderCsv(report);
+    case 'geojson': return renderGeoJson(report);
+    case 'markdown': return renderMarkdown(report);
+    case 'sms': return renderSms(report);
+  }
+}
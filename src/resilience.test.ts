@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it, mock } from 'node:test';
+import { GAPAuthError, GAPCancelledError, GAPCircuitOpenError, GAPRateLimitError, GAPUpstreamError } from './errors.js';
+import { backoffDelay, CircuitBreaker, withRetry } from './resilience.js';
+
+beforeEach(() => {
+  mock.restoreAll();
+  mock.method(console, 'warn', () => undefined);
+});
+
+const upstreamError = () => new GAPUpstreamError('GAP API error (502): Bad Gateway', 502);
+
+describe('backoffDelay', () => {
+  it('stays within the exponential ceiling', () => {
+    for (let i = 0; i < 50; i++) {
+      assert.ok(backoffDelay(1, 100, 10000) <= 100);
+      assert.ok(backoffDelay(3, 100, 10000) <= 400);
+      assert.ok(backoffDelay(10, 100, 1000) <= 1000);
+    }
+  });
+});
+
+describe('withRetry', () => {
+  it('retries retryable errors until the operation succeeds', async () => {
+    let attempts = 0;
+    const result = await withRetry(async () => {
+      if (++attempts < 3) throw upstreamError();
+      return 'ok';
+    }, { baseDelayMs: 1 });
+    assert.equal(result, 'ok');
+    assert.equal(attempts, 3);
+  });
+
+  it('gives up after maxAttempts', async () => {
+    let attempts = 0;
+    await assert.rejects(withRetry(async () => {
+      attempts++;
+      throw upstreamError();
+    }, { maxAttempts: 2, baseDelayMs: 1 }), GAPUpstreamError);
+    assert.equal(attempts, 2);
+  });
+
+  it('does not retry non-retryable errors', async () => {
+    let attempts = 0;
+    await assert.rejects(withRetry(async () => {
+      attempts++;
+      throw new GAPAuthError('GAP API error (401)', 401);
+    }, { baseDelayMs: 1 }), GAPAuthError);
+    assert.equal(attempts, 1);
+  });
+
+  it('abandons the retry when Retry-After exceeds maxDelayMs', async () => {
+    let attempts = 0;
+    await assert.rejects(withRetry(async () => {
+      attempts++;
+      throw new GAPRateLimitError('GAP API error (429)', 60);
+    }, { maxDelayMs: 1000 }), GAPRateLimitError);
+    assert.equal(attempts, 1);
+  });
+
+  it('stops waiting and does not retry once the signal aborts', async () => {
+    const controller = new AbortController();
+    let attempts = 0;
+    const started = Date.now();
+    const pending = withRetry(async () => {
+      attempts++;
+      throw upstreamError();
+    }, { baseDelayMs: 5000, maxDelayMs: 5000 }, controller.signal);
+    setTimeout(() => controller.abort(), 10);
+
+    await assert.rejects(pending, GAPCancelledError);
+    assert.equal(attempts, 1);
+    assert.ok(Date.now() - started < 1000);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('opens after consecutive retryable failures and fails fast', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 60000 });
+    for (let i = 0; i < 2; i++) {
+      await assert.rejects(breaker.execute(async () => { throw upstreamError(); }), GAPUpstreamError);
+    }
+    assert.equal(breaker.state, 'open');
+
+    let called = false;
+    await assert.rejects(breaker.execute(async () => { called = true; }), GAPCircuitOpenError);
+    assert.equal(called, false);
+  });
+
+  it('ignores client errors', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+    await assert.rejects(breaker.execute(async () => { throw new GAPAuthError('GAP API error (401)', 401); }), GAPAuthError);
+    assert.equal(breaker.state, 'closed');
+  });
+
+  it('closes again after a successful trial request', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 20 });
+    await assert.rejects(breaker.execute(async () => { throw upstreamError(); }));
+    assert.equal(breaker.state, 'open');
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    assert.equal(breaker.state, 'half-open');
+    assert.equal(await breaker.execute(async () => 'ok'), 'ok');
+    assert.equal(breaker.state, 'closed');
+  });
+
+  it('reopens when the trial request fails', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 20 });
+    for (let i = 0; i < 3; i++) {
+      await assert.rejects(breaker.execute(async () => { throw upstreamError(); }));
+    }
+    await new Promise(resolve => setTimeout(resolve, 30));
+    await assert.rejects(breaker.execute(async () => { throw upstreamError(); }), GAPUpstreamError);
+    assert.equal(breaker.state, 'open');
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Retry and circuit-breaker helpers for GAP requests
+ *
+ * - withRetry: repeats retryable failures with jittered exponential backoff,
+ *   honouring the upstream Retry-After hint
+ * - CircuitBreaker: fails fast while GAP is down instead of queueing
+ *   30-second timeouts for every farmer
+ *
+ * @module resilience
+ */
+
+import { GAPCancelledError, GAPError, GAPCircuitOpenError } from './errors.js';
+
+/**
+ * Retry policy settings
+ */
+export interface RetryOptions {
+  /** Total attempts including the first one (default: 3) */
+  maxAttempts?: number;
+
+  /** Delay before the first retry in milliseconds (default: 500) */
+  baseDelayMs?: number;
+
+  /** Upper bound for any single delay in milliseconds (default: 10000) */
+  maxDelayMs?: number;
+}
+
+/**
+ * Backoff delay for a retry attempt ("full jitter")
+ *
+ * @param attempt - Retry number, starting at 1
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Wait `ms` milliseconds, or until `signal` aborts
+ *
+ * @throws GAPCancelledError when the signal aborts first
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new GAPCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new GAPCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run an idempotent operation, retrying failures marked as retryable
+ *
+ * Non-GAP errors and non-retryable GAP errors are rethrown immediately.
+ * When the error carries a Retry-After hint longer than maxDelayMs the
+ * retry is abandoned rather than blocking the tool call.
+ *
+ * @param signal - Aborts the backoff wait with GAPCancelledError
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions = {}, signal?: AbortSignal): Promise<T> {
+  const maxAttempts = options.maxAttempts ?? 3;
+  const baseDelayMs = options.baseDelayMs ?? 500;
+  const maxDelayMs = options.maxDelayMs ?? 10000;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!(error instanceof GAPError) || !error.retryable || attempt >= maxAttempts) {
+        throw error;
+      }
+
+      let delay = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+      if (error.retryAfterSeconds !== undefined) {
+        const requested = error.retryAfterSeconds * 1000;
+        if (requested > maxDelayMs) throw error;
+        delay = Math.max(delay, requested);
+      }
+
+      console.warn(`[GAP API] ${error.code} on attempt ${attempt}/${maxAttempts}, retrying in ${delay}ms`);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/**
+ * Circuit breaker settings
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+
+  /** How long the circuit stays open before a trial request, in ms (default: 30000) */
+  resetTimeoutMs?: number;
+}
+
+/** closed: normal; open: failing fast; half-open: one trial request allowed */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Consecutive-failure circuit breaker
+ *
+ * Only failures that indicate GAP is unhealthy (retryable errors such as
+ * 5xx, timeouts and network errors) count. Client errors like 401 or 404
+ * pass through without affecting the circuit.
+ */
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInProgress = false;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+  }
+
+  /**
+   * Current state of the circuit
+   */
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return Date.now() - this.openedAt >= this.resetTimeoutMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Run an operation through the breaker
+   *
+   * @throws GAPCircuitOpenError without calling `operation` while open
+   */
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    const state = this.state;
+    if (state === 'open' || (state === 'half-open' && this.trialInProgress)) {
+      const remainingMs = this.openedAt !== null ? this.resetTimeoutMs - (Date.now() - this.openedAt) : this.resetTimeoutMs;
+      throw new GAPCircuitOpenError(Math.max(1, Math.ceil(remainingMs / 1000)));
+    }
+
+    const isTrial = state === 'half-open';
+    if (isTrial) this.trialInProgress = true;
+
+    try {
+      const result = await operation();
+      this.failures = 0;
+      this.openedAt = null;
+      return result;
+    } catch (error) {
+      if (error instanceof GAPError && error.retryable) {
+        this.failures++;
+        if (isTrial || this.failures >= this.failureThreshold) {
+          if (this.openedAt === null || isTrial) {
+            console.warn(`[GAP API] Circuit breaker opened after ${this.failures} consecutive failures`);
+          }
+          this.openedAt = Date.now();
+        }
+      }
+      throw error;
+    } finally {
+      if (isTrial) this.trialInProgress = false;
+    }
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Seasonal outlook: forecast periods compared with normal
+ *
+ * Turns period aggregates from GAPClient.getSeasonalForecast (GAP units)
+ * into the farmer-facing shape: rainfall totals against normal, mean
+ * temperatures and humidity with their anomalies, rainy days and a
+ * one-line verdict per week, dekad or month, plus a verdict for the season.
+ *
+ * @module seasonal-outlook
+ */
+
+import { AnomalyVerdict, buildAnomalyVerdict, FarmingForecastDay } from './anomalies.js';
+import { AggregationPeriod, GAPPeriodResult, groupByPeriod } from './aggregation.js';
+import { RAINY_DAY_THRESHOLD_MM } from './weather-format.js';
+
+/**
+ * One period of the outlook in display units
+ */
+export interface OutlookPeriod {
+  period: string;
+  start_date: string;
+  end_date: string;
+  /** Forecast days in the period */
+  days: number;
+  /** The forecast covers the whole period */
+  complete: boolean;
+  rainfall: {
+    total_mm: number | null;
+    normal_mm: number | null;
+    anomaly_mm: number | null;
+    anomaly_pct: number | null;
+    rainy_days: number;
+  };
+  temperature: {
+    avg_max: number | null;
+    avg_min: number | null;
+    max_anomaly: number | null;
+    min_anomaly: number | null;
+  };
+  humidity: {
+    avg_pct: number | null;
+    /** Deviation from normal in percentage points */
+    anomaly: number | null;
+  };
+  avg_solar_radiation: number | null;
+  avg_wind_speed: number | null;
+  /** e.g. "wetter and warmer than normal month" */
+  verdict: string;
+}
+
+/**
+ * The whole outlook
+ */
+export interface SeasonalOutlook {
+  aggregation: AggregationPeriod;
+  periods: OutlookPeriod[];
+  season: AnomalyVerdict & {
+    wettest_period: string | null;
+    driest_period: string | null;
+  };
+}
+
+const round1 = (value: number | undefined) => value === undefined ? null : Math.round(value * 10) / 10;
+
+/** Name of each aggregation period in verdicts */
+const PERIOD_NAMES: Record<AggregationPeriod, string> = { week: 'week', dekad: 'dekad', month: 'month' };
+
+/**
+ * Build the outlook from period aggregates and the formatted daily forecast
+ *
+ * @param periods - Period aggregates for one location (GAP units)
+ * @param days - The same forecast as formatted days (for rainy days and verdicts)
+ * @param aggregation - Period length used for `periods`
+ */
+export function buildSeasonalOutlook(
+  periods: GAPPeriodResult[],
+  days: FarmingForecastDay[],
+  aggregation: AggregationPeriod
+): SeasonalOutlook {
+  const daysByPeriod = new Map(groupByPeriod(days, aggregation).map(bucket => [bucket.key, bucket.items]));
+
+  const outlook = periods.map((period): OutlookPeriod => {
+    const periodDays = daysByPeriod.get(period.period) ?? [];
+    const total = period.totals.precipitation;
+    const anomaly = period.totals.precipitation_anom;
+    const normal = total !== undefined && anomaly !== undefined ? Math.max(0, total - anomaly) : undefined;
+    const verdict = buildAnomalyVerdict(periodDays, PERIOD_NAMES[aggregation]);
+
+    return {
+      period: period.period,
+      start_date: period.start_date,
+      end_date: period.end_date,
+      days: period.days,
+      complete: period.complete,
+      rainfall: {
+        total_mm: round1(total),
+        normal_mm: round1(normal),
+        anomaly_mm: round1(anomaly),
+        anomaly_pct: verdict.precipitation_anomaly_pct,
+        rainy_days: periodDays.filter(day => (day.precipitation ?? 0) >= RAINY_DAY_THRESHOLD_MM).length
+      },
+      temperature: {
+        avg_max: round1(period.means.max_temperature),
+        avg_min: round1(period.means.min_temperature),
+        max_anomaly: round1(period.means.max_temperature_anom),
+        min_anomaly: round1(period.means.min_temperature_anom)
+      },
+      humidity: {
+        avg_pct: round1(period.means.relative_humidity !== undefined ? period.means.relative_humidity * 100 : undefined),
+        anomaly: round1(period.means.relative_humidity_anom !== undefined ? period.means.relative_humidity_anom * 100 : undefined)
+      },
+      avg_solar_radiation: round1(period.means.solar_radiation),
+      avg_wind_speed: round1(period.means.wind_speed),
+      verdict: period.complete ? verdict.verdict : `${verdict.verdict} (partial: ${period.days} of ${period.period_days} days)`
+    };
+  });
+
+  // Compare only whole periods so a few days at either end don't win
+  const comparable = outlook.filter(period => period.complete && period.rainfall.total_mm !== null);
+  const byRain = [...comparable].sort((a, b) => b.rainfall.total_mm! - a.rainfall.total_mm!);
+
+  return {
+    aggregation,
+    periods: outlook,
+    season: {
+      ...buildAnomalyVerdict(days, 'season'),
+      wettest_period: byRain[0]?.period ?? null,
+      driest_period: byRain[byRain.length - 1]?.period ?? null
+    }
+  };
+}
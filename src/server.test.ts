@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createMcpServer } from './server.js';
+import { createServices, createToolContext, loadServiceConfig } from './services.js';
+
+let directory: string;
+let client: Client;
+
+before(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), 'gap-server-test-'));
+  const services = createServices(loadServiceConfig({
+    GAP_CACHE_STORE: 'none',
+    FARM_REGISTRY_PATH: path.join(directory, 'farms.json'),
+    CLIMATOLOGY_DIR: path.join(directory, 'climatology'),
+    FORECAST_SNAPSHOTS_PATH: path.join(directory, 'forecast-snapshots.json'),
+    ALERTS_PATH: path.join(directory, 'alerts.json')
+  }));
+  const server = createMcpServer(createToolContext(services));
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  client = new Client({ name: 'server-test', version: '1.0.0' });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+});
+
+after(async () => {
+  await client.close();
+  await rm(directory, { recursive: true, force: true });
+});
+
+/** Error code from the JSON text block of an error result */
+function errorCode(result: CallToolResult): string {
+  assert.equal(result.isError, true);
+  assert.equal(result.structuredContent, undefined);
+  const [, details] = result.content;
+  assert.equal(details.type, 'text');
+  return JSON.parse(details.type === 'text' ? details.text : '').error.code;
+}
+
+describe('tool errors through Client.callTool', () => {
+  it('reach the client with their message and code', async () => {
+    const result = await client.callTool({ name: 'delete_farm', arguments: { farm_id: 'no-such-farm' } }) as CallToolResult;
+    assert.equal(errorCode(result), 'farm_not_found');
+    assert.deepEqual(result.content[0], { type: 'text', text: 'I couldn\'t find that farm. Please check the farm ID or register the farm first.' });
+  });
+
+  it('are reported when arguments are missing', async () => {
+    const result = await client.callTool({ name: 'get_gap_weather_forecast', arguments: {} }) as CallToolResult;
+    assert.equal(errorCode(result), 'invalid_request');
+  });
+});
+
+describe('tool results through Client.callTool', () => {
+  it('pass the output schema check', async () => {
+    const result = await client.callTool({ name: 'list_farms', arguments: {} }) as CallToolResult;
+    assert.equal(result.isError, undefined);
+    assert.deepEqual(result.structuredContent, { count: 0, farms: [] });
+  });
+});
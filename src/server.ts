@@ -0,0 +1,60 @@
+/**
+ * MCP server with every tool, resource and prompt registered
+ *
+ * Shared by the HTTP transport (src/index.ts) and the stdio transport
+ * (src/stdio.ts), so both expose the same tools, resources and prompts.
+ *
+ * @module server
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ToolContext } from './tools/context.js';
+import { registerAlertTools } from './tools/alert-tools.js';
+import { registerClimateTools } from './tools/climate-tools.js';
+import { registerCropTools } from './tools/crop-tools.js';
+import { registerFarmTools } from './tools/farm-tools.js';
+import { registerIrrigationTools } from './tools/irrigation-tools.js';
+import { registerLivestockTools } from './tools/livestock-tools.js';
+import { registerOperationsTools } from './tools/operations-tools.js';
+import { registerPestTools } from './tools/pest-tools.js';
+import { registerPlaceTools } from './tools/place-tools.js';
+import { registerPlantingTools } from './tools/planting-tools.js';
+import { registerPrompts } from './tools/prompts.js';
+import { registerRainfallTools } from './tools/rainfall-tools.js';
+import { registerResources } from './tools/resources.js';
+import { registerSeasonalTools } from './tools/seasonal-tools.js';
+import { registerVerificationTools } from './tools/verification-tools.js';
+import { registerWeatherTools } from './tools/weather-tools.js';
+
+/**
+ * Build an MCP server with every tool, resource and prompt registered
+ *
+ * The HTTP transport builds one per request (stateless) or per session
+ * (stateful); the stdio transport builds one per process.
+ */
+export function createMcpServer(context: ToolContext): McpServer {
+  const server = new McpServer({
+    name: 'gap-weather-intelligence',
+    version: '2.0.0',
+    description: 'Satellite weather data for agriculture in Kenya and East Africa via TomorrowNow Global Access Platform (GAP)'
+  });
+
+  registerWeatherTools(server, context);
+  registerFarmTools(server, context);
+  registerPlaceTools(server, context);
+  registerCropTools(server, context);
+  registerIrrigationTools(server, context);
+  registerPlantingTools(server, context);
+  registerPestTools(server, context);
+  registerOperationsTools(server, context);
+  registerLivestockTools(server, context);
+  registerSeasonalTools(server, context);
+  registerRainfallTools(server, context);
+  registerClimateTools(server, context);
+  registerVerificationTools(server, context);
+  registerAlertTools(server, context);
+  registerResources(server, context);
+  registerPrompts(server, context);
+
+  return server;
+}
@@ -0,0 +1,201 @@
+/**
+ * Shared server services
+ *
+ * Reads the environment and builds everything the tools need (GAP client,
+ * response cache, farm registry, risk models, climatology, forecast
+ * snapshots and alerts). The HTTP server, the stdio server and the CLI all
+ * start from here, so they behave the same for the same `.env`.
+ *
+ * @module services
+ */
+
+import { AlertStore } from './alert-store.js';
+import { CacheStore, FileCacheStore, MeasurementCache, MemoryCacheStore } from './cache.js';
+import { ClimatologyStore, DEFAULT_CLIMATOLOGY_YEARS } from './climatology.js';
+import { FarmRegistry } from './farm-registry.js';
+import { ForecastSnapshotStore } from './forecast-snapshots.js';
+import { verifyForecasts } from './forecast-verification.js';
+import { GAPClient } from './gap-client.js';
+import { CoverageMode } from './location.js';
+import { RiskModelCatalog } from './pest-risk.js';
+import { ToolContext } from './tools/context.js';
+
+/**
+ * Settings read from the environment
+ */
+export interface ServiceConfig {
+  gapApiToken: string;
+  gapApiBaseUrl: string;
+
+  /** Response cache store: memory, file or none */
+  cacheStore: string;
+  cacheDir: string;
+  cacheMaxEntries: number;
+  cacheForecastTtlSeconds?: number;
+  cacheHistoricalTtlSeconds?: number;
+
+  farmRegistryPath: string;
+  pestModelsPath?: string;
+  climatologyDir: string;
+  climatologyYears: number;
+  forecastSnapshotsPath: string;
+  forecastSnapshotRetentionDays?: number;
+
+  /** Hours between verification runs (0 disables the background job) */
+  forecastVerifyIntervalHours: number;
+
+  alertsPath: string;
+
+  /** Minutes between alert checks (0 disables the scheduler) */
+  alertCheckIntervalMinutes: number;
+
+  /** Server-wide default location (used only when a request gives none) */
+  serverDefault?: { latitude: number; longitude: number };
+
+  /** What to do with points outside the bundled GAP coverage polygon */
+  coverageMode: CoverageMode;
+}
+
+/**
+ * Everything built from the configuration
+ */
+export interface Services {
+  config: ServiceConfig;
+
+  /** GAP client (null when GAP_API_TOKEN is not configured) */
+  gapClient: GAPClient | null;
+  measurementCache?: MeasurementCache;
+  farmRegistry: FarmRegistry;
+  riskModels: RiskModelCatalog;
+  climatology: ClimatologyStore;
+  forecastSnapshots: ForecastSnapshotStore;
+  alertStore: AlertStore;
+}
+
+/**
+ * Read the service settings from environment variables
+ */
+export function loadServiceConfig(env: NodeJS.ProcessEnv = process.env): ServiceConfig {
+  const defaultLatitude = env.DEFAULT_LATITUDE ? parseFloat(env.DEFAULT_LATITUDE) : undefined;
+  const defaultLongitude = env.DEFAULT_LONGITUDE ? parseFloat(env.DEFAULT_LONGITUDE) : undefined;
+
+  return {
+    gapApiToken: env.GAP_API_TOKEN || '',
+    gapApiBaseUrl: env.GAP_API_BASE_URL || 'https://gap.tomorrownow.org/api/v1',
+    cacheStore: env.GAP_CACHE_STORE || 'memory',
+    cacheDir: env.GAP_CACHE_DIR || '.cache/gap',
+    cacheMaxEntries: Number(env.GAP_CACHE_MAX_ENTRIES) || 500,
+    cacheForecastTtlSeconds: Number(env.GAP_CACHE_FORECAST_TTL_SECONDS) || undefined,
+    cacheHistoricalTtlSeconds: Number(env.GAP_CACHE_HISTORICAL_TTL_SECONDS) || undefined,
+    farmRegistryPath: env.FARM_REGISTRY_PATH || '.data/farms.json',
+    pestModelsPath: env.PEST_MODELS_PATH || undefined,
+    climatologyDir: env.CLIMATOLOGY_DIR || '.cache/climatology',
+    climatologyYears: Number(env.CLIMATOLOGY_YEARS) || DEFAULT_CLIMATOLOGY_YEARS,
+    forecastSnapshotsPath: env.FORECAST_SNAPSHOTS_PATH || '.data/forecast-snapshots.json',
+    forecastSnapshotRetentionDays: Number(env.FORECAST_SNAPSHOT_RETENTION_DAYS) || undefined,
+    forecastVerifyIntervalHours: env.FORECAST_VERIFY_INTERVAL_HOURS !== undefined ? Number(env.FORECAST_VERIFY_INTERVAL_HOURS) : 6,
+    alertsPath: env.ALERTS_PATH || '.data/alerts.json',
+    alertCheckIntervalMinutes: env.ALERT_CHECK_INTERVAL_MINUTES !== undefined ? Number(env.ALERT_CHECK_INTERVAL_MINUTES) : 60,
+    serverDefault: defaultLatitude !== undefined && defaultLongitude !== undefined &&
+      !isNaN(defaultLatitude) && !isNaN(defaultLongitude)
+      ? { latitude: defaultLatitude, longitude: defaultLongitude }
+      : undefined,
+    coverageMode: ['reject', 'warn', 'off'].includes(env.GAP_COVERAGE_MODE ?? '')
+      ? env.GAP_COVERAGE_MODE as CoverageMode
+      : 'reject'
+  };
+}
+
+/**
+ * Build the measurement cache selected by GAP_CACHE_STORE (memory, file or none)
+ */
+function createMeasurementCache(config: ServiceConfig): MeasurementCache | undefined {
+  let store: CacheStore;
+  switch (config.cacheStore) {
+    case 'none':
+      return undefined;
+    case 'file':
+      store = new FileCacheStore(config.cacheDir, config.cacheMaxEntries);
+      break;
+    case 'memory':
+      store = new MemoryCacheStore(config.cacheMaxEntries);
+      break;
+    default:
+      console.warn(`⚠️  Unknown GAP_CACHE_STORE "${config.cacheStore}", using in-memory cache`);
+      store = new MemoryCacheStore(config.cacheMaxEntries);
+  }
+
+  return new MeasurementCache({
+    store,
+    forecastTtlSeconds: config.cacheForecastTtlSeconds,
+    historicalTtlSeconds: config.cacheHistoricalTtlSeconds
+  });
+}
+
+/**
+ * Build the services for a configuration
+ *
+ * @example
+ * ```typescript
+ * const services = createServices(loadServiceConfig());
+ * const server = createMcpServer(createToolContext(services));
+ * ```
+ */
+export function createServices(config: ServiceConfig): Services {
+  const measurementCache = createMeasurementCache(config);
+
+  // Every getForecast result is recorded for verification
+  const forecastSnapshots = new ForecastSnapshotStore(config.forecastSnapshotsPath, config.forecastSnapshotRetentionDays);
+
+  const gapClient = config.gapApiToken
+    ? new GAPClient(config.gapApiToken, config.gapApiBaseUrl, { cache: measurementCache, forecastRecorder: forecastSnapshots })
+    : null;
+
+  return {
+    config,
+    gapClient,
+    measurementCache,
+    farmRegistry: new FarmRegistry(config.farmRegistryPath),
+    riskModels: new RiskModelCatalog(config.pestModelsPath),
+    climatology: new ClimatologyStore(config.climatologyDir, config.climatologyYears),
+    forecastSnapshots,
+    alertStore: new AlertStore(config.alertsPath)
+  };
+}
+
+/**
+ * Tool context for the services
+ *
+ * @param defaults - Default coordinates for this request or session (e.g. from X-Farm-* headers)
+ */
+export function createToolContext(
+  services: Services,
+  defaults: Pick<ToolContext, 'defaultLatitude' | 'defaultLongitude'> = {}
+): ToolContext {
+  return {
+    gapClient: services.gapClient,
+    registry: services.farmRegistry,
+    ...defaults,
+    serverDefault: services.config.serverDefault,
+    coverageMode: services.config.coverageMode,
+    riskModels: services.riskModels,
+    climatology: services.climatology,
+    forecastSnapshots: services.forecastSnapshots,
+    alerts: services.alertStore
+  };
+}
+
+/**
+ * Verification job: fetch observations for recorded forecasts whose dates have passed
+ */
+export async function runForecastVerification(services: Services): Promise<void> {
+  if (!services.gapClient) return;
+  try {
+    const result = await verifyForecasts(services.forecastSnapshots, services.gapClient);
+    if (result.sites > 0) {
+      console.log(`[Verification] Checked ${result.sites} site(s), verified ${result.verified_days} forecast day(s)`);
+    }
+  } catch (error) {
+    console.error('[Verification] Job failed:', error);
+  }
+}
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'node:events';
+import type { ServerResponse } from 'node:http';
+import { beforeEach, describe, it, mock } from 'node:test';
+import { McpSession, SessionStore } from './sessions.js';
+
+beforeEach(() => {
+  mock.restoreAll();
+  mock.method(console, 'log', () => undefined);
+});
+
+const IDLE_MS = 60 * 1000;
+
+function session(id: string, lastSeen: number): McpSession {
+  return {
+    id,
+    server: { close: async () => {} },
+    created_at: new Date(lastSeen).toISOString(),
+    last_seen: lastSeen,
+    open_responses: 0
+  } as unknown as McpSession;
+}
+
+describe('SessionStore.closeIdle', () => {
+  it('closes sessions without requests for longer than the timeout', async () => {
+    const store = new SessionStore(IDLE_MS, 10);
+    store.add(session('idle', 0));
+    store.add(session('recent', 30 * 1000));
+
+    assert.equal(await store.closeIdle(IDLE_MS + 1), 1);
+    assert.equal(store.size, 1);
+    assert.ok(store.get('recent'));
+  });
+
+  it('keeps sessions with an open stream or a request in progress', async () => {
+    const store = new SessionStore(IDLE_MS, 10);
+    const streaming = session('streaming', 0);
+    const stream = new EventEmitter();
+    store.add(streaming);
+    store.track(streaming, stream as unknown as ServerResponse);
+
+    assert.equal(await store.closeIdle(10 * IDLE_MS), 0);
+    assert.equal(store.size, 1);
+
+    stream.emit('close');
+    assert.equal(streaming.open_responses, 0);
+    assert.equal(await store.closeIdle(streaming.last_seen + 1), 0);
+    assert.equal(await store.closeIdle(streaming.last_seen + IDLE_MS + 1), 1);
+    assert.equal(store.size, 0);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Stateful MCP sessions
+ *
+ * In stateful mode each client gets a session on `initialize`: one
+ * McpServer and transport that serve every later request carrying its
+ * Mcp-Session-Id, including the GET SSE stream for server notifications.
+ * Sessions end with a DELETE from the client or after being idle too long;
+ * a session with an open stream or a request in progress is never idle.
+ *
+ * @module sessions
+ */
+
+import type { ServerResponse } from 'node:http';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { ToolContext } from './tools/context.js';
+
+/** Sessions handled by the server: stateless (one server per request) or stateful */
+export type SessionMode = 'stateless' | 'stateful';
+
+/**
+ * An open MCP session
+ */
+export interface McpSession {
+  /** Mcp-Session-Id sent by the client */
+  id: string;
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+
+  /** Tool context of the session (header defaults are refreshed per request) */
+  context: ToolContext;
+
+  /** ISO 8601 creation time */
+  created_at: string;
+
+  /** Epoch milliseconds of the last request, or of the last response to close */
+  last_seen: number;
+
+  /** Responses still open: requests in progress and the GET SSE stream */
+  open_responses: number;
+}
+
+/**
+ * Open sessions with idle expiry
+ *
+ * @example
+ * ```typescript
+ * const sessions = new SessionStore(30 * 60 * 1000, 100);
+ * sessions.startSweeper();
+ * const session = sessions.get(req.headers['mcp-session-id'] as string);
+ * ```
+ */
+export class SessionStore {
+  private sessions = new Map<string, McpSession>();
+
+  /** Idle sweep timer (undefined when stopped) */
+  private timer?: NodeJS.Timeout;
+
+  /**
+   * @param idleTimeoutMs - Sessions without open responses or new requests for this long are closed
+   * @param maxSessions - Most sessions open at once
+   */
+  constructor(readonly idleTimeoutMs: number, readonly maxSessions: number) {}
+
+  /** Number of open sessions */
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /** Whether another session can be opened */
+  get isFull(): boolean {
+    return this.sessions.size >= this.maxSessions;
+  }
+
+  /**
+   * Look up a session and mark it as active
+   */
+  get(id: string): McpSession | undefined {
+    const session = this.sessions.get(id);
+    if (session) session.last_seen = Date.now();
+    return session;
+  }
+
+  /**
+   * Keep a session active while a response to it is open
+   */
+  track(session: McpSession, res: ServerResponse): void {
+    session.open_responses++;
+    res.once('close', () => {
+      session.open_responses--;
+      session.last_seen = Date.now();
+    });
+  }
+
+  add(session: McpSession): void {
+    this.sessions.set(session.id, session);
+    console.log(`[MCP] Session ${session.id} opened (${this.sessions.size} active)`);
+  }
+
+  /**
+   * Forget a session whose transport has closed
+   */
+  remove(id: string): void {
+    if (this.sessions.delete(id)) {
+      console.log(`[MCP] Session ${id} closed (${this.sessions.size} active)`);
+    }
+  }
+
+  /**
+   * Close a session's server and transport
+   */
+  async close(id: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (!session) return;
+    this.remove(id);
+    await session.server.close();
+  }
+
+  /**
+   * Close idle sessions every minute (or every idle timeout, if shorter);
+   * does not keep the process alive
+   */
+  startSweeper(): void {
+    this.stopSweeper();
+    this.timer = setInterval(() => {
+      this.closeIdle().catch(error => console.error('[MCP] Session sweep failed:', error));
+    }, Math.min(this.idleTimeoutMs, 60 * 1000));
+    this.timer.unref();
+  }
+
+  stopSweeper(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Close sessions idle for longer than the timeout, skipping those with
+   * an open stream or a request in progress
+   *
+   * @returns Number of sessions closed
+   */
+  async closeIdle(now: number = Date.now()): Promise<number> {
+    const idle = Array.from(this.sessions.values()).filter(session =>
+      session.open_responses === 0 && now - session.last_seen > this.idleTimeoutMs
+    );
+    for (const session of idle) {
+      console.log(`[MCP] Session ${session.id} idle for over ${Math.round(this.idleTimeoutMs / 60000)} min`);
+      await this.close(session.id);
+    }
+    return idle.length;
+  }
+
+  /**
+   * Close every session (on shutdown)
+   */
+  async closeAll(): Promise<void> {
+    this.stopSweeper();
+    await Promise.all(Array.from(this.sessions.keys()).map(id => this.close(id)));
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * MCP server over stdio
+ *
+ * For desktop MCP clients that launch the server as a child process and
+ * talk JSON-RPC over stdin/stdout. Registers the same tools as the HTTP
+ * server and reads the same `.env`. stdout carries the protocol, so the
+ * caller must send every log line to stderr (`gap-mcp stdio` does).
+ *
+ * The alert scheduler and the background verification job are not run:
+ * the process lives only as long as the client session
+ * (get_forecast_accuracy still verifies on demand).
+ *
+ * @module stdio
+ */
+
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { createMcpServer } from './server.js';
+import { createToolContext, Services } from './services.js';
+
+/**
+ * Serve MCP on stdin/stdout until the client closes the stream
+ *
+ * @example
+ * ```typescript
+ * await startStdioServer(createServices(loadServiceConfig()));
+ * ```
+ */
+export async function startStdioServer(services: Services): Promise<void> {
+  if (!services.config.gapApiToken) {
+    console.warn('⚠️  WARNING: GAP_API_TOKEN environment variable is not set! Tools will not work until it is configured.');
+  }
+
+  const server = createMcpServer(createToolContext(services));
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  console.error('[MCP] GAP Weather Intelligence MCP server running on stdio');
+}
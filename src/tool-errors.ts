@@ -0,0 +1,173 @@
+/**
+ * Tool-layer error results
+ *
+ * Maps every failure to a consistent farmer-facing message plus a
+ * machine-readable error code, so agents can branch on `error.code`
+ * instead of parsing text.
+ *
+ * @module tool-errors
+ */
+
+import { CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { GAPError, GAPErrorCode, GAPValidationError } from './errors.js';
+import { AlertRuleNotFoundError } from './alert-store.js';
+import { FarmNotFoundError } from './farm-registry.js';
+import { AmbiguousPlaceError, PlaceMatch, PlaceNotFoundError } from './gazetteer.js';
+
+/**
+ * Error codes returned by the tools
+ */
+export type ToolErrorCode =
+  | GAPErrorCode
+  | 'not_configured'   // Server has no GAP_API_TOKEN
+  | 'farm_not_found'   // Unknown farm_id
+  | 'alert_not_found'  // Unknown alert_id
+  | 'place_not_found'  // Place name not in the bundled gazetteer
+  | 'ambiguous_place'  // Place name matches several places
+  | 'internal_error';  // Unexpected bug on our side
+
+/**
+ * Default farmer-facing message for each error code
+ */
+export const ERROR_MESSAGES: Record<ToolErrorCode, string> = {
+  invalid_request: 'Some of the details in the request are not valid. Please check the location and dates.',
+  auth_failed: 'Weather data service authentication failed. Please check API credentials.',
+  not_found: 'The weather data service endpoint is no longer available. Please contact support.',
+  rate_limited: 'The weather data service is busy right now. Please try again in a minute.',
+  upstream_error: 'I\'m having trouble getting weather data right now. Try again in a moment?',
+  timeout: 'Weather data service took too long to respond. Please try again.',
+  invalid_response: 'The weather data service sent back data I couldn\'t read. Please try again later.',
+  out_of_coverage: 'Weather data is not available for this location. The service covers parts of East Africa; please check the coordinates.',
+  service_unavailable: 'The weather data service is temporarily unavailable. Please try again in a few minutes.',
+  cancelled: 'The request was cancelled.',
+  not_configured: 'I\'m having trouble connecting to the weather data service. Try again in a moment?',
+  farm_not_found: 'I couldn\'t find that farm. Please check the farm ID or register the farm first.',
+  alert_not_found: 'I couldn\'t find that alert. Please check the alert ID with list_alert_rules.',
+  place_not_found: 'I couldn\'t find that place. Please check the spelling or give the nearest town or the coordinates.',
+  ambiguous_place: 'That place name matches more than one location. Which one did you mean?',
+  internal_error: 'Something went wrong while preparing the weather information. Please try again.'
+};
+
+/**
+ * Machine-readable error details included in tool results
+ */
+export interface ToolErrorDetails {
+  code: ToolErrorCode;
+  message: string;
+  retry_after_seconds?: number;
+  /** Possible places, for place_not_found and ambiguous_place */
+  candidates?: PlaceMatch[];
+}
+
+/**
+ * Farmer-facing list of candidate places, e.g. "Mbale, Vihiga County, Kenya or Mbale, Mbale District, Uganda"
+ */
+function listPlaces(places: PlaceMatch[]): string {
+  const labels = places.map(place => place.label);
+  return labels.length > 1 ? `${labels.slice(0, -1).join(', ')} or ${labels[labels.length - 1]}` : labels.join('');
+}
+
+/**
+ * Describe a thrown error as code + farmer-facing message
+ *
+ * GAP client errors keep their code and Retry-After hint; anything else is
+ * reported as an internal error. Our own validation messages (no HTTP
+ * status) are already farmer-facing and are passed through.
+ */
+export function describeError(error: unknown): ToolErrorDetails {
+  if (error instanceof GAPValidationError && error.status === undefined) {
+    return { code: 'invalid_request', message: error.message };
+  }
+  if (error instanceof FarmNotFoundError) {
+    return { code: 'farm_not_found', message: ERROR_MESSAGES.farm_not_found };
+  }
+  if (error instanceof AlertRuleNotFoundError) {
+    return { code: 'alert_not_found', message: ERROR_MESSAGES.alert_not_found };
+  }
+  if (error instanceof AmbiguousPlaceError) {
+    return {
+      code: 'ambiguous_place',
+      message: `"${error.query}" could be ${listPlaces(error.candidates)}. Which one did you mean?`,
+      candidates: error.candidates
+    };
+  }
+  if (error instanceof PlaceNotFoundError) {
+    return {
+      code: 'place_not_found',
+      message: error.suggestions.length > 0
+        ? `I couldn't find "${error.query}". Did you mean ${listPlaces(error.suggestions)}?`
+        : ERROR_MESSAGES.place_not_found,
+      candidates: error.suggestions
+    };
+  }
+  if (error instanceof GAPError) {
+    return {
+      code: error.code,
+      message: ERROR_MESSAGES[error.code],
+      ...(error.retryAfterSeconds !== undefined ? { retry_after_seconds: error.retryAfterSeconds } : {})
+    };
+  }
+  return { code: 'internal_error', message: ERROR_MESSAGES.internal_error };
+}
+
+/**
+ * Build an error result for a tool call
+ *
+ * @param code - Machine-readable error code
+ * @param message - Farmer-facing message (defaults to the code's standard message)
+ * @param retryAfterSeconds - Suggested wait before retrying, when known
+ */
+export function toolError(code: ToolErrorCode, message: string = ERROR_MESSAGES[code], retryAfterSeconds?: number): CallToolResult {
+  return errorResult({
+    code,
+    message,
+    ...(retryAfterSeconds !== undefined ? { retry_after_seconds: retryAfterSeconds } : {})
+  });
+}
+
+/**
+ * Build an error result from a thrown error
+ */
+export function toolErrorFromException(error: unknown): CallToolResult {
+  return errorResult(describeError(error));
+}
+
+/**
+ * Error result: the farmer-facing message, then the details as JSON text
+ *
+ * No structuredContent: clients validate it against the tool's output
+ * schema even when isError is set, and the result fields are required.
+ */
+function errorResult(details: ToolErrorDetails): CallToolResult {
+  return {
+    content: [{
+      type: 'text',
+      text: details.message
+    }, {
+      type: 'text',
+      text: JSON.stringify({ error: details }, null, 2)
+    }],
+    isError: true
+  };
+}
+
+/** Codes caused by the request itself rather than by the server or GAP */
+const CLIENT_ERROR_CODES = new Set<ToolErrorCode>([
+  'invalid_request',
+  'out_of_coverage',
+  'farm_not_found',
+  'alert_not_found',
+  'place_not_found',
+  'ambiguous_place'
+]);
+
+/**
+ * JSON-RPC error for a failed resource read or prompt
+ *
+ * Resources and prompts have no error result like tools, so the error code
+ * and farmer-facing message travel in the error's `data`.
+ */
+export function protocolErrorFromException(error: unknown): McpError {
+  const details = describeError(error);
+  return new McpError(CLIENT_ERROR_CODES.has(details.code) ? ErrorCode.InvalidParams : ErrorCode.InternalError, details.message, details);
+}
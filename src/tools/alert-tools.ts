@@ -0,0 +1,269 @@
+/**
+ * MCP tools for weather alert subscriptions
+ *
+ * Tools: create_alert_rule, list_alert_rules, delete_alert_rule, test_alert_rule
+ *
+ * @module tools/alert-tools
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { publicRule } from '../alert-store.js';
+import { buildAlertPayload, describeCondition, evaluateRule, sendAlert } from '../alerts.js';
+import { ALERT_PRESETS, AlertPresetId } from '../data/alert-presets.js';
+import { combineProvenance } from '../gap-client.js';
+import { describeLocation, resolveLocation } from '../location.js';
+import { toolError, toolErrorFromException } from '../tool-errors.js';
+import { formatDailyWeather } from '../weather-format.js';
+import { WebhookDeliveryError } from '../webhooks.js';
+import { locationArgs } from './args.js';
+import { ToolContext } from './context.js';
+import { locationSchema, provenanceSchema, toolResult } from './schemas.js';
+
+const PRESET_IDS = ALERT_PRESETS.map(preset => preset.id) as [AlertPresetId, ...AlertPresetId[]];
+
+const ALERT_ATTRIBUTES = ['max_temp', 'min_temp', 'precipitation', 'humidity', 'wind_speed'] as const;
+
+const OPERATORS = ['>', '>=', '<', '<='] as const;
+
+/** An alert rule as shown to callers (never with its secret) */
+const alertRuleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  preset: z.enum(PRESET_IDS).optional(),
+  attribute: z.enum(ALERT_ATTRIBUTES),
+  operator: z.enum(OPERATORS),
+  threshold: z.number().describe('In display units: °C, mm, %, m/s'),
+  min_consecutive_days: z.number(),
+  lead_days: z.number(),
+  latitude: z.number(),
+  longitude: z.number(),
+  farm_id: z.string().optional(),
+  webhook_url: z.string(),
+  owner_id: z.string().optional(),
+  created_at: z.string(),
+  last_evaluated_at: z.string().optional(),
+  last_triggered_at: z.string().optional()
+});
+
+/** Result of create_alert_rule */
+const createAlertOutput = {
+  alert: alertRuleSchema,
+  condition: z.string().describe('Plain-language condition'),
+  location: locationSchema,
+  signing_secret: z.string().describe('HMAC-SHA256 key for the X-GAP-Signature header (shown only once)'),
+  signature: z.string().describe('How to verify deliveries')
+};
+
+/** Result of list_alert_rules */
+const alertListOutput = {
+  count: z.number(),
+  alerts: z.array(alertRuleSchema.extend({ condition: z.string() }))
+};
+
+/** Result of delete_alert_rule */
+const deleteAlertOutput = {
+  deleted: z.literal(true),
+  alert_id: z.string()
+};
+
+/** Result of test_alert_rule */
+const testAlertOutput = {
+  alert: alertRuleSchema,
+  triggered: z.boolean(),
+  event: z.object({
+    event_id: z.string(),
+    start: z.string(),
+    end: z.string(),
+    days: z.number(),
+    peak_value: z.number().describe('Most extreme forecast value, in the direction of the condition'),
+    peak_date: z.string(),
+    values: z.array(z.object({ date: z.string(), value: z.number() })),
+    message: z.string()
+  }).nullable().describe('First forecast event matching the rule, if any'),
+  delivery: z.object({
+    delivered: z.boolean(),
+    status: z.number().nullable().describe('HTTP status of the last attempt (null when the receiver was unreachable)'),
+    attempts: z.number().optional(),
+    error: z.string().optional()
+  }),
+  provenance: provenanceSchema
+};
+
+/**
+ * Register the alert tools on a server
+ */
+export function registerAlertTools(server: McpServer, context: ToolContext): void {
+  const { alerts } = context;
+
+  server.registerTool(
+    'create_alert_rule',
+    {
+      description: 'Subscribe a location to a weather alert delivered as a signed webhook POST. Use a preset (heavy_rain: > 50 mm in a day; heat_wave: max > 32 °C for 3 days; frost: min <= 2 °C; dry_spell: < 1 mm a day for 7 days) or give attribute, operator and threshold; any preset field can be overridden. The forecast is checked periodically and each event is sent once. The response includes the signing secret, shown only here.',
+      inputSchema: {
+        ...locationArgs,
+        webhook_url: z.string().url().describe('URL that receives the alert POSTs (http or https)'),
+        preset: z.enum(PRESET_IDS).optional().describe('Ready-made condition: heavy_rain, heat_wave, frost or dry_spell'),
+        attribute: z.enum(ALERT_ATTRIBUTES).optional().describe('Daily forecast value to watch (required without a preset)'),
+        operator: z.enum(OPERATORS).optional().describe('Comparison with the threshold (required without a preset)'),
+        threshold: z.number().optional().describe('Threshold in display units: °C, mm, %, m/s (required without a preset)'),
+        min_consecutive_days: z.number().int().min(1).max(14).optional().describe('Consecutive days the condition must hold (default: 1, or the preset\'s)'),
+        lead_days: z.number().int().min(1).max(14).optional().describe('Forecast days ahead to watch (1-14, default: 7, or the preset\'s)'),
+        name: z.string().min(1).max(120).optional().describe('Name for the alert, e.g. "Frost at Molo plot" (default: preset or condition and location)'),
+        owner_id: z.string().min(1).optional().describe('Owner or client id the alert belongs to')
+      },
+      outputSchema: createAlertOutput
+    },
+    async ({ farm_id, latitude, longitude, place, webhook_url, preset, attribute, operator, threshold, min_consecutive_days, lead_days, name, owner_id }) => {
+      try {
+        const location = await resolveLocation({ farm_id, latitude, longitude, place }, context);
+
+        console.log(`[MCP Tool] create_alert_rule called: lat=${location.latitude}, lon=${location.longitude}, preset=${preset}, attribute=${attribute}`);
+
+        if (!/^https?:$/.test(new URL(webhook_url).protocol)) {
+          return toolError('invalid_request', 'The webhook URL must start with http:// or https://.');
+        }
+
+        const base = ALERT_PRESETS.find(entry => entry.id === preset);
+        const condition = {
+          attribute: attribute ?? base?.condition.attribute,
+          operator: operator ?? base?.condition.operator,
+          threshold: threshold ?? base?.condition.threshold,
+          min_consecutive_days: min_consecutive_days ?? base?.condition.min_consecutive_days ?? 1,
+          lead_days: lead_days ?? base?.condition.lead_days ?? 7
+        };
+        if (!condition.attribute || !condition.operator || condition.threshold === undefined) {
+          return toolError('invalid_request', 'Please choose a preset, or give attribute, operator and threshold.');
+        }
+        if (condition.min_consecutive_days > condition.lead_days) {
+          return toolError('invalid_request', 'min_consecutive_days cannot be longer than lead_days.');
+        }
+
+        const label = location.farm?.name ?? location.place?.label ?? `${location.latitude}, ${location.longitude}`;
+        const rule = await alerts.create({
+          name: name ?? `${base?.name ?? `${condition.attribute} ${condition.operator} ${condition.threshold}`} at ${label}`,
+          ...(preset ? { preset } : {}),
+          attribute: condition.attribute,
+          operator: condition.operator,
+          threshold: condition.threshold,
+          min_consecutive_days: condition.min_consecutive_days,
+          lead_days: condition.lead_days,
+          latitude: location.latitude,
+          longitude: location.longitude,
+          ...(location.farm ? { farm_id: location.farm.id } : {}),
+          webhook_url,
+          ...(owner_id ? { owner_id } : {})
+        });
+        console.log(`[MCP Tool] create_alert_rule: created ${rule.id} (${rule.name})`);
+
+        return toolResult(createAlertOutput, {
+          alert: publicRule(rule),
+          condition: describeCondition(rule),
+          location: describeLocation(location),
+          signing_secret: rule.secret,
+          signature: 'Each POST carries X-GAP-Event-Id, X-GAP-Timestamp and X-GAP-Signature: "sha256=" + hex HMAC-SHA256 of "<timestamp>.<raw body>" with the signing secret. Keep the secret; it is not shown again.'
+        });
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in create_alert_rule:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+
+  server.registerTool(
+    'list_alert_rules',
+    {
+      description: 'List weather alert subscriptions with their conditions, webhook and when they were last checked and triggered, optionally only those of one owner.',
+      inputSchema: {
+        owner_id: z.string().min(1).optional().describe('Only list alerts of this owner/client id')
+      },
+      outputSchema: alertListOutput
+    },
+    async ({ owner_id }) => {
+      try {
+        const rules = await alerts.list(owner_id);
+
+        return toolResult(alertListOutput, {
+          count: rules.length,
+          alerts: rules.map(rule => ({ ...publicRule(rule), condition: describeCondition(rule) }))
+        });
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in list_alert_rules:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+
+  server.registerTool(
+    'delete_alert_rule',
+    {
+      description: 'Delete a weather alert subscription.',
+      inputSchema: {
+        alert_id: z.string().min(1).describe('ID of the alert to delete')
+      },
+      outputSchema: deleteAlertOutput
+    },
+    async ({ alert_id }) => {
+      try {
+        await alerts.delete(alert_id);
+        console.log(`[MCP Tool] delete_alert_rule: deleted ${alert_id}`);
+
+        return toolResult(deleteAlertOutput, { deleted: true, alert_id });
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in delete_alert_rule:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+
+  server.registerTool(
+    'test_alert_rule',
+    {
+      description: 'Check an alert against the current forecast and send a signed test POST (type "alert.test") to its webhook, to confirm the receiver works. Test deliveries do not count as sent events.',
+      inputSchema: {
+        alert_id: z.string().min(1).describe('ID of the alert to test')
+      },
+      outputSchema: testAlertOutput
+    },
+    async ({ alert_id }, extra) => {
+      try {
+        const rule = await alerts.get(alert_id);
+
+        console.log(`[MCP Tool] test_alert_rule called: ${alert_id}`);
+
+        const gapClient = context.gapClient;
+        if (!gapClient) {
+          return toolError('not_configured');
+        }
+
+        const data = await gapClient.getForecast(rule.latitude, rule.longitude, rule.lead_days, { signal: extra.signal });
+        // The test POST carries the first event in the window
+        const [event = null] = evaluateRule(rule, formatDailyWeather(data.results));
+        const payload = buildAlertPayload(rule, event, 'alert.test', `${rule.id}:test:${Date.now()}`);
+
+        let delivery;
+        try {
+          delivery = { delivered: true, ...(await sendAlert(rule, payload)) };
+        } catch (error) {
+          if (!(error instanceof WebhookDeliveryError)) throw error;
+          delivery = { delivered: false, status: error.status ?? null, error: error.message };
+        }
+
+        return toolResult(testAlertOutput, {
+          alert: publicRule(rule),
+          triggered: event !== null,
+          event,
+          delivery,
+          provenance: combineProvenance(data)
+        });
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in test_alert_rule:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * Zod argument shapes shared by several tools
+ *
+ * @module tools/args
+ */
+
+import { z } from 'zod';
+import { OUTPUT_FORMATS } from '../renderers.js';
+
+/**
+ * Shared location arguments for the weather tools
+ */
+export const locationArgs = {
+  farm_id: z.string().min(1).optional().describe('ID of a registered farm (see list_farms). Used instead of latitude/longitude.'),
+  latitude: z.number().min(-90).max(90).optional().describe('Latitude coordinate (e.g., -1.2864 for Nairobi). Optional if farm_id or place is given, or if defaults come from headers or the server config.'),
+  longitude: z.number().min(-180).max(180).optional().describe('Longitude coordinate (e.g., 36.8172 for Nairobi). Optional if farm_id or place is given, or if defaults come from headers or the server config.'),
+  place: z.string().min(2).max(120).optional().describe('Place name instead of coordinates, e.g. "Kitale" or "Mbale, Uganda" (towns, sub-counties and counties in Kenya, Tanzania, Uganda and Ethiopia; see search_places)')
+};
+
+/**
+ * Shared argument for tools that can compare a period with the local climatology
+ */
+export const normalArgs = {
+  compare_to_normal: z.boolean().default(false).optional().describe('Compare the period with the local climatology of the last 10 years: rainfall total and mean temperatures with percentile rank and departure from normal (default: false). The first request for a location builds its baseline and can take a minute.')
+};
+
+/**
+ * Shared arguments for tools that can report ensemble uncertainty
+ */
+export const ensembleArgs = {
+  include_ensemble: z.boolean().default(false).optional().describe('Include forecast uncertainty per day: median, 10th/90th percentiles, min/max, standard deviation and threshold probabilities from the 50 ensemble members (default: false).'),
+  thresholds: z.array(z.object({
+    attribute: z.enum(['max_temp', 'min_temp', 'precipitation', 'humidity', 'wind_speed', 'solar_radiation']),
+    operator: z.enum(['>', '>=', '<', '<=']),
+    value: z.number().describe('Threshold in display units (°C, mm, %, m/s, W/m²)')
+  })).optional().describe('Custom thresholds for probabilities, e.g. [{"attribute":"precipitation","operator":">","value":5}]. Default: rain >1/5/20 mm, max temp >32 °C, min temp <5 °C.')
+};
+
+/**
+ * Shared argument for tools that can render their result as text other than JSON
+ */
+export const formatArgs = {
+  format: z.enum(OUTPUT_FORMATS).default('json').optional().describe('Format of the text content: json (default), csv (one row per day), geojson (a point per location), markdown (tables for chat) or sms (a digest of at most 160 characters). Structured content is always JSON.')
+};
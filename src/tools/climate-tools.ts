@@ -0,0 +1,123 @@
+/**
+ * MCP tools for local climatology
+ *
+ * Tools: get_climate_normals
+ *
+ * @module tools/climate-tools
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { buildDailyNormal, buildMonthlyNormals } from '../climatology.js';
+import { ISO_DATE_PATTERN, parseDate } from '../date-utils.js';
+import { describeLocation, resolveLocation } from '../location.js';
+import { toolError, toolErrorFromException } from '../tool-errors.js';
+import { locationArgs } from './args.js';
+import { ToolContext } from './context.js';
+import { progressReporter } from './progress.js';
+import { locationSchema, provenanceSchema, toolResult } from './schemas.js';
+
+const normalStatsSchema = z.object({
+  mean: z.number(),
+  p10: z.number(),
+  p50: z.number(),
+  p90: z.number(),
+  years: z.number()
+});
+
+/** Result of get_climate_normals */
+const climateNormalsOutput = {
+  location: locationSchema,
+  baseline: z.object({
+    years: z.string().describe('e.g. "2015-2024"'),
+    grid_point: z.object({ latitude: z.number(), longitude: z.number() }),
+    built_at: z.string()
+  }),
+  monthly: z.array(z.object({
+    month: z.number(),
+    name: z.string(),
+    precipitation: normalStatsSchema.nullable().describe('Monthly rain totals (mm)'),
+    rainy_days: z.number().nullable(),
+    max_temp: normalStatsSchema.nullable().describe('Monthly mean daily maximum temperature (°C)'),
+    min_temp: normalStatsSchema.nullable().describe('Monthly mean daily minimum temperature (°C)')
+  })),
+  daily: z.object({
+    date: z.string(),
+    max_temp: normalStatsSchema.nullable(),
+    min_temp: normalStatsSchema.nullable(),
+    precipitation_mean: z.number().nullable().describe('Mean daily rain (mm)'),
+    rain_day_probability: z.number().nullable().describe('Share of days with at least 1 mm of rain (0-1)')
+  }).optional().describe('Only with for_date'),
+  data_source: z.string(),
+  provenance: provenanceSchema
+};
+
+/**
+ * Register the climatology tools on a server
+ */
+export function registerClimateTools(server: McpServer, context: ToolContext): void {
+  server.registerTool(
+    'get_climate_normals',
+    {
+      description: 'Local climate normals from the last 10 years of observed weather: per month the average rainfall total (with 10th-90th percentile range), rainy days and mean day and night temperatures, plus normal conditions around a given date. Use for "what is normal here in March?" or "is this a usual amount of rain?". The first request for a location builds its baseline and can take a minute.',
+      inputSchema: {
+        ...locationArgs,
+        months: z.array(z.number().int().min(1).max(12)).min(1).max(12).optional().describe('Months to include (1-12, default: all)'),
+        for_date: z.string().regex(ISO_DATE_PATTERN, 'Use YYYY-MM-DD').optional().describe('Also give normal daily conditions around this date (YYYY-MM-DD, ±7 days)')
+      },
+      outputSchema: climateNormalsOutput
+    },
+    async ({ farm_id, latitude, longitude, place, months, for_date }, extra) => {
+      try {
+        const location = await resolveLocation({ farm_id, latitude, longitude, place }, context);
+        const lat = location.latitude;
+        const lon = location.longitude;
+
+        console.log(`[MCP Tool] get_climate_normals called: lat=${lat}, lon=${lon}, months=${months?.join(',') ?? 'all'}, for_date=${for_date}`);
+
+        if (for_date) {
+          try {
+            parseDate(for_date);
+          } catch (error: any) {
+            return toolError('invalid_request', error.message);
+          }
+        }
+
+        const gapClient = context.gapClient;
+        if (!gapClient) {
+          return toolError('not_configured');
+        }
+
+        const report = progressReporter(extra);
+        const record = await context.climatology.getRecord(gapClient, lat, lon, {
+          signal: extra.signal,
+          onProgress: (done, total) => report(done, total, `Climate baseline: year ${done} of ${total} fetched`)
+        });
+        const normals = buildMonthlyNormals(record)
+          .filter(month => !months || months.includes(month.month));
+
+        if (normals.every(month => month.precipitation === null && month.max_temp === null)) {
+          return toolError('invalid_response', 'No past weather data is available to build normals for this location.');
+        }
+
+        return toolResult(climateNormalsOutput, {
+          location: describeLocation(location),
+          baseline: {
+            years: `${record.start_year}-${record.end_year}`,
+            grid_point: { latitude: record.lat, longitude: record.lon },
+            built_at: record.built_at
+          },
+          monthly: normals,
+          ...(for_date ? { daily: buildDailyNormal(record, for_date) } : {}),
+          data_source: 'TomorrowNow GAP Platform (cbam_historical_analysis)',
+          // The baseline is cached on disk: its data dates from when it was built
+          provenance: [{ product: 'cbam_historical_analysis', retrieved_at: record.built_at, ensemble_size: null }]
+        });
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in get_climate_normals:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * Shared context passed to tool registration modules
+ *
+ * @module tools/context
+ */
+
+import type { AlertStore } from '../alert-store.js';
+import type { ClimatologyStore } from '../climatology.js';
+import type { ForecastSnapshotStore } from '../forecast-snapshots.js';
+import type { GAPClient } from '../gap-client.js';
+import type { LocationContext } from '../location.js';
+import type { RiskModelCatalog } from '../pest-risk.js';
+
+/**
+ * Everything a tool handler needs for one MCP request (or stateful session)
+ */
+export interface ToolContext extends LocationContext {
+  /** GAP client (null when GAP_API_TOKEN is not configured) */
+  gapClient: GAPClient | null;
+
+  /** Pest and disease risk models (built-in plus PEST_MODELS_PATH) */
+  riskModels: RiskModelCatalog;
+
+  /** Climatology baselines (CLIMATOLOGY_DIR) */
+  climatology: ClimatologyStore;
+
+  /** Recorded forecasts and their observations (FORECAST_SNAPSHOTS_PATH) */
+  forecastSnapshots: ForecastSnapshotStore;
+
+  /** Weather alert subscriptions (ALERTS_PATH) */
+  alerts: AlertStore;
+}
@@ -0,0 +1,179 @@
+/**
+ * MCP tools for crop development
+ *
+ * Tools: get_crop_stage
+ *
+ * @module tools/crop-tools
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { CropProfile } from '../data/crop-profiles.js';
+import { buildCropStageReport, buildGddSeries, findCropProfile, supportedCrops } from '../crop-stages.js';
+import { addDays, daysBetween, ISO_DATE_PATTERN, parseDate, today } from '../date-utils.js';
+import { combineProvenance, GAPResponse } from '../gap-client.js';
+import { describeLocation, resolveLocation } from '../location.js';
+import { toolError, toolErrorFromException } from '../tool-errors.js';
+import { DailyWeather, formatDailyWeather } from '../weather-format.js';
+import { locationArgs } from './args.js';
+import { ToolContext } from './context.js';
+import { progressReporter } from './progress.js';
+import { locationSchema, provenanceSchema, toolResult } from './schemas.js';
+
+/** Oldest planting date accepted, in days before today */
+const MAX_DAYS_SINCE_PLANTING = 366;
+
+/** Longest forecast horizon added to the observed GDD */
+const MAX_FORECAST_DAYS = 14;
+
+const stageTimingSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  gdd: z.number().describe('Degree days from planting at which the stage starts'),
+  status: z.enum(['reached', 'forecast', 'projected']).describe('reached: on an observed day; forecast: within the forecast; projected: after it, from the recent rate'),
+  date: z.string().nullable(),
+  days_after_planting: z.number().nullable()
+});
+
+/** Result of get_crop_stage */
+const cropStageOutput = {
+  location: locationSchema,
+  crop: z.object({
+    id: z.string(),
+    name: z.string(),
+    base_temp_c: z.number(),
+    cap_temp_c: z.number()
+  }),
+  planting_date: z.string(),
+  as_of: z.string(),
+  days_since_planting: z.number(),
+  gdd: z.object({
+    accumulated_to_date: z.number(),
+    forecast_additional: z.number(),
+    total_at_forecast_end: z.number(),
+    recent_daily_rate: z.number().nullable(),
+    estimated_days: z.number().describe('Days whose GDD was estimated because temperatures were missing')
+  }),
+  current_stage: z.object({ name: z.string(), description: z.string(), gdd: z.number() }).nullable(),
+  next_stage: stageTimingSchema.extend({ gdd_remaining: z.number() }).nullable(),
+  progress_to_maturity_pct: z.number(),
+  stages: z.array(stageTimingSchema),
+  method: z.string(),
+  daily: z.array(z.object({
+    date: z.string(),
+    max_temp: z.number().nullable(),
+    min_temp: z.number().nullable(),
+    gdd: z.number(),
+    cumulative_gdd: z.number(),
+    source: z.enum(['observed', 'forecast']),
+    estimated: z.boolean()
+  })).optional().describe('Only with include_daily'),
+  data_source: z.string(),
+  provenance: provenanceSchema
+};
+
+/**
+ * Register the crop development tools on a server
+ */
+export function registerCropTools(server: McpServer, context: ToolContext): void {
+  server.registerTool(
+    'get_crop_stage',
+    {
+      description: 'Track where a crop is in its development (e.g. "has my maize tasselled yet?", "when will the beans be ready?"). Adds up growing degree days from the planting date using observed weather and the forecast, and gives the current stage plus expected dates for emergence, flowering and maturity. Uses the farm\'s crop and planting date when farm_id is given.',
+      inputSchema: {
+        ...locationArgs,
+        crop: z.string().min(2).max(40).optional().describe('Crop, e.g. "maize", "beans", "sorghum", "potato" (default: the farm\'s first supported crop)'),
+        planting_date: z.string().regex(ISO_DATE_PATTERN).optional().describe('Planting date (YYYY-MM-DD, default: the farm\'s planting date)'),
+        forecast_days: z.number().int().min(0).max(MAX_FORECAST_DAYS).default(MAX_FORECAST_DAYS).optional().describe(`Forecast days to add after today (0-${MAX_FORECAST_DAYS}, default: ${MAX_FORECAST_DAYS})`),
+        include_daily: z.boolean().default(false).optional().describe('Include the day-by-day GDD series (default: false)')
+      },
+      outputSchema: cropStageOutput
+    },
+    async ({ farm_id, latitude, longitude, place, crop, planting_date, forecast_days = MAX_FORECAST_DAYS, include_daily }, extra) => {
+      try {
+        const location = await resolveLocation({ farm_id, latitude, longitude, place }, context);
+        const lat = location.latitude;
+        const lon = location.longitude;
+
+        console.log(`[MCP Tool] get_crop_stage called: lat=${lat}, lon=${lon}, crop=${crop}, planting_date=${planting_date}`);
+
+        // Crop: explicit argument, else the first farm crop we have a profile for
+        let profile: CropProfile | undefined;
+        if (crop) {
+          profile = findCropProfile(crop);
+          if (!profile) {
+            return toolError('invalid_request', `I don't have growth data for "${crop}" yet. Supported crops: ${supportedCrops()}.`);
+          }
+        } else {
+          profile = location.farm?.crops.map(findCropProfile).find(Boolean);
+          if (!profile) {
+            return toolError('invalid_request', `Please tell me which crop is planted. Supported crops: ${supportedCrops()}.`);
+          }
+        }
+
+        const plantingDate = planting_date ?? location.farm?.planting_date;
+        if (!plantingDate) {
+          return toolError('invalid_request', 'Please give the planting date (YYYY-MM-DD), or save it on the farm profile.');
+        }
+        try {
+          parseDate(plantingDate);
+        } catch {
+          return toolError('invalid_request', 'Invalid planting date. Please use a real calendar date in YYYY-MM-DD format.');
+        }
+
+        const asOf = today();
+        const daysSincePlanting = daysBetween(plantingDate, asOf);
+        if (daysSincePlanting > MAX_DAYS_SINCE_PLANTING) {
+          return toolError('invalid_request', `The planting date is more than ${MAX_DAYS_SINCE_PLANTING} days ago. Please check the date or start a new season.`);
+        }
+        if (daysSincePlanting < -forecast_days) {
+          return toolError('invalid_request', 'The planting date is beyond the forecast period. Ask again closer to planting.');
+        }
+
+        const gapClient = context.gapClient;
+        if (!gapClient) {
+          return toolError('not_configured');
+        }
+
+        // Observed weather from planting up to yesterday, forecast from today
+        const responses: GAPResponse[] = [];
+        let observed: DailyWeather[] = [];
+        if (daysSincePlanting > 0) {
+          const report = progressReporter(extra);
+          const history = await gapClient.getHistoricalRange(lat, lon, plantingDate, addDays(asOf, -1), {
+            signal: extra.signal,
+            onProgress: (done, total) => report(done, total, `Fetched ${done} of ${total} periods since planting`)
+          });
+          observed = formatDailyWeather(history.results);
+          responses.push(history);
+        }
+        let forecast: DailyWeather[] = [];
+        if (forecast_days > 0) {
+          const data = await gapClient.getForecast(lat, lon, forecast_days, { signal: extra.signal });
+          forecast = formatDailyWeather(data.results).filter(day => day.date >= asOf);
+          responses.push(data);
+        }
+
+        const series = buildGddSeries(profile, plantingDate, observed, forecast);
+        if (series.length === 0) {
+          return toolError('invalid_response', 'No temperature data is available for this location and period, so I can\'t work out the crop stage.');
+        }
+
+        const report = buildCropStageReport(profile, plantingDate, series, asOf);
+
+        return toolResult(cropStageOutput, {
+          location: describeLocation(location),
+          ...report,
+          method: `Growing degree days with base ${profile.base_temp_c} °C and cap ${profile.cap_temp_c} °C; stages after the forecast are projected from the average of the last 21 days. Stage thresholds are typical for medium-duration varieties and vary by variety and altitude.`,
+          ...(include_daily ? { daily: series } : {}),
+          data_source: 'TomorrowNow GAP Platform (historical analysis + forecast)',
+          provenance: combineProvenance(...responses)
+        });
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in get_crop_stage:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,169 @@
+/**
+ * MCP tools for the farm profile registry
+ *
+ * Tools: register_farm, update_farm, list_farms, delete_farm
+ *
+ * @module tools/farm-tools
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { ISO_DATE_PATTERN } from '../date-utils.js';
+import { toolError, toolErrorFromException } from '../tool-errors.js';
+import { ToolContext } from './context.js';
+import { farmSchema, toolResult } from './schemas.js';
+
+/**
+ * Farm fields shared by register_farm and update_farm
+ */
+const farmFields = {
+  name: z.string().min(1).max(120).describe('Farm name, e.g. "Wanjiru\'s shamba"'),
+  latitude: z.number().min(-90).max(90).describe('Latitude coordinate of the farm'),
+  longitude: z.number().min(-180).max(180).describe('Longitude coordinate of the farm'),
+  crops: z.array(z.string().min(1)).describe('Crops grown, e.g. ["maize", "beans"]'),
+  planting_date: z.string().regex(ISO_DATE_PATTERN).describe('Planting date of the current season (YYYY-MM-DD)'),
+  soil_type: z.string().min(1).describe('Soil type, e.g. "clay", "loam", "sandy"'),
+  owner_id: z.string().min(1).describe('Owner or client id the farm belongs to')
+};
+
+/** Result of register_farm and update_farm */
+const farmOutput = {
+  farm: farmSchema
+};
+
+/** Result of list_farms */
+const farmListOutput = {
+  count: z.number(),
+  farms: z.array(farmSchema)
+};
+
+/** Result of delete_farm */
+const deleteFarmOutput = {
+  deleted: z.literal(true),
+  farm_id: z.string()
+};
+
+/**
+ * Register the farm registry tools on a server
+ */
+export function registerFarmTools(server: McpServer, context: ToolContext): void {
+  const { registry } = context;
+
+  server.registerTool(
+    'register_farm',
+    {
+      description: 'Save a farm profile (name, location, crops, planting date, soil type) so later weather questions can use its farm_id instead of coordinates.',
+      inputSchema: {
+        ...farmFields,
+        crops: farmFields.crops.default([]).optional(),
+        planting_date: farmFields.planting_date.optional(),
+        soil_type: farmFields.soil_type.optional(),
+        owner_id: farmFields.owner_id.optional()
+      },
+      outputSchema: farmOutput
+    },
+    async ({ name, latitude, longitude, crops = [], planting_date, soil_type, owner_id }) => {
+      try {
+        if (!registry) {
+          return toolError('not_configured', 'Farm profiles are not enabled on this server.');
+        }
+
+        const farm = await registry.create({ name, latitude, longitude, crops, planting_date, soil_type, owner_id });
+        console.log(`[MCP Tool] register_farm: created ${farm.id} (${farm.name})`);
+
+        return toolResult(farmOutput, { farm });
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in register_farm:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+
+  server.registerTool(
+    'update_farm',
+    {
+      description: 'Update a saved farm profile, e.g. a new planting date or crop for this season. Only the fields provided are changed.',
+      inputSchema: {
+        farm_id: z.string().min(1).describe('ID of the farm to update'),
+        name: farmFields.name.optional(),
+        latitude: farmFields.latitude.optional(),
+        longitude: farmFields.longitude.optional(),
+        crops: farmFields.crops.optional(),
+        planting_date: farmFields.planting_date.optional(),
+        soil_type: farmFields.soil_type.optional(),
+        owner_id: farmFields.owner_id.optional()
+      },
+      outputSchema: farmOutput
+    },
+    async ({ farm_id, ...changes }) => {
+      try {
+        if (!registry) {
+          return toolError('not_configured', 'Farm profiles are not enabled on this server.');
+        }
+
+        const farm = await registry.update(farm_id, changes);
+        console.log(`[MCP Tool] update_farm: updated ${farm.id}`);
+
+        return toolResult(farmOutput, { farm });
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in update_farm:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+
+  server.registerTool(
+    'list_farms',
+    {
+      description: 'List saved farm profiles, optionally only those of one owner.',
+      inputSchema: {
+        owner_id: farmFields.owner_id.optional().describe('Only list farms of this owner/client id')
+      },
+      outputSchema: farmListOutput
+    },
+    async ({ owner_id }) => {
+      try {
+        if (!registry) {
+          return toolError('not_configured', 'Farm profiles are not enabled on this server.');
+        }
+
+        const farms = await registry.list(owner_id);
+
+        return toolResult(farmListOutput, { count: farms.length, farms });
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in list_farms:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+
+  server.registerTool(
+    'delete_farm',
+    {
+      description: 'Delete a saved farm profile.',
+      inputSchema: {
+        farm_id: z.string().min(1).describe('ID of the farm to delete')
+      },
+      outputSchema: deleteFarmOutput
+    },
+    async ({ farm_id }) => {
+      try {
+        if (!registry) {
+          return toolError('not_configured', 'Farm profiles are not enabled on this server.');
+        }
+
+        await registry.delete(farm_id);
+        console.log(`[MCP Tool] delete_farm: deleted ${farm_id}`);
+
+        return toolResult(deleteFarmOutput, { deleted: true, farm_id });
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in delete_farm:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,181 @@
+/**
+ * MCP tools for irrigation planning
+ *
+ * Tools: get_irrigation_schedule
+ *
+ * @module tools/irrigation-tools
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { formatFarmingForecast } from '../anomalies.js';
+import { CropProfile } from '../data/crop-profiles.js';
+import { SoilType } from '../data/soil-types.js';
+import { findCropProfile, supportedCrops } from '../crop-stages.js';
+import { today } from '../date-utils.js';
+import { DEFAULT_ELEVATION_M } from '../evapotranspiration.js';
+import { combineProvenance } from '../gap-client.js';
+import {
+  buildIrrigationSchedule,
+  findSoilType,
+  supportedSoilTypes,
+  IRRIGATION_EFFICIENCY,
+  IrrigationMethod
+} from '../irrigation.js';
+import { describeLocation, resolveLocation } from '../location.js';
+import { toolError, toolErrorFromException } from '../tool-errors.js';
+import { locationArgs } from './args.js';
+import { ToolContext } from './context.js';
+import { locationSchema, provenanceSchema, toolResult } from './schemas.js';
+
+/** Soil assumed when neither the request nor the farm profile names one */
+const DEFAULT_SOIL_TYPE = 'loam';
+
+const growthStages = ['initial', 'development', 'mid_season', 'late_season'] as const;
+const irrigationMethods = ['drip', 'sprinkler', 'furrow'] as const;
+
+/** Result of get_irrigation_schedule */
+const irrigationOutput = {
+  location: locationSchema,
+  crop: z.object({ id: z.string(), name: z.string(), growth_stage: z.enum(growthStages) }),
+  soil: z.object({ id: z.string(), name: z.string(), available_water_mm_per_m: z.number() }),
+  irrigation_method: z.object({ method: z.enum(irrigationMethods), efficiency: z.number() }),
+  parameters: z.object({
+    crop_coefficient: z.number(),
+    root_depth_m: z.number(),
+    total_available_water_mm: z.number(),
+    readily_available_water_mm: z.number(),
+    starting_depletion_mm: z.number(),
+    application_efficiency: z.number()
+  }),
+  days: z.array(z.object({
+    date: z.string(),
+    rainfall_mm: z.number().nullable(),
+    effective_rain_mm: z.number(),
+    et0_mm: z.number().nullable(),
+    et0_method: z.enum(['penman-monteith', 'hargreaves', 'unavailable']),
+    crop_et_mm: z.number(),
+    depletion_mm: z.number().describe('Root-zone depletion after rain and crop water use, before irrigation'),
+    action: z.enum(['irrigate', 'skip']),
+    net_irrigation_mm: z.number().describe('Water the root zone needs'),
+    gross_irrigation_mm: z.number().describe('Water to apply, allowing for the method\'s losses'),
+    litres_per_acre: z.number(),
+    reason: z.string()
+  })),
+  summary: z.object({
+    total_rainfall_mm: z.number(),
+    total_effective_rain_mm: z.number(),
+    total_crop_et_mm: z.number(),
+    irrigation_days: z.number(),
+    total_gross_irrigation_mm: z.number(),
+    total_litres_per_acre: z.number(),
+    next_irrigation_date: z.string().nullable()
+  }),
+  assumptions: z.array(z.string()),
+  data_source: z.string(),
+  provenance: provenanceSchema
+};
+
+/**
+ * Register the irrigation tools on a server
+ */
+export function registerIrrigationTools(server: McpServer, context: ToolContext): void {
+  server.registerTool(
+    'get_irrigation_schedule',
+    {
+      description: 'Plan irrigation for the coming days (e.g. "should I water my tomatoes this week, and how much?"). Estimates daily evapotranspiration from the forecast, runs a soil-water balance against forecast rain and returns an irrigate/skip recommendation per day with amounts in mm and litres per acre.',
+      inputSchema: {
+        ...locationArgs,
+        crop: z.string().min(2).max(40).optional().describe('Crop, e.g. "maize", "tomato", "beans" (default: the farm\'s first supported crop)'),
+        growth_stage: z.enum(growthStages).describe('Growth stage: initial (planting to ~10% ground cover), development (until full cover), mid_season (full cover to start of ripening), late_season (ripening to harvest)'),
+        soil_type: z.string().min(2).max(40).optional().describe(`Soil type, e.g. "sandy", "loam", "clay", "black cotton" (default: the farm's soil type, else ${DEFAULT_SOIL_TYPE})`),
+        soil_moisture: z.enum(['wet', 'moist', 'dry']).default('moist').optional().describe('How wet the soil is today: wet (after good rain or irrigation), moist, or dry (crop showing stress). Default: moist'),
+        irrigation_method: z.enum(irrigationMethods).default('sprinkler').optional().describe('Irrigation method, used to allow for losses (default: sprinkler)'),
+        days: z.number().int().min(1).max(14).default(7).optional().describe('Number of days to plan (1-14, default: 7)'),
+        elevation_m: z.number().min(-100).max(5000).optional().describe(`Farm elevation in metres (default: ${DEFAULT_ELEVATION_M})`)
+      },
+      outputSchema: irrigationOutput
+    },
+    async ({ farm_id, latitude, longitude, place, crop, growth_stage, soil_type, soil_moisture = 'moist', irrigation_method = 'sprinkler', days = 7, elevation_m }, extra) => {
+      try {
+        const location = await resolveLocation({ farm_id, latitude, longitude, place }, context);
+        const lat = location.latitude;
+        const lon = location.longitude;
+
+        console.log(`[MCP Tool] get_irrigation_schedule called: lat=${lat}, lon=${lon}, crop=${crop}, stage=${growth_stage}, soil=${soil_type}, days=${days}`);
+
+        let profile: CropProfile | undefined;
+        if (crop) {
+          profile = findCropProfile(crop);
+          if (!profile) {
+            return toolError('invalid_request', `I don't have water-use data for "${crop}" yet. Supported crops: ${supportedCrops()}.`);
+          }
+        } else {
+          profile = location.farm?.crops.map(findCropProfile).find(Boolean);
+          if (!profile) {
+            return toolError('invalid_request', `Please tell me which crop to irrigate. Supported crops: ${supportedCrops()}.`);
+          }
+        }
+
+        const assumptions: string[] = [];
+        const soilName = soil_type ?? location.farm?.soil_type;
+        let soil: SoilType | undefined;
+        if (soilName) {
+          soil = findSoilType(soilName);
+          if (!soil) {
+            return toolError('invalid_request', `I don't know the soil type "${soilName}". Supported soil types: ${supportedSoilTypes()}.`);
+          }
+        } else {
+          soil = findSoilType(DEFAULT_SOIL_TYPE)!;
+          assumptions.push(`No soil type given, so ${soil.name.toLowerCase()} was assumed.`);
+        }
+        if (elevation_m === undefined) {
+          assumptions.push(`Elevation assumed to be ${DEFAULT_ELEVATION_M} m.`);
+        }
+
+        const gapClient = context.gapClient;
+        if (!gapClient) {
+          return toolError('not_configured');
+        }
+
+        const data = await gapClient.getFarmingForecast(lat, lon, days, { signal: extra.signal });
+        const weather = formatFarmingForecast(data.results)
+          .filter(day => day.date >= today())
+          .slice(0, days);
+
+        if (weather.length === 0) {
+          return toolError('invalid_response', 'No forecast data available for this location. Please check if the coordinates are correct.');
+        }
+
+        const schedule = buildIrrigationSchedule({
+          crop: profile,
+          stage: growth_stage,
+          soil,
+          soilMoisture: soil_moisture,
+          method: irrigation_method as IrrigationMethod,
+          latitude: lat,
+          elevation: elevation_m
+        }, weather);
+
+        if (schedule.days.some(day => day.et0_method === 'hargreaves')) {
+          assumptions.push('Humidity, wind or sunshine data was missing on some days, so evapotranspiration was estimated from temperature only (Hargreaves).');
+        }
+
+        return toolResult(irrigationOutput, {
+          location: describeLocation(location),
+          crop: { id: profile.id, name: profile.name, growth_stage },
+          soil: { id: soil.id, name: soil.name, available_water_mm_per_m: soil.available_water_mm_per_m },
+          irrigation_method: { method: irrigation_method, efficiency: IRRIGATION_EFFICIENCY[irrigation_method as IrrigationMethod] },
+          ...schedule,
+          assumptions,
+          data_source: 'TomorrowNow GAP Platform (seasonal forecast); FAO-56 evapotranspiration and water balance',
+          provenance: combineProvenance(data)
+        });
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in get_irrigation_schedule:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,130 @@
+/**
+ * MCP tools for livestock
+ *
+ * Tools: get_livestock_heat_stress
+ *
+ * @module tools/livestock-tools
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { LIVESTOCK_SPECIES, LivestockSpecies } from '../data/livestock.js';
+import { today } from '../date-utils.js';
+import { combineProvenance } from '../gap-client.js';
+import { buildHeatStressReport, findSpecies, supportedSpecies } from '../heat-stress.js';
+import { describeLocation, resolveLocation } from '../location.js';
+import { toolError, toolErrorFromException } from '../tool-errors.js';
+import { formatDailyWeather } from '../weather-format.js';
+import { locationArgs } from './args.js';
+import { ToolContext } from './context.js';
+import { locationSchema, provenanceSchema, toolResult } from './schemas.js';
+
+const stressCategory = z.enum(['normal', 'alert', 'danger', 'emergency']);
+
+/** Result of get_livestock_heat_stress */
+const heatStressOutput = {
+  location: locationSchema,
+  period: z.object({ start: z.string(), end: z.string(), days: z.number() }),
+  summary: z.array(z.string()).describe('One headline per species'),
+  species: z.array(z.object({
+    species: z.object({
+      id: z.string(),
+      name: z.string(),
+      formula: z.enum(['nrc', 'small_ruminant', 'poultry']).describe('THI formula'),
+      thresholds: z.object({ alert: z.number(), danger: z.number(), emergency: z.number() }).describe('THI at which each category starts')
+    }),
+    peak_category: stressCategory,
+    worst_case_category: stressCategory.nullable().describe('Worst category including the ensemble worst case'),
+    first_stress_date: z.string().nullable().describe('First day at alert or above'),
+    days_by_category: z.object({ normal: z.number(), alert: z.number(), danger: z.number(), emergency: z.number() }),
+    nights_without_relief: z.array(z.string()).describe('Hot days followed by a night with no relief'),
+    headline: z.string(),
+    advice: z.array(z.string()),
+    days: z.array(z.object({
+      date: z.string(),
+      max_temp: z.number().nullable(),
+      min_temp: z.number().nullable(),
+      humidity: z.number().nullable(),
+      thi: z.number().nullable().describe('THI at the day\'s maximum temperature'),
+      category: stressCategory.nullable(),
+      night_thi: z.number().nullable().describe('THI at the night\'s minimum temperature'),
+      night_relief: z.boolean().nullable(),
+      worst_case: z.object({
+        max_temp: z.number(),
+        humidity: z.number(),
+        thi: z.number(),
+        category: stressCategory
+      }).nullable().describe('90th percentile case from the ensemble')
+    }))
+  })),
+  note: z.string(),
+  data_source: z.string(),
+  provenance: provenanceSchema
+};
+
+/**
+ * Register the livestock tools on a server
+ */
+export function registerLivestockTools(server: McpServer, context: ToolContext): void {
+  server.registerTool(
+    'get_livestock_heat_stress',
+    {
+      description: 'Heat stress warnings for cattle, dairy cows, goats, sheep and poultry. Computes the Temperature-Humidity Index (THI) per day from forecast temperature and humidity, classifies it as normal / alert / danger / emergency for each species, shows a worst case from the ensemble (90th percentile) and gives management advice (shade, watering times, when to move herds).',
+      inputSchema: {
+        ...locationArgs,
+        species: z.array(z.string().min(2).max(40)).min(1).max(10).optional().describe('Species, e.g. ["cattle", "goats", "poultry"] or local names like "ngombe", "mbuzi", "kuku" (default: all)'),
+        days: z.number().int().min(1).max(14).default(7).optional().describe('Number of forecast days (1-14, default: 7)')
+      },
+      outputSchema: heatStressOutput
+    },
+    async ({ farm_id, latitude, longitude, place, species, days = 7 }, extra) => {
+      try {
+        const location = await resolveLocation({ farm_id, latitude, longitude, place }, context);
+        const lat = location.latitude;
+        const lon = location.longitude;
+
+        console.log(`[MCP Tool] get_livestock_heat_stress called: lat=${lat}, lon=${lon}, species=${species?.join(',') ?? 'all'}, days=${days}`);
+
+        let selected: LivestockSpecies[] = LIVESTOCK_SPECIES;
+        if (species) {
+          const unknown = species.filter(name => !findSpecies(name));
+          if (unknown.length > 0) {
+            return toolError('invalid_request', `I don't have heat stress thresholds for ${unknown.map(name => `"${name}"`).join(', ')}. Supported species: ${supportedSpecies()}.`);
+          }
+          selected = Array.from(new Set(species.map(name => findSpecies(name)!)));
+        }
+
+        const gapClient = context.gapClient;
+        if (!gapClient) {
+          return toolError('not_configured');
+        }
+
+        // Ensemble statistics give the worst case (90th percentile) per day
+        const data = await gapClient.getForecast(lat, lon, days, { ensemble: true, signal: extra.signal });
+        const weather = formatDailyWeather(data.results)
+          .filter(day => day.date >= today())
+          .slice(0, days);
+
+        if (weather.length === 0) {
+          return toolError('invalid_response', 'No forecast data available for this location. Please check if the coordinates are correct.');
+        }
+
+        const reports = selected.map(entry => buildHeatStressReport(entry, weather));
+
+        return toolResult(heatStressOutput, {
+          location: describeLocation(location),
+          period: { start: weather[0].date, end: weather[weather.length - 1].date, days: weather.length },
+          summary: reports.map(report => report.headline),
+          species: reports,
+          note: 'THI uses daily maximum temperature with daily mean humidity, so midday stress is approximate. The worst case combines the 90th percentiles of temperature and humidity and is deliberately cautious.',
+          data_source: 'TomorrowNow GAP Platform (salient_seasonal_forecast, 50-member ensemble)',
+          provenance: combineProvenance(data)
+        });
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in get_livestock_heat_stress:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+}
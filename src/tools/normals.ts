@@ -0,0 +1,35 @@
+/**
+ * Comparison with normal for the tools that take `compare_to_normal`
+ *
+ * @module tools/normals
+ */
+
+import { ClimatologyStore, ComparableDay, compareToNormal, NormalComparison } from '../climatology.js';
+import { GAPCancelledError } from '../errors.js';
+import { GAPClient, GAPRequestOptions } from '../gap-client.js';
+import { describeError, ToolErrorDetails } from '../tool-errors.js';
+
+/**
+ * Compare a period with the local climatology
+ *
+ * A baseline that cannot be built is reported in place of the comparison,
+ * so the weather data itself is still returned. Cancellation is not: it
+ * ends the whole tool call.
+ */
+export async function compareWithClimatology(
+  climatology: ClimatologyStore,
+  client: GAPClient,
+  lat: number,
+  lon: number,
+  days: ComparableDay[],
+  options: GAPRequestOptions = {}
+): Promise<NormalComparison | { error: ToolErrorDetails }> {
+  try {
+    const record = await climatology.getRecord(client, lat, lon, options);
+    return compareToNormal(record, days);
+  } catch (error) {
+    if (error instanceof GAPCancelledError) throw error;
+    console.error('[MCP Tool] Climatology baseline failed:', error);
+    return { error: describeError(error) };
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * MCP tools for field operation timing
+ *
+ * Tools: get_field_operation_windows
+ *
+ * @module tools/operations-tools
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { formatFarmingForecast } from '../anomalies.js';
+import { FIELD_OPERATIONS, FieldOperationId } from '../data/field-operations.js';
+import { addDays, today } from '../date-utils.js';
+import { GAPCancelledError } from '../errors.js';
+import { OperationWeather, planOperation } from '../field-operations.js';
+import { combineProvenance, GAPResponse } from '../gap-client.js';
+import { describeLocation, resolveLocation } from '../location.js';
+import { toolError, toolErrorFromException } from '../tool-errors.js';
+import { formatDailyWeather } from '../weather-format.js';
+import { locationArgs } from './args.js';
+import { ToolContext } from './context.js';
+import { locationSchema, provenanceSchema, toolResult } from './schemas.js';
+
+/** Extra forecast days fetched so the last planned day can be checked for rain afterwards */
+const LOOKAHEAD_DAYS = 2;
+
+const thresholdArgs = z.object({
+  max_wind_ms: z.number().min(0).max(30).optional().describe('Highest daily mean wind speed (m/s)'),
+  max_rain_mm: z.number().min(0).max(100).optional().describe('Most rain on the day (mm)'),
+  rain_free_hours: z.number().min(0).max(72).optional().describe('Hours after the operation that must stay dry'),
+  max_rain_previous_day_mm: z.number().min(0).max(100).optional().describe('Most rain the day before (mm)'),
+  max_humidity_pct: z.number().min(0).max(100).optional().describe('Highest daily mean relative humidity (%)'),
+  min_solar_radiation_wm2: z.number().min(0).max(500).optional().describe('Lowest daily mean solar radiation (W/m²)'),
+  max_temp_c: z.number().min(-10).max(60).optional().describe('Highest maximum temperature (°C)')
+});
+
+/** Result of get_field_operation_windows */
+const operationWindowsOutput = {
+  location: locationSchema,
+  period: z.object({ start: z.string(), days: z.number() }),
+  summary: z.array(z.string()).describe('One headline per operation'),
+  operations: z.array(z.object({
+    operation: z.object({ id: z.string(), name: z.string(), description: z.string() }),
+    thresholds: thresholdArgs.describe('Thresholds applied (defaults merged with overrides)'),
+    best_days: z.array(z.string()).describe('Up to three best suitable dates, best first'),
+    headline: z.string(),
+    days: z.array(z.object({
+      rank: z.number().describe('1 = best day for the operation'),
+      date: z.string(),
+      status: z.enum(['suitable', 'unsuitable', 'uncertain']),
+      score: z.number().describe('0-100: how comfortably the day clears the limits (0 when a check fails)'),
+      passed: z.array(z.string()),
+      failed: z.array(z.string()),
+      unknown: z.array(z.string()).describe('Checks that could not be judged because data is missing')
+    })).describe('Days in rank order')
+  })),
+  note: z.string(),
+  data_source: z.string(),
+  provenance: provenanceSchema
+};
+
+/**
+ * Register the field operation tools on a server
+ */
+export function registerOperationsTools(server: McpServer, context: ToolContext): void {
+  server.registerTool(
+    'get_field_operation_windows',
+    {
+      description: 'Rank the coming days for spraying (light wind, no rain for some hours afterwards), harvesting (dry day after a dry day, low humidity) and sun-drying grain (dry, sunny, low humidity, next day dry). Each day is marked suitable / unsuitable / uncertain with the reasons it passed or failed. Thresholds can be overridden per operation.',
+      inputSchema: {
+        ...locationArgs,
+        operations: z.array(z.enum(['spraying', 'harvesting', 'drying'])).min(1).optional().describe('Operations to plan (default: all)'),
+        days: z.number().int().min(1).max(14).default(7).optional().describe('Number of days to rank (1-14, default: 7)'),
+        thresholds: z.object({
+          spraying: thresholdArgs.optional(),
+          harvesting: thresholdArgs.optional(),
+          drying: thresholdArgs.optional()
+        }).optional().describe('Override default thresholds per operation, e.g. {"spraying": {"max_wind_ms": 3, "rain_free_hours": 12}}')
+      },
+      outputSchema: operationWindowsOutput
+    },
+    async ({ farm_id, latitude, longitude, place, operations, days = 7, thresholds }, extra) => {
+      try {
+        const location = await resolveLocation({ farm_id, latitude, longitude, place }, context);
+        const lat = location.latitude;
+        const lon = location.longitude;
+
+        console.log(`[MCP Tool] get_field_operation_windows called: lat=${lat}, lon=${lon}, operations=${operations?.join(',') ?? 'all'}, days=${days}`);
+
+        const gapClient = context.gapClient;
+        if (!gapClient) {
+          return toolError('not_configured');
+        }
+
+        const selected = FIELD_OPERATIONS
+          .filter(operation => !operations || operations.includes(operation.id))
+          .map(operation => ({
+            operation,
+            thresholds: { ...operation.thresholds, ...thresholds?.[operation.id as FieldOperationId] }
+          }));
+
+        const asOf = today();
+        const data = await gapClient.getFarmingForecast(lat, lon, days + LOOKAHEAD_DAYS, { signal: extra.signal });
+        const weather: OperationWeather[] = formatFarmingForecast(data.results).filter(day => day.date >= asOf);
+
+        if (weather.length === 0) {
+          return toolError('invalid_response', 'No forecast data available for this location. Please check if the coordinates are correct.');
+        }
+
+        // Look-back checks on the first day need yesterday's observed rain
+        const responses: GAPResponse[] = [data];
+        if (selected.some(({ thresholds: limits }) => limits.max_rain_previous_day_mm !== undefined)) {
+          const yesterday = addDays(asOf, -1);
+          try {
+            const history = await gapClient.getHistoricalRange(lat, lon, yesterday, yesterday, { signal: extra.signal });
+            const observed = formatDailyWeather(history.results).find(day => day.date === yesterday);
+            if (observed) {
+              weather.unshift({ ...observed, solar_radiation: null });
+              responses.push(history);
+            }
+          } catch (error: any) {
+            if (error instanceof GAPCancelledError) throw error;
+            console.warn(`[MCP Tool] get_field_operation_windows: no observed weather for ${yesterday}: ${error.message}`);
+          }
+        }
+
+        const plans = selected.map(({ operation, thresholds: limits }) =>
+          planOperation(operation, limits, weather, asOf, days));
+
+        return toolResult(operationWindowsOutput, {
+          location: describeLocation(location),
+          period: { start: asOf, days },
+          summary: plans.map(plan => plan.headline),
+          operations: plans,
+          note: 'Checks use daily forecast values (mean wind and humidity, total rain). Check the sky and wind on the morning itself before spraying.',
+          data_source: 'TomorrowNow GAP Platform (seasonal forecast)',
+          provenance: combineProvenance(...responses)
+        });
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in get_field_operation_windows:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,134 @@
+/**
+ * MCP tools for pest and disease risk
+ *
+ * Tools: get_pest_disease_risk
+ *
+ * @module tools/pest-tools
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { RiskModel } from '../data/risk-models.js';
+import { today } from '../date-utils.js';
+import { combineProvenance } from '../gap-client.js';
+import { describeLocation, resolveLocation } from '../location.js';
+import { coveredCrops, evaluateRiskModel, modelsForCrop, rankAssessments } from '../pest-risk.js';
+import { toolError, toolErrorFromException } from '../tool-errors.js';
+import { formatDailyWeather } from '../weather-format.js';
+import { locationArgs } from './args.js';
+import { ToolContext } from './context.js';
+import { locationSchema, provenanceSchema, toolResult } from './schemas.js';
+
+const riskLevel = z.enum(['low', 'medium', 'high']);
+
+/** Result of get_pest_disease_risk */
+const pestRiskOutput = {
+  location: locationSchema,
+  period: z.object({ start: z.string(), end: z.string(), days: z.number() }),
+  summary: z.array(z.string()).describe('One line per model with elevated risk'),
+  assessments: z.array(z.object({
+    model: z.object({
+      id: z.string(),
+      name: z.string(),
+      type: z.enum(['disease', 'pest']),
+      crops: z.array(z.string()),
+      description: z.string()
+    }),
+    peak_risk: riskLevel,
+    peak_date: z.string().nullable().describe('First day at the peak risk level'),
+    scout_by: z.string().nullable().describe('First day at medium or high risk'),
+    high_risk_days: z.array(z.string()),
+    advice: z.string(),
+    days: z.array(z.object({
+      date: z.string(),
+      risk: riskLevel,
+      score: z.number(),
+      triggers: z.array(z.string()).describe('Conditions that were met'),
+      missing: z.array(z.enum(['max_temp', 'min_temp', 'mean_temp', 'humidity', 'precipitation', 'precipitation_3day', 'wind_speed', 'gdd'])).optional()
+        .describe('Fields the model needed but the forecast did not provide')
+    }))
+  })).describe('Highest risk first'),
+  note: z.string(),
+  data_source: z.string(),
+  provenance: provenanceSchema
+};
+
+/**
+ * Register the pest and disease tools on a server
+ */
+export function registerPestTools(server: McpServer, context: ToolContext): void {
+  server.registerTool(
+    'get_pest_disease_risk',
+    {
+      description: 'Score pest and disease risk from the daily forecast (e.g. late blight on potato and tomato, fall armyworm on maize, coffee leaf rust, wheat rusts). Returns low/medium/high risk per day with the weather conditions that triggered it, the date to scout by and what to do, so scouting and spraying can be timed.',
+      inputSchema: {
+        ...locationArgs,
+        crop: z.string().min(2).max(40).optional().describe('Crop to check, e.g. "potato", "maize", "coffee", "wheat" (default: the farm\'s crops, else all models)'),
+        model: z.string().min(2).max(60).optional().describe('Run a single model by id, e.g. "late_blight", "fall_armyworm", "coffee_leaf_rust"'),
+        days: z.number().int().min(1).max(14).default(7).optional().describe('Number of forecast days to score (1-14, default: 7)')
+      },
+      outputSchema: pestRiskOutput
+    },
+    async ({ farm_id, latitude, longitude, place, crop, model, days = 7 }, extra) => {
+      try {
+        const location = await resolveLocation({ farm_id, latitude, longitude, place }, context);
+        const lat = location.latitude;
+        const lon = location.longitude;
+
+        console.log(`[MCP Tool] get_pest_disease_risk called: lat=${lat}, lon=${lon}, crop=${crop}, model=${model}, days=${days}`);
+
+        const allModels = await context.riskModels.list();
+        let models: RiskModel[];
+        if (model) {
+          const found = allModels.find(candidate => candidate.id === model);
+          if (!found) {
+            return toolError('invalid_request', `Unknown risk model "${model}". Available models: ${allModels.map(candidate => candidate.id).join(', ')}.`);
+          }
+          models = [found];
+        } else if (crop) {
+          models = modelsForCrop(allModels, crop);
+          if (models.length === 0) {
+            return toolError('invalid_request', `I don't have pest or disease models for "${crop}" yet. Covered crops: ${coveredCrops(allModels)}.`);
+          }
+        } else {
+          const farmCrops = location.farm?.crops ?? [];
+          const farmModels = allModels.filter(candidate => farmCrops.some(farmCrop => modelsForCrop([candidate], farmCrop).length > 0));
+          models = farmModels.length > 0 ? farmModels : allModels;
+        }
+
+        const gapClient = context.gapClient;
+        if (!gapClient) {
+          return toolError('not_configured');
+        }
+
+        const data = await gapClient.getForecast(lat, lon, days, { signal: extra.signal });
+        const weather = formatDailyWeather(data.results)
+          .filter(day => day.date >= today())
+          .slice(0, days);
+
+        if (weather.length === 0) {
+          return toolError('invalid_response', 'No forecast data available for this location. Please check if the coordinates are correct.');
+        }
+
+        const assessments = rankAssessments(models.map(candidate => evaluateRiskModel(candidate, weather)));
+        const elevated = assessments.filter(assessment => assessment.peak_risk !== 'low');
+
+        return toolResult(pestRiskOutput, {
+          location: describeLocation(location),
+          period: { start: weather[0].date, end: weather[weather.length - 1].date, days: weather.length },
+          summary: elevated.length > 0
+            ? elevated.map(assessment => `${assessment.model.name}: ${assessment.peak_risk} risk from ${assessment.scout_by}. ${assessment.advice}`)
+            : ['No elevated pest or disease risk in the forecast period.'],
+          assessments,
+          note: 'Risk is estimated from daily forecast weather only; it does not know whether the pest or disease is already present. Confirm by scouting before spraying.',
+          data_source: 'TomorrowNow GAP Platform (salient_seasonal_forecast); rule-based risk models',
+          provenance: combineProvenance(data)
+        });
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in get_pest_disease_risk:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,57 @@
+/**
+ * MCP tools for the offline place-name gazetteer
+ *
+ * Tools: search_places
+ *
+ * @module tools/place-tools
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { searchPlaces } from '../gazetteer.js';
+import { toolErrorFromException } from '../tool-errors.js';
+import { ToolContext } from './context.js';
+import { placeMatchSchema, toolResult } from './schemas.js';
+
+/** Result of search_places */
+const searchPlacesOutput = {
+  query: z.string(),
+  count: z.number(),
+  places: z.array(placeMatchSchema).describe('Best match first'),
+  message: z.string().optional().describe('Hint when nothing matched')
+};
+
+/**
+ * Register the place lookup tools on a server
+ */
+export function registerPlaceTools(server: McpServer, _context: ToolContext): void {
+  server.registerTool(
+    'search_places',
+    {
+      description: 'Look up a town, sub-county or county in Kenya, Tanzania, Uganda or Ethiopia by name (spelling mistakes are tolerated). Use it to confirm a farmer\'s location before asking for a forecast; the weather tools also accept the name directly as `place`.',
+      inputSchema: {
+        query: z.string().min(2).max(120).describe('Place name, optionally with its county or country, e.g. "Kitale", "Mbale, Uganda"'),
+        country: z.enum(['KE', 'TZ', 'UG', 'ET']).optional().describe('Only search this country (ISO code)'),
+        limit: z.number().int().min(1).max(20).default(5).optional().describe('Maximum number of matches (default: 5)')
+      },
+      outputSchema: searchPlacesOutput
+    },
+    async ({ query, country, limit = 5 }) => {
+      try {
+        const places = searchPlaces(query, { country, limit });
+        console.log(`[MCP Tool] search_places: "${query}" -> ${places.length} match(es)`);
+
+        return toolResult(searchPlacesOutput, {
+          query,
+          count: places.length,
+          places,
+          ...(places.length === 0 ? { message: 'No matching place found. Try the nearest town, or give latitude and longitude.' } : {})
+        });
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in search_places:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,149 @@
+/**
+ * MCP tools for planting decisions
+ *
+ * Tools: get_planting_advice
+ *
+ * @module tools/planting-tools
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { CropProfile } from '../data/crop-profiles.js';
+import { findCropProfile, supportedCrops } from '../crop-stages.js';
+import { addDays, today } from '../date-utils.js';
+import { combineProvenance } from '../gap-client.js';
+import { describeLocation, resolveLocation } from '../location.js';
+import { buildPlantingAdvice, plantingRuleFor } from '../planting-window.js';
+import { RainDay } from '../rainfall-stats.js';
+import { toolError, toolErrorFromException } from '../tool-errors.js';
+import { formatDailyWeather } from '../weather-format.js';
+import { locationArgs } from './args.js';
+import { ToolContext } from './context.js';
+import { drySpellSchema, locationSchema, provenanceSchema, toolResult } from './schemas.js';
+
+/** Days of observed rainfall scanned for a recent onset */
+const RECENT_DAYS = 30;
+
+/** Days of forecast scanned for an upcoming onset and dry spells */
+const FORECAST_DAYS = 30;
+
+/** Result of get_planting_advice */
+const plantingOutput = {
+  location: locationSchema,
+  crop: z.object({ id: z.string(), name: z.string() }).nullable().describe('null when general rules were used'),
+  as_of: z.string(),
+  verdict: z.enum(['plant_now', 'wait', 'risky']),
+  headline: z.string(),
+  expected_window_open: z.string().nullable().describe('Date from which planting is expected to be safe (null when no window is in sight)'),
+  confidence: z.enum(['high', 'medium', 'low']),
+  rule: z.object({
+    onset_rain_mm: z.number(),
+    onset_window_days: z.number(),
+    min_wet_days: z.number(),
+    wet_day_mm: z.number(),
+    dry_spell_days: z.number(),
+    dry_spell_check_days: z.number()
+  }),
+  evidence: z.object({
+    recent_rain: z.object({
+      last_7_days_mm: z.number().nullable(),
+      last_14_days_mm: z.number().nullable(),
+      last_30_days_mm: z.number().nullable(),
+      wet_days_last_14: z.number()
+    }),
+    forecast_rain: z.object({
+      next_7_days_mm: z.number().nullable(),
+      next_14_days_mm: z.number().nullable(),
+      next_30_days_mm: z.number().nullable()
+    }),
+    onset: z.object({
+      start: z.string(),
+      end: z.string(),
+      rain_mm: z.number(),
+      wet_days: z.number(),
+      source: z.enum(['observed', 'forecast', 'mixed']),
+      longest_dry_spell: drySpellSchema.nullable(),
+      checked_days: z.number(),
+      passes: z.boolean(),
+      verified: z.boolean()
+    }).nullable().describe('The onset window behind the verdict, if any'),
+    longest_forecast_dry_spell: drySpellSchema.nullable(),
+    reasons: z.array(z.string())
+  }),
+  data_source: z.string(),
+  provenance: provenanceSchema
+};
+
+/**
+ * Register the planting tools on a server
+ */
+export function registerPlantingTools(server: McpServer, context: ToolContext): void {
+  server.registerTool(
+    'get_planting_advice',
+    {
+      description: 'Answer "should I plant now?". Checks the last 30 days of observed rain and the next 30 days of forecast for the start of the rainy season (e.g. at least 20 mm over 3 days with no 7-day dry spell in the following 21 days, adjusted per crop) and returns plant now / wait / risky, the expected planting date and the evidence.',
+      inputSchema: {
+        ...locationArgs,
+        crop: z.string().min(2).max(40).optional().describe('Crop to plant, e.g. "maize", "beans", "sorghum" (default: the farm\'s first supported crop, else general rules)')
+      },
+      outputSchema: plantingOutput
+    },
+    async ({ farm_id, latitude, longitude, place, crop }, extra) => {
+      try {
+        const location = await resolveLocation({ farm_id, latitude, longitude, place }, context);
+        const lat = location.latitude;
+        const lon = location.longitude;
+
+        console.log(`[MCP Tool] get_planting_advice called: lat=${lat}, lon=${lon}, crop=${crop}`);
+
+        let profile: CropProfile | undefined;
+        if (crop) {
+          profile = findCropProfile(crop);
+          if (!profile) {
+            return toolError('invalid_request', `I don't have planting rules for "${crop}" yet. Supported crops: ${supportedCrops()}.`);
+          }
+        } else {
+          profile = location.farm?.crops.map(findCropProfile).find(Boolean);
+        }
+
+        const gapClient = context.gapClient;
+        if (!gapClient) {
+          return toolError('not_configured');
+        }
+
+        const asOf = today();
+        const history = await gapClient.getHistoricalRange(lat, lon, addDays(asOf, -RECENT_DAYS), addDays(asOf, -1), { signal: extra.signal });
+        // Over MAX_REQUEST_RANGE_DAYS: the seasonal call fetches it in chunks
+        const forecast = await gapClient.getSeasonalForecast(lat, lon, FORECAST_DAYS, { signal: extra.signal });
+
+        const series: RainDay[] = [
+          ...formatDailyWeather(history.results)
+            .filter(day => day.date < asOf)
+            .map(day => ({ date: day.date, precipitation: day.precipitation, source: 'observed' as const })),
+          ...formatDailyWeather(forecast.results)
+            .filter(day => day.date >= asOf)
+            .map(day => ({ date: day.date, precipitation: day.precipitation, source: 'forecast' as const }))
+        ];
+
+        if (series.every(day => day.precipitation === null)) {
+          return toolError('invalid_response', 'No rainfall data is available for this location, so I can\'t judge the planting window.');
+        }
+
+        const advice = buildPlantingAdvice(series, plantingRuleFor(profile?.id), asOf);
+
+        return toolResult(plantingOutput, {
+          location: describeLocation(location),
+          crop: profile ? { id: profile.id, name: profile.name } : null,
+          as_of: asOf,
+          ...advice,
+          data_source: 'TomorrowNow GAP Platform (cbam_historical_analysis + salient_seasonal_forecast)',
+          provenance: combineProvenance(history, forecast)
+        });
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in get_planting_advice:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,54 @@
+/**
+ * Progress notifications for long-running tools
+ *
+ * Tools that make several GAP requests report progress when the client
+ * asked for it (a `progressToken` in the request's `_meta`). Reporting is
+ * best effort: a failed notification never fails the tool call, and a
+ * cancelled call reports nothing more.
+ *
+ * @module tools/progress
+ */
+
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/** Per-call extras the SDK passes to every tool handler */
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/** Reports progress of one tool call */
+export type ProgressReporter = (progress: number, total?: number, message?: string) => void;
+
+/**
+ * Progress reporter for a tool call (does nothing without a progress token)
+ *
+ * @example
+ * ```typescript
+ * const report = progressReporter(extra);
+ * await gapClient.getHistoricalRange(lat, lon, start, end, {
+ *   signal: extra.signal,
+ *   onProgress: (done, total) => report(done, total, `Fetched ${done} of ${total} periods`)
+ * });
+ * ```
+ */
+export function progressReporter(extra: ToolExtra): ProgressReporter {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return () => undefined;
+  }
+
+  return (progress, total, message) => {
+    // Nothing more is sent for a cancelled request
+    if (extra.signal.aborted) return;
+    extra.sendNotification({
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress,
+        ...(total !== undefined ? { total } : {}),
+        ...(message ? { message } : {})
+      }
+    }).catch(error => {
+      console.warn(`[MCP] Could not send progress notification: ${error instanceof Error ? error.message : error}`);
+    });
+  };
+}
@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerPrompts } from './prompts.js';
+import { registerRainfallTools } from './rainfall-tools.js';
+import { registerCropTools } from './crop-tools.js';
+import { registerOperationsTools } from './operations-tools.js';
+import { registerPestTools } from './pest-tools.js';
+import { registerPlantingTools } from './planting-tools.js';
+import { registerSeasonalTools } from './seasonal-tools.js';
+import { registerWeatherTools } from './weather-tools.js';
+import { ToolContext } from './context.js';
+
+/** Tool calls a prompt asks for: "<n>. <tool> with {json}" */
+const TOOL_STEP = /^\d+\. (\w+) with (\{.*?\}) for /;
+
+async function connect(): Promise<Client> {
+  const context = { gapClient: null } as unknown as ToolContext;
+  const server = new McpServer({ name: 'prompts-test', version: '1.0.0' });
+  for (const register of [registerWeatherTools, registerCropTools, registerPlantingTools, registerPestTools, registerOperationsTools, registerSeasonalTools, registerRainfallTools, registerPrompts]) {
+    register(server, context);
+  }
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'prompts-test', version: '1.0.0' });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+describe('prompt templates', () => {
+  it('only pass arguments the named tools accept', async () => {
+    const client = await connect();
+    try {
+      const inputs = new Map((await client.listTools()).tools.map(tool => [tool.name, Object.keys(tool.inputSchema.properties ?? {})]));
+      const { prompts } = await client.listPrompts();
+      assert.ok(prompts.length > 0);
+
+      const problems: string[] = [];
+      let steps = 0;
+      for (const prompt of prompts) {
+        const { messages } = await client.getPrompt({ name: prompt.name, arguments: { place: 'Kitale', crop: 'maize' } });
+        const text = messages.map(message => message.content.type === 'text' ? message.content.text : '').join('\n');
+        for (const line of text.split('\n')) {
+          const step = TOOL_STEP.exec(line);
+          if (!step) continue;
+          steps++;
+          const accepted = inputs.get(step[1]);
+          if (!accepted) {
+            problems.push(`${prompt.name}: unknown tool ${step[1]}`);
+            continue;
+          }
+          Object.keys(JSON.parse(step[2]))
+            .filter(name => !accepted.includes(name))
+            .forEach(name => problems.push(`${prompt.name}: ${step[1]} has no argument ${name}`));
+        }
+      }
+      assert.ok(steps >= 8);
+      assert.deepEqual(problems, []);
+    } finally {
+      await client.close();
+    }
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * MCP prompt templates
+ *
+ * Ready-made instructions that give client apps the same agronomic framing:
+ * which tools to call for the evidence, how to weigh it and how to present
+ * the answer to a farmer. Prompts only build messages; the client's model
+ * then calls the tools.
+ *
+ * Prompts: weekly_farm_briefing, planting_decision
+ *
+ * @module tools/prompts
+ */
+
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { CROP_PROFILES } from '../data/crop-profiles.js';
+import { GAPValidationError } from '../errors.js';
+import { protocolErrorFromException } from '../tool-errors.js';
+import { ToolContext } from './context.js';
+
+/** Prompt arguments that pick the location (prompt arguments are always strings) */
+const promptLocationArgs = {
+  farm_id: z.string().optional().describe('ID of a registered farm (see list_farms)'),
+  latitude: z.string().optional().describe('Latitude in decimal degrees, e.g. "-1.2864"'),
+  longitude: z.string().optional().describe('Longitude in decimal degrees, e.g. "36.8172"'),
+  place: z.string().optional().describe('Place name, e.g. "Kitale"'),
+  language: z.string().optional().describe('Language of the answer (default: the language of the conversation)')
+};
+
+interface PromptLocation {
+  /** Location arguments to pass to every tool call */
+  args: Record<string, string | number>;
+  /** How the prompt refers to the location */
+  label: string;
+  /** Crops grown, when the location is a registered farm */
+  crops: string[];
+}
+
+/**
+ * Tool arguments and wording for the location given to a prompt
+ */
+async function promptLocation(
+  args: { farm_id?: string; latitude?: string; longitude?: string; place?: string },
+  context: ToolContext
+): Promise<PromptLocation> {
+  if (args.farm_id) {
+    const farm = await context.registry?.get(args.farm_id);
+    return {
+      args: { farm_id: args.farm_id },
+      label: farm ? `the farm "${farm.name}" (farm_id ${farm.id})` : `farm ${args.farm_id}`,
+      crops: farm?.crops ?? []
+    };
+  }
+  if (args.latitude !== undefined || args.longitude !== undefined) {
+    const latitude = Number(args.latitude);
+    const longitude = Number(args.longitude);
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      throw new GAPValidationError('Please give both latitude and longitude in decimal degrees.');
+    }
+    return { args: { latitude, longitude }, label: `the location ${latitude}, ${longitude}`, crops: [] };
+  }
+  if (args.place) {
+    return { args: { place: args.place }, label: args.place, crops: [] };
+  }
+  // Tools fall back to header or server defaults, or ask for a location
+  return { args: {}, label: 'the user\'s farm', crops: [] };
+}
+
+/** Tool arguments as inline JSON, merged with the location arguments */
+function toolArgs(location: PromptLocation, extra: Record<string, string | number | boolean> = {}): string {
+  return JSON.stringify({ ...location.args, ...extra });
+}
+
+function languageLine(language?: string): string {
+  return language ? `Write the answer in ${language}.` : 'Write the answer in the language of the conversation.';
+}
+
+function userPrompt(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{
+      role: 'user',
+      content: { type: 'text', text }
+    }]
+  };
+}
+
+const cropArg = completable(
+  z.string().describe('Crop, e.g. "maize", "beans", "sorghum"'),
+  value => CROP_PROFILES.map(profile => profile.id).filter(id => id.startsWith(value.toLowerCase()))
+);
+
+/**
+ * Register the prompt templates on a server
+ */
+export function registerPrompts(server: McpServer, context: ToolContext): void {
+  server.prompt(
+    'weekly_farm_briefing',
+    'Weekly weather briefing for a farm: the week at a glance, rain and temperature against normal, dated field actions and risks to watch, in plain language for a farmer.',
+    {
+      ...promptLocationArgs,
+      crop: z.string().optional().describe('Crop to focus on (default: the farm\'s crops)')
+    },
+    async ({ farm_id, latitude, longitude, place, crop, language }) => {
+      try {
+        const location = await promptLocation({ farm_id, latitude, longitude, place }, context);
+        const crops = crop ? [crop] : location.crops;
+        const cropSteps = crops.length > 0
+          ? [
+            `4. get_crop_stage with ${toolArgs(location, { crop: crops[0] })} for where the ${crops[0]} is in its development (skip it if no planting date is known).`,
+            `5. get_pest_disease_risk with ${toolArgs(location, { crop: crops[0] })} for pest and disease pressure this week.`
+          ]
+          : ['4. If the user mentions a crop, also call get_crop_stage and get_pest_disease_risk for it.'];
+
+        return userPrompt('Weekly farm briefing', [
+          `Prepare this week's weather briefing for ${location.label}${crops.length > 0 ? `, growing ${crops.join(', ')}` : ''}.`,
+          '',
+          'Take every number from the GAP tools; never estimate the weather yourself:',
+          `1. get_gap_farming_forecast with ${toolArgs(location, { days: 7 })} for the daily forecast and its anomalies against normal.`,
+          `2. get_rainfall_statistics with ${toolArgs(location, { series: 'combined', days_back: 30, forecast_days: 7 })} for recent rain, dry spells and heavy-rain days.`,
+          `3. get_field_operation_windows with ${toolArgs(location, { days: 7 })} for the best days for spraying, harvesting and drying grain.`,
+          ...cropSteps,
+          '',
+          'Write the briefing for a smallholder farmer, under 250 words, with these sections:',
+          '- This week at a glance: one or two sentences.',
+          '- Rain and temperature: totals, the wettest and hottest days, and whether the week is wetter, drier, warmer or cooler than normal.',
+          '- What to do: three to five actions, each with a day and the weather reason (e.g. "Spray on Tuesday morning: dry and calm").',
+          '- Watch out for: heavy rain, heat, frost, dry spells or pest risk, only if the data shows them.',
+          '',
+          'Name days of the week, use °C and mm, and say plainly when the forecast is uncertain. If a tool returns an error, say what is missing instead of guessing.',
+          languageLine(language)
+        ].join('\n'));
+      } catch (error) {
+        console.error('[MCP Prompt] Error in weekly_farm_briefing:', error);
+        throw protocolErrorFromException(error);
+      }
+    }
+  );
+
+  server.prompt(
+    'planting_decision',
+    'Should I plant now? Weighs the start of the rains, the next weeks\' forecast and the seasonal outlook for a crop, and answers plant now, wait or risky with the evidence.',
+    {
+      ...promptLocationArgs,
+      crop: cropArg
+    },
+    async ({ farm_id, latitude, longitude, place, crop, language }) => {
+      try {
+        const location = await promptLocation({ farm_id, latitude, longitude, place }, context);
+
+        return userPrompt(`Planting decision for ${crop}`, [
+          `Help the farmer decide whether to plant ${crop} now at ${location.label}.`,
+          '',
+          'Gather the evidence with the GAP tools; never estimate the weather yourself:',
+          `1. get_planting_advice with ${toolArgs(location, { crop })} for whether the rains have started and the expected planting date.`,
+          `2. get_gap_historical_weather with ${toolArgs(location, { days_back: 30, compare_to_normal: true })} for how much rain has fallen compared with normal.`,
+          `3. get_rainfall_statistics with ${toolArgs(location, { series: 'combined', days_back: 30, forecast_days: 14 })} for dry spells just before and after planting.`,
+          `4. get_seasonal_outlook with ${toolArgs(location, { months: 3 })} for whether the season is expected to be wetter or drier than normal.`,
+          '',
+          'Weigh the evidence like an extension officer:',
+          `- Follow get_planting_advice's criteria for ${crop}: planting needs moist soil from the onset of the rains, not a single shower.`,
+          '- A forecast dry spell of 7 days or more within three weeks after planting is a false start: advise waiting.',
+          '- A season outlook drier than normal favours early-maturing varieties and water conservation; wetter than normal raises waterlogging and disease risk.',
+          '',
+          'Answer in under 200 words. Start with one verdict: "Plant now", "Wait" or "Risky". Then give three or four reasons with the numbers behind them, what to watch for and when to check again, and the risk if the farmer plants anyway.',
+          'If a tool returns an error, say what is missing instead of guessing.',
+          languageLine(language)
+        ].join('\n'));
+      } catch (error) {
+        console.error('[MCP Prompt] Error in planting_decision:', error);
+        throw protocolErrorFromException(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,227 @@
+/**
+ * MCP tools for rainfall analysis
+ *
+ * Tools: get_rainfall_statistics
+ *
+ * @module tools/rainfall-tools
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { ComparableDay } from '../climatology.js';
+import { addDays, daysBetween, ISO_DATE_PATTERN, parseDate, today } from '../date-utils.js';
+import { combineProvenance, GAPResponse } from '../gap-client.js';
+import { describeLocation, resolveLocation } from '../location.js';
+import {
+  buildRainfallStatistics,
+  compareWithReference,
+  RainDay,
+  RainfallComparison,
+  sameDatesYearsBefore
+} from '../rainfall-stats.js';
+import { toolError, toolErrorFromException } from '../tool-errors.js';
+import { formatDailyWeather } from '../weather-format.js';
+import { locationArgs, normalArgs } from './args.js';
+import { ToolContext } from './context.js';
+import { compareWithClimatology } from './normals.js';
+import { progressReporter } from './progress.js';
+import { drySpellSchema, locationSchema, normalComparisonSchema, provenanceSchema, toolResult } from './schemas.js';
+
+/** Longest observed period analysed in one call (days) */
+const MAX_DAYS_BACK = 366;
+
+/** Result of get_rainfall_statistics */
+const rainfallOutput = {
+  location: locationSchema,
+  period: z.object({
+    start: z.string(),
+    end: z.string(),
+    days: z.number(),
+    observed_days: z.number(),
+    forecast_days: z.number(),
+    missing_days: z.number()
+  }),
+  dry_day_threshold_mm: z.number(),
+  total_mm: z.number().nullable(),
+  mean_daily_mm: z.number().nullable(),
+  rainy_days: z.number(),
+  dry_days: z.number(),
+  wettest_day: z.object({ date: z.string(), precipitation: z.number() }).nullable(),
+  heavy_rain: z.array(z.object({
+    threshold_mm: z.number(),
+    days: z.number(),
+    dates: z.array(z.string())
+  })),
+  longest_dry_spell: drySpellSchema.nullable(),
+  ongoing_dry_spell: drySpellSchema.nullable().describe('Dry spell still running on the last day of the series'),
+  dry_spells: z.array(z.object({ min_days: z.number(), count: z.number() })),
+  comparison: z.object({
+    reference_start: z.string(),
+    reference_end: z.string(),
+    total_mm: z.number().nullable(),
+    reference_total_mm: z.number().nullable(),
+    difference_mm: z.number().nullable(),
+    percent_of_reference: z.number().nullable().describe('Analysed total as a percentage of the reference total'),
+    verdict: z.string()
+  }).nullable().describe('null when compare_with_reference is false'),
+  compared_to_normal: normalComparisonSchema.optional().describe('Only with compare_to_normal'),
+  daily: z.array(z.object({
+    date: z.string(),
+    precipitation: z.number().nullable(),
+    source: z.enum(['observed', 'forecast']),
+    cumulative_mm: z.number(),
+    reference_cumulative_mm: z.number().optional()
+  })).optional().describe('Only with include_daily'),
+  data_source: z.string(),
+  provenance: provenanceSchema
+};
+
+/**
+ * Register the rainfall analysis tools on a server
+ */
+export function registerRainfallTools(server: McpServer, context: ToolContext): void {
+  server.registerTool(
+    'get_rainfall_statistics',
+    {
+      description: 'Agronomic rainfall statistics for observed rain, forecast rain or both combined: total and mean rainfall, rainy and dry days, heavy-rain days (> 20 mm, > 50 mm by default), the longest and ongoing dry spell, the number of dry spells of at least 5/7/10/14 days, and cumulative rainfall compared with a reference period (default: the same dates last year). With compare_to_normal, the whole series is also ranked against the local climatology of the last 10 years. Use this instead of counting from raw daily data.',
+      inputSchema: {
+        ...locationArgs,
+        series: z.enum(['historical', 'forecast', 'combined']).default('combined').optional().describe('What to analyse: observed days only, forecast days only, or observed followed by forecast (default: combined)'),
+        days_back: z.number().int().min(1).max(MAX_DAYS_BACK).default(30).optional().describe(`Observed days before today to include (1-${MAX_DAYS_BACK}, default: 30)`),
+        forecast_days: z.number().int().min(1).max(14).default(7).optional().describe('Forecast days from today to include (1-14, default: 7)'),
+        dry_day_threshold_mm: z.number().min(0).max(10).default(1).optional().describe('Rain below which a day counts as dry (mm, default: 1)'),
+        heavy_rain_thresholds_mm: z.array(z.number().min(1).max(500)).min(1).max(5).optional().describe('Heavy-rain thresholds to count days above (mm, default: [20, 50])'),
+        dry_spell_lengths: z.array(z.number().int().min(2).max(120)).min(1).max(6).optional().describe('Dry-spell lengths to count (days, default: [5, 7, 10, 14])'),
+        reference_start_date: z.string().regex(ISO_DATE_PATTERN, 'Use YYYY-MM-DD').optional().describe('Start of the reference period to compare with (YYYY-MM-DD); it has the same length as the analysed period. Default: the same dates last year'),
+        compare_with_reference: z.boolean().default(true).optional().describe('Compare cumulative rainfall with the reference period (default: true)'),
+        include_daily: z.boolean().default(false).optional().describe('Include the daily series with cumulative totals (default: false)'),
+        ...normalArgs
+      },
+      outputSchema: rainfallOutput
+    },
+    async ({
+      farm_id, latitude, longitude, place,
+      series = 'combined', days_back = 30, forecast_days = 7, dry_day_threshold_mm = 1,
+      heavy_rain_thresholds_mm = [20, 50], dry_spell_lengths = [5, 7, 10, 14],
+      reference_start_date, compare_with_reference = true, include_daily = false, compare_to_normal = false
+    }, extra) => {
+      try {
+        const location = await resolveLocation({ farm_id, latitude, longitude, place }, context);
+        const lat = location.latitude;
+        const lon = location.longitude;
+
+        console.log(`[MCP Tool] get_rainfall_statistics called: lat=${lat}, lon=${lon}, series=${series}, days_back=${days_back}, forecast_days=${forecast_days}`);
+
+        if (reference_start_date) {
+          try {
+            parseDate(reference_start_date);
+          } catch (error: any) {
+            return toolError('invalid_request', error.message);
+          }
+        }
+
+        const gapClient = context.gapClient;
+        if (!gapClient) {
+          return toolError('not_configured');
+        }
+
+        // Progress counts the series and reference fetches, then the baseline years
+        const report = progressReporter(extra);
+        const steps = (series === 'combined' ? 2 : 1) + (compare_with_reference ? 1 : 0);
+        let step = 0;
+
+        const asOf = today();
+        const responses: GAPResponse[] = [];
+        const days: RainDay[] = [];
+        // Temperatures too, for the comparison with normal
+        const weather: ComparableDay[] = [];
+        if (series !== 'forecast') {
+          const history = await gapClient.getHistorical(lat, lon, days_back, { signal: extra.signal });
+          report(++step, steps, 'Fetched observed rainfall');
+          responses.push(history);
+          const observed = formatDailyWeather(history.results)
+            .filter(day => day.date < asOf && day.date >= addDays(asOf, -days_back));
+          weather.push(...observed);
+          days.push(...observed.map(day => ({ date: day.date, precipitation: day.precipitation, source: 'observed' as const })));
+        }
+        if (series !== 'historical') {
+          const forecast = await gapClient.getForecast(lat, lon, forecast_days, { signal: extra.signal });
+          report(++step, steps, 'Fetched forecast rainfall');
+          responses.push(forecast);
+          const upcoming = formatDailyWeather(forecast.results)
+            .filter(day => day.date >= asOf)
+            .slice(0, forecast_days);
+          weather.push(...upcoming);
+          days.push(...upcoming.map(day => ({ date: day.date, precipitation: day.precipitation, source: 'forecast' as const })));
+        }
+
+        if (days.length === 0 || days.every(day => day.precipitation === null)) {
+          return toolError('invalid_response', 'No rainfall data is available for this location and period.');
+        }
+
+        const statistics = buildRainfallStatistics(days, dry_day_threshold_mm, heavy_rain_thresholds_mm, dry_spell_lengths);
+
+        // Reference period: same length, observed data only
+        let comparison: RainfallComparison | null = null;
+        let reference: RainDay[] = [];
+        let referenceStart = '';
+        if (compare_with_reference) {
+          const start = days[0].date;
+          const end = days[days.length - 1].date;
+          const range = reference_start_date
+            ? { start: reference_start_date, end: addDays(reference_start_date, daysBetween(start, end)) }
+            : sameDatesYearsBefore(start, end, 1);
+          if (range.end >= asOf) {
+            return toolError('invalid_request', `The reference period (${range.start} to ${range.end}) must be in the past.`);
+          }
+          const history = await gapClient.getHistoricalRange(lat, lon, range.start, range.end, { signal: extra.signal });
+          report(++step, steps, 'Fetched reference period rainfall');
+          responses.push(history);
+          reference = formatDailyWeather(history.results)
+            .filter(day => day.date >= range.start && day.date <= range.end)
+            .map(day => ({ date: day.date, precipitation: day.precipitation, source: 'observed' as const }));
+          comparison = compareWithReference(days, reference, range);
+          referenceStart = range.start;
+        }
+
+        let daily;
+        if (include_daily) {
+          // Reference days line up with the series by offset from its start
+          const referenceByDate = new Map(reference.map(day => [day.date, day.precipitation]));
+          let cumulative = 0;
+          let referenceCumulative = 0;
+          daily = days.map(day => {
+            cumulative += day.precipitation ?? 0;
+            if (comparison) {
+              referenceCumulative += referenceByDate.get(addDays(referenceStart, daysBetween(days[0].date, day.date))) ?? 0;
+            }
+            return {
+              ...day,
+              cumulative_mm: Math.round(cumulative * 10) / 10,
+              ...(comparison ? { reference_cumulative_mm: Math.round(referenceCumulative * 10) / 10 } : {})
+            };
+          });
+        }
+
+        return toolResult(rainfallOutput, {
+          location: describeLocation(location),
+          ...statistics,
+          comparison,
+          ...(compare_to_normal ? { compared_to_normal: await compareWithClimatology(context.climatology, gapClient, lat, lon, weather, {
+            signal: extra.signal,
+            onProgress: (done, total) => report(steps + done, steps + total, `Climate baseline: year ${done} of ${total} fetched`)
+          }) } : {}),
+          ...(daily ? { daily } : {}),
+          data_source: series === 'historical'
+            ? 'TomorrowNow GAP Platform (cbam_historical_analysis)'
+            : 'TomorrowNow GAP Platform (cbam_historical_analysis + salient_seasonal_forecast)',
+          provenance: combineProvenance(...responses)
+        });
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in get_rainfall_statistics:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,234 @@
+/**
+ * MCP resources for weather data
+ *
+ * Read-only views of the same data the tools return, addressed by URI so
+ * clients can attach them as context without a tool call:
+ * - gap://forecast/{lat}/{lon}?days=7 (days optional, 1-14)
+ * - gap://historical/{lat}/{lon}/{start}/{end}
+ * - gap://farm/{id}/summary (listed for every registered farm)
+ *
+ * Every resource is JSON. Failures are JSON-RPC errors carrying the same
+ * error code and message as the tools.
+ *
+ * @module tools/resources
+ */
+
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ErrorCode, McpError, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { addDays, daysBetween, parseDate, today } from '../date-utils.js';
+import { GAPValidationError } from '../errors.js';
+import { combineProvenance, GAPClient } from '../gap-client.js';
+import { describeLocation, resolveLocation } from '../location.js';
+import { ERROR_MESSAGES, protocolErrorFromException } from '../tool-errors.js';
+import { buildPeriodTotals, buildWeatherSummary, formatDailyWeather } from '../weather-format.js';
+import { ToolContext } from './context.js';
+
+/** Longest period a historical resource covers (days, as the tool) */
+const MAX_HISTORICAL_DAYS = 366;
+
+/** Observed days included in a farm summary */
+const FARM_RECENT_DAYS = 14;
+
+/** Forecast days included in a farm summary */
+const FARM_FORECAST_DAYS = 7;
+
+function single(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function coordinate(value: string | string[] | undefined, name: string, limit: number): number {
+  const parsed = Number(single(value));
+  if (!Number.isFinite(parsed) || Math.abs(parsed) > limit) {
+    throw new GAPValidationError(`Invalid ${name} "${single(value)}": use decimal degrees between -${limit} and ${limit}.`);
+  }
+  return parsed;
+}
+
+function isoDate(value: string | string[] | undefined): string {
+  const date = single(value) ?? '';
+  try {
+    parseDate(date);
+  } catch {
+    throw new GAPValidationError(`Invalid date "${date}". Please use real calendar dates in YYYY-MM-DD format.`);
+  }
+  return date;
+}
+
+function requireClient(context: ToolContext): GAPClient {
+  if (!context.gapClient) {
+    throw new McpError(ErrorCode.InternalError, ERROR_MESSAGES.not_configured, { code: 'not_configured', message: ERROR_MESSAGES.not_configured });
+  }
+  return context.gapClient;
+}
+
+function jsonResource(uri: URL, data: unknown): ReadResourceResult {
+  return {
+    contents: [{
+      uri: uri.href,
+      mimeType: 'application/json',
+      text: JSON.stringify(data, null, 2)
+    }]
+  };
+}
+
+/**
+ * Run a resource read, turning failures into JSON-RPC errors
+ */
+async function readResource(name: string, read: () => Promise<ReadResourceResult>): Promise<ReadResourceResult> {
+  try {
+    return await read();
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    console.error(`[MCP Resource] Error in ${name}:`, error);
+    throw protocolErrorFromException(error);
+  }
+}
+
+/**
+ * Register the weather data resources on a server
+ */
+export function registerResources(server: McpServer, context: ToolContext): void {
+  const readForecast = (uri: URL, variables: Variables, signal: AbortSignal) => readResource('forecast', async () => {
+    const latitude = coordinate(variables.lat, 'latitude', 90);
+    const longitude = coordinate(variables.lon, 'longitude', 180);
+    const days = single(variables.days) === undefined ? 7 : Number(single(variables.days));
+    if (!Number.isInteger(days) || days < 1 || days > 14) {
+      throw new GAPValidationError('Invalid number of days. Please use a value between 1 and 14.');
+    }
+
+    console.log(`[MCP Resource] forecast read: lat=${latitude}, lon=${longitude}, days=${days}`);
+
+    const location = await resolveLocation({ latitude, longitude }, context);
+    const data = await requireClient(context).getForecast(location.latitude, location.longitude, days, { signal });
+    const forecast = formatDailyWeather(data.results);
+
+    return jsonResource(uri, {
+      location: describeLocation(location),
+      period: {
+        days,
+        start_date: forecast[0]?.date ?? null,
+        end_date: forecast[forecast.length - 1]?.date ?? null
+      },
+      forecast,
+      summary: buildWeatherSummary(forecast),
+      data_source: 'TomorrowNow GAP Platform (satellite-based)',
+      provenance: combineProvenance(data)
+    });
+  });
+
+  server.resource(
+    'forecast',
+    new ResourceTemplate('gap://forecast/{lat}/{lon}{?days}', { list: undefined }),
+    {
+      description: 'Daily weather forecast (temperature, rainfall, humidity, wind) for a point, e.g. gap://forecast/-1.2864/36.8172?days=7 (1-14 days)',
+      mimeType: 'application/json'
+    },
+    (uri, variables, extra) => readForecast(uri, variables, extra.signal)
+  );
+
+  // The URI template matcher needs the query when the template has one
+  server.resource(
+    'forecast_default',
+    new ResourceTemplate('gap://forecast/{lat}/{lon}', { list: undefined }),
+    {
+      description: '7-day daily weather forecast for a point, e.g. gap://forecast/-1.2864/36.8172',
+      mimeType: 'application/json'
+    },
+    (uri, variables, extra) => readForecast(uri, variables, extra.signal)
+  );
+
+  server.resource(
+    'historical',
+    new ResourceTemplate('gap://historical/{lat}/{lon}/{start}/{end}', { list: undefined }),
+    {
+      description: `Observed daily weather for a point and period (YYYY-MM-DD, up to ${MAX_HISTORICAL_DAYS} days), e.g. gap://historical/-1.2864/36.8172/2025-03-01/2025-05-31`,
+      mimeType: 'application/json'
+    },
+    (uri, variables, extra) => readResource('historical', async () => {
+      const latitude = coordinate(variables.lat, 'latitude', 90);
+      const longitude = coordinate(variables.lon, 'longitude', 180);
+      const start = isoDate(variables.start);
+      const end = isoDate(variables.end);
+      const periodDays = daysBetween(start, end) + 1;
+      if (periodDays < 1 || periodDays > MAX_HISTORICAL_DAYS) {
+        throw new GAPValidationError(`The period must be 1 to ${MAX_HISTORICAL_DAYS} days, with the start on or before the end.`);
+      }
+      if (end > today()) {
+        throw new GAPValidationError('Historical weather is only available up to today. For future dates, use the forecast resource.');
+      }
+
+      console.log(`[MCP Resource] historical read: lat=${latitude}, lon=${longitude}, ${start} to ${end}`);
+
+      const location = await resolveLocation({ latitude, longitude }, context);
+      const data = await requireClient(context).getHistoricalRange(location.latitude, location.longitude, start, end, { signal: extra.signal });
+      const observations = formatDailyWeather(data.results);
+
+      return jsonResource(uri, {
+        location: describeLocation(location),
+        period: { days: periodDays, start_date: start, end_date: end },
+        observations,
+        summary: buildWeatherSummary(observations),
+        totals: buildPeriodTotals(observations),
+        data_source: 'TomorrowNow GAP Platform (historical analysis)',
+        provenance: combineProvenance(data)
+      });
+    })
+  );
+
+  const registry = context.registry;
+  if (!registry) return;
+
+  server.resource(
+    'farm_summary',
+    new ResourceTemplate('gap://farm/{id}/summary', {
+      list: async () => ({
+        resources: (await registry.list()).map(farm => ({
+          uri: `gap://farm/${encodeURIComponent(farm.id)}/summary`,
+          name: `${farm.name} summary`,
+          description: `Profile, recent rain and ${FARM_FORECAST_DAYS}-day forecast for ${farm.name}`,
+          mimeType: 'application/json'
+        }))
+      }),
+      complete: {
+        id: async value => (await registry.list())
+          .map(farm => farm.id)
+          .filter(id => id.startsWith(value))
+      }
+    }),
+    {
+      description: `A registered farm at a glance: profile (crops, planting date, soil), observed rain over the last ${FARM_RECENT_DAYS} days and the ${FARM_FORECAST_DAYS}-day forecast`,
+      mimeType: 'application/json'
+    },
+    (uri, variables, extra) => readResource('farm_summary', async () => {
+      const farmId = decodeURIComponent(single(variables.id) ?? '');
+
+      console.log(`[MCP Resource] farm_summary read: farm_id=${farmId}`);
+
+      const location = await resolveLocation({ farm_id: farmId }, context);
+      const gapClient = requireClient(context);
+      const asOf = today();
+      const history = await gapClient.getHistoricalRange(location.latitude, location.longitude, addDays(asOf, -FARM_RECENT_DAYS), addDays(asOf, -1), { signal: extra.signal });
+      const forecastData = await gapClient.getForecast(location.latitude, location.longitude, FARM_FORECAST_DAYS, { signal: extra.signal });
+      const recent = formatDailyWeather(history.results);
+      const forecast = formatDailyWeather(forecastData.results).filter(day => day.date >= asOf);
+
+      return jsonResource(uri, {
+        farm: location.farm,
+        location: describeLocation(location),
+        recent_weather: {
+          days: FARM_RECENT_DAYS,
+          totals: buildPeriodTotals(recent)
+        },
+        forecast: {
+          days: FARM_FORECAST_DAYS,
+          daily: forecast,
+          summary: buildWeatherSummary(forecast),
+          totals: buildPeriodTotals(forecast)
+        },
+        data_source: 'TomorrowNow GAP Platform',
+        provenance: combineProvenance(history, forecastData)
+      });
+    })
+  );
+}
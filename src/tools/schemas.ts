@@ -0,0 +1,231 @@
+/**
+ * Zod output schemas shared by several tools, and structured tool results
+ *
+ * Every tool declares an output schema. A successful call returns the
+ * result as `structuredContent` matching that schema, and the same object
+ * pretty-printed as text content for clients that only read text (or a
+ * rendering in the format the caller asked for, see renderers.ts). Failed
+ * calls return text content only (see tool-errors.ts).
+ *
+ * @module tools/schemas
+ */
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { ERROR_MESSAGES, ToolErrorCode } from '../tool-errors.js';
+
+const ERROR_CODES = Object.keys(ERROR_MESSAGES) as [ToolErrorCode, ...ToolErrorCode[]];
+
+/** A value that is null when GAP had no data for it */
+const measured = (description: string) => z.number().nullable().describe(description);
+
+/**
+ * A gazetteer match (search_places, and place errors)
+ */
+export const placeMatchSchema = z.object({
+  name: z.string(),
+  kind: z.enum(['admin_area', 'sub_county', 'town']),
+  country: z.string(),
+  country_code: z.enum(['KE', 'TZ', 'UG', 'ET']),
+  admin_area: z.string(),
+  admin_area_type: z.string(),
+  label: z.string().describe('e.g. "Kitale, Trans Nzoia County, Kenya"'),
+  latitude: z.number(),
+  longitude: z.number(),
+  score: z.number().describe('Match quality from 0 to 1 (1 = exact name or alias)')
+});
+
+/**
+ * Error details of a failed call (see tool-errors.ts)
+ */
+export const errorSchema = z.object({
+  code: z.enum(ERROR_CODES),
+  message: z.string().describe('Farmer-facing message'),
+  retry_after_seconds: z.number().optional(),
+  candidates: z.array(placeMatchSchema).optional().describe('Possible places, for place_not_found and ambiguous_place')
+});
+
+/**
+ * A saved farm profile
+ */
+export const farmSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  latitude: z.number(),
+  longitude: z.number(),
+  crops: z.array(z.string()),
+  planting_date: z.string().optional().describe('YYYY-MM-DD'),
+  soil_type: z.string().optional(),
+  owner_id: z.string().optional(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+/**
+ * Location block of the weather tools (describeLocation)
+ */
+export const locationSchema = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+  region: z.string().describe('e.g. "Nakuru County, Kenya"'),
+  country: z.string().nullable(),
+  admin_area: z.string().nullable(),
+  admin_area_type: z.string().nullable(),
+  source: z.enum(['farm', 'arguments', 'place', 'headers', 'server_default']).describe('Where the coordinates came from'),
+  farm: z.object({
+    id: z.string(),
+    name: z.string(),
+    crops: z.array(z.string()),
+    planting_date: z.string().nullable(),
+    soil_type: z.string().nullable()
+  }).optional(),
+  place: z.object({
+    name: z.string(),
+    kind: z.enum(['admin_area', 'sub_county', 'town']),
+    label: z.string()
+  }).optional(),
+  warnings: z.array(z.string()).optional()
+});
+
+/**
+ * Ensemble spread and threshold probabilities of one day
+ */
+export const dailyEnsembleSchema = z.object({
+  stats: z.record(z.object({
+    members: z.number(),
+    mean: z.number(),
+    median: z.number(),
+    p10: z.number(),
+    p90: z.number(),
+    min: z.number(),
+    max: z.number(),
+    std_dev: z.number()
+  })).describe('Per field (max_temp, precipitation, ...), in display units'),
+  probabilities: z.array(z.object({
+    label: z.string().describe('e.g. "P(precipitation > 5 mm)"'),
+    attribute: z.string(),
+    operator: z.enum(['>', '>=', '<', '<=']),
+    threshold: z.number(),
+    probability: z.number().describe('Share of ensemble members meeting the condition (0-1)')
+  }))
+});
+
+/**
+ * One day of forecast or observed weather
+ */
+export const dailyWeatherSchema = z.object({
+  date: z.string().describe('YYYY-MM-DD'),
+  max_temp: measured('Maximum temperature (°C)'),
+  min_temp: measured('Minimum temperature (°C)'),
+  precipitation: measured('Precipitation (mm)'),
+  humidity: measured('Relative humidity (%)'),
+  wind_speed: measured('Wind speed (m/s)'),
+  ensemble: dailyEnsembleSchema.optional()
+});
+
+/**
+ * Averages and total of a period of daily weather
+ */
+export const weatherSummarySchema = z.object({
+  avg_max_temp: measured('°C'),
+  avg_min_temp: measured('°C'),
+  total_precipitation: measured('mm'),
+  avg_humidity: measured('%')
+});
+
+const datedValueSchema = z.object({ date: z.string(), value: z.number() });
+
+/**
+ * Period covered by a daily series
+ */
+export const periodSchema = z.object({
+  days: z.number(),
+  start_date: z.string().describe('YYYY-MM-DD'),
+  end_date: z.string().describe('YYYY-MM-DD')
+});
+
+/**
+ * Period totals of observed weather
+ */
+export const periodTotalsSchema = z.object({
+  total_precipitation: measured('mm'),
+  rainy_days: z.number().describe('Days with at least 1 mm of rain'),
+  wettest_day: datedValueSchema.nullable(),
+  highest_max_temp: datedValueSchema.nullable(),
+  lowest_min_temp: datedValueSchema.nullable()
+});
+
+const attributeComparisonSchema = z.object({
+  value: z.number().describe('Rain total (mm) or mean temperature (°C) of the period'),
+  normal: z.number(),
+  departure: z.number(),
+  departure_pct: z.number().nullable(),
+  percentile_rank: z.number().nullable().describe('Share of baseline years with a lower value (0-100)'),
+  category: z.enum(['well below normal', 'below normal', 'near normal', 'above normal', 'well above normal']).nullable(),
+  normal_range: z.tuple([z.number(), z.number()]).describe('10th and 90th percentile of the baseline years'),
+  years: z.number()
+});
+
+/**
+ * A period compared with the local climatology, or why the baseline could not be built
+ */
+export const normalComparisonSchema = z.union([
+  z.object({
+    baseline: z.string().describe('Baseline years, e.g. "2015-2024"'),
+    period: z.object({ start: z.string(), end: z.string(), days: z.number() }),
+    precipitation: attributeComparisonSchema.nullable(),
+    max_temp: attributeComparisonSchema.nullable(),
+    min_temp: attributeComparisonSchema.nullable(),
+    verdict: z.string()
+  }),
+  z.object({ error: errorSchema })
+]);
+
+/**
+ * Period verdict from the forecast anomalies
+ */
+export const anomalyVerdictSchema = z.object({
+  verdict: z.string().describe('e.g. "wetter than normal week"'),
+  rainfall: z.enum(['wetter', 'drier', 'near normal', 'unknown']),
+  temperature: z.enum(['warmer', 'cooler', 'near normal', 'unknown']),
+  total_precipitation: measured('mm'),
+  normal_precipitation: measured('mm'),
+  precipitation_anomaly_pct: measured('%'),
+  avg_max_temp_anomaly: measured('°C'),
+  avg_min_temp_anomaly: measured('°C')
+});
+
+/**
+ * A run of consecutive dry days
+ */
+export const drySpellSchema = z.object({
+  start: z.string(),
+  end: z.string(),
+  days: z.number()
+});
+
+/**
+ * GAP products behind a result
+ */
+export const provenanceSchema = z.array(z.object({
+  product: z.enum(['cbam_historical_analysis', 'salient_seasonal_forecast']).describe('GAP data product'),
+  retrieved_at: z.string().describe('When the data was fetched from GAP (ISO 8601); cached data keeps its original time'),
+  ensemble_size: z.number().nullable().describe('Ensemble members per value (null for single-valued observations)')
+})).describe('One entry per GAP product used');
+
+/**
+ * Successful tool result: structured content plus the same data as text
+ *
+ * @param _shape - The tool's result shape; `data` is type-checked against it
+ * @param data - Result object
+ * @param text - Text content to send instead of the JSON (e.g. CSV or an SMS digest)
+ */
+export function toolResult<S extends z.ZodRawShape>(_shape: S, data: z.infer<z.ZodObject<S>>, text?: string): CallToolResult {
+  return {
+    content: [{
+      type: 'text',
+      text: text ?? JSON.stringify(data, null, 2)
+    }],
+    structuredContent: data as Record<string, unknown>
+  };
+}
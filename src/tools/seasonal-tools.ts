@@ -0,0 +1,142 @@
+/**
+ * MCP tools for season planning
+ *
+ * Tools: get_seasonal_outlook
+ *
+ * @module tools/seasonal-tools
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { formatFarmingForecast } from '../anomalies.js';
+import { AggregationPeriod } from '../aggregation.js';
+import { today } from '../date-utils.js';
+import { combineProvenance, MAX_SEASONAL_DAYS } from '../gap-client.js';
+import { describeLocation, resolveLocation } from '../location.js';
+import { buildSeasonalOutlook } from '../seasonal-outlook.js';
+import { toolError, toolErrorFromException } from '../tool-errors.js';
+import { locationArgs, normalArgs } from './args.js';
+import { ToolContext } from './context.js';
+import { compareWithClimatology } from './normals.js';
+import { progressReporter } from './progress.js';
+import { anomalyVerdictSchema, locationSchema, normalComparisonSchema, provenanceSchema, toolResult } from './schemas.js';
+
+/** Days per requested month of outlook */
+const DAYS_PER_MONTH = 30.5;
+
+const aggregations = ['week', 'dekad', 'month'] as const;
+
+/** Result of get_seasonal_outlook */
+const seasonalOutput = {
+  location: locationSchema,
+  period: z.object({ start: z.string(), end: z.string(), days: z.number() }),
+  aggregation: z.enum(aggregations),
+  periods: z.array(z.object({
+    period: z.string().describe('e.g. "2025-11", "2025-W46" or "2025-11-D2"'),
+    start_date: z.string(),
+    end_date: z.string(),
+    days: z.number().describe('Forecast days in the period'),
+    complete: z.boolean().describe('The forecast covers the whole period'),
+    rainfall: z.object({
+      total_mm: z.number().nullable(),
+      normal_mm: z.number().nullable(),
+      anomaly_mm: z.number().nullable(),
+      anomaly_pct: z.number().nullable(),
+      rainy_days: z.number()
+    }),
+    temperature: z.object({
+      avg_max: z.number().nullable(),
+      avg_min: z.number().nullable(),
+      max_anomaly: z.number().nullable(),
+      min_anomaly: z.number().nullable()
+    }),
+    humidity: z.object({
+      avg_pct: z.number().nullable(),
+      anomaly: z.number().nullable().describe('Deviation from normal in percentage points')
+    }),
+    avg_solar_radiation: z.number().nullable(),
+    avg_wind_speed: z.number().nullable(),
+    verdict: z.string()
+  })),
+  season: anomalyVerdictSchema.extend({
+    wettest_period: z.string().nullable(),
+    driest_period: z.string().nullable()
+  }),
+  compared_to_normal: normalComparisonSchema.optional().describe('Only with compare_to_normal'),
+  note: z.string(),
+  data_source: z.string(),
+  provenance: provenanceSchema
+};
+
+/**
+ * Register the season planning tools on a server
+ */
+export function registerSeasonalTools(server: McpServer, context: ToolContext): void {
+  server.registerTool(
+    'get_seasonal_outlook',
+    {
+      description: 'Seasonal outlook for up to 6 months ahead, aggregated to weeks, dekads (10-day periods) or months. Each period has total rainfall against normal, mean temperatures and humidity with anomalies, rainy days and a verdict such as "wetter and warmer than normal month", plus a verdict for the whole season. With compare_to_normal, the whole outlook is also ranked against the local climatology of the last 10 years. Use for season planning; use the daily forecast tools for the next two weeks.',
+      inputSchema: {
+        ...locationArgs,
+        months: z.number().int().min(1).max(6).default(3).optional().describe('Months ahead (1-6, default: 3)'),
+        aggregation: z.enum(aggregations).default('month').optional().describe('Period length: week (Monday-Sunday), dekad (days 1-10, 11-20, 21-end of month) or month (default: month)'),
+        ...normalArgs
+      },
+      outputSchema: seasonalOutput
+    },
+    async ({ farm_id, latitude, longitude, place, months = 3, aggregation = 'month', compare_to_normal = false }, extra) => {
+      try {
+        const location = await resolveLocation({ farm_id, latitude, longitude, place }, context);
+        const lat = location.latitude;
+        const lon = location.longitude;
+
+        console.log(`[MCP Tool] get_seasonal_outlook called: lat=${lat}, lon=${lon}, months=${months}, aggregation=${aggregation}`);
+
+        const gapClient = context.gapClient;
+        if (!gapClient) {
+          return toolError('not_configured');
+        }
+
+        const days = Math.min(MAX_SEASONAL_DAYS, Math.round(months * DAYS_PER_MONTH));
+        const report = progressReporter(extra);
+        let chunks = 0;
+        const data = await gapClient.getSeasonalForecast(lat, lon, days, {
+          aggregate: aggregation as AggregationPeriod,
+          signal: extra.signal,
+          onProgress: (done, total) => {
+            chunks = total;
+            report(done, total, `Fetched ${done} of ${total} forecast periods`);
+          }
+        });
+        const forecast = formatFarmingForecast(data.results).filter(day => day.date >= today());
+
+        if (forecast.length === 0 || !data.periods) {
+          return toolError('invalid_response', 'No forecast data available for this location. Please check if the coordinates are correct.');
+        }
+
+        const outlook = buildSeasonalOutlook(
+          data.periods.filter(period => period.end_date >= today()),
+          forecast,
+          aggregation as AggregationPeriod
+        );
+
+        return toolResult(seasonalOutput, {
+          location: describeLocation(location),
+          period: { start: forecast[0].date, end: forecast[forecast.length - 1].date, days: forecast.length },
+          ...outlook,
+          ...(compare_to_normal ? { compared_to_normal: await compareWithClimatology(context.climatology, gapClient, lat, lon, forecast, {
+            signal: extra.signal,
+            onProgress: (done, total) => report(chunks + done, chunks + total, `Climate baseline: year ${done} of ${total} fetched`)
+          }) } : {}),
+          note: 'Seasonal forecasts are most reliable as a comparison with normal (wetter, drier, warmer); exact totals for months ahead are uncertain.',
+          data_source: 'TomorrowNow GAP Platform (salient_seasonal_forecast)',
+          provenance: combineProvenance(data)
+        });
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in get_seasonal_outlook:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+}
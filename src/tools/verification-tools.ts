@@ -0,0 +1,127 @@
+/**
+ * MCP tools for forecast verification
+ *
+ * Tools: get_forecast_accuracy
+ *
+ * @module tools/verification-tools
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { today } from '../date-utils.js';
+import { DEFAULT_SNAPSHOT_RETENTION_DAYS, siteId } from '../forecast-snapshots.js';
+import { computeSkill, describeSkill, verifyForecasts } from '../forecast-verification.js';
+import { describeLocation, resolveLocation } from '../location.js';
+import { toolError, toolErrorFromException } from '../tool-errors.js';
+import { locationArgs } from './args.js';
+import { ToolContext } from './context.js';
+import { progressReporter } from './progress.js';
+import { locationSchema, toolResult } from './schemas.js';
+
+const errorStatsSchema = z.object({
+  mae: z.number().describe('Mean absolute error'),
+  bias: z.number().describe('Mean of forecast minus observed (positive: forecast too high)'),
+  days: z.number()
+}).nullable();
+
+const leadTimeSkillSchema = z.object({
+  lead_days: z.number().nullable().describe('Days ahead (null for all lead times together)'),
+  verified_days: z.number(),
+  max_temp: errorStatsSchema,
+  min_temp: errorStatsSchema,
+  precipitation: errorStatsSchema,
+  rain: z.object({
+    hit_rate: z.number().describe('Share of days where rain/no-rain was forecast correctly (0-1)'),
+    hits: z.number(),
+    misses: z.number(),
+    false_alarms: z.number(),
+    correct_negatives: z.number()
+  }).nullable(),
+  brier_score: z.number().nullable().describe('Brier score of P(rain > 1 mm) (0 = perfect)'),
+  brier_days: z.number()
+});
+
+/** Result of get_forecast_accuracy */
+const accuracyOutput = {
+  location: locationSchema,
+  site: z.object({ id: z.string(), latitude: z.number(), longitude: z.number() }).describe('Grid cell the forecasts were recorded for'),
+  period: z.object({ start: z.string(), end: z.string() }),
+  forecasts_recorded: z.number(),
+  first_issued: z.string().nullable(),
+  summary: z.string(),
+  overall: leadTimeSkillSchema,
+  by_lead_time: z.array(leadTimeSkillSchema),
+  notes: z.array(z.string()),
+  data_source: z.string()
+};
+
+/**
+ * Register the forecast verification tools on a server
+ */
+export function registerVerificationTools(server: McpServer, context: ToolContext): void {
+  server.registerTool(
+    'get_forecast_accuracy',
+    {
+      description: 'How far to trust the forecast at a location: compares forecasts previously requested through this server with what was later observed. Reports mean absolute error and bias of temperatures and rainfall, the rain/no-rain hit rate and, where ensemble probabilities were requested, the Brier score, overall and per lead time (days ahead). Only locations that have had forecasts requested before can be checked.',
+      inputSchema: {
+        ...locationArgs,
+        days_back: z.number().int().min(7).max(DEFAULT_SNAPSHOT_RETENTION_DAYS).default(90).optional().describe(`Forecast dates from this many days ago to include (7-${DEFAULT_SNAPSHOT_RETENTION_DAYS}, default: 90)`),
+        verify_now: z.boolean().default(true).optional().describe('Fetch observations for forecast dates that have passed before computing (default: true)')
+      },
+      outputSchema: accuracyOutput
+    },
+    async ({ farm_id, latitude, longitude, place, days_back = 90, verify_now = true }, extra) => {
+      try {
+        const location = await resolveLocation({ farm_id, latitude, longitude, place }, context);
+        const lat = location.latitude;
+        const lon = location.longitude;
+
+        console.log(`[MCP Tool] get_forecast_accuracy called: lat=${lat}, lon=${lon}, days_back=${days_back}`);
+
+        const gapClient = context.gapClient;
+        if (!gapClient) {
+          return toolError('not_configured');
+        }
+
+        if (verify_now) {
+          const report = progressReporter(extra);
+          await verifyForecasts(context.forecastSnapshots, gapClient, siteId(lat, lon), {
+            signal: extra.signal,
+            onProgress: (done, total) => report(done, total, 'Fetched observations for recorded forecasts')
+          });
+        }
+
+        // A location without recorded forecasts gets an empty report
+        const site = await context.forecastSnapshots.site(lat, lon)
+          ?? { id: siteId(lat, lon), latitude: lat, longitude: lon, snapshots: [], observations: {} };
+
+        const since = today(-days_back);
+        const { overall, by_lead_time } = computeSkill(site, since);
+        const snapshots = site.snapshots.filter(snapshot => snapshot.days.some(day => day.date >= since));
+
+        return toolResult(accuracyOutput, {
+          location: describeLocation(location),
+          site: { id: site.id, latitude: site.latitude, longitude: site.longitude },
+          period: { start: since, end: today() },
+          forecasts_recorded: snapshots.length,
+          first_issued: snapshots[0]?.issued_on ?? null,
+          summary: site.snapshots.length === 0
+            ? 'No forecasts have been recorded for this location yet. Forecasts are saved each time one is requested, and can be checked a few days after their dates have passed.'
+            : describeSkill(overall, by_lead_time),
+          overall,
+          by_lead_time,
+          notes: [
+            'MAE: mean absolute error. Bias: mean of forecast minus observed (positive: forecast too high).',
+            'Hit rate: share of days where rain (> 1 mm) or no rain was forecast correctly.',
+            'Brier score: error of the ensemble rain probability (0 is perfect, 0.25 is no better than always saying 50%).'
+          ],
+          data_source: 'Recorded TomorrowNow GAP forecasts (salient_seasonal_forecast) verified against cbam_historical_analysis'
+        });
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in get_forecast_accuracy:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+}
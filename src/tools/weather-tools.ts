@@ -0,0 +1,555 @@
+/**
+ * MCP tools for weather forecasts and observations
+ *
+ * Tools: get_gap_weather_forecast, get_gap_historical_weather,
+ * get_gap_farming_forecast, get_gap_batch_forecast
+ *
+ * Each takes a `format` argument for CSV, GeoJSON, Markdown or SMS text
+ * content; the structured content stays JSON.
+ *
+ * @module tools/weather-tools
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { buildAnomalyVerdict, formatFarmingForecast } from '../anomalies.js';
+import { BatchLocationTotals, buildBatchSummary, mapWithConcurrency } from '../batch.js';
+import { daysBetween, ISO_DATE_PATTERN, parseDate, today } from '../date-utils.js';
+import { GAPCancelledError, GAPOutOfCoverageError } from '../errors.js';
+import { combineProvenance, GAPRequestOptions, GAPResponse } from '../gap-client.js';
+import { describeLocation, ResolvedLocation, resolveLocation } from '../location.js';
+import { renderReport } from '../renderers.js';
+import { describeError, toolError, toolErrorFromException, ToolErrorDetails } from '../tool-errors.js';
+import { buildPeriodTotals, buildWeatherSummary, formatDailyWeather, isAllNull, toGapThreshold } from '../weather-format.js';
+import { ensembleArgs, formatArgs, locationArgs, normalArgs } from './args.js';
+import { ToolContext } from './context.js';
+import { compareWithClimatology } from './normals.js';
+import { progressReporter } from './progress.js';
+import {
+  anomalyVerdictSchema,
+  dailyEnsembleSchema,
+  dailyWeatherSchema,
+  errorSchema,
+  locationSchema,
+  normalComparisonSchema,
+  periodSchema,
+  periodTotalsSchema,
+  provenanceSchema,
+  toolResult,
+  weatherSummarySchema
+} from './schemas.js';
+
+/** Longest period the historical tool accepts in one call (days) */
+const MAX_HISTORICAL_DAYS = 366;
+
+/** Most locations accepted by the batch forecast tool */
+const MAX_BATCH_LOCATIONS = 50;
+
+/** Concurrent GAP requests made by the batch forecast tool */
+const BATCH_CONCURRENCY = 5;
+
+/**
+ * Build GAP request options from the shared ensemble arguments
+ */
+function ensembleOptions(
+  includeEnsemble: boolean | undefined,
+  thresholds: Array<{ attribute: string; operator: '>' | '>=' | '<' | '<='; value: number }> | undefined
+): GAPRequestOptions {
+  if (!includeEnsemble) {
+    return {};
+  }
+  return {
+    ensemble: true,
+    thresholds: thresholds?.map(t => toGapThreshold(t.attribute, t.operator, t.value))
+  };
+}
+
+/** Result of get_gap_weather_forecast */
+const forecastOutput = {
+  location: locationSchema,
+  period: periodSchema,
+  forecast: z.array(dailyWeatherSchema),
+  summary: weatherSummarySchema,
+  compared_to_normal: normalComparisonSchema.optional().describe('Only with compare_to_normal'),
+  data_source: z.string(),
+  provenance: provenanceSchema
+};
+
+/** Result of get_gap_historical_weather */
+const historicalOutput = {
+  location: locationSchema,
+  period: periodSchema,
+  observations: z.array(dailyWeatherSchema),
+  summary: weatherSummarySchema,
+  totals: periodTotalsSchema,
+  compared_to_normal: normalComparisonSchema.optional().describe('Only with compare_to_normal'),
+  data_source: z.string(),
+  provenance: provenanceSchema
+};
+
+/** One day of get_gap_farming_forecast */
+const farmingDaySchema = z.object({
+  date: z.string(),
+  max_temp: z.number().nullable(),
+  max_temp_anomaly: z.number().nullable().describe('Departure from normal (°C)'),
+  min_temp: z.number().nullable(),
+  min_temp_anomaly: z.number().nullable(),
+  precipitation: z.number().nullable(),
+  precipitation_anomaly: z.number().nullable().describe('Departure from normal (mm)'),
+  precipitation_anomaly_pct: z.number().nullable(),
+  humidity: z.number().nullable(),
+  humidity_anomaly: z.number().nullable(),
+  solar_radiation: z.number().nullable().describe('W/m²'),
+  wind_speed: z.number().nullable(),
+  anomalies: z.array(z.string()).describe('Readable departures, e.g. "2.3 °C warmer than normal"'),
+  ensemble: dailyEnsembleSchema.optional()
+});
+
+/** Result of get_gap_farming_forecast */
+const farmingForecastOutput = {
+  location: locationSchema,
+  period: periodSchema,
+  forecast: z.array(farmingDaySchema),
+  summary: weatherSummarySchema,
+  compared_to_normal: anomalyVerdictSchema,
+  data_source: z.string(),
+  provenance: provenanceSchema
+};
+
+const rankedLocationSchema = z.object({ name: z.string(), value: z.number() }).nullable();
+
+/** Result of get_gap_batch_forecast */
+const batchOutput = {
+  period: z.object({ days: z.number() }),
+  locations: z.array(z.union([
+    z.object({
+      name: z.string(),
+      location: locationSchema,
+      status: z.literal('ok'),
+      forecast: z.array(dailyWeatherSchema),
+      summary: weatherSummarySchema,
+      compared_to_normal: normalComparisonSchema.optional().describe('Only with compare_to_normal')
+    }),
+    z.object({
+      name: z.string(),
+      location: locationSchema.optional().describe('Missing when the location itself could not be resolved'),
+      status: z.literal('error'),
+      error: errorSchema
+    })
+  ])),
+  summary: z.object({
+    locations_requested: z.number(),
+    locations_succeeded: z.number(),
+    locations_failed: z.number(),
+    wettest: rankedLocationSchema,
+    driest: rankedLocationSchema,
+    hottest: rankedLocationSchema,
+    coolest: rankedLocationSchema,
+    precipitation_spread: z.object({
+      min: z.number(),
+      max: z.number(),
+      mean: z.number(),
+      range: z.number(),
+      std_dev: z.number()
+    }).nullable().describe('Spread of total rainfall across locations (mm)')
+  }),
+  data_source: z.string(),
+  provenance: provenanceSchema
+};
+
+/**
+ * Register the weather forecast and observation tools on a server
+ */
+export function registerWeatherTools(server: McpServer, context: ToolContext): void {
+  // Tool: Weather forecast
+  server.registerTool(
+    'get_gap_weather_forecast',
+    {
+      description: 'Get satellite weather forecast (temperature, rainfall, humidity, wind) for agricultural planning in Kenya and East Africa. Data from TomorrowNow GAP Platform.',
+      inputSchema: {
+        ...locationArgs,
+        days: z.number().min(1).max(14).default(7).optional().describe('Number of days to forecast (1-14, default: 7). Use 14 days for comprehensive analysis.'),
+        ...ensembleArgs,
+        ...normalArgs,
+        ...formatArgs
+      },
+      outputSchema: forecastOutput
+    },
+    async ({ farm_id, latitude, longitude, place, days = 7, include_ensemble, thresholds, compare_to_normal = false, format = 'json' }, extra) => {
+      try {
+        // Use farm, header or server defaults if coordinates not provided (never a silent fallback)
+        const location = await resolveLocation({ farm_id, latitude, longitude, place }, context);
+        const lat = location.latitude;
+        const lon = location.longitude;
+
+        console.log(`[MCP Tool] get_gap_weather_forecast called: lat=${lat}, lon=${lon}, days=${days}, farm_id=${farm_id}`);
+
+        if (typeof days !== 'number' || days < 1 || days > 14) {
+          return toolError('invalid_request', 'Invalid number of days. Please provide a value between 1 and 14.');
+        }
+
+        const gapClient = context.gapClient;
+        if (!gapClient) {
+          return toolError('not_configured');
+        }
+
+        const data = await gapClient.getForecast(lat, lon, days, { ...ensembleOptions(include_ensemble, thresholds), signal: extra.signal });
+
+        if (data.count === 0) {
+          return toolError('invalid_response', 'No weather data available for this location. Please check if the coordinates are correct.');
+        }
+
+        // Log sample of raw data to debug null values
+        if (data.results.length > 0) {
+          const sampleDay = data.results[0];
+          console.log('[MCP Tool] Sample day data:', {
+            date: sampleDay.date,
+            max_temperature: sampleDay.max_temperature,
+            min_temperature: sampleDay.min_temperature,
+            precipitation: sampleDay.precipitation,
+            relative_humidity: sampleDay.relative_humidity,
+            wind_speed: sampleDay.wind_speed,
+            allKeys: Object.keys(sampleDay)
+          });
+        }
+
+        // Format as clean JSON for Agent to analyze
+        const forecast = formatDailyWeather(data.results);
+        const report = progressReporter(extra);
+
+        // Check if all values are null - this indicates GAP API returned no data
+        if (isAllNull(forecast)) {
+          console.warn('[MCP Tool] ⚠️  All forecast values are null - GAP API may not have data for these dates');
+        }
+
+        // Return structured data that Agent can analyze intelligently
+        const response = {
+          location: describeLocation(location),
+          period: {
+            days: days,
+            start_date: forecast[0].date,
+            end_date: forecast[forecast.length - 1].date
+          },
+          forecast: forecast,
+          summary: buildWeatherSummary(forecast),
+          ...(compare_to_normal ? { compared_to_normal: await compareWithClimatology(context.climatology, gapClient, lat, lon, forecast, {
+            signal: extra.signal,
+            onProgress: (done, total) => report(done, total, `Climate baseline: year ${done} of ${total} fetched`)
+          }) } : {}),
+          data_source: 'TomorrowNow GAP Platform (satellite-based)',
+          provenance: combineProvenance(data)
+        };
+        return toolResult(forecastOutput, response, format === 'json' ? undefined : renderReport({
+          title: 'Forecast',
+          series: [{ location: response.location, days: forecast, summary: response.summary }]
+        }, format));
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in get_gap_weather_forecast:', error);
+        console.error('[MCP Tool] Error details:', {
+          message: error.message,
+          stack: error.stack,
+          name: error.name
+        });
+        
+        return toolErrorFromException(error);
+      }
+    }
+  );
+
+  // Tool: Historical weather observations
+  server.registerTool(
+    'get_gap_historical_weather',
+    {
+      description: 'Get observed past weather (temperature, rainfall) for a farm location, e.g. "how much rain fell last month?". Use days_back for recent history or start_date/end_date for a specific period. Data from TomorrowNow GAP Platform.',
+      inputSchema: {
+        ...locationArgs,
+        days_back: z.number().int().min(1).max(MAX_HISTORICAL_DAYS).optional().describe('Number of past days to fetch, ending today (default: 30). Ignored when start_date/end_date are given.'),
+        start_date: z.string().regex(ISO_DATE_PATTERN).optional().describe('First day of the period (YYYY-MM-DD). Requires end_date.'),
+        end_date: z.string().regex(ISO_DATE_PATTERN).optional().describe('Last day of the period (YYYY-MM-DD). Requires start_date.'),
+        ...normalArgs,
+        ...formatArgs
+      },
+      outputSchema: historicalOutput
+    },
+    async ({ farm_id, latitude, longitude, place, days_back, start_date, end_date, compare_to_normal = false, format = 'json' }, extra) => {
+      try {
+        const location = await resolveLocation({ farm_id, latitude, longitude, place }, context);
+        const lat = location.latitude;
+        const lon = location.longitude;
+
+        console.log(`[MCP Tool] get_gap_historical_weather called: lat=${lat}, lon=${lon}, days_back=${days_back}, start_date=${start_date}, end_date=${end_date}`);
+
+        // Resolve the requested period
+        let startDate: string;
+        let endDate: string;
+        if (start_date || end_date) {
+          if (!start_date || !end_date) {
+            return toolError('invalid_request', 'Please provide both start_date and end_date (YYYY-MM-DD), or use days_back instead.');
+          }
+          try {
+            parseDate(start_date);
+            parseDate(end_date);
+          } catch {
+            return toolError('invalid_request', 'Invalid date. Please use real calendar dates in YYYY-MM-DD format.');
+          }
+          startDate = start_date;
+          endDate = end_date;
+        } else {
+          endDate = today();
+          startDate = today(-(days_back ?? 30));
+        }
+
+        const periodDays = daysBetween(startDate, endDate) + 1;
+        if (periodDays < 1) {
+          return toolError('invalid_request', 'The start date must be on or before the end date.');
+        }
+        if (daysBetween(today(), endDate) > 0) {
+          return toolError('invalid_request', 'Historical weather is only available up to today. For future dates, use the weather forecast tool.');
+        }
+        if (periodDays > MAX_HISTORICAL_DAYS) {
+          return toolError('invalid_request', `That period is too long. Please ask for at most ${MAX_HISTORICAL_DAYS} days at a time.`);
+        }
+
+        const gapClient = context.gapClient;
+        if (!gapClient) {
+          return toolError('not_configured');
+        }
+
+        // Progress counts the GAP requests: the period's chunks, then any climate baseline years
+        const report = progressReporter(extra);
+        let chunks = 0;
+        const data = await gapClient.getHistoricalRange(lat, lon, startDate, endDate, {
+          signal: extra.signal,
+          onProgress: (done, total) => {
+            chunks = total;
+            report(done, total, `Fetched ${done} of ${total} periods`);
+          }
+        });
+
+        if (data.count === 0) {
+          return toolError('invalid_response', 'No past weather data available for this location and period. Please check if the coordinates and dates are correct.');
+        }
+
+        const observations = formatDailyWeather(data.results);
+
+        if (isAllNull(observations)) {
+          console.warn('[MCP Tool] ⚠️  All historical values are null - GAP API may not have data for these dates');
+        }
+
+        const response = {
+          location: describeLocation(location),
+          period: {
+            days: periodDays,
+            start_date: startDate,
+            end_date: endDate
+          },
+          observations,
+          summary: buildWeatherSummary(observations),
+          totals: buildPeriodTotals(observations),
+          ...(compare_to_normal ? { compared_to_normal: await compareWithClimatology(context.climatology, gapClient, lat, lon, observations, {
+            signal: extra.signal,
+            onProgress: (done, total) => report(chunks + done, chunks + total, `Climate baseline: year ${done} of ${total} fetched`)
+          }) } : {}),
+          data_source: 'TomorrowNow GAP Platform (historical analysis)',
+          provenance: combineProvenance(data)
+        };
+        return toolResult(historicalOutput, response, format === 'json' ? undefined : renderReport({
+          title: 'Observed weather',
+          series: [{ location: response.location, days: observations, summary: response.summary, totals: response.totals }]
+        }, format));
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in get_gap_historical_weather:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+
+  // Tool: Farming forecast with anomalies (comparison with normal)
+  server.registerTool(
+    'get_gap_farming_forecast',
+    {
+      description: 'Get a detailed farming forecast that compares each day with normal conditions (e.g. "2.3 °C warmer than normal", "rainfall 40% below normal") and gives an overall verdict such as "wetter than normal week". Includes solar radiation. Data from TomorrowNow GAP Platform.',
+      inputSchema: {
+        ...locationArgs,
+        days: z.number().min(1).max(14).default(14).optional().describe('Number of days to forecast (1-14, default: 14).'),
+        ...ensembleArgs,
+        ...formatArgs
+      },
+      outputSchema: farmingForecastOutput
+    },
+    async ({ farm_id, latitude, longitude, place, days = 14, include_ensemble, thresholds, format = 'json' }, extra) => {
+      try {
+        const location = await resolveLocation({ farm_id, latitude, longitude, place }, context);
+        const lat = location.latitude;
+        const lon = location.longitude;
+
+        console.log(`[MCP Tool] get_gap_farming_forecast called: lat=${lat}, lon=${lon}, days=${days}`);
+
+        const gapClient = context.gapClient;
+        if (!gapClient) {
+          return toolError('not_configured');
+        }
+
+        const data = await gapClient.getFarmingForecast(lat, lon, days, { ...ensembleOptions(include_ensemble, thresholds), signal: extra.signal });
+
+        if (data.count === 0) {
+          return toolError('invalid_response', 'No weather data available for this location. Please check if the coordinates are correct.');
+        }
+
+        const forecast = formatFarmingForecast(data.results);
+
+        const response = {
+          location: describeLocation(location),
+          period: {
+            days: days,
+            start_date: forecast[0].date,
+            end_date: forecast[forecast.length - 1].date
+          },
+          forecast,
+          summary: buildWeatherSummary(formatDailyWeather(data.results)),
+          compared_to_normal: buildAnomalyVerdict(forecast),
+          data_source: 'TomorrowNow GAP Platform (satellite-based)',
+          provenance: combineProvenance(data)
+        };
+        return toolResult(farmingForecastOutput, response, format === 'json' ? undefined : renderReport({
+          title: 'Farming forecast',
+          series: [{ location: response.location, days: forecast, summary: response.summary }]
+        }, format));
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in get_gap_farming_forecast:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+
+  // Tool: Batch forecast for many farms
+  server.registerTool(
+    'get_gap_batch_forecast',
+    {
+      description: `Get the weather forecast for many farms at once (up to ${MAX_BATCH_LOCATIONS}), e.g. all members of a cooperative. Returns each farm's daily forecast plus a comparison: wettest and driest farm, hottest and coolest farm, and the spread of rainfall. With compare_to_normal, each farm's forecast period is also compared with its local climatology. Data from TomorrowNow GAP Platform.`,
+      inputSchema: {
+        locations: z.array(z.object({
+          name: z.string().min(1).optional().describe('Farm or member name used in the results (defaults to the registered farm name)'),
+          ...locationArgs
+        })).min(1).max(MAX_BATCH_LOCATIONS).describe(`Named points to forecast (1-${MAX_BATCH_LOCATIONS}), each with a farm_id, latitude/longitude or place`),
+        days: z.number().min(1).max(14).default(7).optional().describe('Number of days to forecast (1-14, default: 7).'),
+        ...normalArgs,
+        ...formatArgs
+      },
+      outputSchema: batchOutput
+    },
+    async ({ locations, days = 7, compare_to_normal = false, format = 'json' }, extra) => {
+      try {
+        console.log(`[MCP Tool] get_gap_batch_forecast called: ${locations.length} locations, days=${days}`);
+
+        // Resolve every point up front (farm lookups, places, coordinate checks); header defaults don't apply.
+        // A point that fails to resolve, or is outside coverage (checked below), is reported on its own
+        // so one bad point doesn't fail the whole batch.
+        const points: Array<{ name: string; location?: ResolvedLocation; error?: ToolErrorDetails }> = [];
+        for (const [index, item] of locations.entries()) {
+          try {
+            const location = await resolveLocation(item, { registry: context.registry, coverageMode: 'warn' });
+            const name = item.name ?? location.farm?.name ?? location.place?.name;
+            if (!name) {
+              return toolError('invalid_request', `Location ${index + 1} needs a name, a farm_id or a place.`);
+            }
+            points.push({ name, location });
+          } catch (error) {
+            const name = item.name ?? item.farm_id ?? item.place ?? `Location ${index + 1}`;
+            console.error(`[MCP Tool] Batch location ${name} could not be resolved:`, error);
+            points.push({ name, error: describeError(error) });
+          }
+        }
+
+        const names = new Set(points.map(l => l.name));
+        if (names.size !== points.length) {
+          return toolError('invalid_request', 'Each location needs a unique name so the results can be told apart.');
+        }
+
+        const gapClient = context.gapClient;
+        if (!gapClient) {
+          return toolError('not_configured');
+        }
+
+        const report = progressReporter(extra);
+        const responses: GAPResponse[] = [];
+        let completed = 0;
+        const results = await mapWithConcurrency(points, BATCH_CONCURRENCY, async ({ name, location, error: resolveError }) => {
+          try {
+            if (!location) {
+              return { name, status: 'error' as const, error: resolveError! };
+            }
+            if (location.in_coverage === false && context.coverageMode === 'reject') {
+              throw new GAPOutOfCoverageError(`Location ${name} is outside the GAP coverage area`);
+            }
+            const data = await gapClient.getForecast(location.latitude, location.longitude, days, { signal: extra.signal });
+            responses.push(data);
+            const forecast = formatDailyWeather(data.results);
+            return {
+              name,
+              location: describeLocation(location),
+              status: 'ok' as const,
+              forecast,
+              summary: buildWeatherSummary(forecast),
+              ...(compare_to_normal ? { compared_to_normal: await compareWithClimatology(
+                context.climatology, gapClient, location.latitude, location.longitude, forecast, { signal: extra.signal }
+              ) } : {})
+            };
+          } catch (error) {
+            if (error instanceof GAPCancelledError) throw error;
+            console.error(`[MCP Tool] Batch forecast failed for ${name}:`, error);
+            return {
+              name,
+              ...(location ? { location: describeLocation(location) } : {}),
+              status: 'error' as const,
+              error: describeError(error)
+            };
+          } finally {
+            completed++;
+            report(completed, points.length, `Forecast ready for ${completed} of ${points.length} locations`);
+          }
+        });
+
+        const totals: BatchLocationTotals[] = [];
+        let firstError: ToolErrorDetails | undefined;
+        results.forEach(result => {
+          if (result.status === 'ok') {
+            totals.push({
+              name: result.name,
+              total_precipitation: result.summary.total_precipitation,
+              avg_max_temp: result.summary.avg_max_temp
+            });
+          } else {
+            firstError ??= result.error;
+          }
+        });
+
+        // Every location failed: surface the first error as the tool error
+        if (totals.length === 0 && firstError) {
+          return toolError(firstError.code, firstError.message, firstError.retry_after_seconds);
+        }
+
+        return toolResult(batchOutput, {
+          period: {
+            days: days
+          },
+          locations: results,
+          summary: buildBatchSummary(locations.length, totals),
+          data_source: 'TomorrowNow GAP Platform (satellite-based)',
+          provenance: combineProvenance(...responses)
+        }, format === 'json' ? undefined : renderReport({
+          title: 'Batch forecast',
+          series: results.map(result => result.status === 'ok'
+            ? { name: result.name, location: result.location, days: result.forecast, summary: result.summary }
+            : { name: result.name, location: result.location, days: [], error: result.error.message })
+        }, format));
+      } catch (error: any) {
+        console.error('[MCP Tool] Error in get_gap_batch_forecast:', error);
+
+        return toolErrorFromException(error);
+      }
+    }
+  );
+}
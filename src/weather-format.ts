@@ -0,0 +1,284 @@
+/**
+ * Farmer-facing formatting for GAP measurement results
+ *
+ * Shared by every weather tool so that forecast and historical responses
+ * expose exactly the same per-day shape and summary block.
+ *
+ * @module weather-format
+ */
+
+import { GAPMeasurementResult } from './gap-client.js';
+import { EnsembleSummary, EnsembleThreshold, ThresholdOperator } from './ensemble.js';
+
+/**
+ * One day of weather in the shape returned by the MCP tools
+ * Values are rounded to one decimal; null means GAP had no data for that field
+ */
+export interface DailyWeather {
+  /** Date in YYYY-MM-DD format */
+  date: string;
+
+  /** Maximum temperature (°C) */
+  max_temp: number | null;
+
+  /** Minimum temperature (°C) */
+  min_temp: number | null;
+
+  /** Precipitation (mm) */
+  precipitation: number | null;
+
+  /** Relative humidity (%) */
+  humidity: number | null;
+
+  /** Wind speed (m/s) */
+  wind_speed: number | null;
+
+  /** Ensemble spread and probabilities (only when requested) */
+  ensemble?: DailyEnsemble;
+}
+
+/**
+ * Ensemble statistics for one attribute, in display units
+ */
+export interface DisplayEnsembleStats {
+  members: number;
+  mean: number;
+  median: number;
+  p10: number;
+  p90: number;
+  min: number;
+  max: number;
+  std_dev: number;
+}
+
+/**
+ * Threshold probability in display units
+ */
+export interface DisplayThresholdProbability {
+  /** e.g. "P(precipitation > 5 mm)" */
+  label: string;
+  attribute: string;
+  operator: ThresholdOperator;
+  threshold: number;
+  /** Share of ensemble members meeting the condition (0-1) */
+  probability: number;
+}
+
+/**
+ * Ensemble block in the tool response, keyed by tool field name
+ */
+export interface DailyEnsemble {
+  stats: Record<string, DisplayEnsembleStats>;
+  probabilities: DisplayThresholdProbability[];
+}
+
+/**
+ * How GAP attributes are presented by the tools: field name, scale and unit
+ */
+export const DISPLAY_FIELDS: Record<string, { name: string; multiplier: number; unit: string }> = {
+  max_temperature: { name: 'max_temp', multiplier: 1, unit: '°C' },
+  min_temperature: { name: 'min_temp', multiplier: 1, unit: '°C' },
+  precipitation: { name: 'precipitation', multiplier: 1, unit: 'mm' },
+  relative_humidity: { name: 'humidity', multiplier: 100, unit: '%' },
+  wind_speed: { name: 'wind_speed', multiplier: 1, unit: 'm/s' },
+  solar_radiation: { name: 'solar_radiation', multiplier: 1, unit: 'W/m²' }
+};
+
+/**
+ * Look up the display settings for a GAP attribute (identity when unknown)
+ */
+function displayField(attribute: string): { name: string; multiplier: number; unit: string } {
+  return DISPLAY_FIELDS[attribute] ?? { name: attribute, multiplier: 1, unit: '' };
+}
+
+/**
+ * Convert a threshold given in display units (e.g. humidity in %) to GAP units
+ *
+ * @param field - Tool field name (e.g. 'humidity') or GAP attribute name
+ */
+export function toGapThreshold(field: string, operator: ThresholdOperator, value: number): EnsembleThreshold {
+  const entry = Object.entries(DISPLAY_FIELDS).find(([, display]) => display.name === field);
+  const [attribute, display] = entry ?? [field, displayField(field)];
+  return { attribute, operator, value: value / display.multiplier };
+}
+
+/**
+ * Convert a client-side ensemble block to display units and field names
+ */
+export function formatEnsemble(summary: EnsembleSummary): DailyEnsemble {
+  const round = (value: number, multiplier: number) => Number((value * multiplier).toFixed(1));
+
+  const stats: Record<string, DisplayEnsembleStats> = {};
+  Object.entries(summary.stats).forEach(([attr, stat]) => {
+    const { name, multiplier } = displayField(attr);
+    stats[name] = {
+      members: stat.members,
+      mean: round(stat.mean, multiplier),
+      median: round(stat.median, multiplier),
+      p10: round(stat.p10, multiplier),
+      p90: round(stat.p90, multiplier),
+      min: round(stat.min, multiplier),
+      max: round(stat.max, multiplier),
+      std_dev: round(stat.std_dev, multiplier)
+    };
+  });
+
+  const probabilities = summary.probabilities.map((p) => {
+    const { name, multiplier, unit } = displayField(p.attribute);
+    const threshold = Number((p.value * multiplier).toFixed(2));
+    return {
+      label: `P(${name} ${p.operator} ${threshold}${unit ? ` ${unit}` : ''})`,
+      attribute: name,
+      operator: p.operator,
+      threshold,
+      probability: Number(p.probability.toFixed(2))
+    };
+  });
+
+  return { stats, probabilities };
+}
+
+/**
+ * Summary block shared by the forecast and historical tools
+ */
+export interface WeatherSummary {
+  avg_max_temp: number | null;
+  avg_min_temp: number | null;
+  total_precipitation: number | null;
+  avg_humidity: number | null;
+}
+
+/**
+ * Convert a raw attribute value to a rounded number (or null when missing)
+ *
+ * @param value - Raw attribute value from a GAP result
+ * @param multiplier - Optional scale factor (e.g. 100 for humidity fractions)
+ */
+export function toNumber(value: unknown, multiplier = 1): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return Number((value * multiplier).toFixed(1));
+  }
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? Number((parsed * multiplier).toFixed(1)) : null;
+}
+
+/**
+ * Average (or total) a list of optional values, ignoring nulls
+ *
+ * @param values - Values to aggregate
+ * @param total - Return the sum instead of the mean
+ * @returns Rounded aggregate, or null when no values are present
+ */
+export function buildAverage(values: Array<number | null>, total = false): number | null {
+  const filtered = values.filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+  if (!filtered.length) {
+    return null;
+  }
+
+  const aggregate = filtered.reduce((sum, val) => sum + val, 0);
+  const result = total ? aggregate : aggregate / filtered.length;
+  return Number(result.toFixed(1));
+}
+
+/**
+ * Map processed GAP results to the per-day tool shape
+ */
+export function formatDailyWeather(results: GAPMeasurementResult[]): DailyWeather[] {
+  return results.map((day) => ({
+    date: day.date,
+    max_temp: toNumber(day.max_temperature),
+    min_temp: toNumber(day.min_temperature),
+    precipitation: toNumber(day.precipitation),
+    humidity: toNumber(day.relative_humidity, 100),
+    wind_speed: toNumber(day.wind_speed),
+    ...(day.ensemble ? { ensemble: formatEnsemble(day.ensemble) } : {})
+  }));
+}
+
+/**
+ * Build the summary block for a list of days
+ */
+export function buildWeatherSummary(days: DailyWeather[]): WeatherSummary {
+  return {
+    avg_max_temp: buildAverage(days.map(d => d.max_temp ?? null)),
+    avg_min_temp: buildAverage(days.map(d => d.min_temp ?? null)),
+    total_precipitation: buildAverage(days.map(d => d.precipitation ?? null), true),
+    avg_humidity: buildAverage(days.map(d => d.humidity ?? null))
+  };
+}
+
+/**
+ * True when every field of every day is null
+ * (GAP answered, but had no data for the requested dates)
+ */
+export function isAllNull(days: DailyWeather[]): boolean {
+  return days.every(day =>
+    day.max_temp === null &&
+    day.min_temp === null &&
+    day.precipitation === null &&
+    day.humidity === null &&
+    day.wind_speed === null
+  );
+}
+
+/** A single-day extreme value with the date it occurred */
+export interface DatedValue {
+  date: string;
+  value: number;
+}
+
+/**
+ * Period totals reported for historical observations
+ */
+export interface PeriodTotals {
+  /** Total precipitation over the period (mm) */
+  total_precipitation: number | null;
+
+  /** Days with at least RAINY_DAY_THRESHOLD_MM of rain */
+  rainy_days: number;
+
+  /** Day with the most rain */
+  wettest_day: DatedValue | null;
+
+  /** Highest daily maximum temperature */
+  highest_max_temp: DatedValue | null;
+
+  /** Lowest daily minimum temperature */
+  lowest_min_temp: DatedValue | null;
+}
+
+/** Minimum daily rainfall (mm) for a day to count as rainy */
+export const RAINY_DAY_THRESHOLD_MM = 1;
+
+/**
+ * Find the day with the highest (or lowest) value of a field
+ */
+function findExtreme(
+  days: DailyWeather[],
+  field: 'max_temp' | 'min_temp' | 'precipitation' | 'humidity' | 'wind_speed',
+  mode: 'max' | 'min'
+): DatedValue | null {
+  let extreme: DatedValue | null = null;
+  for (const day of days) {
+    const value = day[field];
+    if (value === null) continue;
+    if (!extreme || (mode === 'max' ? value > extreme.value : value < extreme.value)) {
+      extreme = { date: day.date, value };
+    }
+  }
+  return extreme;
+}
+
+/**
+ * Build precipitation totals and temperature extremes for a period
+ */
+export function buildPeriodTotals(days: DailyWeather[]): PeriodTotals {
+  return {
+    total_precipitation: buildAverage(days.map(d => d.precipitation), true),
+    rainy_days: days.filter(d => d.precipitation !== null && d.precipitation >= RAINY_DAY_THRESHOLD_MM).length,
+    wettest_day: findExtreme(days, 'precipitation', 'max'),
+    highest_max_temp: findExtreme(days, 'max_temp', 'max'),
+    lowest_min_temp: findExtreme(days, 'min_temp', 'min')
+  };
+}
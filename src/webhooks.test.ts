@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import { deliverWebhook, signPayload, WebhookDeliveryError } from './webhooks.js';
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/** Status codes the test receiver answers with, in order (null: never answer) */
+let replies: Array<number | null> = [];
+let received: Received[] = [];
+let server: http.Server;
+let url: string;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      const status = replies.length > 0 ? replies.shift() : 200;
+      if (status) res.writeHead(status).end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+beforeEach(() => {
+  replies = [];
+  received = [];
+  mock.restoreAll();
+  mock.method(console, 'warn', () => undefined);
+});
+
+describe('signPayload', () => {
+  it('signs "<timestamp>.<body>" with HMAC-SHA256', () => {
+    const expected = createHmac('sha256', 'secret').update('1760850000.{"a":1}').digest('hex');
+    assert.equal(signPayload('secret', 1760850000, '{"a":1}'), expected);
+    assert.notEqual(signPayload('other', 1760850000, '{"a":1}'), expected);
+  });
+});
+
+describe('deliverWebhook', () => {
+  it('POSTs the payload with event id, timestamp and a verifiable signature', async () => {
+    const delivery = await deliverWebhook(url, 'rule-1:2026-10-21', { type: 'alert.triggered' }, 'secret');
+    assert.deepEqual(delivery, { status: 200, attempts: 1 });
+
+    const [request] = received;
+    assert.equal(request.body, '{"type":"alert.triggered"}');
+    assert.equal(request.headers['content-type'], 'application/json');
+    assert.equal(request.headers['x-gap-event-id'], 'rule-1:2026-10-21');
+    const timestamp = Number(request.headers['x-gap-timestamp']);
+    assert.ok(Math.abs(timestamp - Date.now() / 1000) < 60);
+    assert.equal(request.headers['x-gap-signature'], `sha256=${signPayload('secret', timestamp, request.body)}`);
+  });
+
+  it('retries 5xx and 429 responses', async () => {
+    replies = [503, 429, 200];
+    const delivery = await deliverWebhook(url, 'event', {}, 'secret', { baseDelayMs: 1 });
+    assert.deepEqual(delivery, { status: 200, attempts: 3 });
+  });
+
+  it('does not retry other rejections', async () => {
+    replies = [400];
+    await assert.rejects(deliverWebhook(url, 'event', {}, 'secret', { baseDelayMs: 1 }), (error: unknown) =>
+      error instanceof WebhookDeliveryError && error.status === 400);
+    assert.equal(received.length, 1);
+  });
+
+  it('gives up after maxAttempts', async () => {
+    replies = [500, 500];
+    await assert.rejects(deliverWebhook(url, 'event', {}, 'secret', { maxAttempts: 2, baseDelayMs: 1 }), /HTTP 500 after 2 attempt\(s\)/);
+    assert.equal(received.length, 2);
+  });
+
+  it('times out receivers that do not answer', async () => {
+    replies = [null];
+    await assert.rejects(deliverWebhook(url, 'event', {}, 'secret', { maxAttempts: 1, timeoutMs: 50 }), /no response within 50 ms/);
+  });
+});
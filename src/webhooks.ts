@@ -0,0 +1,130 @@
+/**
+ * Signed webhook delivery
+ *
+ * Alerts are POSTed as JSON with headers the receiver can use to check
+ * them:
+ * - X-GAP-Event-Id: unique per event (also useful for receiver-side de-duplication)
+ * - X-GAP-Timestamp: Unix seconds when the request was signed
+ * - X-GAP-Signature: "sha256=" + hex HMAC-SHA256 of "<timestamp>.<body>" with the rule's secret
+ *
+ * Network failures, 429 and 5xx responses are retried with backoff; any
+ * other response is final.
+ *
+ * @module webhooks
+ */
+
+import { createHmac } from 'node:crypto';
+import fetch from 'node-fetch';
+import { backoffDelay } from './resilience.js';
+
+/**
+ * Delivery settings
+ */
+export interface WebhookOptions {
+  /** Total attempts including the first one (default: 3) */
+  maxAttempts?: number;
+
+  /** Timeout per attempt in milliseconds (default: 10000) */
+  timeoutMs?: number;
+
+  /** Delay before the first retry in milliseconds (default: 1000) */
+  baseDelayMs?: number;
+}
+
+/**
+ * Outcome of a successful delivery
+ */
+export interface WebhookDelivery {
+  status: number;
+  attempts: number;
+}
+
+/**
+ * Raised when a webhook could not be delivered
+ */
+export class WebhookDeliveryError extends Error {
+  constructor(readonly url: string, message: string, readonly status?: number) {
+    super(`Webhook delivery to ${url} failed: ${message}`);
+    this.name = 'WebhookDeliveryError';
+  }
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Signature of a payload: hex HMAC-SHA256 of "<timestamp>.<body>"
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * POST a signed JSON payload
+ *
+ * @param url - Receiver URL (http or https)
+ * @param eventId - Unique event id sent as X-GAP-Event-Id
+ * @param payload - JSON body
+ * @param secret - Signing secret
+ * @throws WebhookDeliveryError when every attempt failed or the receiver rejected the payload
+ *
+ * @example
+ * ```typescript
+ * await deliverWebhook('http://localhost:4000/hooks', 'rule-1:2026-10-21', { type: 'alert.triggered' }, rule.secret);
+ * ```
+ */
+export async function deliverWebhook(
+  url: string,
+  eventId: string,
+  payload: unknown,
+  secret: string,
+  options: WebhookOptions = {}
+): Promise<WebhookDelivery> {
+  const maxAttempts = options.maxAttempts ?? 3;
+  const timeoutMs = options.timeoutMs ?? 10000;
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  const body = JSON.stringify(payload);
+
+  for (let attempt = 1; ; attempt++) {
+    // Sign each attempt so receivers can reject stale timestamps
+    const timestamp = Math.floor(Date.now() / 1000);
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    let status: number | undefined;
+    let failure: string;
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'GAP-MCP-Server/2.0.0',
+          'X-GAP-Event-Id': eventId,
+          'X-GAP-Timestamp': String(timestamp),
+          'X-GAP-Signature': `sha256=${signPayload(secret, timestamp, body)}`
+        },
+        body,
+        signal: controller.signal
+      });
+      status = response.status;
+      if (response.ok) {
+        return { status, attempts: attempt };
+      }
+      failure = `HTTP ${status}`;
+      if (status !== 429 && status < 500) {
+        throw new WebhookDeliveryError(url, failure, status);
+      }
+    } catch (error: any) {
+      if (error instanceof WebhookDeliveryError) throw error;
+      failure = error.name === 'AbortError' ? `no response within ${timeoutMs} ms` : error.message;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (attempt >= maxAttempts) {
+      throw new WebhookDeliveryError(url, `${failure} after ${attempt} attempt(s)`, status);
+    }
+    const delay = backoffDelay(attempt, baseDelayMs, baseDelayMs * 8);
+    console.warn(`[Webhook] ${failure} from ${url} on attempt ${attempt}/${maxAttempts}, retrying in ${delay}ms`);
+    await sleep(delay);
+  }
+}